@@ -1,6 +1,5 @@
 import express from 'express';
 import cors from 'cors';
-import { existsSync, mkdirSync, readFileSync, writeFileSync, renameSync, unlinkSync, readdirSync } from 'fs';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
 import bcryptjs from 'bcryptjs';
@@ -8,131 +7,148 @@ import jwt from 'jsonwebtoken';
 import { randomUUID } from 'crypto';
 // Note: .js extension required for ES module imports (references compiled output)
 import { PASSWORD_VALIDATION } from './src/lib/validation.js';
+import {
+  ExerciseSchema,
+  NewSetSchema,
+  SessionStatusSchema,
+  WorkoutPlanSchema,
+  WorkoutSessionSchema,
+  formatSchemaError,
+} from './src/lib/schemas.js';
+import type { WorkoutPlan, WorkoutSession } from './src/lib/types.js';
+import {
+  createStorage,
+  InvalidDataError,
+  PLANS_KEY,
+  RevisionConflictError,
+  SESSIONS_KEY,
+  SessionQuery,
+  planRevisionKey,
+  sessionRevisionKey,
+} from './server/storage/index.js';
+import { deprecateCatalogExercise, readCatalog, saveCatalogExercise } from './server/exercise-catalog.js';
+import type { ZodType, ZodTypeDef } from 'zod';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const app = express();
 const port = process.env.PORT || 3000;
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-key-change-in-production';
+// Comma-separated emails of users who may edit the exercise catalog
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || '')
+  .split(',')
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
 
 // Middleware
-app.use(cors());
+// ETag carries the revision used for optimistic concurrency (If-Match)
+app.use(cors({ exposedHeaders: ['ETag'] }));
 app.use(express.json());
 
-// Data storage directory
+// Data storage directory and engine
 const dataDir = join(__dirname, '.data');
-if (!existsSync(dataDir)) {
-  mkdirSync(dataDir, { recursive: true });
-}
-
-const usersFilePath = join(dataDir, 'users.json');
-
-interface User {
-  id: string;
-  email: string;
-  password: string;
-  createdAt: number;
-}
+const storage = createStorage({
+  driver: process.env.STORAGE_DRIVER,
+  dataDir,
+  sqlitePath: process.env.SQLITE_PATH,
+});
 
 /**
- * Load users from JSON file
+ * JWT verification middleware
  */
-function loadUsers(): Record<string, User> {
+function verifyToken(req: express.Request, res: express.Response, next: express.NextFunction): void {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.replace('Bearer ', '');
+
+  if (!token) {
+    return res.status(401).json({ success: false, error: 'Missing authorization token' });
+  }
+
   try {
-    if (existsSync(usersFilePath)) {
-      return JSON.parse(readFileSync(usersFilePath, 'utf-8'));
-    }
-  } catch (error) {
-    console.error('Error loading users:', error);
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    req.userId = decoded.userId;
+    next();
+  } catch (_error) {
+    res.status(401).json({ success: false, error: 'Invalid or expired token' });
   }
-  return {};
 }
 
 /**
- * Save users to JSON file
+ * Admin check; runs after verifyToken
  */
-function saveUsers(users: Record<string, User>): void {
-  try {
-    const tempPath = `${usersFilePath}.tmp`;
-    writeFileSync(tempPath, JSON.stringify(users, null, 2), 'utf-8');
-    renameSync(tempPath, usersFilePath);
-  } catch (error) {
-    console.error('Error saving users:', error);
-    throw error;
+function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction): void {
+  const user = storage.findUserById(req.userId);
+  if (!user || !ADMIN_EMAILS.includes(user.email)) {
+    return res.status(403).json({ success: false, error: 'Admin access required' });
   }
+  next();
 }
 
 /**
- * Find user by email
+ * Read the revision from an If-Match header (`"3"` or `W/"3"`).
+ * Returns undefined when the header is absent or `*`, and sends a 400
+ * and returns null when it is malformed.
  */
-function findUserByEmail(email: string): User | undefined {
-  const users = loadUsers();
-  return Object.values(users).find((u) => u.email === email.toLowerCase());
+function parseIfMatch(req: express.Request, res: express.Response): number | undefined | null {
+  const header = req.get('If-Match')?.trim();
+  if (!header || header === '*') {
+    return undefined;
+  }
+  const revision = Number(header.replace(/^W\//, '').replace(/"/g, ''));
+  if (!Number.isInteger(revision) || revision < 0) {
+    res.status(400).json({ success: false, error: 'Invalid If-Match header' });
+    return null;
+  }
+  return revision;
 }
 
-/**
- * Find user by ID
- */
-function findUserById(id: string): User | undefined {
-  const users = loadUsers();
-  return users[id];
+function setRevision(res: express.Response, revision: number): void {
+  res.setHeader('ETag', `"${revision}"`);
 }
 
 /**
- * JWT verification middleware
+ * Revision of each listed plan or session by id, for the client to send back as If-Match
  */
-function verifyToken(req: express.Request, res: express.Response, next: express.NextFunction): void {
-  const authHeader = req.headers.authorization;
-  const token = authHeader?.replace('Bearer ', '');
-
-  if (!token) {
-    return res.status(401).json({ success: false, error: 'Missing authorization token' });
-  }
-
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    req.userId = decoded.userId;
-    next();
-  } catch (_error) {
-    res.status(401).json({ success: false, error: 'Invalid or expired token' });
-  }
+function itemRevisions(
+  userId: string,
+  items: { id: string }[],
+  revisionKey: (id: string) => string
+): Record<string, number> {
+  return Object.fromEntries(items.map(({ id }) => [id, storage.getRevision(userId, revisionKey(id))]));
 }
 
 /**
- * Get the file path for a key
+ * Answer a stale write with 409 and the current server copy
  */
-function getKeyPath(key: string): string {
-  // Sanitize key to prevent directory traversal
-  const sanitized = key.replace(/[^a-zA-Z0-9_-]/g, '_');
-  return join(dataDir, `${sanitized}.json`);
+function sendConflict(res: express.Response, error: RevisionConflictError, current: unknown): void {
+  setRevision(res, error.currentRevision);
+  res.status(409).json({ success: false, error: 'Revision conflict', data: current ?? null });
 }
 
 /**
  * GET /api/data/:key
- * Retrieve data for a specific key (protected)
+ * Retrieve data for a specific key; the ETag is its revision (protected)
  */
 app.get('/api/data/:key', verifyToken, (req, res) => {
   const { key } = req.params;
   const userId = req.userId;
-  
-  // Scope key by user ID
-  const scopedKey = `user-${userId}-${key}`;
-  const filePath = getKeyPath(scopedKey);
 
   try {
-    if (!existsSync(filePath)) {
+    const data = storage.getValue(userId, key);
+    // Missing keys report revision 0, or that of their deletion, so clients can create them with If-Match
+    setRevision(res, storage.getRevision(userId, key));
+    if (data === undefined) {
       return res.status(404).json({ success: false, error: 'Key not found' });
     }
-    const data = JSON.parse(readFileSync(filePath, 'utf-8'));
     res.json({ success: true, data });
   } catch (error) {
-    console.error(`Error reading ${scopedKey}:`, error);
+    console.error(`Error reading ${key} for user ${userId}:`, error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
 
 /**
  * PUT /api/data/:key
- * Store data for a specific key (protected)
+ * Store data for a specific key; honours If-Match (protected)
  */
 app.put('/api/data/:key', verifyToken, (req, res) => {
   const { key } = req.params;
@@ -142,49 +158,42 @@ app.put('/api/data/:key', verifyToken, (req, res) => {
   if (data === undefined) {
     return res.status(400).json({ success: false, error: 'Missing data field' });
   }
-
-  // Scope key by user ID
-  const scopedKey = `user-${userId}-${key}`;
-  const filePath = getKeyPath(scopedKey);
+  const ifRevision = parseIfMatch(req, res);
+  if (ifRevision === null) return;
 
   try {
-    // Create directory if needed
-    const dir = dirname(filePath);
-    if (!existsSync(dir)) {
-      mkdirSync(dir, { recursive: true });
-    }
-
-    // Write file atomically
-    const tempPath = `${filePath}.tmp`;
-    writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf-8');
-    renameSync(tempPath, filePath);
-
+    setRevision(res, storage.setValue(userId, key, data, ifRevision));
     res.json({ success: true, data });
   } catch (error) {
-    console.error(`Error writing ${scopedKey}:`, error);
+    if (error instanceof RevisionConflictError) {
+      return sendConflict(res, error, storage.getValue(userId, key));
+    }
+    if (error instanceof InvalidDataError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error(`Error writing ${key} for user ${userId}:`, error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
 
 /**
  * DELETE /api/data/:key
- * Delete data for a specific key (protected)
+ * Delete data for a specific key; honours If-Match (protected)
  */
 app.delete('/api/data/:key', verifyToken, (req, res) => {
   const { key } = req.params;
   const userId = req.userId;
-  
-  // Scope key by user ID
-  const scopedKey = `user-${userId}-${key}`;
-  const filePath = getKeyPath(scopedKey);
+  const ifRevision = parseIfMatch(req, res);
+  if (ifRevision === null) return;
 
   try {
-    if (existsSync(filePath)) {
-      unlinkSync(filePath);
-    }
+    storage.deleteValue(userId, key, ifRevision);
     res.json({ success: true });
   } catch (error) {
-    console.error(`Error deleting ${scopedKey}:`, error);
+    if (error instanceof RevisionConflictError) {
+      return sendConflict(res, error, storage.getValue(userId, key));
+    }
+    console.error(`Error deleting ${key} for user ${userId}:`, error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
@@ -196,11 +205,7 @@ app.delete('/api/data/:key', verifyToken, (req, res) => {
 app.get('/api/keys', verifyToken, (req, res) => {
   const userId = req.userId;
   try {
-    const files = readdirSync(dataDir);
-    const prefix = `user-${userId}-`;
-    const keys = files
-      .filter((file) => file.endsWith('.json') && file.startsWith(prefix))
-      .map((file) => file.replace('.json', '').replace(prefix, ''));
+    const keys = storage.listKeys(userId);
     res.json({ success: true, keys });
   } catch (error) {
     console.error('Error listing keys:', error);
@@ -208,6 +213,439 @@ app.get('/api/keys', verifyToken, (req, res) => {
   }
 });
 
+/**
+ * Validate a request body against a schema.
+ * Sends a 400 and returns undefined when validation fails.
+ */
+function parseBody<T>(schema: ZodType<T, ZodTypeDef, unknown>, body: unknown, res: express.Response): T | undefined {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    res.status(400).json({ success: false, error: formatSchemaError(result.error) });
+    return undefined;
+  }
+  return result.data;
+}
+
+/**
+ * GET /api/plans
+ * List the current user's plans, with `revisions` of each by id (protected)
+ */
+app.get('/api/plans', verifyToken, (req, res) => {
+  try {
+    setRevision(res, storage.getRevision(req.userId, PLANS_KEY));
+    const plans = storage.listPlans(req.userId);
+    res.json({ success: true, data: plans, revisions: itemRevisions(req.userId, plans, planRevisionKey) });
+  } catch (error) {
+    console.error('Error listing plans:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/plans
+ * Create a plan; `id` and `createdAt` are generated when omitted (protected)
+ */
+app.post('/api/plans', verifyToken, (req, res) => {
+  const plan = parseBody(
+    WorkoutPlanSchema,
+    { id: `plan-${randomUUID()}`, createdAt: Date.now(), ...req.body },
+    res
+  );
+  if (!plan) return;
+
+  try {
+    if (storage.getPlan(req.userId, plan.id)) {
+      return res.status(409).json({ success: false, error: 'Plan already exists' });
+    }
+    setRevision(res, storage.savePlan(req.userId, plan));
+    res.status(201).json({ success: true, data: plan });
+  } catch (error) {
+    console.error('Error creating plan:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/plans/:id
+ * Retrieve one plan (protected)
+ */
+app.get('/api/plans/:id', verifyToken, (req, res) => {
+  try {
+    const plan = storage.getPlan(req.userId, req.params.id);
+    // Like missing keys, a deleted plan reports its revision so it can be recreated with If-Match
+    setRevision(res, storage.getRevision(req.userId, planRevisionKey(req.params.id)));
+    if (!plan) {
+      return res.status(404).json({ success: false, error: 'Plan not found' });
+    }
+    res.json({ success: true, data: plan });
+  } catch (error) {
+    console.error(`Error reading plan ${req.params.id}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/plans/:id
+ * Create or replace a plan; honours If-Match (protected)
+ */
+app.put('/api/plans/:id', verifyToken, (req, res) => {
+  const plan = parseBody(WorkoutPlanSchema, { ...req.body, id: req.params.id }, res);
+  if (!plan) return;
+  const ifRevision = parseIfMatch(req, res);
+  if (ifRevision === null) return;
+
+  try {
+    setRevision(res, storage.savePlan(req.userId, plan, ifRevision));
+    res.json({ success: true, data: plan });
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return sendConflict(res, error, storage.getPlan(req.userId, plan.id));
+    }
+    console.error(`Error saving plan ${req.params.id}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /api/plans/:id
+ * Update some fields of a plan; honours If-Match (protected)
+ */
+app.patch('/api/plans/:id', verifyToken, (req, res) => {
+  const ifRevision = parseIfMatch(req, res);
+  if (ifRevision === null) return;
+
+  try {
+    const existing = storage.getPlan(req.userId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Plan not found' });
+    }
+    const plan: WorkoutPlan | undefined = parseBody(
+      WorkoutPlanSchema,
+      { ...existing, ...req.body, id: existing.id },
+      res
+    );
+    if (!plan) return;
+
+    setRevision(res, storage.savePlan(req.userId, plan, ifRevision));
+    res.json({ success: true, data: plan });
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return sendConflict(res, error, storage.getPlan(req.userId, req.params.id));
+    }
+    console.error(`Error updating plan ${req.params.id}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/plans/:id
+ * Delete a plan; honours If-Match (protected)
+ */
+app.delete('/api/plans/:id', verifyToken, (req, res) => {
+  const ifRevision = parseIfMatch(req, res);
+  if (ifRevision === null) return;
+
+  try {
+    if (!storage.deletePlan(req.userId, req.params.id, ifRevision)) {
+      return res.status(404).json({ success: false, error: 'Plan not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return sendConflict(res, error, storage.getPlan(req.userId, req.params.id));
+    }
+    console.error(`Error deleting plan ${req.params.id}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/sessions?status=&planId=&limit=
+ * List the current user's sessions, oldest first, with `revisions` of each by id (protected)
+ */
+app.get('/api/sessions', verifyToken, (req, res) => {
+  const query: SessionQuery = {};
+  if (typeof req.query.status === 'string') {
+    const status = SessionStatusSchema.safeParse(req.query.status);
+    if (!status.success) {
+      return res.status(400).json({ success: false, error: 'Invalid status filter' });
+    }
+    query.status = status.data;
+  }
+  if (typeof req.query.planId === 'string') {
+    query.planId = req.query.planId;
+  }
+  if (typeof req.query.limit === 'string') {
+    const limit = parseInt(req.query.limit, 10);
+    if (!(limit > 0)) {
+      return res.status(400).json({ success: false, error: 'Invalid limit' });
+    }
+    query.limit = limit;
+  }
+
+  try {
+    setRevision(res, storage.getRevision(req.userId, SESSIONS_KEY));
+    const sessions = storage.listSessions(req.userId, query);
+    res.json({ success: true, data: sessions, revisions: itemRevisions(req.userId, sessions, sessionRevisionKey) });
+  } catch (error) {
+    console.error('Error listing sessions:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/sessions
+ * Create a session; `id` is generated when omitted (protected)
+ */
+app.post('/api/sessions', verifyToken, (req, res) => {
+  const session = parseBody(WorkoutSessionSchema, { id: `session-${randomUUID()}`, ...req.body }, res);
+  if (!session) return;
+
+  try {
+    if (storage.getSession(req.userId, session.id)) {
+      return res.status(409).json({ success: false, error: 'Session already exists' });
+    }
+    setRevision(res, storage.saveSession(req.userId, session));
+    res.status(201).json({ success: true, data: session });
+  } catch (error) {
+    console.error('Error creating session:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id
+ * Retrieve one session (protected)
+ */
+app.get('/api/sessions/:id', verifyToken, (req, res) => {
+  try {
+    const session = storage.getSession(req.userId, req.params.id);
+    setRevision(res, storage.getRevision(req.userId, sessionRevisionKey(req.params.id)));
+    if (!session) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+    res.json({ success: true, data: session });
+  } catch (error) {
+    console.error(`Error reading session ${req.params.id}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/sessions/:id
+ * Create or replace a session; honours If-Match (protected)
+ */
+app.put('/api/sessions/:id', verifyToken, (req, res) => {
+  const session = parseBody(WorkoutSessionSchema, { ...req.body, id: req.params.id }, res);
+  if (!session) return;
+  const ifRevision = parseIfMatch(req, res);
+  if (ifRevision === null) return;
+
+  try {
+    setRevision(res, storage.saveSession(req.userId, session, ifRevision));
+    res.json({ success: true, data: session });
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return sendConflict(res, error, storage.getSession(req.userId, session.id));
+    }
+    console.error(`Error saving session ${req.params.id}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /api/sessions/:id
+ * Update some fields of a session, e.g. `{ status: 'completed', completedAt }`;
+ * honours If-Match (protected)
+ */
+app.patch('/api/sessions/:id', verifyToken, (req, res) => {
+  const ifRevision = parseIfMatch(req, res);
+  if (ifRevision === null) return;
+
+  try {
+    const existing = storage.getSession(req.userId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+    const session: WorkoutSession | undefined = parseBody(
+      WorkoutSessionSchema,
+      { ...existing, ...req.body, id: existing.id },
+      res
+    );
+    if (!session) return;
+
+    setRevision(res, storage.saveSession(req.userId, session, ifRevision));
+    res.json({ success: true, data: session });
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return sendConflict(res, error, storage.getSession(req.userId, req.params.id));
+    }
+    console.error(`Error updating session ${req.params.id}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/sessions/:id
+ * Delete a session and its sets; honours If-Match (protected)
+ */
+app.delete('/api/sessions/:id', verifyToken, (req, res) => {
+  const ifRevision = parseIfMatch(req, res);
+  if (ifRevision === null) return;
+
+  try {
+    if (!storage.deleteSession(req.userId, req.params.id, ifRevision)) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return sendConflict(res, error, storage.getSession(req.userId, req.params.id));
+    }
+    console.error(`Error deleting session ${req.params.id}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/sets
+ * List a session's completed sets with their exercise (protected)
+ */
+app.get('/api/sessions/:id/sets', verifyToken, (req, res) => {
+  try {
+    const session = storage.getSession(req.userId, req.params.id);
+    if (!session) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+    const sets = session.exercises.flatMap((exercise, exerciseIndex) =>
+      exercise.completedSets.map((set) => ({ exerciseIndex, exerciseId: exercise.exerciseId, ...set }))
+    );
+    res.json({ success: true, data: sets });
+  } catch (error) {
+    console.error(`Error listing sets for session ${req.params.id}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/sessions/:id/sets
+ * Append a completed set: `{ exerciseIndex, set }` (protected)
+ */
+app.post('/api/sessions/:id/sets', verifyToken, (req, res) => {
+  const body = parseBody(NewSetSchema, req.body, res);
+  if (!body) return;
+
+  try {
+    const session = storage.addSet(req.userId, req.params.id, body.exerciseIndex, body.set);
+    if (!session) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+    setRevision(res, storage.getRevision(req.userId, sessionRevisionKey(session.id)));
+    res.status(201).json({ success: true, data: session });
+  } catch (error) {
+    if (error instanceof InvalidDataError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error(`Error adding set to session ${req.params.id}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/exercises
+ * The exercise catalog, `{ version, exercises }` including deprecated
+ * exercises; answers 304 when If-None-Match names the current version
+ */
+app.get('/api/exercises', (req, res) => {
+  try {
+    const catalog = readCatalog(storage);
+    setRevision(res, catalog.version);
+    res.setHeader('Cache-Control', 'no-cache');
+    if (req.fresh) {
+      return res.status(304).end();
+    }
+    res.json({ success: true, data: catalog });
+  } catch (error) {
+    console.error('Error reading exercise catalog:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/exercises
+ * Add an exercise to the catalog, `409` if the id exists; honours If-Match
+ * with the catalog version (admin)
+ */
+app.post('/api/exercises', verifyToken, requireAdmin, (req, res) => {
+  const exercise = parseBody(ExerciseSchema, req.body, res);
+  if (!exercise) return;
+  const ifVersion = parseIfMatch(req, res);
+  if (ifVersion === null) return;
+
+  try {
+    if (readCatalog(storage).exercises.some((e) => e.id === exercise.id)) {
+      return res.status(409).json({ success: false, error: 'Exercise already exists' });
+    }
+    const catalog = saveCatalogExercise(storage, exercise, ifVersion);
+    setRevision(res, catalog.version);
+    res.status(201).json({ success: true, data: exercise });
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return sendConflict(res, error, readCatalog(storage));
+    }
+    console.error('Error creating exercise:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/exercises/:id
+ * Create or replace a catalog exercise; honours If-Match (admin)
+ */
+app.put('/api/exercises/:id', verifyToken, requireAdmin, (req, res) => {
+  const exercise = parseBody(ExerciseSchema, { ...req.body, id: req.params.id }, res);
+  if (!exercise) return;
+  const ifVersion = parseIfMatch(req, res);
+  if (ifVersion === null) return;
+
+  try {
+    const catalog = saveCatalogExercise(storage, exercise, ifVersion);
+    setRevision(res, catalog.version);
+    res.json({ success: true, data: exercise });
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return sendConflict(res, error, readCatalog(storage));
+    }
+    console.error(`Error saving exercise ${req.params.id}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/exercises/:id
+ * Deprecate a catalog exercise; it stays in the catalog so past sessions
+ * still find it. Honours If-Match (admin)
+ */
+app.delete('/api/exercises/:id', verifyToken, requireAdmin, (req, res) => {
+  const ifVersion = parseIfMatch(req, res);
+  if (ifVersion === null) return;
+
+  try {
+    const catalog = deprecateCatalogExercise(storage, req.params.id, ifVersion);
+    if (!catalog) {
+      return res.status(404).json({ success: false, error: 'Exercise not found' });
+    }
+    setRevision(res, catalog.version);
+    res.json({ success: true, data: catalog.exercises.find((e) => e.id === req.params.id) });
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return sendConflict(res, error, readCatalog(storage));
+    }
+    console.error(`Error deprecating exercise ${req.params.id}:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 /**
  * POST /api/auth/signup
  * Register a new user
@@ -226,7 +664,7 @@ app.post('/api/auth/signup', async (req, res) => {
 
   try {
     // Check if user already exists
-    if (findUserByEmail(email)) {
+    if (storage.findUserByEmail(email)) {
       return res.status(409).json({ success: false, error: 'User already exists' });
     }
 
@@ -235,15 +673,14 @@ app.post('/api/auth/signup', async (req, res) => {
 
     // Create user
     const userId = randomUUID();
-    const users = loadUsers();
-    users[userId] = {
+    const createdAt = Date.now();
+    storage.createUser({
       id: userId,
       email: email.toLowerCase(),
       name,
       passwordHash,
-      createdAt: Date.now(),
-    };
-    saveUsers(users);
+      createdAt,
+    });
 
     // Generate JWT token
     const token = jwt.sign({ userId }, JWT_SECRET, { expiresIn: '7d' });
@@ -254,7 +691,7 @@ app.post('/api/auth/signup', async (req, res) => {
         id: userId,
         email: email.toLowerCase(),
         name,
-        createdAt: users[userId].createdAt,
+        createdAt,
       },
       token,
     });
@@ -276,7 +713,7 @@ app.post('/api/auth/login', async (req, res) => {
   }
 
   try {
-    const user = findUserByEmail(email);
+    const user = storage.findUserByEmail(email);
     if (!user) {
       return res.status(401).json({ success: false, error: 'Invalid credentials' });
     }
@@ -312,7 +749,7 @@ app.post('/api/auth/login', async (req, res) => {
  */
 app.post('/api/auth/verify', verifyToken, (req, res) => {
   try {
-    const user = findUserById(req.userId);
+    const user = storage.findUserById(req.userId);
     if (!user) {
       return res.status(404).json({ success: false, error: 'User not found' });
     }
@@ -354,16 +791,7 @@ app.get('/api/health', (req, res) => {
  */
 app.post('/api/export', (req, res) => {
   try {
-    const files = readdirSync(dataDir);
-    const exportData: Record<string, unknown> = {};
-
-    files.forEach((file) => {
-      if (file.endsWith('.json')) {
-        const key = file.replace('.json', '');
-        const content = JSON.parse(readFileSync(join(dataDir, file), 'utf-8'));
-        exportData[key] = content;
-      }
-    });
+    const exportData = storage.exportAll();
 
     res.json({ success: true, data: exportData });
   } catch (error) {
@@ -384,17 +812,13 @@ app.post('/api/import', (req, res) => {
   }
 
   try {
-    Object.entries(data).forEach(([key, value]) => {
-      const filePath = getKeyPath(key);
-      const dir = dirname(filePath);
-      if (!existsSync(dir)) {
-        mkdirSync(dir, { recursive: true });
-      }
-      writeFileSync(filePath, JSON.stringify(value, null, 2), 'utf-8');
-    });
+    const imported = storage.importAll(data);
 
-    res.json({ success: true, imported: Object.keys(data).length });
+    res.json({ success: true, imported });
   } catch (error) {
+    if (error instanceof InvalidDataError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
     console.error('Error importing data:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
@@ -403,5 +827,5 @@ app.post('/api/import', (req, res) => {
 // Start server
 app.listen(port, () => {
   console.log(`🏋️ FitTrack Backend running on http://localhost:${port}`);
-  console.log(`📁 Data stored in: ${dataDir}`);
+  console.log(`📁 Data stored in: ${dataDir} (${storage.driver} storage)`);
 });
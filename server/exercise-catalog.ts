@@ -0,0 +1,88 @@
+/**
+ * Exercise catalog
+ * The built-in exercises, kept in storage so they can be corrected without
+ * a redeploy. The catalog is stored as one value outside any user's scope;
+ * its revision is the catalog version. Exercises are deprecated rather than
+ * removed, so sessions and plans that name them keep resolving. A catalog
+ * stored before the bundled library gained fields or exercises picks them
+ * up through `CATALOG_MIGRATION`.
+ */
+
+import { EXERCISE_LIBRARY } from '../src/lib/exercises.js';
+import type { Exercise, ExerciseCatalog } from '../src/lib/types.js';
+import { CATALOG_SCOPE, RevisionConflictError, Storage } from './storage/index.js';
+
+export const CATALOG_KEY = 'exercises';
+const MIGRATION_KEY = 'exercises-migration';
+
+/**
+ * Version of the bundled library's contents; bump it when bundled exercises
+ * gain fields (or new exercises are bundled) that stored catalogs should get
+ */
+export const CATALOG_MIGRATION = 1;
+
+/**
+ * A stored catalog brought up to the bundled library: exercises and fields
+ * it lacks come from `seed`, and what it has (such as admin edits) stays
+ */
+export function mergeBundledExercises(stored: Exercise[], seed: Exercise[]): Exercise[] {
+  const storedIds = new Set(stored.map((exercise) => exercise.id));
+  return [
+    ...stored.map((exercise) => {
+      const bundled = seed.find((e) => e.id === exercise.id);
+      return bundled ? { ...bundled, ...exercise } : exercise;
+    }),
+    ...seed.filter((exercise) => !storedIds.has(exercise.id)),
+  ];
+}
+
+/**
+ * The catalog, seeded from the bundled library the first time it is read
+ * and migrated the first time it is read after `CATALOG_MIGRATION` changes
+ */
+export function readCatalog(storage: Storage, seed: Exercise[] = EXERCISE_LIBRARY): ExerciseCatalog {
+  const exercises = storage.getValue(CATALOG_SCOPE, CATALOG_KEY) as Exercise[] | undefined;
+  const version = storage.getRevision(CATALOG_SCOPE, CATALOG_KEY);
+  const migration = (storage.getValue(CATALOG_SCOPE, MIGRATION_KEY) as number | undefined) ?? 0;
+  if (exercises && migration >= CATALOG_MIGRATION) {
+    return { version, exercises };
+  }
+
+  const updated = exercises ? mergeBundledExercises(exercises, seed) : seed;
+  try {
+    const catalog =
+      exercises && JSON.stringify(updated) === JSON.stringify(exercises)
+        ? { version, exercises }
+        : { version: storage.setValue(CATALOG_SCOPE, CATALOG_KEY, updated, version), exercises: updated };
+    storage.setValue(CATALOG_SCOPE, MIGRATION_KEY, CATALOG_MIGRATION);
+    return catalog;
+  } catch (error) {
+    // Another request seeded or migrated it first
+    if (!(error instanceof RevisionConflictError)) throw error;
+    return readCatalog(storage, seed);
+  }
+}
+
+/**
+ * Add an exercise or replace the one with the same id. Throws
+ * RevisionConflictError when `ifVersion` is not the current version.
+ */
+export function saveCatalogExercise(storage: Storage, exercise: Exercise, ifVersion?: number): ExerciseCatalog {
+  const { exercises } = readCatalog(storage);
+  const index = exercises.findIndex((existing) => existing.id === exercise.id);
+  const updated = index < 0 ? [...exercises, exercise] : exercises.map((e, i) => (i === index ? exercise : e));
+  return { version: storage.setValue(CATALOG_SCOPE, CATALOG_KEY, updated, ifVersion), exercises: updated };
+}
+
+/**
+ * Mark an exercise as deprecated; undefined when the catalog has no such
+ * exercise
+ */
+export function deprecateCatalogExercise(
+  storage: Storage,
+  exerciseId: string,
+  ifVersion?: number
+): ExerciseCatalog | undefined {
+  const exercise = readCatalog(storage).exercises.find((e) => e.id === exerciseId);
+  return exercise && saveCatalogExercise(storage, { ...exercise, deprecated: true }, ifVersion);
+}
@@ -0,0 +1,49 @@
+/**
+ * One-shot migrator: JSON files in .data/ -> SQLite
+ *
+ * Usage:
+ *   npm run migrate:data
+ *   npm run migrate:data -- --from ./backup-dir --to ./.data/fittrack.db
+ *
+ * Safe to re-run: users, plans and sessions are upserted by ID.
+ */
+
+import { existsSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { DEFAULT_DB_FILE, createFileStorage, createSqliteStorage, parseScopedKey } from './storage/index.js';
+
+const rootDir = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const fromDir = resolve(readOption('from') || join(rootDir, '.data'));
+const toPath = resolve(readOption('to') || process.env.SQLITE_PATH || join(fromDir, DEFAULT_DB_FILE));
+
+if (!existsSync(fromDir)) {
+  console.error(`Nothing to migrate: ${fromDir} does not exist`);
+  process.exit(1);
+}
+
+const source = createFileStorage(fromDir);
+const target = createSqliteStorage(toPath);
+
+try {
+  const data = source.exportAll();
+  const userCount = Object.keys((data.users as Record<string, unknown>) || {}).length;
+  const valueCount = Object.keys(data).filter((key) => parseScopedKey(key)).length;
+
+  const imported = target.importAll(data);
+
+  console.log(`📦 Migrated ${fromDir} -> ${toPath}`);
+  console.log(`   ${userCount} users, ${valueCount} stored values (${imported} entries written)`);
+} catch (error) {
+  console.error('Migration failed, nothing was written:', error);
+  process.exitCode = 1;
+} finally {
+  source.close();
+  target.close();
+}
@@ -0,0 +1,320 @@
+/**
+ * File-backed storage engine
+ * One JSON file per user key in the data directory, plus `users.json`.
+ * This is the original FitTrack storage layout. Revisions are kept
+ * alongside in `revisions.json`, keyed like the data files; deleted
+ * values keep theirs so revisions never restart.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync, renameSync, unlinkSync, readdirSync } from 'fs';
+import { join } from 'path';
+import type { WorkoutPlan, WorkoutSession } from '../../src/lib/types.js';
+import {
+  InvalidDataError,
+  PLANS_KEY,
+  RevisionConflictError,
+  SESSIONS_KEY,
+  SessionQuery,
+  Storage,
+  StoredUser,
+  hasSet,
+  parseScopedKey,
+  planRevisionKey,
+  scopeKey,
+  sessionRevisionKey,
+} from './types.js';
+
+const USERS_FILE = 'users.json';
+const REVISIONS_FILE = 'revisions.json';
+
+/**
+ * Write a file atomically via a temp file + rename
+ */
+function writeJsonAtomic(filePath: string, value: unknown): void {
+  const tempPath = `${filePath}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(value, null, 2), 'utf-8');
+  renameSync(tempPath, filePath);
+}
+
+/**
+ * Replace the item with the same id, or append it
+ */
+function upsertById<T extends { id: string }>(items: T[], item: T): T[] {
+  const index = items.findIndex((existing) => existing.id === item.id);
+  if (index < 0) {
+    return [...items, item];
+  }
+  const updated = [...items];
+  updated[index] = item;
+  return updated;
+}
+
+/**
+ * Item revision keys touched by replacing a plans or sessions collection:
+ * items whose content changed, and items that were removed
+ */
+function collectionChanges(key: string, before: unknown, after: unknown): { changed: string[]; removed: string[] } {
+  if (key !== PLANS_KEY && key !== SESSIONS_KEY) {
+    return { changed: [], removed: [] };
+  }
+  const itemKey = key === PLANS_KEY ? planRevisionKey : sessionRevisionKey;
+  const byId = (value: unknown) =>
+    new Map(
+      (Array.isArray(value) ? value : [])
+        .filter((item) => typeof item?.id === 'string')
+        .map((item) => [item.id as string, JSON.stringify(item)])
+    );
+  const previous = byId(before);
+  const next = byId(after);
+  return {
+    changed: [...next].filter(([id, json]) => previous.get(id) !== json).map(([id]) => itemKey(id)),
+    removed: [...previous.keys()].filter((id) => !next.has(id)).map(itemKey),
+  };
+}
+
+function filterSessions(sessions: WorkoutSession[], query: SessionQuery = {}): WorkoutSession[] {
+  const matching = sessions.filter(
+    (s) => (!query.status || s.status === query.status) && (!query.planId || s.planId === query.planId)
+  );
+  if (!query.limit) {
+    return matching;
+  }
+  return [...matching]
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .slice(0, query.limit)
+    .sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/**
+ * Create a storage engine backed by JSON files in `dataDir`
+ */
+export function createFileStorage(dataDir: string): Storage {
+  if (!existsSync(dataDir)) {
+    mkdirSync(dataDir, { recursive: true });
+  }
+
+  const usersFilePath = join(dataDir, USERS_FILE);
+  // Users are read once and kept in memory; every change is written through
+  let usersCache: Record<string, StoredUser> | null = null;
+
+  const loadUsers = (): Record<string, StoredUser> => {
+    if (usersCache) {
+      return usersCache;
+    }
+    try {
+      usersCache = existsSync(usersFilePath) ? JSON.parse(readFileSync(usersFilePath, 'utf-8')) : {};
+    } catch (error) {
+      console.error('Error loading users:', error);
+      usersCache = {};
+    }
+    return usersCache!;
+  };
+
+  const saveUsers = (users: Record<string, StoredUser>): void => {
+    writeJsonAtomic(usersFilePath, users);
+    usersCache = users;
+  };
+
+  const revisionsFilePath = join(dataDir, REVISIONS_FILE);
+  // Same caching strategy as users
+  let revisionsCache: Record<string, number> | null = null;
+
+  const loadRevisions = (): Record<string, number> => {
+    if (!revisionsCache) {
+      try {
+        revisionsCache = existsSync(revisionsFilePath) ? JSON.parse(readFileSync(revisionsFilePath, 'utf-8')) : {};
+      } catch (error) {
+        console.error('Error loading revisions:', error);
+        revisionsCache = {};
+      }
+    }
+    return revisionsCache!;
+  };
+
+  const revisionOf = (userId: string, key: string): number => loadRevisions()[scopeKey(userId, key)] ?? 0;
+
+  const checkRevision = (userId: string, key: string, ifRevision: number | undefined): void => {
+    if (ifRevision !== undefined && revisionOf(userId, key) !== ifRevision) {
+      throw new RevisionConflictError(revisionOf(userId, key));
+    }
+  };
+
+  /**
+   * Increment the revisions of `keys`
+   */
+  const bumpRevisions = (userId: string, keys: string[]): void => {
+    const revisions = { ...loadRevisions() };
+    keys.forEach((key) => {
+      const scoped = scopeKey(userId, key);
+      revisions[scoped] = (revisions[scoped] ?? 0) + 1;
+    });
+    writeJsonAtomic(revisionsFilePath, revisions);
+    revisionsCache = revisions;
+  };
+
+  const getKeyPath = (scopedKey: string): string => {
+    // Sanitize key to prevent directory traversal
+    const sanitized = scopedKey.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return join(dataDir, `${sanitized}.json`);
+  };
+
+  const storage: Storage = {
+    driver: 'file',
+
+    findUserById(id) {
+      return loadUsers()[id];
+    },
+
+    findUserByEmail(email) {
+      const normalized = email.toLowerCase();
+      return Object.values(loadUsers()).find((u) => u.email === normalized);
+    },
+
+    createUser(user) {
+      saveUsers({ ...loadUsers(), [user.id]: user });
+    },
+
+    getValue(userId, key) {
+      const filePath = getKeyPath(scopeKey(userId, key));
+      if (!existsSync(filePath)) {
+        return undefined;
+      }
+      return JSON.parse(readFileSync(filePath, 'utf-8'));
+    },
+
+    setValue(userId, key, value, ifRevision) {
+      checkRevision(userId, key, ifRevision);
+      const { changed, removed } = collectionChanges(key, storage.getValue(userId, key), value);
+      writeJsonAtomic(getKeyPath(scopeKey(userId, key)), value);
+      bumpRevisions(userId, [key, ...changed, ...removed]);
+      return revisionOf(userId, key);
+    },
+
+    deleteValue(userId, key, ifRevision) {
+      checkRevision(userId, key, ifRevision);
+      const filePath = getKeyPath(scopeKey(userId, key));
+      if (existsSync(filePath)) {
+        const { removed } = collectionChanges(key, storage.getValue(userId, key), []);
+        unlinkSync(filePath);
+        bumpRevisions(userId, [key, ...removed]);
+      }
+    },
+
+    getRevision(userId, key) {
+      return revisionOf(userId, key);
+    },
+
+    listKeys(userId) {
+      const prefix = scopeKey(userId, '');
+      return readdirSync(dataDir)
+        .filter((file) => file.endsWith('.json') && file.startsWith(prefix))
+        .map((file) => file.replace('.json', '').replace(prefix, ''));
+    },
+
+    exportAll() {
+      const exportData: Record<string, unknown> = {};
+      readdirSync(dataDir).forEach((file) => {
+        if (file.endsWith('.json') && file !== REVISIONS_FILE) {
+          const key = file.replace('.json', '');
+          exportData[key] = JSON.parse(readFileSync(join(dataDir, file), 'utf-8'));
+        }
+      });
+      return exportData;
+    },
+
+    importAll(data) {
+      Object.entries(data).forEach(([key, value]) => {
+        if (key === 'users') {
+          saveUsers(value as Record<string, StoredUser>);
+          return;
+        }
+        const scoped = parseScopedKey(key);
+        if (scoped) {
+          storage.setValue(scoped.userId, scoped.key, value);
+        } else {
+          writeJsonAtomic(getKeyPath(key), value);
+        }
+      });
+      return Object.keys(data).length;
+    },
+
+    listPlans(userId) {
+      return (storage.getValue(userId, PLANS_KEY) as WorkoutPlan[] | undefined) ?? [];
+    },
+
+    getPlan(userId, planId) {
+      return storage.listPlans(userId).find((p) => p.id === planId);
+    },
+
+    savePlan(userId, plan, ifRevision) {
+      checkRevision(userId, planRevisionKey(plan.id), ifRevision);
+      storage.setValue(userId, PLANS_KEY, upsertById(storage.listPlans(userId), plan));
+      return revisionOf(userId, planRevisionKey(plan.id));
+    },
+
+    deletePlan(userId, planId, ifRevision) {
+      checkRevision(userId, planRevisionKey(planId), ifRevision);
+      const plans = storage.listPlans(userId);
+      const remaining = plans.filter((p) => p.id !== planId);
+      if (remaining.length === plans.length) {
+        return false;
+      }
+      storage.setValue(userId, PLANS_KEY, remaining);
+      return true;
+    },
+
+    listSessions(userId, query) {
+      const sessions = (storage.getValue(userId, SESSIONS_KEY) as WorkoutSession[] | undefined) ?? [];
+      return filterSessions(sessions, query);
+    },
+
+    getSession(userId, sessionId) {
+      return storage.listSessions(userId).find((s) => s.id === sessionId);
+    },
+
+    saveSession(userId, session, ifRevision) {
+      checkRevision(userId, sessionRevisionKey(session.id), ifRevision);
+      storage.setValue(userId, SESSIONS_KEY, upsertById(storage.listSessions(userId), session));
+      return revisionOf(userId, sessionRevisionKey(session.id));
+    },
+
+    deleteSession(userId, sessionId, ifRevision) {
+      checkRevision(userId, sessionRevisionKey(sessionId), ifRevision);
+      const sessions = storage.listSessions(userId);
+      const remaining = sessions.filter((s) => s.id !== sessionId);
+      if (remaining.length === sessions.length) {
+        return false;
+      }
+      storage.setValue(userId, SESSIONS_KEY, remaining);
+      return true;
+    },
+
+    addSet(userId, sessionId, exerciseIndex, set) {
+      const session = storage.getSession(userId, sessionId);
+      if (!session) {
+        return undefined;
+      }
+      if (!session.exercises[exerciseIndex]) {
+        throw new InvalidDataError(`Session ${sessionId} has no exercise at index ${exerciseIndex}`);
+      }
+      if (hasSet(session.exercises[exerciseIndex].completedSets, set)) {
+        return session;
+      }
+      const updated: WorkoutSession = {
+        ...session,
+        exercises: session.exercises.map((exercise, i) =>
+          i === exerciseIndex ? { ...exercise, completedSets: [...exercise.completedSets, set] } : exercise
+        ),
+      };
+      storage.saveSession(userId, updated);
+      return updated;
+    },
+
+    close() {
+      usersCache = null;
+      revisionsCache = null;
+    },
+  };
+
+  return storage;
+}
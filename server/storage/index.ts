@@ -0,0 +1,39 @@
+/**
+ * Storage engine selection
+ * STORAGE_DRIVER=sqlite (default) or STORAGE_DRIVER=file
+ */
+
+import { join } from 'path';
+import { createFileStorage } from './file-storage.js';
+import { createSqliteStorage } from './sqlite-storage.js';
+import { Storage } from './types.js';
+
+export * from './types.js';
+export { createFileStorage } from './file-storage.js';
+export { createSqliteStorage } from './sqlite-storage.js';
+
+export type StorageDriver = 'sqlite' | 'file';
+
+export interface StorageOptions {
+  driver?: string;
+  /** Directory holding JSON files (file driver) and the default database */
+  dataDir: string;
+  /** Database file for the sqlite driver; defaults to `<dataDir>/fittrack.db` */
+  sqlitePath?: string;
+}
+
+export const DEFAULT_DB_FILE = 'fittrack.db';
+
+/**
+ * Create the configured storage engine
+ */
+export function createStorage({ driver = 'sqlite', dataDir, sqlitePath }: StorageOptions): Storage {
+  switch (driver) {
+    case 'sqlite':
+      return createSqliteStorage(sqlitePath || join(dataDir, DEFAULT_DB_FILE));
+    case 'file':
+      return createFileStorage(dataDir);
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "sqlite" or "file")`);
+  }
+}
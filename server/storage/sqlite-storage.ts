@@ -0,0 +1,658 @@
+/**
+ * SQLite storage engine (default)
+ * Plans, sessions and completed sets live in their own tables so that
+ * saving history only touches the rows that actually changed. Any other
+ * key (e.g. `active-session`) is kept as a JSON value in the `kv` table.
+ * Revisions of every key, plan and session live in the `revisions` table;
+ * deleting keeps the row as a tombstone so revisions never restart.
+ */
+
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { CompletedSet, WorkoutPlan, WorkoutSession } from '../../src/lib/types.js';
+import {
+  InvalidDataError,
+  PLANS_KEY,
+  RevisionConflictError,
+  SESSIONS_KEY,
+  SessionQuery,
+  Storage,
+  StoredUser,
+  hasSet,
+  parseScopedKey,
+  planRevisionKey,
+  scopeKey,
+  sessionRevisionKey,
+} from './types.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS plans (
+    user_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (user_id, id)
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    user_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    plan_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    completed_at INTEGER,
+    digest TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (user_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS sessions_by_start ON sessions (user_id, started_at);
+
+  CREATE TABLE IF NOT EXISTS sets (
+    user_id TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    exercise_index INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    exercise_id TEXT NOT NULL,
+    set_number INTEGER NOT NULL,
+    reps INTEGER NOT NULL,
+    weight REAL,
+    completed_at INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (user_id, session_id, exercise_index, position),
+    FOREIGN KEY (user_id, session_id) REFERENCES sessions (user_id, id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS sets_by_exercise ON sets (user_id, exercise_id, completed_at);
+
+  CREATE TABLE IF NOT EXISTS kv (
+    user_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (user_id, key)
+  );
+
+  CREATE TABLE IF NOT EXISTS revisions (
+    user_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    PRIMARY KEY (user_id, key)
+  );
+`;
+
+interface SessionRow {
+  id: string;
+  position: number;
+  data: string;
+}
+
+interface UserRow {
+  id: string;
+  email: string;
+  name: string;
+  password_hash: string;
+  created_at: number;
+}
+
+function toUser(row: UserRow | undefined): StoredUser | undefined {
+  if (!row) {
+    return undefined;
+  }
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    passwordHash: row.password_hash,
+    createdAt: row.created_at,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function assertPlans(value: unknown): asserts value is WorkoutPlan[] {
+  if (!Array.isArray(value) || !value.every((p) => isRecord(p) && typeof p.id === 'string')) {
+    throw new InvalidDataError(`${PLANS_KEY} must be an array of plans with string ids`);
+  }
+}
+
+function assertSessions(value: unknown): asserts value is WorkoutSession[] {
+  const valid =
+    Array.isArray(value) &&
+    value.every(
+      (s) =>
+        isRecord(s) &&
+        typeof s.id === 'string' &&
+        Array.isArray(s.exercises) &&
+        s.exercises.every((e) => isRecord(e) && Array.isArray(e.completedSets))
+    );
+  if (!valid) {
+    throw new InvalidDataError(`${SESSIONS_KEY} must be an array of sessions with string ids`);
+  }
+}
+
+/**
+ * Create a storage engine backed by a SQLite database file
+ * Pass `:memory:` for a throwaway in-memory database.
+ */
+export function createSqliteStorage(filePath: string): Storage {
+  if (filePath !== ':memory:' && !existsSync(dirname(filePath))) {
+    mkdirSync(dirname(filePath), { recursive: true });
+  }
+
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  const statements = {
+    userById: db.prepare<[string], UserRow>('SELECT * FROM users WHERE id = ?'),
+    userByEmail: db.prepare<[string], UserRow>('SELECT * FROM users WHERE email = ?'),
+    allUsers: db.prepare<[], UserRow>('SELECT * FROM users'),
+    upsertUser: db.prepare(
+      `INSERT INTO users (id, email, name, password_hash, created_at)
+       VALUES (@id, @email, @name, @passwordHash, @createdAt)
+       ON CONFLICT (id) DO UPDATE SET
+         email = excluded.email, name = excluded.name,
+         password_hash = excluded.password_hash, created_at = excluded.created_at`
+    ),
+
+    plans: db.prepare<[string], { data: string }>('SELECT data FROM plans WHERE user_id = ? ORDER BY position'),
+    upsertPlan: db.prepare(
+      `INSERT INTO plans (user_id, id, position, name, created_at, data)
+       VALUES (@userId, @id, @position, @name, @createdAt, @data)
+       ON CONFLICT (user_id, id) DO UPDATE SET
+         position = excluded.position, name = excluded.name,
+         created_at = excluded.created_at, data = excluded.data`
+    ),
+    deletePlans: db.prepare<[string]>('DELETE FROM plans WHERE user_id = ?'),
+    deletePlan: db.prepare<[string, string]>('DELETE FROM plans WHERE user_id = ? AND id = ?'),
+    planData: db.prepare<[string], { id: string; data: string }>('SELECT id, data FROM plans WHERE user_id = ?'),
+    plan: db.prepare<[string, string], { data: string; position: number }>(
+      'SELECT data, position FROM plans WHERE user_id = ? AND id = ?'
+    ),
+    nextPlanPosition: db.prepare<[string], { next: number }>(
+      'SELECT COALESCE(MAX(position), -1) + 1 AS next FROM plans WHERE user_id = ?'
+    ),
+
+    session: db.prepare<[string, string], SessionRow>(
+      'SELECT id, position, data FROM sessions WHERE user_id = ? AND id = ?'
+    ),
+    nextSessionPosition: db.prepare<[string], { next: number }>(
+      'SELECT COALESCE(MAX(position), -1) + 1 AS next FROM sessions WHERE user_id = ?'
+    ),
+    setDigest: db.prepare<[string, string, string]>('UPDATE sessions SET digest = ? WHERE user_id = ? AND id = ?'),
+    sessionDigest: db.prepare<[string, string], { digest: string }>(
+      'SELECT digest FROM sessions WHERE user_id = ? AND id = ?'
+    ),
+    sessionDigests: db.prepare<[string], { id: string; digest: string; position: number }>(
+      'SELECT id, digest, position FROM sessions WHERE user_id = ?'
+    ),
+    upsertSession: db.prepare(
+      `INSERT INTO sessions (user_id, id, position, plan_id, status, started_at, completed_at, digest, data)
+       VALUES (@userId, @id, @position, @planId, @status, @startedAt, @completedAt, @digest, @data)
+       ON CONFLICT (user_id, id) DO UPDATE SET
+         position = excluded.position, plan_id = excluded.plan_id, status = excluded.status,
+         started_at = excluded.started_at, completed_at = excluded.completed_at,
+         digest = excluded.digest, data = excluded.data`
+    ),
+    moveSession: db.prepare<[number, string, string]>('UPDATE sessions SET position = ? WHERE user_id = ? AND id = ?'),
+    deleteSessions: db.prepare<[string]>('DELETE FROM sessions WHERE user_id = ?'),
+    deleteSession: db.prepare<[string, string]>('DELETE FROM sessions WHERE user_id = ? AND id = ?'),
+
+    sessionSets: db.prepare<[string, string], { exercise_index: number; data: string }>(
+      'SELECT exercise_index, data FROM sets WHERE user_id = ? AND session_id = ? ORDER BY exercise_index, position'
+    ),
+    setCount: db.prepare<[string, string, number], { count: number }>(
+      'SELECT COUNT(*) AS count FROM sets WHERE user_id = ? AND session_id = ? AND exercise_index = ?'
+    ),
+    insertSet: db.prepare(
+      `INSERT INTO sets (user_id, session_id, exercise_index, position, exercise_id, set_number, reps, weight, completed_at, data)
+       VALUES (@userId, @sessionId, @exerciseIndex, @position, @exerciseId, @setNumber, @reps, @weight, @completedAt, @data)`
+    ),
+    deleteSessionSets: db.prepare<[string, string]>('DELETE FROM sets WHERE user_id = ? AND session_id = ?'),
+
+    kvGet: db.prepare<[string, string], { value: string }>('SELECT value FROM kv WHERE user_id = ? AND key = ?'),
+    kvSet: db.prepare<[string, string, string]>(
+      `INSERT INTO kv (user_id, key, value) VALUES (?, ?, ?)
+       ON CONFLICT (user_id, key) DO UPDATE SET value = excluded.value`
+    ),
+    kvDelete: db.prepare<[string, string]>('DELETE FROM kv WHERE user_id = ? AND key = ?'),
+    kvKeys: db.prepare<[string], { key: string }>('SELECT key FROM kv WHERE user_id = ?'),
+    kvAll: db.prepare<[], { user_id: string; key: string; value: string }>('SELECT * FROM kv'),
+    hasPlans: db.prepare<[string], { found: number }>('SELECT 1 AS found FROM plans WHERE user_id = ? LIMIT 1'),
+    hasSessions: db.prepare<[string], { found: number }>('SELECT 1 AS found FROM sessions WHERE user_id = ? LIMIT 1'),
+    usersWithData: db.prepare<[], { user_id: string }>(
+      'SELECT user_id FROM plans UNION SELECT user_id FROM sessions'
+    ),
+
+    revision: db.prepare<[string, string], { revision: number }>(
+      'SELECT revision FROM revisions WHERE user_id = ? AND key = ?'
+    ),
+    bumpRevision: db.prepare<[string, string], { revision: number }>(
+      `INSERT INTO revisions (user_id, key, revision) VALUES (?, ?, 1)
+       ON CONFLICT (user_id, key) DO UPDATE SET revision = revision + 1
+       RETURNING revision`
+    ),
+    bumpRevisionsWithPrefix: db.prepare<[string, number, string]>(
+      'UPDATE revisions SET revision = revision + 1 WHERE user_id = ? AND substr(key, 1, ?) = ?'
+    ),
+  };
+
+  const revisionOf = (userId: string, key: string): number => statements.revision.get(userId, key)?.revision ?? 0;
+
+  const bumpRevision = (userId: string, key: string): number => statements.bumpRevision.get(userId, key)!.revision;
+
+  const checkRevision = (userId: string, key: string, ifRevision: number | undefined): void => {
+    if (ifRevision === undefined) {
+      return;
+    }
+    const current = revisionOf(userId, key);
+    if (current !== ifRevision) {
+      throw new RevisionConflictError(current);
+    }
+  };
+
+  /**
+   * Bump the revisions of every item a collection ever held, e.g. when it is deleted
+   */
+  const bumpItemRevisions = (userId: string, key: string): void => {
+    const prefix = `${key}/`;
+    statements.bumpRevisionsWithPrefix.run(userId, prefix.length, prefix);
+  };
+
+  const digestOf = (session: WorkoutSession): string =>
+    createHash('sha1').update(JSON.stringify(session)).digest('hex');
+
+  const readPlans = (userId: string): WorkoutPlan[] | undefined => {
+    const rows = statements.plans.all(userId);
+    return rows.length > 0 ? rows.map((row) => JSON.parse(row.data)) : undefined;
+  };
+
+  const writePlan = (userId: string, plan: WorkoutPlan, position: number): void => {
+    statements.upsertPlan.run({
+      userId,
+      id: plan.id,
+      position,
+      name: String(plan.name ?? ''),
+      createdAt: Number(plan.createdAt) || 0,
+      data: JSON.stringify(plan),
+    });
+  };
+
+  const writePlans = db.transaction((userId: string, plans: WorkoutPlan[]) => {
+    const existing = new Map(statements.planData.all(userId).map((row) => [row.id, row.data]));
+    const keep = new Set(plans.map((p) => p.id));
+    existing.forEach((_data, id) => {
+      if (!keep.has(id)) {
+        statements.deletePlan.run(userId, id);
+        bumpRevision(userId, planRevisionKey(id));
+      }
+    });
+    plans.forEach((plan, position) => {
+      if (existing.get(plan.id) !== JSON.stringify(plan)) {
+        bumpRevision(userId, planRevisionKey(plan.id));
+      }
+      writePlan(userId, plan, position);
+    });
+  });
+
+  /**
+   * Rebuild full sessions from their rows plus the `sets` table
+   */
+  const hydrateSessions = (userId: string, rows: SessionRow[]): WorkoutSession[] =>
+    rows.map((row) => {
+      const session: WorkoutSession = JSON.parse(row.data);
+      session.exercises.forEach((exercise) => (exercise.completedSets = []));
+      statements.sessionSets.all(userId, row.id).forEach((setRow) => {
+        session.exercises[setRow.exercise_index]?.completedSets.push(JSON.parse(setRow.data));
+      });
+      return session;
+    });
+
+  const querySessions = (userId: string, query: SessionQuery = {}): WorkoutSession[] => {
+    const conditions = ['user_id = @userId'];
+    const params: Record<string, unknown> = { userId };
+    if (query.status) {
+      conditions.push('status = @status');
+      params.status = query.status;
+    }
+    if (query.planId) {
+      conditions.push('plan_id = @planId');
+      params.planId = query.planId;
+    }
+    if (query.limit) {
+      params.limit = query.limit;
+    }
+    const where = conditions.join(' AND ');
+    const sql = query.limit
+      ? `SELECT * FROM (
+           SELECT id, position, data, started_at FROM sessions WHERE ${where}
+           ORDER BY started_at DESC LIMIT @limit
+         ) ORDER BY started_at`
+      : `SELECT id, position, data FROM sessions WHERE ${where} ORDER BY position`;
+    const rows = db.prepare<[Record<string, unknown>], SessionRow>(sql).all(params);
+    return hydrateSessions(userId, rows);
+  };
+
+  const writeSession = (userId: string, session: WorkoutSession, position: number, digest: string): void => {
+    statements.upsertSession.run({
+      userId,
+      id: session.id,
+      position,
+      planId: String(session.planId ?? ''),
+      status: String(session.status ?? ''),
+      startedAt: Number(session.startedAt) || 0,
+      completedAt: session.completedAt ?? null,
+      digest,
+      data: JSON.stringify({
+        ...session,
+        exercises: session.exercises.map(({ completedSets: _sets, ...exercise }) => exercise),
+      }),
+    });
+    statements.deleteSessionSets.run(userId, session.id);
+    session.exercises.forEach((exercise, exerciseIndex) => {
+      exercise.completedSets.forEach((set, setPosition) => {
+        statements.insertSet.run({
+          userId,
+          sessionId: session.id,
+          exerciseIndex,
+          position: setPosition,
+          exerciseId: exercise.exerciseId,
+          setNumber: Number(set.setNumber) || setPosition + 1,
+          reps: Number(set.reps) || 0,
+          weight: set.weight ?? null,
+          completedAt: Number(set.completedAt) || 0,
+          data: JSON.stringify(set),
+        });
+      });
+    });
+  };
+
+  const writeSessions = db.transaction((userId: string, sessions: WorkoutSession[]) => {
+    const existing = new Map(statements.sessionDigests.all(userId).map((row) => [row.id, row]));
+    const keep = new Set(sessions.map((s) => s.id));
+    existing.forEach((_row, id) => {
+      if (!keep.has(id)) {
+        statements.deleteSession.run(userId, id);
+        bumpRevision(userId, sessionRevisionKey(id));
+      }
+    });
+
+    sessions.forEach((session, position) => {
+      const digest = digestOf(session);
+      const current = existing.get(session.id);
+
+      // Unchanged sessions keep their rows; only their order may move
+      if (current?.digest === digest) {
+        if (current.position !== position) {
+          statements.moveSession.run(position, userId, session.id);
+        }
+        return;
+      }
+      writeSession(userId, session, position, digest);
+      bumpRevision(userId, sessionRevisionKey(session.id));
+    });
+  });
+
+  const setValue = db.transaction((userId: string, key: string, value: unknown, ifRevision?: number): number => {
+    checkRevision(userId, key, ifRevision);
+    if (key === PLANS_KEY) {
+      assertPlans(value);
+      writePlans(userId, value);
+    } else if (key === SESSIONS_KEY) {
+      assertSessions(value);
+      writeSessions(userId, value);
+    } else {
+      statements.kvSet.run(userId, key, JSON.stringify(value));
+    }
+    return bumpRevision(userId, key);
+  });
+
+  const deleteValue = db.transaction((userId: string, key: string, ifRevision?: number) => {
+    checkRevision(userId, key, ifRevision);
+    let deleted: boolean;
+    if (key === PLANS_KEY) {
+      deleted = statements.deletePlans.run(userId).changes > 0;
+    } else if (key === SESSIONS_KEY) {
+      deleted = statements.deleteSessions.run(userId).changes > 0;
+    } else {
+      deleted = statements.kvDelete.run(userId, key).changes > 0;
+    }
+    if (deleted) {
+      bumpItemRevisions(userId, key);
+      bumpRevision(userId, key);
+    }
+  });
+
+  const savePlan = db.transaction((userId: string, plan: WorkoutPlan, ifRevision?: number): number => {
+    checkRevision(userId, planRevisionKey(plan.id), ifRevision);
+    const current = statements.plan.get(userId, plan.id);
+    const position = current?.position ?? statements.nextPlanPosition.get(userId)!.next;
+    writePlan(userId, plan, position);
+    bumpRevision(userId, PLANS_KEY);
+    // As when the whole collection is replaced, an unchanged plan keeps its revision
+    return current?.data === JSON.stringify(plan)
+      ? revisionOf(userId, planRevisionKey(plan.id))
+      : bumpRevision(userId, planRevisionKey(plan.id));
+  });
+
+  const deletePlan = db.transaction((userId: string, planId: string, ifRevision?: number): boolean => {
+    checkRevision(userId, planRevisionKey(planId), ifRevision);
+    if (statements.deletePlan.run(userId, planId).changes === 0) {
+      return false;
+    }
+    bumpRevision(userId, planRevisionKey(planId));
+    bumpRevision(userId, PLANS_KEY);
+    return true;
+  });
+
+  const saveSession = db.transaction((userId: string, session: WorkoutSession, ifRevision?: number): number => {
+    checkRevision(userId, sessionRevisionKey(session.id), ifRevision);
+    const digest = digestOf(session);
+    bumpRevision(userId, SESSIONS_KEY);
+    if (statements.sessionDigest.get(userId, session.id)?.digest === digest) {
+      return revisionOf(userId, sessionRevisionKey(session.id));
+    }
+    const position =
+      statements.session.get(userId, session.id)?.position ?? statements.nextSessionPosition.get(userId)!.next;
+    writeSession(userId, session, position, digest);
+    return bumpRevision(userId, sessionRevisionKey(session.id));
+  });
+
+  const deleteSession = db.transaction((userId: string, sessionId: string, ifRevision?: number): boolean => {
+    checkRevision(userId, sessionRevisionKey(sessionId), ifRevision);
+    if (statements.deleteSession.run(userId, sessionId).changes === 0) {
+      return false;
+    }
+    bumpRevision(userId, sessionRevisionKey(sessionId));
+    bumpRevision(userId, SESSIONS_KEY);
+    return true;
+  });
+
+  const addSet = db.transaction(
+    (userId: string, sessionId: string, exerciseIndex: number, set: CompletedSet): WorkoutSession | undefined => {
+      const row = statements.session.get(userId, sessionId);
+      if (!row) {
+        return undefined;
+      }
+      const [current] = hydrateSessions(userId, [row]);
+      const exercise = current.exercises[exerciseIndex];
+      if (!exercise) {
+        throw new InvalidDataError(`Session ${sessionId} has no exercise at index ${exerciseIndex}`);
+      }
+      if (hasSet(exercise.completedSets, set)) {
+        return current;
+      }
+      const position = statements.setCount.get(userId, sessionId, exerciseIndex)!.count;
+      statements.insertSet.run({
+        userId,
+        sessionId,
+        exerciseIndex,
+        position,
+        exerciseId: exercise.exerciseId,
+        setNumber: set.setNumber,
+        reps: set.reps,
+        weight: set.weight ?? null,
+        completedAt: set.completedAt,
+        data: JSON.stringify(set),
+      });
+      const [session] = hydrateSessions(userId, [row]);
+      statements.setDigest.run(digestOf(session), userId, sessionId);
+      bumpRevision(userId, SESSIONS_KEY);
+      bumpRevision(userId, sessionRevisionKey(sessionId));
+      return session;
+    }
+  );
+
+  const storage: Storage = {
+    driver: 'sqlite',
+
+    findUserById(id) {
+      return toUser(statements.userById.get(id));
+    },
+
+    findUserByEmail(email) {
+      return toUser(statements.userByEmail.get(email.toLowerCase()));
+    },
+
+    createUser(user) {
+      statements.upsertUser.run({ ...user, email: user.email.toLowerCase() });
+    },
+
+    getValue(userId, key) {
+      if (key === PLANS_KEY) {
+        return readPlans(userId);
+      }
+      if (key === SESSIONS_KEY) {
+        const sessions = querySessions(userId);
+        return sessions.length > 0 ? sessions : undefined;
+      }
+      const row = statements.kvGet.get(userId, key);
+      return row ? JSON.parse(row.value) : undefined;
+    },
+
+    setValue(userId, key, value, ifRevision) {
+      return setValue(userId, key, value, ifRevision);
+    },
+
+    deleteValue(userId, key, ifRevision) {
+      deleteValue(userId, key, ifRevision);
+    },
+
+    getRevision(userId, key) {
+      return revisionOf(userId, key);
+    },
+
+    listKeys(userId) {
+      const keys = statements.kvKeys.all(userId).map((row) => row.key);
+      if (statements.hasPlans.get(userId)) {
+        keys.push(PLANS_KEY);
+      }
+      if (statements.hasSessions.get(userId)) {
+        keys.push(SESSIONS_KEY);
+      }
+      return keys;
+    },
+
+    listPlans(userId) {
+      return readPlans(userId) ?? [];
+    },
+
+    getPlan(userId, planId) {
+      const row = statements.plan.get(userId, planId);
+      return row ? JSON.parse(row.data) : undefined;
+    },
+
+    savePlan(userId, plan, ifRevision) {
+      return savePlan(userId, plan, ifRevision);
+    },
+
+    deletePlan(userId, planId, ifRevision) {
+      return deletePlan(userId, planId, ifRevision);
+    },
+
+    listSessions(userId, query) {
+      return querySessions(userId, query);
+    },
+
+    getSession(userId, sessionId) {
+      const row = statements.session.get(userId, sessionId);
+      return row ? hydrateSessions(userId, [row])[0] : undefined;
+    },
+
+    saveSession(userId, session, ifRevision) {
+      return saveSession(userId, session, ifRevision);
+    },
+
+    deleteSession(userId, sessionId, ifRevision) {
+      return deleteSession(userId, sessionId, ifRevision);
+    },
+
+    addSet(userId, sessionId, exerciseIndex, set) {
+      return addSet(userId, sessionId, exerciseIndex, set);
+    },
+
+    exportAll() {
+      const exportData: Record<string, unknown> = {};
+      const users: Record<string, StoredUser> = {};
+      statements.allUsers.all().forEach((row) => {
+        users[row.id] = toUser(row)!;
+      });
+      exportData.users = users;
+
+      statements.kvAll.all().forEach((row) => {
+        exportData[scopeKey(row.user_id, row.key)] = JSON.parse(row.value);
+      });
+      statements.usersWithData.all().forEach(({ user_id: userId }) => {
+        const plans = readPlans(userId);
+        const sessions = querySessions(userId);
+        if (plans) {
+          exportData[scopeKey(userId, PLANS_KEY)] = plans;
+        }
+        if (sessions.length > 0) {
+          exportData[scopeKey(userId, SESSIONS_KEY)] = sessions;
+        }
+      });
+      return exportData;
+    },
+
+    importAll: (data) =>
+      db.transaction(() => {
+        let imported = 0;
+        Object.entries(data).forEach(([key, value]) => {
+          if (key === 'users' && isRecord(value)) {
+            Object.values(value).forEach((user) => storage.createUser(user as StoredUser));
+            imported++;
+            return;
+          }
+          const scoped = parseScopedKey(key);
+          if (!scoped) {
+            console.warn(`Skipping unscoped key during import: ${key}`);
+            return;
+          }
+          storage.setValue(scoped.userId, scoped.key, value);
+          imported++;
+        });
+        return imported;
+      })(),
+
+    close() {
+      db.close();
+    },
+  };
+
+  return storage;
+}
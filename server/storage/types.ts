@@ -0,0 +1,160 @@
+/**
+ * Storage contracts shared by every backend storage engine
+ */
+
+import type { CompletedSet, SessionQuery, WorkoutPlan, WorkoutSession } from '../../src/lib/types.js';
+
+export type { SessionQuery };
+
+export interface StoredUser {
+  id: string;
+  email: string;
+  name: string;
+  passwordHash: string;
+  createdAt: number;
+}
+
+/**
+ * Keys that are stored as rows rather than opaque values.
+ * Engines may keep other keys as plain JSON blobs.
+ */
+export const PLANS_KEY = 'workout-plans';
+export const SESSIONS_KEY = 'workout-sessions';
+
+/**
+ * Thrown when a value cannot be stored because of its shape
+ * (e.g. `workout-sessions` that is not an array of sessions)
+ */
+export class InvalidDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDataError';
+  }
+}
+
+/**
+ * Thrown when a write names a revision (If-Match) that is no longer current
+ */
+export class RevisionConflictError extends Error {
+  readonly currentRevision: number;
+
+  constructor(currentRevision: number) {
+    super(`Revision conflict: current revision is ${currentRevision}`);
+    this.name = 'RevisionConflictError';
+    this.currentRevision = currentRevision;
+  }
+}
+
+/**
+ * Revision key of a single plan
+ */
+export function planRevisionKey(planId: string): string {
+  return `${PLANS_KEY}/${planId}`;
+}
+
+/**
+ * Revision key of a single session
+ */
+export function sessionRevisionKey(sessionId: string): string {
+  return `${SESSIONS_KEY}/${sessionId}`;
+}
+
+/**
+ * Whether `set` is already logged in `sets`. A set is identified by its
+ * number and completion time, so a replayed request can be recognised.
+ */
+export function hasSet(sets: CompletedSet[], set: CompletedSet): boolean {
+  return sets.some((logged) => logged.setNumber === set.setNumber && logged.completedAt === set.completedAt);
+}
+
+/**
+ * Persistence backend for the Express server.
+ * All per-user data is scoped by user ID; keys match the ones the
+ * frontend passes to `usePersistentState`.
+ *
+ * Every stored value carries a revision that increases on each write.
+ * Deleting a value bumps its revision too and keeps it as a tombstone,
+ * so a recreated value never reuses an earlier revision. Writes accept
+ * an optional `ifRevision` and throw RevisionConflictError when it does
+ * not match. Plans and sessions also have their own
+ * revisions (see planRevisionKey/sessionRevisionKey), which increase
+ * only when a write changes or removes the item; writing one always
+ * bumps its collection key.
+ */
+export interface Storage {
+  /** Short identifier for logs, e.g. "sqlite" */
+  readonly driver: string;
+
+  findUserById(id: string): StoredUser | undefined;
+  findUserByEmail(email: string): StoredUser | undefined;
+  createUser(user: StoredUser): void;
+
+  /** Returns `undefined` when nothing is stored for the key */
+  getValue(userId: string, key: string): unknown;
+  /** Returns the new revision */
+  setValue(userId: string, key: string, value: unknown, ifRevision?: number): number;
+  deleteValue(userId: string, key: string, ifRevision?: number): void;
+  /** Current revision of a key; 0 when it was never stored */
+  getRevision(userId: string, key: string): number;
+  listKeys(userId: string): string[];
+
+  /** Plans in the order the user arranged them */
+  listPlans(userId: string): WorkoutPlan[];
+  getPlan(userId: string, planId: string): WorkoutPlan | undefined;
+  /** Insert or replace a plan; new plans are appended. Returns the plan's revision */
+  savePlan(userId: string, plan: WorkoutPlan, ifRevision?: number): number;
+  /** Returns false when the plan did not exist */
+  deletePlan(userId: string, planId: string, ifRevision?: number): boolean;
+
+  /** Sessions oldest first */
+  listSessions(userId: string, query?: SessionQuery): WorkoutSession[];
+  getSession(userId: string, sessionId: string): WorkoutSession | undefined;
+  /** Insert or replace a session; new sessions are appended. Returns the session's revision */
+  saveSession(userId: string, session: WorkoutSession, ifRevision?: number): number;
+  /** Returns false when the session did not exist */
+  deleteSession(userId: string, sessionId: string, ifRevision?: number): boolean;
+  /**
+   * Append a completed set to one exercise of a session; a set it already
+   * has (see `hasSet`) is not added again, so retrying is safe.
+   * Returns the updated session, or undefined when the session does not exist.
+   * Throws InvalidDataError for an out-of-range exercise index.
+   */
+  addSet(userId: string, sessionId: string, exerciseIndex: number, set: CompletedSet): WorkoutSession | undefined;
+
+  /**
+   * Dump everything as `{ users, "user-<id>-<key>": value }`,
+   * the layout of the original `.data/` directory
+   */
+  exportAll(): Record<string, unknown>;
+  /** Inverse of `exportAll`; returns the number of entries written */
+  importAll(data: Record<string, unknown>): number;
+
+  close(): void;
+}
+
+/** Owner of the exercise catalog, which belongs to no user; never a user id, which are UUIDs */
+export const CATALOG_SCOPE = 'catalog';
+
+const SCOPED_KEY_PATTERN = new RegExp(
+  `^user-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|${CATALOG_SCOPE})-(.+)$`,
+  'i'
+);
+
+/**
+ * Build the export key for a user-scoped value
+ */
+export function scopeKey(userId: string, key: string): string {
+  return `user-${userId}-${key}`;
+}
+
+/**
+ * Split an export key back into user ID (or `CATALOG_SCOPE`) and key.
+ * Returns null for keys that are not scoped.
+ */
+export function parseScopedKey(scopedKey: string): { userId: string; key: string } | null {
+  const match = scopedKey.match(SCOPED_KEY_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return { userId: match[1], key: match[2] };
+}
@@ -1,7 +1,7 @@
-import { useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Toaster } from '@/components/ui/sonner';
-import { Barbell, Play, TrendUp, BookOpen, SignOut, User } from '@phosphor-icons/react';
+import { Barbell, Play, TrendUp, BookOpen, SignOut, User, MagnifyingGlass } from '@phosphor-icons/react';
 import { PlansView } from '@/components/PlansView';
 import { WorkoutView } from '@/components/WorkoutView';
 import { ProgressView } from '@/components/ProgressView';
@@ -10,6 +10,9 @@ import { AccountView } from '@/components/AccountView';
 import { LoginView } from '@/components/LoginView';
 import { SignupView } from '@/components/SignupView';
 import { SkipToContent } from '@/components/SkipToContent';
+import { SyncStatusIndicator } from '@/components/SyncStatusIndicator';
+import { CommandPalette } from '@/components/CommandPalette';
+import { CommandPaletteContext, PlanTarget } from '@/hooks/use-command-palette';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
@@ -19,6 +22,26 @@ function App() {
   const [authView, setAuthView] = useState<'login' | 'signup'>('login');
   const isMobile = useIsMobile();
   const { isAuthenticated, isLoading, user, logout } = useAuth();
+  const [isPaletteOpen, setPaletteOpen] = useState(false);
+  const [planTarget, setPlanTarget] = useState<PlanTarget | null>(null);
+  const [openExerciseId, setOpenExerciseId] = useState<string | null>(null);
+  const [startPlanId, setStartPlanId] = useState<string | null>(null);
+  const palette = useMemo(
+    () => ({ isOpen: isPaletteOpen, setOpen: setPaletteOpen, planTarget, setPlanTarget }),
+    [isPaletteOpen, planTarget]
+  );
+  const clearOpenExercise = useCallback(() => setOpenExerciseId(null), []);
+  const clearStartPlan = useCallback(() => setStartPlanId(null), []);
+
+  const handleOpenExercise = (exerciseId: string) => {
+    setActiveTab('library');
+    setOpenExerciseId(exerciseId);
+  };
+
+  const handleStartPlan = (planId: string) => {
+    setActiveTab('workout');
+    setStartPlanId(planId);
+  };
 
   // Show loading state while checking authentication
   if (isLoading) {
@@ -48,149 +71,165 @@ function App() {
 
   // Main app UI for authenticated users
   return (
-    <div className="min-h-screen bg-background">
-      <Toaster />
-      <SkipToContent />
-      <header className="border-b border-border bg-card sticky top-0 z-50" role="banner">
-        <div className="container mx-auto px-4 py-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <Barbell size={32} weight="bold" className="text-primary" aria-hidden="true" />
-              <div>
-                <h1 className="text-2xl font-bold tracking-tight">FitTrack</h1>
-                <p className="text-sm text-muted-foreground">Smart Workout Tracker</p>
+    <CommandPaletteContext.Provider value={palette}>
+      <div className="min-h-screen bg-background">
+        <Toaster />
+        <CommandPalette onOpenExercise={handleOpenExercise} onStartPlan={handleStartPlan} />
+        <SkipToContent />
+        <header className="border-b border-border bg-card sticky top-0 z-50" role="banner">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Barbell size={32} weight="bold" className="text-primary" aria-hidden="true" />
+                <div>
+                  <h1 className="text-2xl font-bold tracking-tight">FitTrack</h1>
+                  <p className="text-sm text-muted-foreground">Smart Workout Tracker</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-4">
+                <SyncStatusIndicator />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPaletteOpen(true)}
+                  className="flex items-center gap-2 text-muted-foreground"
+                  aria-label="Search exercises and plans"
+                  aria-keyshortcuts="Meta+K Control+K"
+                >
+                  <MagnifyingGlass size={18} aria-hidden="true" />
+                  <span className="hidden md:inline">Search</span>
+                  <kbd className="hidden md:inline text-xs">⌘K</kbd>
+                </Button>
+                <span className="text-sm text-muted-foreground hidden md:inline">
+                  Welcome, <span className="font-semibold text-foreground">{user?.name}</span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={logout}
+                  className="flex items-center gap-2"
+                  aria-label="Log out"
+                >
+                  <SignOut size={18} aria-hidden="true" />
+                  <span className="hidden md:inline">Log Out</span>
+                </Button>
               </div>
-            </div>
-            <div className="flex items-center gap-4">
-              <span className="text-sm text-muted-foreground hidden md:inline">
-                Welcome, <span className="font-semibold text-foreground">{user?.name}</span>
-              </span>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={logout}
-                className="flex items-center gap-2"
-                aria-label="Log out"
-              >
-                <SignOut size={18} aria-hidden="true" />
-                <span className="hidden md:inline">Log Out</span>
-              </Button>
             </div>
           </div>
-        </div>
-      </header>
+        </header>
 
-      <main className="container mx-auto px-4 py-6 pb-24 md:pb-6" role="main">
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          {!isMobile && (
-            <TabsList className="grid w-full max-w-2xl mx-auto grid-cols-5 mb-8" aria-label="Main navigation">
-              <TabsTrigger value="plans" className="flex items-center gap-2" aria-current={activeTab === 'plans' ? 'page' : undefined}>
-                <Barbell size={18} weight="bold" aria-hidden="true" />
-                <span>Plans</span>
-              </TabsTrigger>
-              <TabsTrigger value="workout" className="flex items-center gap-2" aria-current={activeTab === 'workout' ? 'page' : undefined}>
-                <Play size={18} weight="fill" aria-hidden="true" />
-                <span>Workout</span>
-              </TabsTrigger>
-              <TabsTrigger value="progress" className="flex items-center gap-2" aria-current={activeTab === 'progress' ? 'page' : undefined}>
-                <TrendUp size={18} weight="bold" aria-hidden="true" />
-                <span>Progress</span>
-              </TabsTrigger>
-              <TabsTrigger value="library" className="flex items-center gap-2" aria-current={activeTab === 'library' ? 'page' : undefined}>
-                <BookOpen size={18} weight="bold" aria-hidden="true" />
-                <span>Library</span>
-              </TabsTrigger>
-              <TabsTrigger value="account" className="flex items-center gap-2" aria-current={activeTab === 'account' ? 'page' : undefined}>
-                <User size={18} weight="bold" aria-hidden="true" />
-                <span>Account</span>
-              </TabsTrigger>
-            </TabsList>
-          )}
+        <main className="container mx-auto px-4 py-6 pb-24 md:pb-6" role="main">
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+            {!isMobile && (
+              <TabsList className="grid w-full max-w-2xl mx-auto grid-cols-5 mb-8" aria-label="Main navigation">
+                <TabsTrigger value="plans" className="flex items-center gap-2" aria-current={activeTab === 'plans' ? 'page' : undefined}>
+                  <Barbell size={18} weight="bold" aria-hidden="true" />
+                  <span>Plans</span>
+                </TabsTrigger>
+                <TabsTrigger value="workout" className="flex items-center gap-2" aria-current={activeTab === 'workout' ? 'page' : undefined}>
+                  <Play size={18} weight="fill" aria-hidden="true" />
+                  <span>Workout</span>
+                </TabsTrigger>
+                <TabsTrigger value="progress" className="flex items-center gap-2" aria-current={activeTab === 'progress' ? 'page' : undefined}>
+                  <TrendUp size={18} weight="bold" aria-hidden="true" />
+                  <span>Progress</span>
+                </TabsTrigger>
+                <TabsTrigger value="library" className="flex items-center gap-2" aria-current={activeTab === 'library' ? 'page' : undefined}>
+                  <BookOpen size={18} weight="bold" aria-hidden="true" />
+                  <span>Library</span>
+                </TabsTrigger>
+                <TabsTrigger value="account" className="flex items-center gap-2" aria-current={activeTab === 'account' ? 'page' : undefined}>
+                  <User size={18} weight="bold" aria-hidden="true" />
+                  <span>Account</span>
+                </TabsTrigger>
+              </TabsList>
+            )}
 
-          <TabsContent value="plans" className="mt-0">
-            <PlansView />
-          </TabsContent>
+            <TabsContent value="plans" className="mt-0">
+              <PlansView />
+            </TabsContent>
 
-          <TabsContent value="workout" className="mt-0">
-            <WorkoutView />
-          </TabsContent>
+            <TabsContent value="workout" className="mt-0">
+              <WorkoutView startPlanId={startPlanId} onStartPlanHandled={clearStartPlan} />
+            </TabsContent>
 
-          <TabsContent value="progress" className="mt-0">
-            <ProgressView />
-          </TabsContent>
+            <TabsContent value="progress" className="mt-0">
+              <ProgressView />
+            </TabsContent>
 
-          <TabsContent value="library" className="mt-0">
-            <LibraryView />
-          </TabsContent>
+            <TabsContent value="library" className="mt-0">
+              <LibraryView openExerciseId={openExerciseId} onExerciseOpened={clearOpenExercise} />
+            </TabsContent>
 
-          <TabsContent value="account" className="mt-0">
-            <AccountView />
-          </TabsContent>
-        </Tabs>
-      </main>
+            <TabsContent value="account" className="mt-0">
+              <AccountView />
+            </TabsContent>
+          </Tabs>
+        </main>
 
-      {isMobile && (
-        <nav className="fixed bottom-0 left-0 right-0 bg-card border-t border-border z-50" aria-label="Main navigation">
-          <div className="grid grid-cols-5 h-16">
-            <button
-              onClick={() => setActiveTab('plans')}
-              className={`flex flex-col items-center justify-center gap-1 ${
-                activeTab === 'plans' ? 'text-primary' : 'text-muted-foreground'
-              }`}
-              aria-label="Plans"
-              aria-current={activeTab === 'plans' ? 'page' : undefined}
-            >
-              <Barbell size={24} weight={activeTab === 'plans' ? 'fill' : 'regular'} aria-hidden="true" />
-              <span className="text-xs font-medium">Plans</span>
-            </button>
-            <button
-              onClick={() => setActiveTab('workout')}
-              className={`flex flex-col items-center justify-center gap-1 ${
-                activeTab === 'workout' ? 'text-primary' : 'text-muted-foreground'
-              }`}
-              aria-label="Workout"
-              aria-current={activeTab === 'workout' ? 'page' : undefined}
-            >
-              <Play size={24} weight={activeTab === 'workout' ? 'fill' : 'regular'} aria-hidden="true" />
-              <span className="text-xs font-medium">Workout</span>
-            </button>
-            <button
-              onClick={() => setActiveTab('progress')}
-              className={`flex flex-col items-center justify-center gap-1 ${
-                activeTab === 'progress' ? 'text-primary' : 'text-muted-foreground'
-              }`}
-              aria-label="Progress"
-              aria-current={activeTab === 'progress' ? 'page' : undefined}
-            >
-              <TrendUp size={24} weight={activeTab === 'progress' ? 'fill' : 'regular'} aria-hidden="true" />
-              <span className="text-xs font-medium">Progress</span>
-            </button>
-            <button
-              onClick={() => setActiveTab('library')}
-              className={`flex flex-col items-center justify-center gap-1 ${
-                activeTab === 'library' ? 'text-primary' : 'text-muted-foreground'
-              }`}
-              aria-label="Library"
-              aria-current={activeTab === 'library' ? 'page' : undefined}
-            >
-              <BookOpen size={24} weight={activeTab === 'library' ? 'fill' : 'regular'} aria-hidden="true" />
-              <span className="text-xs font-medium">Library</span>
-            </button>
-            <button
-              onClick={() => setActiveTab('account')}
-              className={`flex flex-col items-center justify-center gap-1 ${
-                activeTab === 'account' ? 'text-primary' : 'text-muted-foreground'
-              }`}
-              aria-label="Account"
-              aria-current={activeTab === 'account' ? 'page' : undefined}
-            >
-              <User size={24} weight={activeTab === 'account' ? 'fill' : 'regular'} aria-hidden="true" />
-              <span className="text-xs font-medium">Account</span>
-            </button>
-          </div>
-        </nav>
-      )}
-    </div>
+        {isMobile && (
+          <nav className="fixed bottom-0 left-0 right-0 bg-card border-t border-border z-50" aria-label="Main navigation">
+            <div className="grid grid-cols-5 h-16">
+              <button
+                onClick={() => setActiveTab('plans')}
+                className={`flex flex-col items-center justify-center gap-1 ${
+                  activeTab === 'plans' ? 'text-primary' : 'text-muted-foreground'
+                }`}
+                aria-label="Plans"
+                aria-current={activeTab === 'plans' ? 'page' : undefined}
+              >
+                <Barbell size={24} weight={activeTab === 'plans' ? 'fill' : 'regular'} aria-hidden="true" />
+                <span className="text-xs font-medium">Plans</span>
+              </button>
+              <button
+                onClick={() => setActiveTab('workout')}
+                className={`flex flex-col items-center justify-center gap-1 ${
+                  activeTab === 'workout' ? 'text-primary' : 'text-muted-foreground'
+                }`}
+                aria-label="Workout"
+                aria-current={activeTab === 'workout' ? 'page' : undefined}
+              >
+                <Play size={24} weight={activeTab === 'workout' ? 'fill' : 'regular'} aria-hidden="true" />
+                <span className="text-xs font-medium">Workout</span>
+              </button>
+              <button
+                onClick={() => setActiveTab('progress')}
+                className={`flex flex-col items-center justify-center gap-1 ${
+                  activeTab === 'progress' ? 'text-primary' : 'text-muted-foreground'
+                }`}
+                aria-label="Progress"
+                aria-current={activeTab === 'progress' ? 'page' : undefined}
+              >
+                <TrendUp size={24} weight={activeTab === 'progress' ? 'fill' : 'regular'} aria-hidden="true" />
+                <span className="text-xs font-medium">Progress</span>
+              </button>
+              <button
+                onClick={() => setActiveTab('library')}
+                className={`flex flex-col items-center justify-center gap-1 ${
+                  activeTab === 'library' ? 'text-primary' : 'text-muted-foreground'
+                }`}
+                aria-label="Library"
+                aria-current={activeTab === 'library' ? 'page' : undefined}
+              >
+                <BookOpen size={24} weight={activeTab === 'library' ? 'fill' : 'regular'} aria-hidden="true" />
+                <span className="text-xs font-medium">Library</span>
+              </button>
+              <button
+                onClick={() => setActiveTab('account')}
+                className={`flex flex-col items-center justify-center gap-1 ${
+                  activeTab === 'account' ? 'text-primary' : 'text-muted-foreground'
+                }`}
+                aria-label="Account"
+                aria-current={activeTab === 'account' ? 'page' : undefined}
+              >
+                <User size={24} weight={activeTab === 'account' ? 'fill' : 'regular'} aria-hidden="true" />
+                <span className="text-xs font-medium">Account</span>
+              </button>
+            </div>
+          </nav>
+        )}
+      </div>
+    </CommandPaletteContext.Provider>
   );
 }
 
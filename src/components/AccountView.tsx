@@ -1,10 +1,20 @@
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePreferences } from '@/hooks/use-preferences';
+import { ONE_REP_MAX_FORMULAS } from '@/lib/one-rep-max';
+import { UNIT_SYSTEMS } from '@/lib/units';
+import { defaultEquipmentProfile } from '@/lib/equipment';
+import { OneRepMaxFormula, UnitSystem } from '@/lib/types';
+import { WarmUpSchemeEditor } from '@/components/WarmUpSchemeEditor';
+import { EquipmentProfileEditor } from '@/components/EquipmentProfileEditor';
 import { User, SignOut, Envelope, Calendar } from '@phosphor-icons/react';
 
 export function AccountView() {
   const { user, logout } = useAuth();
+  const { preferences, updatePreferences } = usePreferences();
 
   if (!user) {
     return (
@@ -14,6 +24,16 @@ export function AccountView() {
     );
   }
 
+  /** Switch units, bringing the equipment along while it is still the old system's default */
+  const handleUnitSystemChange = (unitSystem: UnitSystem) => {
+    const previous = defaultEquipmentProfile(UNIT_SYSTEMS[preferences.unitSystem].weight);
+    const isDefault = JSON.stringify(preferences.equipment) === JSON.stringify(previous);
+    updatePreferences({
+      unitSystem,
+      ...(isDefault ? { equipment: defaultEquipmentProfile(UNIT_SYSTEMS[unitSystem].weight) } : {}),
+    });
+  };
+
   const joinDate = new Date(user.createdAt).toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'long',
@@ -64,6 +84,67 @@ export function AccountView() {
             </div>
           </div>
 
+          {/* Preferences */}
+          <section className="pt-8 border-t border-border">
+            <h2 className="text-lg font-semibold mb-4">Preferences</h2>
+            <Label htmlFor="unit-system">Units</Label>
+            <Select value={preferences.unitSystem} onValueChange={(value) => handleUnitSystemChange(value as UnitSystem)}>
+              <SelectTrigger id="unit-system" className="mt-1 mb-6">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(UNIT_SYSTEMS).map(([system, { label }]) => (
+                  <SelectItem key={system} value={system}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Label htmlFor="one-rep-max-formula">Estimated 1RM formula</Label>
+            <Select
+              value={preferences.oneRepMaxFormula}
+              onValueChange={(value) => updatePreferences({ oneRepMaxFormula: value as OneRepMaxFormula })}
+            >
+              <SelectTrigger id="one-rep-max-formula" className="mt-1" aria-describedby="one-rep-max-formula-help">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ONE_REP_MAX_FORMULAS).map(([formula, { label }]) => (
+                  <SelectItem key={formula} value={formula}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p id="one-rep-max-formula-help" className="text-sm text-muted-foreground mt-2">
+              {ONE_REP_MAX_FORMULAS[preferences.oneRepMaxFormula].description}. Used for personal records, 1RM trends and
+              percentage-based plan targets.
+            </p>
+
+            <h3 className="font-medium mt-6 mb-1">
+              Warm-up scheme
+            </h3>
+            <p className="text-sm text-muted-foreground mb-3">
+              Generated before the first working set of plan exercises with warm-up sets turned on, rounded to loads
+              the plates can make.
+            </p>
+            <WarmUpSchemeEditor
+              scheme={preferences.warmUpScheme}
+              onChange={(warmUpScheme) => updatePreferences({ warmUpScheme })}
+            />
+
+            <h3 className="font-medium mt-6 mb-1">Equipment</h3>
+            <p className="text-sm text-muted-foreground mb-3">
+              Suggested weights from progression, warm-ups, percentages and RPE targets round to loads you can build
+              with this equipment.
+            </p>
+            <EquipmentProfileEditor
+              profile={preferences.equipment}
+              onChange={(equipment) => updatePreferences({ equipment })}
+            />
+          </section>
+
           {/* Danger Zone */}
           <section className="pt-8 border-t border-border">
             <h2 className="text-lg font-semibold text-destructive mb-4">Danger Zone</h2>
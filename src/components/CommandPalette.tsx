@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useCommandPalette } from '@/hooks/use-command-palette';
+import { useExercises } from '@/hooks/use-exercises';
+import { usePlans } from '@/hooks/use-plans';
+import { offeredExercises } from '@/lib/exercises';
+import { buildSearchIndex, matchesText, searchExercises } from '@/lib/exercise-search';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { BookOpen, Play, Plus } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+
+/** Exercises listed per group; the search ranks the best ones first */
+const MAX_EXERCISE_RESULTS = 8;
+
+interface CommandPaletteProps {
+  onOpenExercise: (exerciseId: string) => void;
+  onStartPlan: (planId: string) => void;
+}
+
+/**
+ * CommandPalette Component
+ * Opened with ⌘K (Ctrl+K) anywhere in the app. Searches the exercise
+ * library to show an exercise or add it to the plan being edited, and
+ * plans to start one.
+ */
+export function CommandPalette({ onOpenExercise, onStartPlan }: CommandPaletteProps) {
+  const { isOpen, setOpen } = useCommandPalette();
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setOpen((open) => !open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [setOpen]);
+
+  const handleOpenChange = (open: boolean) => {
+    setOpen(open);
+    if (!open) setQuery('');
+  };
+
+  /** Close the palette, then act on the picked item */
+  const run = (action: () => void) => {
+    handleOpenChange(false);
+    action();
+  };
+
+  return (
+    <CommandDialog
+      open={isOpen}
+      onOpenChange={handleOpenChange}
+      shouldFilter={false}
+      title="Search FitTrack"
+      description="Find an exercise or a plan to start"
+    >
+      <CommandInput value={query} onValueChange={setQuery} placeholder="Search exercises and plans..." />
+      <CommandResults query={query} run={run} onOpenExercise={onOpenExercise} onStartPlan={onStartPlan} />
+    </CommandDialog>
+  );
+}
+
+/**
+ * Items matching the query. Mounted only while the palette is open, so
+ * plans and exercises load afresh each time it opens and include ones
+ * created since.
+ */
+function CommandResults({
+  query,
+  run,
+  onOpenExercise,
+  onStartPlan,
+}: CommandPaletteProps & {
+  query: string;
+  run: (action: () => void) => void;
+}) {
+  const { planTarget } = useCommandPalette();
+  const { exercises } = useExercises();
+  const { plans } = usePlans();
+  const searchIndex = useMemo(() => buildSearchIndex(offeredExercises(exercises)), [exercises]);
+  const matchingExercises = searchExercises(searchIndex, query).slice(0, MAX_EXERCISE_RESULTS);
+  const matchingPlans = plans.filter((plan) => matchesText(plan.name, query));
+
+  return (
+    <CommandList>
+      <CommandEmpty>Nothing found</CommandEmpty>
+      {planTarget && matchingExercises.length > 0 && (
+        <CommandGroup heading={`Add to ${planTarget.planName}`}>
+          {matchingExercises.map((exercise) => (
+            <CommandItem
+              key={exercise.id}
+              value={`add-${exercise.id}`}
+              onSelect={() =>
+                run(() => {
+                  planTarget.addExercise(exercise.id);
+                  toast.success(`${exercise.name} added`);
+                })
+              }
+            >
+              <Plus aria-hidden="true" />
+              Add {exercise.name}
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      )}
+      {/* Showing an exercise would leave the plan editor, so it's only offered outside it */}
+      {!planTarget && matchingExercises.length > 0 && (
+        <CommandGroup heading="Exercises">
+          {matchingExercises.map((exercise) => (
+            <CommandItem
+              key={exercise.id}
+              value={`exercise-${exercise.id}`}
+              onSelect={() => run(() => onOpenExercise(exercise.id))}
+            >
+              <BookOpen aria-hidden="true" />
+              {exercise.name}
+              <span className="ml-auto text-xs text-muted-foreground capitalize">{exercise.muscleGroup}</span>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      )}
+      {!planTarget && matchingPlans.length > 0 && (
+        <CommandGroup heading="Start a plan">
+          {matchingPlans.map((plan) => (
+            <CommandItem key={plan.id} value={`plan-${plan.id}`} onSelect={() => run(() => onStartPlan(plan.id))}>
+              <Play aria-hidden="true" />
+              Start {plan.name}
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      )}
+    </CommandList>
+  );
+}
@@ -0,0 +1,157 @@
+import { Equipment, EquipmentProfile, WeightUnit } from '@/lib/types';
+import { COMMON_BARS, COMMON_PLATES, defaultEquipmentProfile } from '@/lib/equipment';
+import { EQUIPMENT_LABELS } from '@/lib/exercises';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+
+interface EquipmentProfileEditorProps {
+  profile: EquipmentProfile;
+  onChange: (profile: EquipmentProfile) => void;
+}
+
+const byWeightDescending = (values: string[]) => values.map(parseFloat).sort((a, b) => b - a);
+
+/** Kinds of equipment a gym may lack; bodyweight exercises are always possible */
+const OPTIONAL_EQUIPMENT: Equipment[] = ['barbell', 'dumbbell', 'cable', 'machine'];
+
+/**
+ * EquipmentProfileEditor Component
+ * Picks the kinds of equipment and the bars and plates on hand, and the
+ * dumbbell and weight stack steps.
+ * Bars are kept heaviest first, so the heaviest is the default. Switching
+ * between lbs and kg equipment starts from that unit's defaults.
+ */
+export function EquipmentProfileEditor({ profile, onChange }: EquipmentProfileEditorProps) {
+  const unit = profile.unit ?? 'lbs';
+  const bars = [...new Set([...COMMON_BARS[unit], ...profile.barWeights])].sort((a, b) => b - a);
+  const plates = [...new Set([...COMMON_PLATES[unit], ...profile.plates])].sort((a, b) => b - a);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p id="equipment-unit" className="text-sm font-medium mb-2">
+          Equipment unit
+        </p>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={unit}
+          onValueChange={(value) => value && value !== unit && onChange(defaultEquipmentProfile(value as WeightUnit))}
+          aria-labelledby="equipment-unit"
+        >
+          <ToggleGroupItem value="lbs" className="text-xs">
+            lbs
+          </ToggleGroupItem>
+          <ToggleGroupItem value="kg" className="text-xs">
+            kg
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div>
+        <p id="equipment-available" className="text-sm font-medium mb-2">
+          Equipment you have
+        </p>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          value={profile.available ?? OPTIONAL_EQUIPMENT}
+          onValueChange={(values) =>
+            onChange({
+              ...profile,
+              available: values.length === OPTIONAL_EQUIPMENT.length ? undefined : (values as Equipment[]),
+            })
+          }
+          aria-labelledby="equipment-available"
+          aria-describedby="equipment-available-help"
+          className="flex-wrap"
+        >
+          {OPTIONAL_EQUIPMENT.map((equipment) => (
+            <ToggleGroupItem key={equipment} value={equipment} className="text-xs">
+              {EQUIPMENT_LABELS[equipment]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <p id="equipment-available-help" className="text-xs text-muted-foreground mt-1">
+          Exercise alternatives only suggest equipment you have.
+        </p>
+      </div>
+
+      <div>
+        <p id="equipment-bars" className="text-sm font-medium mb-2">
+          Bars ({unit})
+        </p>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          value={profile.barWeights.map(String)}
+          onValueChange={(values) => values.length > 0 && onChange({ ...profile, barWeights: byWeightDescending(values) })}
+          aria-labelledby="equipment-bars"
+          aria-describedby="equipment-bars-help"
+        >
+          {bars.map((bar) => (
+            <ToggleGroupItem key={bar} value={String(bar)} className="text-xs">
+              {bar}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <p id="equipment-bars-help" className="text-xs text-muted-foreground mt-1">
+          Barbell exercises use the heaviest bar unless a plan picks another.
+        </p>
+      </div>
+
+      <div>
+        <p id="equipment-plates" className="text-sm font-medium mb-2">
+          Plates ({unit})
+        </p>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          value={profile.plates.map(String)}
+          onValueChange={(values) => values.length > 0 && onChange({ ...profile, plates: byWeightDescending(values) })}
+          aria-labelledby="equipment-plates"
+          className="flex-wrap"
+        >
+          {plates.map((plate) => (
+            <ToggleGroupItem key={plate} value={String(plate)} className="text-xs">
+              {plate}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="equipment-dumbbell-increment">Dumbbell steps ({unit})</Label>
+          <Input
+            id="equipment-dumbbell-increment"
+            type="number"
+            min="0.5"
+            step="0.5"
+            value={profile.dumbbellIncrement}
+            onChange={(e) => onChange({ ...profile, dumbbellIncrement: parseFloat(e.target.value) || 0 })}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="equipment-machine-increment">Machine and cable steps ({unit})</Label>
+          <Input
+            id="equipment-machine-increment"
+            type="number"
+            min="0.5"
+            step="0.5"
+            value={profile.machineIncrement}
+            onChange={(e) => onChange({ ...profile, machineIncrement: parseFloat(e.target.value) || 0 })}
+            className="mt-1"
+          />
+        </div>
+      </div>
+
+      <Button variant="ghost" size="sm" onClick={() => onChange(defaultEquipmentProfile(unit))}>
+        Reset equipment
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useExercises } from '@/hooks/use-exercises';
+import { EQUIPMENT_LABELS, findExercise } from '@/lib/exercises';
+import { sharedMuscle, suggestAlternatives } from '@/lib/substitutions';
+import { Equipment, Exercise } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { ArrowsLeftRight } from '@phosphor-icons/react';
+
+/**
+ * ExerciseAlternatives Component
+ * Lists exercises that can stand in for `exerciseId` with the `available`
+ * equipment, best first, each with a button to use it instead
+ */
+export function ExerciseAlternatives({
+  exerciseId,
+  available,
+  onPick,
+}: {
+  exerciseId: string;
+  /** From the user's equipment profile; absent means all */
+  available?: Equipment[];
+  onPick: (exerciseId: string) => void;
+}) {
+  const { exercises: library } = useExercises();
+  const exercise = findExercise(exerciseId, library);
+  const alternatives = suggestAlternatives(exerciseId, library, available);
+  if (!exercise || alternatives.length === 0) {
+    return <p className="text-sm text-muted-foreground">No alternatives with your equipment</p>;
+  }
+
+  // A custom exercise may credit no muscles, leaving nothing to compare against
+  const ownMuscle = sharedMuscle(exercise, exercise);
+
+  /** Share of the exercise's own muscle credit that an alternative matches, e.g. "80% same muscles" */
+  const sameMuscles = (alternative: Exercise) =>
+    ownMuscle > 0 ? `${Math.round((sharedMuscle(exercise, alternative) / ownMuscle) * 100)}% same muscles` : undefined;
+
+  return (
+    <ul className="space-y-2">
+      {alternatives.map((alternative) => (
+        <li key={alternative.id} className="flex items-center justify-between gap-3 text-sm">
+          <div>
+            <div className="font-medium">{alternative.name}</div>
+            <div className="text-xs text-muted-foreground">
+              {[
+                alternative.equipment && EQUIPMENT_LABELS[alternative.equipment],
+                sameMuscles(alternative),
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+            </div>
+          </div>
+          <Button
+            onClick={() => onPick(alternative.id)}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            aria-label={`Use ${alternative.name} instead`}
+          >
+            <ArrowsLeftRight size={16} aria-hidden="true" />
+            Use
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
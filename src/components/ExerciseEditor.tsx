@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import {
+  CUSTOM_EXERCISE_PREFIX,
+  DEFAULT_SECONDARY_WEIGHT,
+  DIFFICULTIES,
+  EQUIPMENT_LABELS,
+  MOVEMENT_PATTERNS,
+  MUSCLE_GROUPS,
+} from '@/lib/exercises';
+import { TRACKING_MODES } from '@/lib/tracking';
+import { Difficulty, Equipment, Exercise, MovementPattern, MuscleGroup, MuscleShare, TrackingMode } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface ExerciseEditorProps {
+  exercise: Exercise | null;
+  onSave: (exercise: Exercise) => void;
+  onCancel: () => void;
+}
+
+const NONE = 'none';
+
+/** One entry per non-blank line */
+const toLines = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/**
+ * ExerciseEditor Component
+ * Creates or edits one of the user's own exercises. Instructions and form
+ * cues are entered one per line, aliases separated by commas. Secondary
+ * muscles picked here get half of the exercise's volume.
+ */
+export function ExerciseEditor({ exercise, onSave, onCancel }: ExerciseEditorProps) {
+  const [name, setName] = useState(exercise?.name ?? '');
+  const [muscleGroup, setMuscleGroup] = useState<MuscleGroup>(exercise?.muscleGroup ?? 'full-body');
+  const [difficulty, setDifficulty] = useState<Difficulty>(exercise?.difficulty ?? 'beginner');
+  const [tracking, setTracking] = useState<TrackingMode>(exercise?.tracking ?? 'weight-reps');
+  const [equipment, setEquipment] = useState<Equipment | undefined>(exercise?.equipment);
+  const [movementPattern, setMovementPattern] = useState<MovementPattern | undefined>(exercise?.movementPattern);
+  const [unilateral, setUnilateral] = useState(!!exercise?.unilateral);
+  const [secondaryMuscles, setSecondaryMuscles] = useState<MuscleShare[]>(exercise?.secondaryMuscles ?? []);
+  const [aliases, setAliases] = useState(exercise?.aliases?.join(', ') ?? '');
+  const [instructions, setInstructions] = useState(exercise?.instructions.join('\n') ?? '');
+  const [formCues, setFormCues] = useState(exercise?.formCues.join('\n') ?? '');
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave({
+      id: exercise?.id ?? `${CUSTOM_EXERCISE_PREFIX}${Date.now()}`,
+      name: name.trim(),
+      muscleGroup,
+      difficulty,
+      equipment,
+      tracking,
+      secondaryMuscles: secondaryMuscles.filter((share) => share.muscleGroup !== muscleGroup),
+      movementPattern,
+      unilateral: unilateral || undefined,
+      aliases: aliases
+        .split(',')
+        .map((alias) => alias.trim())
+        .filter(Boolean),
+      instructions: toLines(instructions),
+      formCues: toLines(formCues),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="exercise-name">Exercise name</Label>
+        <Input
+          id="exercise-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., Hack Squat"
+          className="mt-1"
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="exercise-muscle-group">Muscle group</Label>
+          <Select value={muscleGroup} onValueChange={(value) => setMuscleGroup(value as MuscleGroup)}>
+            <SelectTrigger id="exercise-muscle-group" className="mt-1 capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MUSCLE_GROUPS.map((group) => (
+                <SelectItem key={group} value={group} className="capitalize">
+                  {group}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="exercise-difficulty">Difficulty</Label>
+          <Select value={difficulty} onValueChange={(value) => setDifficulty(value as Difficulty)}>
+            <SelectTrigger id="exercise-difficulty" className="mt-1 capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIFFICULTIES.map((level) => (
+                <SelectItem key={level} value={level} className="capitalize">
+                  {level}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="exercise-tracking">Tracking</Label>
+          <Select value={tracking} onValueChange={(value) => setTracking(value as TrackingMode)}>
+            <SelectTrigger id="exercise-tracking" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TRACKING_MODES) as TrackingMode[]).map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {TRACKING_MODES[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="exercise-equipment">Equipment</Label>
+          <Select
+            value={equipment ?? NONE}
+            onValueChange={(value) => setEquipment(value === NONE ? undefined : (value as Equipment))}
+          >
+            <SelectTrigger id="exercise-equipment" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Other</SelectItem>
+              {(Object.keys(EQUIPMENT_LABELS) as Equipment[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {EQUIPMENT_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <p id="exercise-secondary-muscles" className="text-sm font-medium mb-2">
+          Also works
+        </p>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          value={secondaryMuscles.map((share) => share.muscleGroup)}
+          onValueChange={(values) =>
+            setSecondaryMuscles(
+              (values as MuscleGroup[]).map(
+                (group) =>
+                  secondaryMuscles.find((share) => share.muscleGroup === group) ?? {
+                    muscleGroup: group,
+                    weight: DEFAULT_SECONDARY_WEIGHT,
+                  }
+              )
+            )
+          }
+          aria-labelledby="exercise-secondary-muscles"
+          className="flex-wrap justify-start"
+        >
+          {MUSCLE_GROUPS.filter((group) => group !== muscleGroup).map((group) => (
+            <ToggleGroupItem key={group} value={group} className="text-xs capitalize">
+              {group}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="exercise-movement">Movement</Label>
+          <Select
+            value={movementPattern ?? NONE}
+            onValueChange={(value) => setMovementPattern(value === NONE ? undefined : (value as MovementPattern))}
+          >
+            <SelectTrigger id="exercise-movement" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Other</SelectItem>
+              {(Object.keys(MOVEMENT_PATTERNS) as MovementPattern[]).map((pattern) => (
+                <SelectItem key={pattern} value={pattern}>
+                  {MOVEMENT_PATTERNS[pattern]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="exercise-unilateral">One side at a time</Label>
+          <div className="mt-3">
+            <Switch id="exercise-unilateral" checked={unilateral} onCheckedChange={setUnilateral} />
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="exercise-aliases">Other names (comma separated)</Label>
+        <Input
+          id="exercise-aliases"
+          value={aliases}
+          onChange={(e) => setAliases(e.target.value)}
+          placeholder="e.g., Hack, Machine Squat"
+          className="mt-1"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="exercise-instructions">Instructions (one step per line)</Label>
+        <Textarea
+          id="exercise-instructions"
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          rows={4}
+          className="mt-1"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="exercise-form-cues">Form cues (one per line)</Label>
+        <Textarea
+          id="exercise-form-cues"
+          value={formCues}
+          onChange={(e) => setFormCues(e.target.value)}
+          rows={3}
+          className="mt-1"
+        />
+      </div>
+
+      <div className="flex gap-3 pt-4">
+        <Button onClick={handleSave} disabled={!name.trim()} className="flex-1">
+          {exercise ? 'Save Exercise' : 'Create Exercise'}
+        </Button>
+        <Button onClick={onCancel} variant="outline">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,26 +1,132 @@
-import { useState } from 'react';
-import { EXERCISE_LIBRARY } from '@/lib/exercises';
-import { MuscleGroup } from '@/lib/types';
+import { useEffect, useMemo, useState } from 'react';
+import { useExercises } from '@/hooks/use-exercises';
+import { usePlans } from '@/hooks/use-plans';
+import { usePreferences } from '@/hooks/use-preferences';
+import { useSessions } from '@/hooks/use-sessions';
+import {
+  DIFFICULTIES,
+  EQUIPMENT_LABELS,
+  ExerciseFilters,
+  MOVEMENT_PATTERNS,
+  MUSCLE_GROUPS,
+  isCustomExercise,
+  matchesFilters,
+  muscleShares,
+  offeredExercises,
+} from '@/lib/exercises';
+import { buildSearchIndex, searchExercises } from '@/lib/exercise-search';
+import { personalRecordsByExercise } from '@/lib/personal-records';
+import { Equipment, Exercise, MovementPattern, MuscleGroup } from '@/lib/types';
+import { UNIT_SYSTEMS } from '@/lib/units';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
-import { MagnifyingGlass, CheckCircle } from '@phosphor-icons/react';
+import { ExerciseEditor } from '@/components/ExerciseEditor';
+import { PersonalRecordHistory } from '@/components/PersonalRecordHistory';
+import { MagnifyingGlass, CheckCircle, Pencil, Plus, Trash } from '@phosphor-icons/react';
+import { toast } from 'sonner';
 
-const MUSCLE_GROUPS: MuscleGroup[] = ['chest', 'back', 'shoulders', 'biceps', 'triceps', 'legs', 'core', 'cardio', 'full-body'];
+const ANY = 'all';
 
-export function LibraryView() {
+/** e.g. "chest, triceps 50%, shoulders 50%" */
+const describeMuscles = (exercise: Exercise) =>
+  muscleShares(exercise)
+    .map(({ muscleGroup, weight }) => (weight === 1 ? muscleGroup : `${muscleGroup} ${Math.round(weight * 100)}%`))
+    .join(', ');
+
+interface LibraryViewProps {
+  /** Exercise to show expanded, e.g. one picked in the command palette */
+  openExerciseId?: string | null;
+  /** Called once `openExerciseId` has been shown */
+  onExerciseOpened?: () => void;
+}
+
+export function LibraryView({ openExerciseId = null, onExerciseOpened }: LibraryViewProps = {}) {
   const [searchQuery, setSearchQuery] = useState('');
+  const [expandedExerciseId, setExpandedExerciseId] = useState('');
   const [selectedMuscleGroup, setSelectedMuscleGroup] = useState<MuscleGroup | 'all'>('all');
+  const [filters, setFilters] = useState<Omit<ExerciseFilters, 'muscleGroup'>>({});
+  const { sessions: completedSessions } = useSessions({ status: 'completed' });
+  const { preferences } = usePreferences();
+  const { plans } = usePlans();
+  const { exercises, saveExercise, deleteExercise } = useExercises();
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingExercise, setEditingExercise] = useState<Exercise | null>(null);
+  const recordsByExercise = useMemo(
+    () => personalRecordsByExercise(completedSessions, preferences.oneRepMaxFormula),
+    [completedSessions, preferences.oneRepMaxFormula]
+  );
+
+  const searchIndex = useMemo(() => buildSearchIndex(offeredExercises(exercises)), [exercises]);
+
+  // Clear the search and filters so the requested exercise is listed, then expand it
+  useEffect(() => {
+    if (!openExerciseId) return;
+    setSearchQuery('');
+    setSelectedMuscleGroup('all');
+    setFilters({});
+    setExpandedExerciseId(openExerciseId);
+    onExerciseOpened?.();
+  }, [openExerciseId, onExerciseOpened]);
+
+  useEffect(() => {
+    if (expandedExerciseId) {
+      document.getElementById(`library-exercise-${expandedExerciseId}`)?.scrollIntoView({ block: 'start' });
+    }
+  }, [expandedExerciseId]);
+
+  const handleCreateExercise = () => {
+    setEditingExercise(null);
+    setIsEditorOpen(true);
+  };
+
+  const handleEditExercise = (exercise: Exercise) => {
+    setEditingExercise(exercise);
+    setIsEditorOpen(true);
+  };
 
-  const filteredExercises = EXERCISE_LIBRARY.filter((exercise) => {
-    const matchesSearch = exercise.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      exercise.muscleGroup.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesMuscleGroup = selectedMuscleGroup === 'all' || exercise.muscleGroup === selectedMuscleGroup;
-    return matchesSearch && matchesMuscleGroup;
-  });
+  const handleSaveExercise = (exercise: Exercise) => {
+    saveExercise(exercise);
+    setIsEditorOpen(false);
+    toast.success(editingExercise ? 'Exercise updated' : 'Exercise created');
+  };
+
+  const handleDeleteExercise = (exercise: Exercise) => {
+    deleteExercise(exercise.id);
+    toast.success('Exercise deleted');
+  };
+
+  /** Plans that would lose an exercise if it were deleted */
+  const plansUsing = (exerciseId: string) =>
+    plans.filter((plan) => plan.exercises.some((exercise) => exercise.exerciseId === exerciseId));
+
+  /** Set or clear (`ANY`) one of the select filters */
+  const setFilter = (key: 'equipment' | 'movementPattern' | 'difficulty', value: string) =>
+    setFilters({ ...filters, [key]: value === ANY ? undefined : value });
+
+  // Best matches first while searching
+  const muscleGroup = selectedMuscleGroup === 'all' ? undefined : selectedMuscleGroup;
+  const filteredExercises = searchExercises(searchIndex, searchQuery).filter((exercise) =>
+    matchesFilters(exercise, { ...filters, muscleGroup })
+  );
 
   return (
     <div className="max-w-4xl mx-auto">
@@ -28,6 +134,19 @@ export function LibraryView() {
         <h1 className="text-3xl font-bold tracking-tight">Exercise Library</h1>
         <p className="text-muted-foreground mt-1">Browse exercises and learn proper form</p>
       </div>
+
+      <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingExercise ? 'Edit Exercise' : 'Create Exercise'}</DialogTitle>
+          </DialogHeader>
+          <ExerciseEditor
+            exercise={editingExercise}
+            onSave={handleSaveExercise}
+            onCancel={() => setIsEditorOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
       
       <h2 className="sr-only">Exercise Catalog</h2>
 
@@ -61,6 +180,67 @@ export function LibraryView() {
         ))}
       </Tabs>
 
+      <div className="grid gap-4 mb-6 sm:grid-cols-4">
+        <div>
+          <Label htmlFor="filter-equipment">Equipment</Label>
+          <Select value={filters.equipment ?? ANY} onValueChange={(value) => setFilter('equipment', value)}>
+            <SelectTrigger id="filter-equipment" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any equipment</SelectItem>
+              {(Object.keys(EQUIPMENT_LABELS) as Equipment[]).map((equipment) => (
+                <SelectItem key={equipment} value={equipment}>
+                  {EQUIPMENT_LABELS[equipment]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="filter-movement">Movement</Label>
+          <Select value={filters.movementPattern ?? ANY} onValueChange={(value) => setFilter('movementPattern', value)}>
+            <SelectTrigger id="filter-movement" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any movement</SelectItem>
+              {(Object.keys(MOVEMENT_PATTERNS) as MovementPattern[]).map((pattern) => (
+                <SelectItem key={pattern} value={pattern}>
+                  {MOVEMENT_PATTERNS[pattern]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="filter-difficulty">Difficulty</Label>
+          <Select value={filters.difficulty ?? ANY} onValueChange={(value) => setFilter('difficulty', value)}>
+            <SelectTrigger id="filter-difficulty" className="mt-1 capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any difficulty</SelectItem>
+              {DIFFICULTIES.map((difficulty) => (
+                <SelectItem key={difficulty} value={difficulty} className="capitalize">
+                  {difficulty}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="filter-unilateral">One side at a time</Label>
+          <div className="mt-3">
+            <Switch
+              id="filter-unilateral"
+              checked={!!filters.unilateral}
+              onCheckedChange={(checked) => setFilters({ ...filters, unilateral: checked || undefined })}
+            />
+          </div>
+        </div>
+      </div>
+
       <div className="text-sm text-muted-foreground mb-4" role="status" aria-live="polite" aria-atomic="true">
         {filteredExercises.length} {filteredExercises.length === 1 ? 'exercise' : 'exercises'}
       </div>
@@ -74,9 +254,20 @@ export function LibraryView() {
           </p>
         </Card>
       ) : (
-        <Accordion type="single" collapsible className="space-y-3">
+        <Accordion
+          type="single"
+          collapsible
+          value={expandedExerciseId}
+          onValueChange={setExpandedExerciseId}
+          className="space-y-3"
+        >
           {filteredExercises.map((exercise) => (
-            <AccordionItem key={exercise.id} value={exercise.id} className="border rounded-lg px-6 bg-card">
+            <AccordionItem
+              key={exercise.id}
+              id={`library-exercise-${exercise.id}`}
+              value={exercise.id}
+              className="border rounded-lg px-6 bg-card scroll-mt-24"
+            >
               <AccordionTrigger className="hover:no-underline">
                 <div className="flex items-center gap-3 text-left">
                   <div className="flex-1">
@@ -84,12 +275,39 @@ export function LibraryView() {
                     <div className="flex gap-2 mt-1">
                       <Badge className="capitalize">{exercise.muscleGroup}</Badge>
                       <Badge variant="outline" className="capitalize">{exercise.difficulty}</Badge>
+                      {exercise.unilateral && <Badge variant="outline">Unilateral</Badge>}
+                      {isCustomExercise(exercise.id) && <Badge variant="secondary">Custom</Badge>}
                     </div>
                   </div>
                 </div>
               </AccordionTrigger>
               <AccordionContent className="pt-4 pb-6">
                 <div className="space-y-4">
+                  <dl className="grid gap-x-4 gap-y-2 text-sm sm:grid-cols-2">
+                    <div>
+                      <dt className="font-semibold">Muscles worked</dt>
+                      <dd className="text-muted-foreground capitalize">{describeMuscles(exercise)}</dd>
+                    </div>
+                    <div>
+                      <dt className="font-semibold">Equipment and movement</dt>
+                      <dd className="text-muted-foreground">
+                        {[
+                          exercise.equipment && EQUIPMENT_LABELS[exercise.equipment],
+                          exercise.movementPattern && MOVEMENT_PATTERNS[exercise.movementPattern],
+                          exercise.unilateral && 'one side at a time',
+                        ]
+                          .filter(Boolean)
+                          .join(' · ') || '—'}
+                      </dd>
+                    </div>
+                    {exercise.aliases && exercise.aliases.length > 0 && (
+                      <div className="sm:col-span-2">
+                        <dt className="font-semibold">Also known as</dt>
+                        <dd className="text-muted-foreground">{exercise.aliases.join(', ')}</dd>
+                      </div>
+                    )}
+                  </dl>
+
                   <div>
                     <h2 className="sr-only">{exercise.name}</h2>
                     <h3 className="font-semibold mb-2">Instructions</h3>
@@ -111,12 +329,85 @@ export function LibraryView() {
                       ))}
                     </ul>
                   </div>
+
+                  <div>
+                    <h3 className="font-semibold mb-2">Personal Records</h3>
+                    <PersonalRecordHistory
+                      records={recordsByExercise.get(exercise.id) ?? []}
+                      unit={UNIT_SYSTEMS[preferences.unitSystem].weight}
+                    />
+                  </div>
+
+                  {isCustomExercise(exercise.id) && (
+                    <CustomExerciseActions
+                      exercise={exercise}
+                      planNames={plansUsing(exercise.id).map((plan) => plan.name)}
+                      onEdit={() => handleEditExercise(exercise)}
+                      onDelete={() => handleDeleteExercise(exercise)}
+                    />
+                  )}
                 </div>
               </AccordionContent>
             </AccordionItem>
           ))}
         </Accordion>
       )}
+
+      <div className="flex items-center justify-between gap-4 mt-6">
+        <p className="text-sm text-muted-foreground">Missing a machine or variation? Add your own exercise.</p>
+        <Button onClick={handleCreateExercise} variant="outline" className="gap-2">
+          <Plus size={20} weight="bold" />
+          New Exercise
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Edit and delete buttons for one of the user's own exercises. Exercises
+ * still in a plan can't be deleted; past workouts keep their sets either way.
+ */
+function CustomExerciseActions({
+  exercise,
+  planNames,
+  onEdit,
+  onDelete,
+}: {
+  exercise: Exercise;
+  planNames: string[];
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
+  const inUse = planNames.length > 0;
+  return (
+    <div className="flex gap-2">
+      <Button onClick={onEdit} variant="outline" size="sm" className="gap-2">
+        <Pencil size={16} aria-hidden="true" />
+        Edit {exercise.name}
+      </Button>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2 text-destructive">
+            <Trash size={16} aria-hidden="true" />
+            Delete {exercise.name}
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{inUse ? `${exercise.name} is in use` : `Delete ${exercise.name}?`}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {inUse
+                ? `Remove it from ${planNames.join(', ')} before deleting it.`
+                : 'Past workouts keep their sets, but it can no longer be added to plans.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{inUse ? 'Close' : 'Keep exercise'}</AlertDialogCancel>
+            {!inUse && <AlertDialogAction onClick={onDelete}>Delete exercise</AlertDialogAction>}
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
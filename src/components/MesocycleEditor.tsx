@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { format, parseISO, startOfDay } from 'date-fns';
+import { Mesocycle, MesocycleWeek } from '@/lib/types';
+import { DEFAULT_MESOCYCLE_SETTINGS, MesocycleSettings, buildMesocycle } from '@/lib/mesocycle';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+
+interface MesocycleEditorProps {
+  mesocycle?: Mesocycle;
+  onChange: (mesocycle: Mesocycle | undefined) => void;
+}
+
+const toPercent = (multiplier: number) => Math.round(multiplier * 1000) / 10;
+
+/**
+ * MesocycleEditor Component
+ * Builds a block from a weekly ramp and deload, then allows tuning each week
+ */
+export function MesocycleEditor({ mesocycle, onChange }: MesocycleEditorProps) {
+  const [settings, setSettings] = useState<MesocycleSettings>({
+    ...DEFAULT_MESOCYCLE_SETTINGS,
+    weeks: mesocycle?.weeks.length ?? DEFAULT_MESOCYCLE_SETTINGS.weeks
+  });
+
+  const handleSettings = (updates: Partial<MesocycleSettings>) => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    onChange(buildMesocycle(next, mesocycle?.startedAt));
+  };
+
+  const handleUpdateWeek = (index: number, updates: Partial<MesocycleWeek>) => {
+    if (!mesocycle) return;
+    onChange({
+      ...mesocycle,
+      weeks: mesocycle.weeks.map((week, i) => (i === index ? { ...week, ...updates } : week))
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <Label htmlFor="mesocycle-enabled">Mesocycle</Label>
+        <Switch
+          id="mesocycle-enabled"
+          checked={!!mesocycle}
+          onCheckedChange={(checked) =>
+            onChange(checked ? buildMesocycle(settings, startOfDay(Date.now()).getTime()) : undefined)
+          }
+        />
+      </div>
+
+      {mesocycle ? (
+        <Card className="p-4 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <Label htmlFor="mesocycle-start">Week 1 starts</Label>
+              <Input
+                id="mesocycle-start"
+                type="date"
+                value={format(mesocycle.startedAt, 'yyyy-MM-dd')}
+                onChange={(e) => e.target.value && onChange({ ...mesocycle, startedAt: parseISO(e.target.value).getTime() })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="mesocycle-weeks">Weeks</Label>
+              <Input
+                id="mesocycle-weeks"
+                type="number"
+                min="1"
+                max="16"
+                value={mesocycle.weeks.length}
+                onChange={(e) => handleSettings({ weeks: Math.min(16, parseInt(e.target.value) || 1) })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="mesocycle-increase">Weekly increase (%)</Label>
+              <Input
+                id="mesocycle-increase"
+                type="number"
+                step="0.5"
+                value={toPercent(settings.weeklyIncrease)}
+                onChange={(e) => handleSettings({ weeklyIncrease: (parseFloat(e.target.value) || 0) / 100 })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="mesocycle-deload">Deload volume (%)</Label>
+              <Input
+                id="mesocycle-deload"
+                type="number"
+                min="0"
+                max="100"
+                placeholder="No deload"
+                value={settings.deloadVolume === null ? '' : toPercent(settings.deloadVolume)}
+                onChange={(e) => handleSettings({ deloadVolume: parseFloat(e.target.value) / 100 || null })}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <caption className="sr-only">Weekly modifiers</caption>
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th scope="col" className="font-medium py-1">Week</th>
+                <th scope="col" className="font-medium py-1">Intensity (%)</th>
+                <th scope="col" className="font-medium py-1">Volume (%)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {mesocycle.weeks.map((week, index) => (
+                <tr key={index}>
+                  <th scope="row" className="font-normal py-1 pr-3 text-left">
+                    <span className="flex items-center gap-2">
+                      {index + 1}
+                      {week.deload && <Badge variant="outline">Deload</Badge>}
+                    </span>
+                  </th>
+                  <td className="py-1 pr-3">
+                    <Input
+                      type="number"
+                      min="1"
+                      step="2.5"
+                      aria-label={`Week ${index + 1} intensity (%)`}
+                      value={toPercent(week.intensity)}
+                      onChange={(e) => handleUpdateWeek(index, { intensity: (parseFloat(e.target.value) || 100) / 100 })}
+                    />
+                  </td>
+                  <td className="py-1">
+                    <Input
+                      type="number"
+                      min="1"
+                      step="10"
+                      aria-label={`Week ${index + 1} volume (%)`}
+                      value={toPercent(week.volume)}
+                      onChange={(e) => handleUpdateWeek(index, { volume: (parseFloat(e.target.value) || 100) / 100 })}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Run this plan as a training block with weekly intensity and volume changes and a planned deload week.
+        </p>
+      )}
+    </div>
+  );
+}
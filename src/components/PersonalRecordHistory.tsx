@@ -0,0 +1,44 @@
+import { PersonalRecord, WeightUnit } from '@/lib/types';
+import { PERSONAL_RECORD_LABELS, formatPersonalRecord } from '@/lib/personal-records';
+import { Trophy } from '@phosphor-icons/react';
+import { format } from 'date-fns';
+
+/**
+ * PersonalRecordHistory Component
+ * Lists an exercise's personal records, newest first, with weights in `unit`
+ */
+export function PersonalRecordHistory({
+  records,
+  limit,
+  unit = 'lbs',
+}: {
+  records: PersonalRecord[];
+  limit?: number;
+  unit?: WeightUnit;
+}) {
+  if (records.length === 0) {
+    return <p className="text-sm text-muted-foreground">No personal records yet</p>;
+  }
+
+  const newestFirst = [...records].reverse().slice(0, limit);
+
+  return (
+    <ul className="space-y-2">
+      {newestFirst.map((record) => (
+        <li
+          key={`${record.sessionId}-${record.setNumber}-${record.type}`}
+          className="flex items-center justify-between gap-3 text-sm"
+        >
+          <span className="flex items-center gap-2">
+            <Trophy size={16} weight="fill" className="text-accent flex-shrink-0" aria-hidden="true" />
+            <span className="font-medium">{PERSONAL_RECORD_LABELS[record.type]}</span>
+            <span className="text-muted-foreground">{formatPersonalRecord(record, unit)}</span>
+          </span>
+          <time dateTime={new Date(record.achievedAt).toISOString()} className="text-muted-foreground whitespace-nowrap">
+            {format(record.achievedAt, 'MMM d, yyyy')}
+          </time>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,14 +1,51 @@
 import { useState } from 'react';
-import { WorkoutPlan, WorkoutExercise } from '@/lib/types';
-import { EXERCISE_LIBRARY } from '@/lib/exercises';
+import {
+  ExerciseGroup,
+  ExerciseGroupType,
+  Mesocycle,
+  ProgressionRule,
+  WorkoutPlan,
+  WorkoutExercise
+} from '@/lib/types';
+import { findExercise, isCustomExercise, offeredExercises } from '@/lib/exercises';
+import { currentOneRepMax, weightForPercentage } from '@/lib/one-rep-max';
+import { PROGRESSION_TYPES } from '@/lib/progression';
+import { DEFAULT_DROP_PERCENT, SET_TYPES } from '@/lib/set-types';
+import { describeWarmUpStep } from '@/lib/warm-up';
+import { equipmentFor, loadRoundingFor } from '@/lib/equipment';
+import { UNIT_SYSTEMS, displayDistance, displayWeight, formatWeight, fromDistanceUnit, fromWeightUnit } from '@/lib/units';
+import {
+  fromSignedLoad,
+  setDuration,
+  signedLoad,
+  trackingModeFor
+} from '@/lib/tracking';
+import {
+  EXERCISE_GROUP_TYPES,
+  GroupedExercises,
+  findGroup,
+  linkWithNext,
+  planBlocks,
+  pruneGroups,
+  unlinkFromNext,
+  updateGroup
+} from '@/lib/exercise-groups';
+import { useCommandPalette, usePlanTarget } from '@/hooks/use-command-palette';
+import { useExercises } from '@/hooks/use-exercises';
+import { usePreferences } from '@/hooks/use-preferences';
+import { useSessions } from '@/hooks/use-sessions';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Card } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Plus, Trash } from '@phosphor-icons/react';
+import { ArrowsLeftRight, LinkBreak, LinkSimple, MagnifyingGlass, Plus, Trash } from '@phosphor-icons/react';
 import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { MesocycleEditor } from '@/components/MesocycleEditor';
+import { ExerciseAlternatives } from '@/components/ExerciseAlternatives';
 
 interface PlanEditorProps {
   plan: WorkoutPlan | null;
@@ -20,27 +57,118 @@ export function PlanEditor({ plan, onSave, onCancel }: PlanEditorProps) {
   const [name, setName] = useState(plan?.name || '');
   const [description, setDescription] = useState(plan?.description || '');
   const [exercises, setExercises] = useState<WorkoutExercise[]>(plan?.exercises || []);
+  const [groups, setGroups] = useState<ExerciseGroup[]>(plan?.groups || []);
+  const [mesocycle, setMesocycle] = useState<Mesocycle | undefined>(plan?.mesocycle);
+  /** Index of the exercise whose alternatives are showing */
+  const [alternativesFor, setAlternativesFor] = useState<number | null>(null);
+  const { sessions: completedSessions } = useSessions({ status: 'completed' });
+  const { preferences } = usePreferences();
+  const { exercises: library } = useExercises();
+  const { setOpen: setPaletteOpen } = useCommandPalette();
+  const units = UNIT_SYSTEMS[preferences.unitSystem];
+  const barUnit = preferences.equipment.unit ?? 'lbs';
+
+  const oneRepMaxFor = (exerciseId: string) =>
+    currentOneRepMax(completedSessions, exerciseId, preferences.oneRepMaxFormula);
+
+  /** Load for a percentage of the e1RM that the user's equipment can make */
+  const percentageWeight = (exercise: WorkoutExercise, oneRepMax: number, percent: number) => {
+    const rounding = loadRoundingFor(exercise, preferences.equipment, library);
+    return rounding.round(weightForPercentage(oneRepMax, percent, rounding.increment));
+  };
+
+  /** Resolve a percentage target to a concrete weight once an e1RM is known */
+  const resolveTarget = (exercise: WorkoutExercise): WorkoutExercise => {
+    const oneRepMax = exercise.percentOfOneRepMax ? oneRepMaxFor(exercise.exerciseId) : null;
+    return oneRepMax && exercise.percentOfOneRepMax
+      ? { ...exercise, weight: percentageWeight(exercise, oneRepMax, exercise.percentOfOneRepMax) }
+      : exercise;
+  };
+
+  const addExercise = (exerciseId: string) => {
+    setExercises((current) => [...current, {
+      exerciseId,
+      sets: 3,
+      reps: 10,
+      weight: 0,
+      restSeconds: 60
+    }]);
+  };
 
   const handleAddExercise = () => {
-    if (EXERCISE_LIBRARY.length > 0) {
-      setExercises([...exercises, {
-        exerciseId: EXERCISE_LIBRARY[0].id,
-        sets: 3,
-        reps: 10,
-        weight: 0,
-        restSeconds: 60
-      }]);
+    const [first] = offeredExercises(library);
+    if (first) {
+      addExercise(first.id);
     }
   };
 
+  // Exercises picked in the command palette are added to this plan
+  usePlanTarget({ planName: name.trim() || 'this plan', addExercise });
+
   const handleUpdateExercise = (index: number, updates: Partial<WorkoutExercise>) => {
     const updated = [...exercises];
-    updated[index] = { ...updated[index], ...updates };
+    updated[index] = resolveTarget({ ...updated[index], ...updates });
     setExercises(updated);
   };
 
+  const handleProgressionType = (index: number, type: ProgressionRule['type'] | 'none') => {
+    const exercise = exercises[index];
+    if (type === 'none') {
+      handleUpdateExercise(index, { progression: undefined });
+      return;
+    }
+    handleUpdateExercise(index, {
+      progression: {
+        increment: fromWeightUnit(units.weight === 'kg' ? 2.5 : 5, units.weight),
+        ...exercise.progression,
+        type,
+        ...(type === 'double' && !exercise.progression?.repRangeMax
+          ? { repRangeMin: exercise.reps, repRangeMax: exercise.reps + 4 }
+          : {})
+      }
+    });
+  };
+
+  const handleUpdateProgression = (index: number, updates: Partial<ProgressionRule>) => {
+    const progression = exercises[index].progression;
+    if (progression) {
+      handleUpdateExercise(index, { progression: { ...progression, ...updates } });
+    }
+  };
+
   const handleRemoveExercise = (index: number) => {
-    setExercises(exercises.filter((_, i) => i !== index));
+    applyGrouping(pruneGroups({ exercises: exercises.filter((_, i) => i !== index), groups }));
+  };
+
+  const applyGrouping = (next: GroupedExercises) => {
+    setExercises(next.exercises);
+    setGroups(next.groups);
+  };
+
+  const handleUpdateGroup = (groupId: string, updates: Partial<Omit<ExerciseGroup, 'id'>>) => {
+    applyGrouping(updateGroup({ exercises, groups }, groupId, updates));
+  };
+
+  /** Button between two neighbouring exercises that groups or splits them */
+  const renderLink = (index: number) => {
+    const linked = !!exercises[index].groupId && exercises[index].groupId === exercises[index + 1].groupId;
+    const names = [index, index + 1].map((i) => findExercise(exercises[i].exerciseId, library)?.name);
+    return (
+      <div className="flex justify-center pt-3">
+        <Button
+          onClick={() =>
+            applyGrouping(linked ? unlinkFromNext({ exercises, groups }, index) : linkWithNext({ exercises, groups }, index))
+          }
+          variant="ghost"
+          size="sm"
+          className="gap-2 text-muted-foreground"
+          aria-label={linked ? `Split ${names[0]} from ${names[1]}` : `Group ${names[0]} with ${names[1]}`}
+        >
+          {linked ? <LinkBreak size={16} /> : <LinkSimple size={16} />}
+          {linked ? 'Split here' : 'Group with next'}
+        </Button>
+      </div>
+    );
   };
 
   const handleSave = () => {
@@ -50,13 +178,439 @@ export function PlanEditor({ plan, onSave, onCancel }: PlanEditorProps) {
       id: plan?.id || `plan-${Date.now()}`,
       name: name.trim(),
       description: description.trim(),
-      exercises,
+      exercises: exercises.map(resolveTarget),
+      groups: groups.length > 0 ? groups : undefined,
+      mesocycle,
       createdAt: plan?.createdAt || Date.now()
     };
 
     onSave(newPlan);
   };
 
+  const renderExercise = (exercise: WorkoutExercise, index: number) => {
+    const oneRepMax = exercise.percentOfOneRepMax ? oneRepMaxFor(exercise.exerciseId) : null;
+    const mode = trackingModeFor(exercise.exerciseId, library);
+    const countsReps = mode !== 'duration' && mode !== 'distance-duration';
+    return (
+      <Card className="p-4">
+        <div className="space-y-3">
+          <div className="flex items-start gap-3">
+            <div className="flex-1">
+              <Label htmlFor={`exercise-${index}`}>Exercise</Label>
+              <Select
+                value={exercise.exerciseId}
+                onValueChange={(value) => handleUpdateExercise(index, { exerciseId: value })}
+              >
+                <SelectTrigger id={`exercise-${index}`} className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {offeredExercises(library, exercise.exerciseId).map((ex) => (
+                    <SelectItem key={ex.id} value={ex.id}>
+                      <div className="flex items-center gap-2">
+                        <span>{ex.name}</span>
+                        <Badge variant="secondary" className="text-xs capitalize">
+                          {ex.muscleGroup}
+                        </Badge>
+                        {isCustomExercise(ex.id) && (
+                          <Badge variant="outline" className="text-xs">
+                            Custom
+                          </Badge>
+                        )}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Popover open={alternativesFor === index} onOpenChange={(open) => setAlternativesFor(open ? index : null)}>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="mt-6"
+                  aria-label={`Alternatives to ${findExercise(exercise.exerciseId, library)?.name ?? 'this exercise'}`}
+                >
+                  <ArrowsLeftRight size={18} aria-hidden="true" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-80">
+                <p className="text-sm font-semibold mb-3">Alternatives</p>
+                <ExerciseAlternatives
+                  exerciseId={exercise.exerciseId}
+                  available={preferences.equipment.available}
+                  onPick={(exerciseId) => {
+                    handleUpdateExercise(index, { exerciseId });
+                    setAlternativesFor(null);
+                  }}
+                />
+              </PopoverContent>
+            </Popover>
+            <Button
+              onClick={() => handleRemoveExercise(index)}
+              variant="ghost"
+              size="icon"
+              className="mt-6"
+            >
+              <Trash size={18} />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {!exercise.groupId && (
+              <div>
+                <Label htmlFor={`sets-${index}`}>Sets</Label>
+                <Input
+                  id={`sets-${index}`}
+                  type="number"
+                  min="1"
+                  value={exercise.sets}
+                  onChange={(e) => handleUpdateExercise(index, { sets: parseInt(e.target.value) || 1 })}
+                  className="mt-1"
+                />
+              </div>
+            )}
+            {countsReps && (
+              <div>
+                <Label htmlFor={`reps-${index}`}>Reps</Label>
+                <Input
+                  id={`reps-${index}`}
+                  type="number"
+                  min="1"
+                  value={exercise.reps}
+                  onChange={(e) => handleUpdateExercise(index, { reps: parseInt(e.target.value) || 1 })}
+                  className="mt-1"
+                />
+              </div>
+            )}
+            {mode === 'weight-reps' && (
+              <>
+                <div>
+                  <Label htmlFor={`weight-${index}`}>Weight ({units.weight})</Label>
+                  <Input
+                    id={`weight-${index}`}
+                    type="number"
+                    min="0"
+                    value={displayWeight(exercise.weight || 0, units.weight)}
+                    onChange={(e) =>
+                      handleUpdateExercise(index, {
+                        weight: fromWeightUnit(parseFloat(e.target.value) || 0, units.weight),
+                        percentOfOneRepMax: undefined
+                      })
+                    }
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`percent-${index}`}>% of 1RM</Label>
+                  <Input
+                    id={`percent-${index}`}
+                    type="number"
+                    min="0"
+                    max="150"
+                    placeholder="—"
+                    value={exercise.percentOfOneRepMax ?? ''}
+                    onChange={(e) => handleUpdateExercise(index, { percentOfOneRepMax: parseFloat(e.target.value) || undefined })}
+                    aria-describedby={exercise.percentOfOneRepMax ? `percent-help-${index}` : undefined}
+                    className="mt-1"
+                  />
+                </div>
+                {equipmentFor(exercise.exerciseId, library) === 'barbell' && preferences.equipment.barWeights.length > 1 && (
+                  <div>
+                    <Label htmlFor={`bar-${index}`}>Bar ({barUnit})</Label>
+                    <Select
+                      value={String(exercise.barWeight ?? preferences.equipment.barWeights[0])}
+                      onValueChange={(value) => {
+                        const barWeight = parseFloat(value);
+                        handleUpdateExercise(index, {
+                          barWeight: barWeight === preferences.equipment.barWeights[0] ? undefined : barWeight
+                        });
+                      }}
+                    >
+                      <SelectTrigger id={`bar-${index}`} className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {preferences.equipment.barWeights.map((bar) => (
+                          <SelectItem key={bar} value={String(bar)}>
+                            {bar}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </>
+            )}
+            {mode === 'bodyweight' && (
+              <div>
+                <Label htmlFor={`load-${index}`}>Load ({units.weight})</Label>
+                <Input
+                  id={`load-${index}`}
+                  type="number"
+                  value={displayWeight(signedLoad(exercise), units.weight)}
+                  onChange={(e) =>
+                    handleUpdateExercise(index, fromSignedLoad(fromWeightUnit(parseFloat(e.target.value) || 0, units.weight)))
+                  }
+                  aria-describedby={`load-help-${index}`}
+                  className="mt-1"
+                />
+                <p id={`load-help-${index}`} className="text-xs text-muted-foreground mt-1">
+                  Negative for assistance
+                </p>
+              </div>
+            )}
+            {mode === 'duration' && (
+              <div>
+                <Label htmlFor={`duration-${index}`}>Duration (sec)</Label>
+                <Input
+                  id={`duration-${index}`}
+                  type="number"
+                  min="0"
+                  value={setDuration(exercise)}
+                  onChange={(e) => handleUpdateExercise(index, { durationSeconds: parseInt(e.target.value) || 0, reps: 0 })}
+                  className="mt-1"
+                />
+              </div>
+            )}
+            {mode === 'distance-duration' && (
+              <>
+                <div>
+                  <Label htmlFor={`distance-${index}`}>Distance ({units.distance})</Label>
+                  <Input
+                    id={`distance-${index}`}
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={exercise.distance ? displayDistance(exercise.distance, units.distance) : 0}
+                    onChange={(e) =>
+                      handleUpdateExercise(index, {
+                        distance: fromDistanceUnit(parseFloat(e.target.value) || 0, units.distance) || undefined
+                      })
+                    }
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`time-${index}`}>Time (min)</Label>
+                  <Input
+                    id={`time-${index}`}
+                    type="number"
+                    min="0"
+                    value={exercise.durationSeconds ? Math.round(exercise.durationSeconds / 6) / 10 : 0}
+                    onChange={(e) =>
+                      handleUpdateExercise(index, { durationSeconds: Math.round((parseFloat(e.target.value) || 0) * 60) || undefined })
+                    }
+                    className="mt-1"
+                  />
+                </div>
+              </>
+            )}
+            {!exercise.groupId && (
+              <div>
+                <Label htmlFor={`rest-${index}`}>Rest (sec)</Label>
+                <Input
+                  id={`rest-${index}`}
+                  type="number"
+                  min="0"
+                  value={exercise.restSeconds || 0}
+                  onChange={(e) => handleUpdateExercise(index, { restSeconds: parseInt(e.target.value) || 0 })}
+                  className="mt-1"
+                />
+              </div>
+            )}
+          </div>
+
+          {countsReps && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <div>
+                <Label htmlFor={`last-set-${index}`}>Last set</Label>
+                <Select
+                  value={exercise.lastSetType ?? 'working'}
+                  onValueChange={(value) =>
+                    handleUpdateExercise(index, { lastSetType: value === 'working' ? undefined : (value as 'amrap' | 'failure') })
+                  }
+                >
+                  <SelectTrigger id={`last-set-${index}`} className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(['working', 'amrap', 'failure'] as const).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {SET_TYPES[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {mode === 'weight-reps' && (
+                <>
+                  <div>
+                    <Label htmlFor={`warm-up-${index}`}>Warm-up sets</Label>
+                    <div className="mt-3">
+                      <Switch
+                        id={`warm-up-${index}`}
+                        checked={!!exercise.warmUp}
+                        onCheckedChange={(checked) => handleUpdateExercise(index, { warmUp: checked || undefined })}
+                        aria-describedby={exercise.warmUp ? `warm-up-help-${index}` : undefined}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor={`target-rpe-${index}`}>Target RPE</Label>
+                    <Input
+                      id={`target-rpe-${index}`}
+                      type="number"
+                      min="6"
+                      max="10"
+                      step="0.5"
+                      placeholder="—"
+                      value={exercise.targetRpe ?? ''}
+                      onChange={(e) => handleUpdateExercise(index, { targetRpe: parseFloat(e.target.value) || undefined })}
+                      aria-describedby={exercise.targetRpe ? `target-rpe-help-${index}` : undefined}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`drop-sets-${index}`}>Drop sets</Label>
+                    <Input
+                      id={`drop-sets-${index}`}
+                      type="number"
+                      min="0"
+                      value={exercise.dropSets || 0}
+                      onChange={(e) => handleUpdateExercise(index, { dropSets: parseInt(e.target.value) || undefined })}
+                      className="mt-1"
+                    />
+                  </div>
+                  {exercise.dropSets ? (
+                    <div>
+                      <Label htmlFor={`drop-percent-${index}`}>Drop (%)</Label>
+                      <Input
+                        id={`drop-percent-${index}`}
+                        type="number"
+                        min="0"
+                        max="90"
+                        step="5"
+                        value={Math.round((exercise.dropPercent ?? DEFAULT_DROP_PERCENT) * 100)}
+                        onChange={(e) =>
+                          handleUpdateExercise(index, { dropPercent: (parseFloat(e.target.value) || 0) / 100 })
+                        }
+                        className="mt-1"
+                      />
+                    </div>
+                  ) : null}
+                </>
+              )}
+            </div>
+          )}
+          {(mode === 'weight-reps' || mode === 'bodyweight') && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <div>
+                <Label htmlFor={`progression-${index}`}>Progression</Label>
+                <Select
+                  value={exercise.progression?.type ?? 'none'}
+                  onValueChange={(value) => handleProgressionType(index, value as ProgressionRule['type'] | 'none')}
+                >
+                  <SelectTrigger id={`progression-${index}`} className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {Object.entries(PROGRESSION_TYPES).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {exercise.progression && (
+                <>
+                  <div>
+                    <Label htmlFor={`increment-${index}`}>Increment ({units.weight})</Label>
+                    <Input
+                      id={`increment-${index}`}
+                      type="number"
+                      min="0"
+                      step={units.weight === 'kg' ? '1.25' : '2.5'}
+                      value={displayWeight(exercise.progression.increment, units.weight)}
+                      onChange={(e) =>
+                        handleUpdateProgression(index, { increment: fromWeightUnit(parseFloat(e.target.value) || 0, units.weight) })
+                      }
+                      className="mt-1"
+                    />
+                  </div>
+                  {exercise.progression.type === 'double' && (
+                    <>
+                      <div>
+                        <Label htmlFor={`rep-min-${index}`}>Min reps</Label>
+                        <Input
+                          id={`rep-min-${index}`}
+                          type="number"
+                          min="1"
+                          value={exercise.progression.repRangeMin ?? exercise.reps}
+                          onChange={(e) => handleUpdateProgression(index, { repRangeMin: parseInt(e.target.value) || 1 })}
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor={`rep-max-${index}`}>Max reps</Label>
+                        <Input
+                          id={`rep-max-${index}`}
+                          type="number"
+                          min="1"
+                          value={exercise.progression.repRangeMax ?? exercise.reps}
+                          onChange={(e) => handleUpdateProgression(index, { repRangeMax: parseInt(e.target.value) || 1 })}
+                          className="mt-1"
+                        />
+                      </div>
+                    </>
+                  )}
+                  <div>
+                    <Label htmlFor={`deload-${index}`}>Deload after misses</Label>
+                    <Input
+                      id={`deload-${index}`}
+                      type="number"
+                      min="0"
+                      placeholder="Never"
+                      value={exercise.progression.deloadAfterFailures || ''}
+                      onChange={(e) =>
+                        handleUpdateProgression(index, { deloadAfterFailures: parseInt(e.target.value) || undefined })
+                      }
+                      className="mt-1"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {exercise.warmUp && mode === 'weight-reps' ? (
+            <p id={`warm-up-help-${index}`} className="text-sm text-muted-foreground">
+              Warm-ups before the first working set: {preferences.warmUpScheme.map(describeWarmUpStep).join(', ')}. Change
+              the scheme in Account settings.
+            </p>
+          ) : null}
+
+          {exercise.targetRpe && mode === 'weight-reps' ? (
+            <p id={`target-rpe-help-${index}`} className="text-sm text-muted-foreground">
+              {exercise.sets}×{exercise.reps} @ RPE {exercise.targetRpe}: after each set logged with RPE or RIR, the next
+              set's weight is worked out from that set's estimated 1RM
+            </p>
+          ) : null}
+
+          {exercise.percentOfOneRepMax ? (
+            <p id={`percent-help-${index}`} className="text-sm text-muted-foreground">
+              {oneRepMax
+                ? `${exercise.sets}×${exercise.reps} @ ${exercise.percentOfOneRepMax}% of ${formatWeight(oneRepMax, units.weight, 0)} estimated 1RM = ${formatWeight(percentageWeight(exercise, oneRepMax, exercise.percentOfOneRepMax), units.weight)}`
+                : 'No estimated 1RM yet; log a weighted set of this exercise to resolve the percentage'}
+            </p>
+          ) : null}
+        </div>
+      </Card>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div className="space-y-4">
@@ -87,99 +641,76 @@ export function PlanEditor({ plan, onSave, onCancel }: PlanEditorProps) {
       <div>
         <div className="flex items-center justify-between mb-3">
           <Label>Exercises</Label>
-          <Button onClick={handleAddExercise} variant="outline" size="sm" className="gap-2">
-            <Plus size={16} weight="bold" />
-            Add Exercise
-          </Button>
+          <div className="flex gap-2">
+            <Button onClick={() => setPaletteOpen(true)} variant="ghost" size="sm" className="gap-2">
+              <MagnifyingGlass size={16} aria-hidden="true" />
+              Find Exercise
+              <kbd className="hidden sm:inline text-xs text-muted-foreground">⌘K</kbd>
+            </Button>
+            <Button onClick={handleAddExercise} variant="outline" size="sm" className="gap-2">
+              <Plus size={16} weight="bold" />
+              Add Exercise
+            </Button>
+          </div>
         </div>
 
         <div className="space-y-3">
-          {exercises.map((exercise, index) => {
-            return (
-              <Card key={index} className="p-4">
-                <div className="space-y-3">
-                  <div className="flex items-start gap-3">
-                    <div className="flex-1">
-                      <Label htmlFor={`exercise-${index}`}>Exercise</Label>
-                      <Select
-                        value={exercise.exerciseId}
-                        onValueChange={(value) => handleUpdateExercise(index, { exerciseId: value })}
-                      >
-                        <SelectTrigger id={`exercise-${index}`} className="mt-1">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {EXERCISE_LIBRARY.map((ex) => (
-                            <SelectItem key={ex.id} value={ex.id}>
-                              <div className="flex items-center gap-2">
-                                <span>{ex.name}</span>
-                                <Badge variant="secondary" className="text-xs capitalize">
-                                  {ex.muscleGroup}
-                                </Badge>
-                              </div>
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <Button
-                      onClick={() => handleRemoveExercise(index)}
-                      variant="ghost"
-                      size="icon"
-                      className="mt-6"
+          {planBlocks(exercises).map((block) => {
+            const group = findGroup(groups, exercises[block[0]]);
+            const members = block.map((index) => (
+              <div key={index}>
+                {renderExercise(exercises[index], index)}
+                {index < exercises.length - 1 && renderLink(index)}
+              </div>
+            ));
+            return group ? (
+              <div key={group.id} className="border-l-4 border-accent pl-3 space-y-3">
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <Label htmlFor={`group-type-${group.id}`}>Group</Label>
+                    <Select
+                      value={group.type}
+                      onValueChange={(value) => handleUpdateGroup(group.id, { type: value as ExerciseGroupType })}
                     >
-                      <Trash size={18} />
-                    </Button>
+                      <SelectTrigger id={`group-type-${group.id}`} className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(EXERCISE_GROUP_TYPES).map(([type, label]) => (
+                          <SelectItem key={type} value={type}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
-
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                    <div>
-                      <Label htmlFor={`sets-${index}`}>Sets</Label>
-                      <Input
-                        id={`sets-${index}`}
-                        type="number"
-                        min="1"
-                        value={exercise.sets}
-                        onChange={(e) => handleUpdateExercise(index, { sets: parseInt(e.target.value) || 1 })}
-                        className="mt-1"
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor={`reps-${index}`}>Reps</Label>
-                      <Input
-                        id={`reps-${index}`}
-                        type="number"
-                        min="1"
-                        value={exercise.reps}
-                        onChange={(e) => handleUpdateExercise(index, { reps: parseInt(e.target.value) || 1 })}
-                        className="mt-1"
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor={`weight-${index}`}>Weight (lbs)</Label>
-                      <Input
-                        id={`weight-${index}`}
-                        type="number"
-                        min="0"
-                        value={exercise.weight || 0}
-                        onChange={(e) => handleUpdateExercise(index, { weight: parseInt(e.target.value) || 0 })}
-                        className="mt-1"
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor={`rest-${index}`}>Rest (sec)</Label>
-                      <Input
-                        id={`rest-${index}`}
-                        type="number"
-                        min="0"
-                        value={exercise.restSeconds || 0}
-                        onChange={(e) => handleUpdateExercise(index, { restSeconds: parseInt(e.target.value) || 0 })}
-                        className="mt-1"
-                      />
-                    </div>
+                  <div>
+                    <Label htmlFor={`group-rounds-${group.id}`}>Rounds</Label>
+                    <Input
+                      id={`group-rounds-${group.id}`}
+                      type="number"
+                      min="1"
+                      value={group.rounds}
+                      onChange={(e) => handleUpdateGroup(group.id, { rounds: parseInt(e.target.value) || 1 })}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`group-rest-${group.id}`}>Rest per round (sec)</Label>
+                    <Input
+                      id={`group-rest-${group.id}`}
+                      type="number"
+                      min="0"
+                      value={group.restSeconds}
+                      onChange={(e) => handleUpdateGroup(group.id, { restSeconds: parseInt(e.target.value) || 0 })}
+                      className="mt-1"
+                    />
                   </div>
                 </div>
-              </Card>
+                {members}
+              </div>
+            ) : (
+              members[0]
             );
           })}
         </div>
@@ -191,6 +722,8 @@ export function PlanEditor({ plan, onSave, onCancel }: PlanEditorProps) {
         )}
       </div>
 
+      <MesocycleEditor mesocycle={mesocycle} onChange={setMesocycle} />
+
       <div className="flex gap-3 pt-4">
         <Button onClick={handleSave} disabled={!name.trim() || exercises.length === 0} className="flex-1">
           Save Plan
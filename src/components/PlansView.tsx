@@ -1,8 +1,13 @@
 import { useState } from 'react';
-import { usePersistentState } from '@/hooks/use-persistent-state';
-import { WorkoutPlan, WorkoutTemplate } from '@/lib/types';
+import { usePlans } from '@/hooks/use-plans';
+import { usePreferences } from '@/hooks/use-preferences';
+import { usePrograms } from '@/hooks/use-programs';
+import { WEEKDAY_LABELS, importTemplate, programPlanIds } from '@/lib/programs';
+import { Program, WorkoutPlan, WorkoutTemplate } from '@/lib/types';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { Plus, Pencil, Trash, Play, Barbell, Books } from '@phosphor-icons/react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { PlanEditor } from '@/components/PlanEditor';
@@ -11,7 +16,11 @@ import { toast } from 'sonner';
 import { motion } from 'framer-motion';
 
 export function PlansView() {
-  const [plans, setPlans] = usePersistentState<WorkoutPlan[]>('workout-plans', []);
+  const { plans, savePlan, deletePlan } = usePlans();
+  const { programs, saveProgram, deleteProgram } = usePrograms();
+  const { preferences } = usePreferences();
+  const dayPlanIds = programPlanIds(programs);
+  const standalonePlans = plans.filter((plan) => !dayPlanIds.has(plan.id));
   const [editingPlan, setEditingPlan] = useState<WorkoutPlan | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
@@ -27,39 +36,37 @@ export function PlansView() {
   };
 
   const handleSavePlan = (plan: WorkoutPlan) => {
-    setPlans((currentPlans) => {
-      const existingIndex = (currentPlans || []).findIndex((p) => p.id === plan.id);
-      if (existingIndex >= 0) {
-        const updated = [...(currentPlans || [])];
-        updated[existingIndex] = plan;
-        return updated;
-      } else {
-        return [...(currentPlans || []), plan];
-      }
-    });
+    savePlan(plan);
     setIsDialogOpen(false);
     toast.success(editingPlan ? 'Plan updated!' : 'Plan created!');
   };
 
   const handleDeletePlan = (planId: string) => {
-    setPlans((currentPlans) => (currentPlans || []).filter((p) => p.id !== planId));
+    deletePlan(planId);
     toast.success('Plan deleted');
   };
 
+  const handleDeleteProgram = (program: Program) => {
+    deleteProgram(program.id);
+    program.days.forEach((day) => deletePlan(day.planId));
+    toast.success('Program deleted');
+  };
+
+  const handleScheduleChange = (program: Program, weekdays: string[]) => {
+    saveProgram({ ...program, schedule: weekdays.map(Number).sort() });
+  };
+
   const handleStartWorkout = (_plan: WorkoutPlan) => {
     toast.info('Starting workout - switch to Workout tab');
   };
 
   const handleImportTemplate = (template: WorkoutTemplate) => {
-    const newPlan: WorkoutPlan = {
-      id: `plan-${Date.now()}`,
-      name: template.name,
-      description: template.description,
-      exercises: template.exercises,
-      createdAt: Date.now()
-    };
-    
-    setPlans((currentPlans) => [...(currentPlans || []), newPlan]);
+    const { plans: newPlans, program } = importTemplate(template, Date.now(), preferences.unitSystem);
+
+    newPlans.forEach((plan) => savePlan(plan));
+    if (program) {
+      saveProgram(program);
+    }
     setIsTemplateDialogOpen(false);
     toast.success(`"${template.name}" imported successfully!`);
   };
@@ -103,7 +110,7 @@ export function PlansView() {
         </div>
       </div>
 
-      {(plans || []).length === 0 ? (
+      {plans.length === 0 ? (
         <Card className="p-12 text-center">
           <Barbell size={64} weight="thin" className="mx-auto text-muted-foreground mb-4" aria-hidden="true" />
           <h2 className="text-xl font-semibold mb-2">No workout plans yet</h2>
@@ -122,44 +129,113 @@ export function PlansView() {
           </div>
         </Card>
       ) : (
-        <div className="grid gap-6 md:grid-cols-2">
-          {(plans || []).map((plan, index) => (
-            <motion.div
-              key={plan.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: index * 0.05 }}
-            >
-              <Card className="p-6 hover:shadow-lg transition-shadow">
-                <div className="flex items-start justify-between mb-3">
-                  <div className="flex-1">
-                    <h2 className="text-xl font-semibold mb-1">{plan.name}</h2>
-                    <p className="text-sm text-muted-foreground">{plan.description}</p>
+        <>
+          {programs.length > 0 && (
+            <div className="space-y-6 mb-8">
+              {programs.map((program) => (
+                <Card key={program.id} className="p-6">
+                  <div className="flex items-start justify-between gap-3 mb-4">
+                    <div>
+                      <h2 className="text-xl font-semibold mb-1">{program.name}</h2>
+                      <p className="text-sm text-muted-foreground">{program.description}</p>
+                    </div>
+                    <Button
+                      onClick={() => handleDeleteProgram(program)}
+                      variant="outline"
+                      size="icon"
+                      aria-label={`Delete ${program.name} program`}
+                    >
+                      <Trash size={18} aria-hidden="true" />
+                    </Button>
                   </div>
-                </div>
-
-                <div className="flex items-center gap-4 text-sm text-muted-foreground mb-4">
-                  <span>{plan.exercises.length} exercises</span>
-                  <span>•</span>
-                  <span>{plan.exercises.reduce((acc, ex) => acc + ex.sets, 0)} total sets</span>
-                </div>
-
-                <div className="flex gap-2">
-                  <Button onClick={() => handleStartWorkout(plan)} className="flex-1 gap-2 bg-accent hover:bg-accent/90 text-accent-foreground">
-                    <Play size={18} weight="fill" aria-hidden="true" />
-                    Start Workout
-                  </Button>
-                  <Button onClick={() => handleEditPlan(plan)} variant="outline" size="icon" aria-label={`Edit ${plan.name} plan`}>
-                    <Pencil size={18} aria-hidden="true" />
-                  </Button>
-                  <Button onClick={() => handleDeletePlan(plan.id)} variant="outline" size="icon" aria-label={`Delete ${plan.name} plan`}>
-                    <Trash size={18} aria-hidden="true" />
-                  </Button>
-                </div>
-              </Card>
-            </motion.div>
-          ))}
-        </div>
+
+                  <ol className="space-y-2 mb-4">
+                    {program.days.map((day, dayIndex) => {
+                      const dayPlan = plans.find((plan) => plan.id === day.planId);
+                      return (
+                        <li key={day.planId} className="flex items-center justify-between gap-3 text-sm">
+                          <span className="flex items-center gap-2">
+                            <Badge variant={dayIndex === program.nextDayIndex ? 'default' : 'secondary'}>
+                              Day {dayIndex + 1}
+                            </Badge>
+                            <span className="font-medium">{day.name}</span>
+                            <span className="text-muted-foreground">
+                              {dayPlan ? `${dayPlan.exercises.length} exercises` : 'Missing plan'}
+                            </span>
+                            {dayIndex === program.nextDayIndex && <span className="sr-only">(next up)</span>}
+                          </span>
+                          {dayPlan && (
+                            <Button
+                              onClick={() => handleEditPlan(dayPlan)}
+                              variant="ghost"
+                              size="icon"
+                              aria-label={`Edit ${day.name} day of ${program.name}`}
+                            >
+                              <Pencil size={18} aria-hidden="true" />
+                            </Button>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+
+                  <p id={`schedule-${program.id}`} className="text-sm font-medium mb-2">Training days</p>
+                  <ToggleGroup
+                    type="multiple"
+                    variant="outline"
+                    value={program.schedule.map(String)}
+                    onValueChange={(weekdays) => handleScheduleChange(program, weekdays)}
+                    aria-labelledby={`schedule-${program.id}`}
+                  >
+                    {WEEKDAY_LABELS.map((label, weekday) => (
+                      <ToggleGroupItem key={label} value={String(weekday)} className="text-xs">
+                        {label}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </Card>
+              ))}
+            </div>
+          )}
+          <div className="grid gap-6 md:grid-cols-2">
+            {standalonePlans.map((plan, index) => (
+              <motion.div
+                key={plan.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+              >
+                <Card className="p-6 hover:shadow-lg transition-shadow">
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex-1">
+                      <h2 className="text-xl font-semibold mb-1">{plan.name}</h2>
+                      <p className="text-sm text-muted-foreground">{plan.description}</p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground mb-4">
+                    <span>{plan.exercises.length} exercises</span>
+                    <span>•</span>
+                    <span>{plan.exercises.reduce((acc, ex) => acc + ex.sets, 0)} total sets</span>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button onClick={() => handleStartWorkout(plan)} className="flex-1 gap-2 bg-accent hover:bg-accent/90 text-accent-foreground">
+                      <Play size={18} weight="fill" aria-hidden="true" />
+                      Start Workout
+                    </Button>
+                    <Button onClick={() => handleEditPlan(plan)} variant="outline" size="icon" aria-label={`Edit ${plan.name} plan`}>
+                      <Pencil size={18} aria-hidden="true" />
+                    </Button>
+                    <Button onClick={() => handleDeletePlan(plan.id)} variant="outline" size="icon" aria-label={`Delete ${plan.name} plan`}>
+                      <Trash size={18} aria-hidden="true" />
+                    </Button>
+                  </div>
+                </Card>
+              </motion.div>
+            ))}
+          </div>
+        </>
       )}
     </div>
   );
@@ -0,0 +1,249 @@
+import { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { format } from 'date-fns';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import {
+  ExerciseProgressPoint,
+  PROGRESS_RANGES,
+  ProgressRange,
+  exerciseProgress,
+  sessionsInRange,
+  weeklyMuscleGroupVolume,
+} from '@/lib/progress-stats';
+import { EXERCISE_LIBRARY } from '@/lib/exercises';
+import { trackingModeFor } from '@/lib/tracking';
+import { Exercise, MuscleGroup, OneRepMaxFormula, TrackingMode, UnitSystem, WorkoutSession } from '@/lib/types';
+import { DEFAULT_UNIT_SYSTEM, UNIT_SYSTEMS, displayDistance, displayWeight } from '@/lib/units';
+
+type ExerciseMetric = Exclude<keyof ExerciseProgressPoint, 'sessionId' | 'date'>;
+
+interface MetricConfig {
+  key: ExerciseMetric;
+  label: string;
+  unit: string;
+  /** Converts the stored value to `unit` */
+  scale?: (value: number) => number;
+}
+
+const toMinutes = (seconds: number) => Math.round((seconds / 60) * 10) / 10;
+
+/**
+ * Charted metrics for each tracking mode, in the user's units
+ */
+function exerciseMetrics(system: UnitSystem): Record<TrackingMode, MetricConfig[]> {
+  const { weight, distance } = UNIT_SYSTEMS[system];
+  const weightMetric = (key: ExerciseMetric, label: string): MetricConfig => ({
+    key,
+    label,
+    unit: weight,
+    scale: (value) => displayWeight(value, weight, 1),
+  });
+  return {
+    'weight-reps': [
+      weightMetric('topSetWeight', 'Top set weight'),
+      weightMetric('oneRepMax', 'Estimated 1RM'),
+      weightMetric('volume', 'Total volume'),
+      { key: 'reps', label: 'Total reps', unit: 'reps' },
+    ],
+    reps: [
+      { key: 'topSetReps', label: 'Best set', unit: 'reps' },
+      { key: 'reps', label: 'Total reps', unit: 'reps' },
+    ],
+    bodyweight: [
+      { key: 'topSetReps', label: 'Best set', unit: 'reps' },
+      { key: 'reps', label: 'Total reps', unit: 'reps' },
+      weightMetric('topSetWeight', 'Best load (negative is assisted)'),
+    ],
+    duration: [
+      { key: 'longestDuration', label: 'Longest set', unit: 'seconds' },
+      { key: 'duration', label: 'Total time', unit: 'seconds' },
+    ],
+    'distance-duration': [
+      { key: 'distance', label: 'Distance', unit: distance, scale: (value) => displayDistance(value, distance) },
+      { key: 'duration', label: 'Total time', unit: 'min', scale: toMinutes },
+    ],
+  };
+}
+
+const MUSCLE_GROUP_CONFIG: Record<MuscleGroup, { label: string; color: string }> & ChartConfig = {
+  chest: { label: 'Chest', color: 'var(--chart-1)' },
+  back: { label: 'Back', color: 'var(--chart-2)' },
+  shoulders: { label: 'Shoulders', color: 'var(--chart-3)' },
+  biceps: { label: 'Biceps', color: 'var(--chart-4)' },
+  triceps: { label: 'Triceps', color: 'var(--chart-5)' },
+  legs: { label: 'Legs', color: 'var(--primary)' },
+  core: { label: 'Core', color: 'var(--accent)' },
+  cardio: { label: 'Cardio', color: 'var(--secondary)' },
+  'full-body': { label: 'Full body', color: 'var(--muted-foreground)' },
+};
+
+const formatDate = (date: number) => format(date, 'MMM d');
+
+/**
+ * ProgressCharts Component
+ * Per-exercise line charts and weekly volume per muscle group, for a
+ * chosen time range
+ */
+export function ProgressCharts({
+  sessions,
+  formula,
+  unitSystem = DEFAULT_UNIT_SYSTEM,
+  library = EXERCISE_LIBRARY,
+}: {
+  sessions: WorkoutSession[];
+  formula: OneRepMaxFormula;
+  unitSystem?: UnitSystem;
+  /** Built-in and custom exercises */
+  library?: Exercise[];
+}) {
+  const [range, setRange] = useState<ProgressRange>('12w');
+  const exercises = useMemo(
+    () => [
+      ...new Map(
+        sessions.flatMap((session) =>
+          session.exercises
+            .filter((exercise) => exercise.completedSets.length > 0)
+            .map((exercise) => [exercise.exerciseId, exercise.exerciseName] as const)
+        )
+      ),
+    ],
+    [sessions]
+  );
+  const [selectedExerciseId, setSelectedExerciseId] = useState<string | null>(null);
+  const exerciseId = selectedExerciseId ?? exercises[0]?.[0] ?? null;
+  const exerciseName = exercises.find(([id]) => id === exerciseId)?.[1] ?? '';
+
+  const sessionsShown = useMemo(() => sessionsInRange(sessions, range), [sessions, range]);
+  const points = useMemo(
+    () => (exerciseId ? exerciseProgress(sessionsShown, exerciseId, formula, library) : []),
+    [sessionsShown, exerciseId, formula, library]
+  );
+  const metrics = exerciseMetrics(unitSystem)[exerciseId ? trackingModeFor(exerciseId, library) : 'weight-reps'];
+  const weeklyVolume = useMemo(() => {
+    const unit = UNIT_SYSTEMS[unitSystem].weight;
+    return weeklyMuscleGroupVolume(sessionsShown, library).map(({ weekStart, ...volumes }) => ({
+      weekStart,
+      ...Object.fromEntries(Object.entries(volumes).map(([group, volume]) => [group, displayWeight(volume, unit, 0)])),
+    }));
+  }, [sessionsShown, unitSystem, library]);
+  const muscleGroups = (Object.keys(MUSCLE_GROUP_CONFIG) as MuscleGroup[]).filter((group) =>
+    weeklyVolume.some((week) => week[group])
+  );
+
+  if (exercises.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-xl font-semibold mb-4">Charts</h2>
+      <div className="grid gap-4 sm:grid-cols-2 mb-4">
+        <div>
+          <Label htmlFor="progress-exercise">Exercise</Label>
+          <Select value={exerciseId ?? undefined} onValueChange={setSelectedExerciseId}>
+            <SelectTrigger id="progress-exercise" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {exercises.map(([id, name]) => (
+                <SelectItem key={id} value={id}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="progress-range">Time range</Label>
+          <Select value={range} onValueChange={(value) => setRange(value as ProgressRange)}>
+            <SelectTrigger id="progress-range" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PROGRESS_RANGES).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {points.length === 0 ? (
+        <Card className="p-6 mb-4 text-sm text-muted-foreground">
+          No {exerciseName} sets logged in the last {PROGRESS_RANGES[range].label.toLowerCase()}
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 mb-4">
+          {metrics.map(({ key, label, unit, scale = (value: number) => value }) => {
+            const data = points.map((point) => ({ date: point.date, [key]: scale(point[key]) }));
+            const latest = data[data.length - 1][key];
+            return (
+              <Card key={key} className="p-4">
+                <h3 className="font-semibold text-sm">{label}</h3>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Latest {latest} {unit}
+                </p>
+                <ChartContainer
+                  config={{ [key]: { label, color: 'var(--chart-1)' } }}
+                  className="aspect-[2/1] w-full"
+                  role="img"
+                  aria-label={`${label} for ${exerciseName} over ${points.length} workouts, latest ${latest} ${unit}`}
+                >
+                  <LineChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={formatDate} tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis width={40} tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent labelFormatter={(_, payload) => formatDate(payload[0]?.payload.date)} />}
+                    />
+                    <Line dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={2} dot={{ r: 3 }} />
+                  </LineChart>
+                </ChartContainer>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {weeklyVolume.length > 0 && (
+        <Card className="p-4">
+          <h3 className="font-semibold text-sm mb-1">Weekly volume by muscle group</h3>
+          <p className="text-xs text-muted-foreground mb-2">Muscles an exercise also works get part of its volume</p>
+          <ChartContainer
+            config={MUSCLE_GROUP_CONFIG}
+            className="aspect-[2/1] w-full"
+            role="img"
+            aria-label={`Weekly volume by muscle group over ${weeklyVolume.length} weeks`}
+          >
+            <BarChart data={weeklyVolume} margin={{ left: 4, right: 12, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="weekStart" tickFormatter={formatDate} tickLine={false} axisLine={false} />
+              <YAxis width={48} tickLine={false} axisLine={false} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent labelFormatter={(_, payload) => `Week of ${formatDate(payload[0]?.payload.weekStart)}`} />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              {muscleGroups.map((group) => (
+                <Bar key={group} dataKey={group} stackId="volume" fill={`var(--color-${group})`} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        </Card>
+      )}
+    </div>
+  );
+}
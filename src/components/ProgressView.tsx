@@ -1,25 +1,88 @@
-import { usePersistentState } from '@/hooks/use-persistent-state';
+import { useMemo, useState } from 'react';
+import { useExercises } from '@/hooks/use-exercises';
+import { usePlans } from '@/hooks/use-plans';
+import { usePreferences } from '@/hooks/use-preferences';
+import { useSessions } from '@/hooks/use-sessions';
+import { findExercise } from '@/lib/exercises';
+import { ONE_REP_MAX_FORMULAS, oneRepMaxTrend } from '@/lib/one-rep-max';
+import { personalRecordsByExercise } from '@/lib/personal-records';
+import { withoutWarmUps } from '@/lib/set-types';
+import { describeMesocycleWeek, isMesocycleComplete, mesocyclePosition } from '@/lib/mesocycle';
+import { UNIT_SYSTEMS, displayWeight, formatWeight } from '@/lib/units';
+import { pastSession, sessionMinutes } from '@/lib/session-history';
 import { WorkoutSession } from '@/lib/types';
-import { EXERCISE_LIBRARY } from '@/lib/exercises';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Trophy, TrendUp, CalendarBlank, Fire } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { PersonalRecordHistory } from '@/components/PersonalRecordHistory';
+import { ProgressCharts } from '@/components/ProgressCharts';
+import { SessionEditor } from '@/components/SessionEditor';
+import { Trophy, TrendUp, TrendDown, CalendarBlank, Fire, Pencil, Plus } from '@phosphor-icons/react';
 import { format } from 'date-fns';
+import { toast } from 'sonner';
 
 export function ProgressView() {
-  const [sessions] = usePersistentState<WorkoutSession[]>('workout-sessions', []);
-
-  const completedSessions = (sessions || []).filter((s) => s.status === 'completed');
+  // Sessions arrive oldest first
+  const {
+    sessions: completedSessions,
+    createSession,
+    updateSession,
+    deleteSession,
+  } = useSessions({ status: 'completed' });
+  const { preferences } = usePreferences();
+  const { plans } = usePlans();
+  const { exercises: library } = useExercises();
+  const blockPlans = plans.filter((plan) => plan.mesocycle);
+  const formula = preferences.oneRepMaxFormula;
+  const unit = UNIT_SYSTEMS[preferences.unitSystem].weight;
+  // Sessions being edited, or logged after the fact when not yet saved
+  const [editingSession, setEditingSession] = useState<WorkoutSession | null>(null);
+  const isNewSession = !!editingSession && !completedSessions.some((session) => session.id === editingSession.id);
   const totalWorkouts = completedSessions.length;
   const totalSets = completedSessions.reduce(
-    (acc, session) => acc + session.exercises.reduce((ex, e) => ex + e.completedSets.length, 0),
+    (acc, session) => acc + session.exercises.reduce((ex, e) => ex + withoutWarmUps(e.completedSets).length, 0),
     0
   );
 
-  const recentSessions = completedSessions
+  const recentSessions = [...completedSessions]
     .sort((a, b) => (b.completedAt || b.startedAt) - (a.completedAt || a.startedAt))
     .slice(0, 10);
 
+  const recordsByExercise = useMemo(
+    () => personalRecordsByExercise(completedSessions, formula),
+    [completedSessions, formula]
+  );
+  const exerciseNames = new Map(
+    completedSessions.flatMap((session) => session.exercises.map((e) => [e.exerciseId, e.exerciseName] as const))
+  );
+  const oneRepMaxTrends = useMemo(
+    () =>
+      [...new Set(completedSessions.flatMap((session) => session.exercises.map((e) => e.exerciseId)))]
+        .map((exerciseId) => ({ exerciseId, trend: oneRepMaxTrend(completedSessions, exerciseId, formula) }))
+        .filter(({ trend }) => trend.length > 0),
+    [completedSessions, formula]
+  );
+
+  const handleSaveSession = (session: WorkoutSession) => {
+    const { id, ...updates } = session;
+    if (isNewSession) {
+      createSession(session);
+      toast.success('Past workout logged');
+    } else {
+      updateSession(id, updates);
+      toast.success('Workout updated');
+    }
+    setEditingSession(null);
+  };
+
+  const handleDeleteSession = (sessionId: string) => {
+    deleteSession(sessionId);
+    setEditingSession(null);
+    toast.success('Workout deleted');
+  };
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="mb-8">
@@ -60,7 +123,7 @@ export function ProgressView() {
             <div>
               <div className="text-3xl font-bold">
                 {completedSessions.length > 0
-                  ? Math.floor((Date.now() - completedSessions[completedSessions.length - 1].startedAt) / (1000 * 60 * 60 * 24))
+                  ? Math.floor((Date.now() - completedSessions[0].startedAt) / (1000 * 60 * 60 * 24))
                   : 0}
               </div>
               <div className="text-sm text-muted-foreground">Days Active</div>
@@ -69,8 +132,110 @@ export function ProgressView() {
         </Card>
       </div>
 
+      {blockPlans.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-4">Training Blocks</h2>
+          <div className="grid gap-4 md:grid-cols-2">
+            {blockPlans.map((plan) => {
+              const mesocycle = plan.mesocycle!;
+              const position = mesocyclePosition(mesocycle);
+              const complete = isMesocycleComplete(mesocycle);
+              const weekCount = mesocycle.weeks.length;
+              const weeksDone = complete ? weekCount : position?.weekIndex ?? 0;
+              return (
+                <Card key={plan.id} className="p-6">
+                  <div className="flex items-start justify-between gap-2 mb-3">
+                    <h3 className="text-lg font-semibold">{plan.name}</h3>
+                    <Badge variant={position?.week.deload ? 'outline' : 'secondary'}>
+                      {position
+                        ? `Week ${position.weekIndex + 1} of ${weekCount}`
+                        : complete
+                          ? 'Block complete'
+                          : 'Not started'}
+                    </Badge>
+                  </div>
+                  <Progress
+                    value={(weeksDone / weekCount) * 100}
+                    className="h-2 mb-3"
+                    aria-label={`${weeksDone} of ${weekCount} weeks done`}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    {position
+                      ? describeMesocycleWeek(position.week)
+                      : complete
+                        ? 'Plan targets are back to normal'
+                        : `Starts ${format(mesocycle.startedAt, 'MMM d')}`}
+                  </p>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <ProgressCharts
+        sessions={completedSessions}
+        formula={formula}
+        unitSystem={preferences.unitSystem}
+        library={library}
+      />
+
+      {oneRepMaxTrends.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-1">Estimated 1RM</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Best set per workout, using the {ONE_REP_MAX_FORMULAS[formula].label} formula
+          </p>
+          <Card className="p-6">
+            <ul className="space-y-3">
+              {oneRepMaxTrends.map(({ exerciseId, trend }) => {
+                const latest = trend[trend.length - 1].oneRepMax;
+                const change = trend.length > 1 ? latest - trend[trend.length - 2].oneRepMax : 0;
+                const best = Math.max(...trend.map((point) => point.oneRepMax));
+                return (
+                  <li key={exerciseId} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="font-medium">{exerciseNames.get(exerciseId)}</span>
+                    <span className="flex items-center gap-3">
+                      <span className="text-lg font-semibold">{formatWeight(latest, unit, 0)}</span>
+                      {change !== 0 && (
+                        <span className={`flex items-center gap-1 ${change > 0 ? 'text-accent' : 'text-muted-foreground'}`}>
+                          {change > 0 ? <TrendUp size={16} aria-hidden="true" /> : <TrendDown size={16} aria-hidden="true" />}
+                          {change > 0 ? '+' : '−'}{formatWeight(Math.abs(change), unit, 0)}
+                          <span className="sr-only">since the previous workout</span>
+                        </span>
+                      )}
+                      <span className="text-muted-foreground">best {displayWeight(best, unit, 0)}</span>
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </Card>
+        </div>
+      )}
+
+      {recordsByExercise.size > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-4">Personal Records</h2>
+          <div className="grid gap-4 md:grid-cols-2">
+            {[...recordsByExercise].map(([exerciseId, records]) => (
+              <Card key={exerciseId} className="p-6">
+                <h3 className="text-lg font-semibold mb-3">{exerciseNames.get(exerciseId) ?? exerciseId}</h3>
+                <PersonalRecordHistory records={records} limit={5} unit={unit} />
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div>
-        <h2 className="text-xl font-semibold mb-4">Workout History</h2>
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <h2 className="text-xl font-semibold">Workout History</h2>
+          <Button onClick={() => setEditingSession(pastSession(Date.now()))} variant="outline" size="sm" className="gap-2">
+            <Plus size={16} weight="bold" />
+            Log past workout
+          </Button>
+        </div>
         {recentSessions.length === 0 ? (
           <Card className="p-12 text-center">
             <TrendUp size={64} weight="thin" className="mx-auto text-muted-foreground mb-4" aria-hidden="true" />
@@ -82,9 +247,7 @@ export function ProgressView() {
         ) : (
           <div className="space-y-4">
             {recentSessions.map((session) => {
-              const duration = session.completedAt
-                ? Math.round((session.completedAt - session.startedAt) / (1000 * 60))
-                : 0;
+              const duration = sessionMinutes(session);
 
               return (
                 <article key={session.id}>
@@ -96,16 +259,31 @@ export function ProgressView() {
                           {format(session.startedAt, 'MMM d, yyyy • h:mm a')}
                         </p>
                       </div>
-                      <Badge variant="secondary">{duration} min</Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">{duration} min</Badge>
+                        <Button
+                          onClick={() => setEditingSession(session)}
+                          variant="ghost"
+                          size="icon"
+                          aria-label={`Edit ${session.planName} on ${format(session.startedAt, 'MMM d, yyyy')}`}
+                        >
+                          <Pencil size={18} aria-hidden="true" />
+                        </Button>
+                      </div>
                     </div>
 
                     <ul className="space-y-2">
                       {session.exercises.map((exercise) => {
-                        const exerciseData = EXERCISE_LIBRARY.find((e) => e.id === exercise.exerciseId);
+                        const exerciseData = findExercise(exercise.exerciseId, library);
                         return (
                           <li key={exercise.exerciseId} className="flex items-center justify-between text-sm">
                             <div className="flex items-center gap-2">
                               <span className="font-medium">{exercise.exerciseName}</span>
+                              {exercise.substitutedFor && (
+                                <span className="text-xs text-muted-foreground">
+                                  in place of {exercise.substitutedFor.exerciseName}
+                                </span>
+                              )}
                               {exerciseData && (
                                 <Badge variant="outline" className="text-xs capitalize">
                                   {exerciseData.muscleGroup}
@@ -126,6 +304,24 @@ export function ProgressView() {
           </div>
         )}
       </div>
+
+      <Dialog open={!!editingSession} onOpenChange={(open) => !open && setEditingSession(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{isNewSession ? 'Log Past Workout' : 'Edit Workout'}</DialogTitle>
+          </DialogHeader>
+          {editingSession && (
+            <SessionEditor
+              key={editingSession.id}
+              session={editingSession}
+              unitSystem={preferences.unitSystem}
+              onSave={handleSaveSession}
+              onCancel={() => setEditingSession(null)}
+              onDelete={isNewSession ? undefined : () => handleDeleteSession(editingSession.id)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
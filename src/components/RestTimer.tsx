@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useAnnouncer } from '@/hooks/use-announcer';
+import {
+  REST_ADJUST_SECONDS,
+  describeRestTime,
+  formatRestTime,
+  isRestMilestone,
+  playRestCue,
+  restSecondsLeft,
+} from '@/lib/rest-timer';
+import { Minus, Plus, SkipForward, Timer } from '@phosphor-icons/react';
+
+const TICK_MS = 250;
+
+/**
+ * RestTimer Component
+ * Counts down to `endsAt`, then beeps, vibrates and calls `onFinish`.
+ * A deadline that already passed when mounted (e.g. after a long reload)
+ * finishes silently. Key it on `endsAt` so each new deadline starts a
+ * fresh countdown and is announced.
+ */
+export function RestTimer({
+  endsAt,
+  onAdjust,
+  onSkip,
+  onFinish
+}: {
+  endsAt: number;
+  onAdjust: (deltaSeconds: number) => void;
+  onSkip: () => void;
+  onFinish: () => void;
+}) {
+  const { announce } = useAnnouncer();
+  const [now, setNow] = useState(() => Date.now());
+  const [expiredOnMount] = useState(() => endsAt <= Date.now());
+  const lastAnnouncedRef = useRef<number | null>(null);
+  const finishedRef = useRef(false);
+  const remaining = restSecondsLeft(endsAt, now);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (remaining > 0) {
+      finishedRef.current = false;
+      if (lastAnnouncedRef.current === null) {
+        announce(`Rest started, ${describeRestTime(remaining)} remaining`);
+        lastAnnouncedRef.current = remaining;
+      } else if (remaining !== lastAnnouncedRef.current && isRestMilestone(remaining)) {
+        announce(`${describeRestTime(remaining)} rest remaining`);
+        lastAnnouncedRef.current = remaining;
+      }
+      return;
+    }
+    if (!finishedRef.current) {
+      finishedRef.current = true;
+      if (!expiredOnMount) {
+        playRestCue();
+        announce('Rest over, start your next set', true);
+      }
+      onFinish();
+    }
+  }, [remaining, announce, onFinish, expiredOnMount]);
+
+  return (
+    <Card className="p-4 mb-6 bg-muted">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Timer size={28} weight="duotone" className="text-primary" aria-hidden="true" />
+          <div>
+            <p className="text-sm text-muted-foreground">Rest</p>
+            <p className="text-3xl font-bold tabular-nums" aria-label={`${describeRestTime(remaining)} rest remaining`}>
+              {formatRestTime(remaining)}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onAdjust(-REST_ADJUST_SECONDS)}
+            aria-label={`Subtract ${REST_ADJUST_SECONDS} seconds`}
+          >
+            <Minus size={16} aria-hidden="true" />
+            {REST_ADJUST_SECONDS}s
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onAdjust(REST_ADJUST_SECONDS)}
+            aria-label={`Add ${REST_ADJUST_SECONDS} seconds`}
+          >
+            <Plus size={16} aria-hidden="true" />
+            {REST_ADJUST_SECONDS}s
+          </Button>
+          <Button variant="secondary" size="sm" onClick={onSkip} className="gap-1">
+            <SkipForward size={16} aria-hidden="true" />
+            Skip
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,332 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useExercises } from '@/hooks/use-exercises';
+import { offeredExercises } from '@/lib/exercises';
+import { CompletedSet, TrackingMode, UnitSystem, WorkoutSession } from '@/lib/types';
+import { SET_TYPES } from '@/lib/set-types';
+import { SetValues, fromSignedLoad, setDuration, signedLoad, trackingModeFor } from '@/lib/tracking';
+import { UNIT_SYSTEMS, displayDistance, displayWeight, fromDistanceUnit, fromWeightUnit } from '@/lib/units';
+import {
+  appendSet,
+  retimeSession,
+  sessionExercise,
+  sessionMinutes,
+  updateSessionSets,
+} from '@/lib/session-history';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Plus, Trash } from '@phosphor-icons/react';
+
+interface SessionEditorProps {
+  session: WorkoutSession;
+  unitSystem: UnitSystem;
+  onSave: (session: WorkoutSession) => void;
+  onCancel: () => void;
+  /** Offered for sessions already saved */
+  onDelete?: () => void;
+}
+
+interface SetField {
+  key: string;
+  label: string;
+  value: number;
+  step?: string;
+  signed?: boolean;
+  /** Changes to the set for an entered `value` */
+  apply: (value: number) => Partial<CompletedSet>;
+}
+
+const DATE_TIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+/**
+ * SessionEditor Component
+ * Edits a finished workout, or one being logged after the fact: when and
+ * how long it was, its exercises and each set's values. Weights and
+ * distances are entered in the user's units.
+ */
+export function SessionEditor({ session, unitSystem, onSave, onCancel, onDelete }: SessionEditorProps) {
+  const [draft, setDraft] = useState(session);
+  const { exercises: library } = useExercises();
+  const units = UNIT_SYSTEMS[unitSystem];
+  const minutes = sessionMinutes(draft);
+
+  const updateSet = (exerciseIndex: number, setIndex: number, values: Partial<CompletedSet>) =>
+    setDraft((current) =>
+      updateSessionSets(current, exerciseIndex, (sets) =>
+        sets.map((set, i) => (i === setIndex ? { ...set, ...values } : set))
+      )
+    );
+
+  /** Weights entered in kg are marked as such, see `CompletedSet.unit` */
+  const weightValues = (value: number, values: Partial<SetValues>): Partial<CompletedSet> => ({
+    ...values,
+    unit: units.weight === 'kg' && value !== 0 ? 'kg' : undefined,
+  });
+
+  /** Inputs for one set in the exercise's tracking mode */
+  const setFields = (set: CompletedSet, mode: TrackingMode): SetField[] => {
+    const reps: SetField = { key: 'reps', label: 'Reps', value: set.reps, apply: (value) => ({ reps: Math.round(value) }) };
+    switch (mode) {
+      case 'reps':
+        return [reps];
+      case 'bodyweight':
+        return [
+          reps,
+          {
+            key: 'load',
+            label: `Load (${units.weight})`,
+            value: displayWeight(signedLoad(set), units.weight),
+            signed: true,
+            apply: (value) => weightValues(value, fromSignedLoad(fromWeightUnit(value, units.weight))),
+          },
+        ];
+      case 'duration':
+        return [
+          {
+            key: 'duration',
+            label: 'Duration (sec)',
+            value: setDuration(set),
+            apply: (value) => ({ reps: 0, durationSeconds: Math.round(value) }),
+          },
+        ];
+      case 'distance-duration':
+        return [
+          {
+            key: 'distance',
+            label: `Distance (${units.distance})`,
+            value: set.distance ? displayDistance(set.distance, units.distance) : 0,
+            step: '0.01',
+            apply: (value) => ({ reps: 0, distance: value > 0 ? fromDistanceUnit(value, units.distance) : undefined }),
+          },
+          {
+            key: 'time',
+            label: 'Time (min)',
+            value: set.durationSeconds ? Math.round((set.durationSeconds / 60) * 100) / 100 : 0,
+            step: '0.5',
+            apply: (value) => ({ reps: 0, durationSeconds: value > 0 ? Math.round(value * 60) : undefined }),
+          },
+        ];
+      default:
+        return [
+          reps,
+          {
+            key: 'weight',
+            label: `Weight (${units.weight})`,
+            value: displayWeight(set.weight ?? 0, units.weight),
+            apply: (value) => weightValues(value, { weight: value > 0 ? fromWeightUnit(value, units.weight) : undefined }),
+          },
+        ];
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="sm:col-span-3">
+          <Label htmlFor="session-name">Workout name</Label>
+          <Input
+            id="session-name"
+            value={draft.planName}
+            onChange={(e) => setDraft({ ...draft, planName: e.target.value })}
+            className="mt-1"
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <Label htmlFor="session-started">Started</Label>
+          <Input
+            id="session-started"
+            type="datetime-local"
+            value={format(draft.startedAt, DATE_TIME_FORMAT)}
+            max={format(Date.now(), DATE_TIME_FORMAT)}
+            onChange={(e) => {
+              const startedAt = new Date(e.target.value).getTime();
+              if (!Number.isNaN(startedAt)) setDraft(retimeSession(draft, startedAt, minutes));
+            }}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="session-duration">Duration (min)</Label>
+          <Input
+            id="session-duration"
+            type="number"
+            min="0"
+            value={minutes}
+            onChange={(e) => setDraft(retimeSession(draft, draft.startedAt, parseInt(e.target.value) || 0))}
+            className="mt-1"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <Label>Exercises</Label>
+          <Button
+            onClick={() => setDraft({ ...draft, exercises: [...draft.exercises, sessionExercise(offeredExercises(library)[0].id, [], library)] })}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+          >
+            <Plus size={16} weight="bold" />
+            Add Exercise
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {draft.exercises.map((exercise, exerciseIndex) => {
+            const mode = trackingModeFor(exercise.exerciseId, library);
+            return (
+              <Card key={exerciseIndex} className="p-4 space-y-3">
+                <div className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <Label htmlFor={`session-exercise-${exerciseIndex}`}>Exercise</Label>
+                    <Select
+                      value={exercise.exerciseId}
+                      onValueChange={(value) =>
+                        setDraft({
+                          ...draft,
+                          exercises: draft.exercises.map((ex, i) =>
+                            i === exerciseIndex ? { ...ex, ...sessionExercise(value, ex.completedSets, library) } : ex
+                          ),
+                        })
+                      }
+                    >
+                      <SelectTrigger id={`session-exercise-${exerciseIndex}`} className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {offeredExercises(library, exercise.exerciseId).map((ex) => (
+                          <SelectItem key={ex.id} value={ex.id}>
+                            {ex.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    onClick={() => setDraft({ ...draft, exercises: draft.exercises.filter((_, i) => i !== exerciseIndex) })}
+                    variant="outline"
+                    size="icon"
+                    aria-label={`Remove ${exercise.exerciseName}`}
+                  >
+                    <Trash size={18} aria-hidden="true" />
+                  </Button>
+                </div>
+
+                {exercise.completedSets.map((set, setIndex) => {
+                  const label = `${exercise.exerciseName} set ${set.setNumber}`;
+                  return (
+                    <div key={setIndex} className="flex items-end gap-3">
+                      <div className="w-20 pb-2 text-sm text-muted-foreground">
+                        Set {set.setNumber}
+                        {set.type && set.type !== 'working' && (
+                          <Badge variant="outline" className="text-xs block w-fit mt-1">
+                            {SET_TYPES[set.type]}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex-1 grid grid-cols-2 gap-3">
+                        {setFields(set, mode).map((field) => (
+                          <div key={field.key}>
+                            <Label
+                              htmlFor={`session-${exerciseIndex}-${setIndex}-${field.key}`}
+                              className="text-xs text-muted-foreground"
+                            >
+                              {field.label}
+                            </Label>
+                            <Input
+                              id={`session-${exerciseIndex}-${setIndex}-${field.key}`}
+                              type="number"
+                              min={field.signed ? undefined : '0'}
+                              step={field.step}
+                              value={field.value}
+                              onChange={(e) => updateSet(exerciseIndex, setIndex, field.apply(parseFloat(e.target.value) || 0))}
+                              aria-label={`${label} ${field.label.toLowerCase()}`}
+                              className="mt-1"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <Button
+                        onClick={() =>
+                          setDraft(updateSessionSets(draft, exerciseIndex, (sets) => sets.filter((_, i) => i !== setIndex)))
+                        }
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Remove ${label}`}
+                      >
+                        <Trash size={16} aria-hidden="true" />
+                      </Button>
+                    </div>
+                  );
+                })}
+
+                <Button onClick={() => setDraft(appendSet(draft, exerciseIndex))} variant="ghost" size="sm" className="gap-2">
+                  <Plus size={16} />
+                  Add set
+                </Button>
+              </Card>
+            );
+          })}
+        </div>
+
+        {draft.exercises.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            No exercises yet. Click "Add Exercise" to log what you did.
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-3 pt-4">
+        <Button
+          onClick={() => onSave({ ...draft, planName: draft.planName.trim() || session.planName })}
+          disabled={draft.exercises.length === 0}
+          className="flex-1"
+        >
+          Save Workout
+        </Button>
+        <Button onClick={onCancel} variant="outline">
+          Cancel
+        </Button>
+        {onDelete && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" className="gap-2 text-destructive">
+                <Trash size={16} aria-hidden="true" />
+                Delete
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this workout?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Its sets are removed from your history, and personal records and statistics are worked out again
+                  without them.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep workout</AlertDialogCancel>
+                <AlertDialogAction onClick={onDelete}>Delete workout</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useAnnouncer } from '@/hooks/use-announcer';
+import { describeRestTime, formatRestTime, playRestCue } from '@/lib/rest-timer';
+import { Play, Stop, Timer } from '@phosphor-icons/react';
+
+const TICK_MS = 250;
+
+/**
+ * SetTimer Component
+ * Times a set: counts down from `targetSeconds` when given, finishing with
+ * the rest cue, and otherwise runs as a stopwatch until stopped.
+ * `onStop` receives the seconds worked.
+ */
+export function SetTimer({ targetSeconds, onStop }: { targetSeconds?: number; onStop: (seconds: number) => void }) {
+  const { announce } = useAnnouncer();
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const elapsed = startedAt === null ? 0 : Math.floor((now - startedAt) / 1000);
+  const isCountdown = !!targetSeconds;
+  const shown = isCountdown ? Math.max(0, targetSeconds - elapsed) : elapsed;
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  useEffect(() => {
+    if (startedAt !== null && targetSeconds && elapsed >= targetSeconds) {
+      setStartedAt(null);
+      playRestCue();
+      announce('Time, set done', true);
+      onStop(targetSeconds);
+    }
+  }, [startedAt, targetSeconds, elapsed, announce, onStop]);
+
+  const start = () => {
+    setStartedAt(Date.now());
+    setNow(Date.now());
+    announce(isCountdown ? `Timer started, ${describeRestTime(targetSeconds)}` : 'Stopwatch started');
+  };
+
+  const stop = () => {
+    setStartedAt(null);
+    announce(`Stopped at ${describeRestTime(elapsed)}`);
+    onStop(elapsed);
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 rounded-md bg-muted p-3">
+      <div className="flex items-center gap-3">
+        <Timer size={24} weight="duotone" className="text-primary" aria-hidden="true" />
+        <div>
+          <p className="text-sm text-muted-foreground">{isCountdown ? 'Countdown' : 'Stopwatch'}</p>
+          <p
+            className="text-2xl font-bold tabular-nums"
+            aria-label={`${describeRestTime(shown)} ${isCountdown ? 'remaining' : 'elapsed'}`}
+          >
+            {formatRestTime(shown)}
+          </p>
+        </div>
+      </div>
+      {startedAt === null ? (
+        <Button variant="outline" size="sm" onClick={start} className="gap-1">
+          <Play size={16} aria-hidden="true" />
+          Start timer
+        </Button>
+      ) : (
+        <Button variant="secondary" size="sm" onClick={stop} className="gap-1">
+          <Stop size={16} aria-hidden="true" />
+          Stop timer
+        </Button>
+      )}
+    </div>
+  );
+}
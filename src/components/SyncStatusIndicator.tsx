@@ -0,0 +1,35 @@
+import { ArrowsClockwise, CloudCheck, CloudSlash, CloudWarning } from '@phosphor-icons/react';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { SyncState } from '@/lib/sync-queue';
+
+const LABELS: Record<SyncState, string> = {
+  synced: 'All changes saved',
+  syncing: 'Syncing',
+  offline: 'Offline',
+  error: 'Sync paused, retrying',
+};
+
+/**
+ * SyncStatusIndicator Component
+ * Shows whether local changes have reached the server, and how many are
+ * still waiting while offline
+ */
+export function SyncStatusIndicator() {
+  const { state, pending } = useSyncStatus();
+  const Icon = { synced: CloudCheck, syncing: ArrowsClockwise, offline: CloudSlash, error: CloudWarning }[state];
+  const label = pending > 0 && state !== 'synced' ? `${LABELS[state]} (${pending} pending)` : LABELS[state];
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      title={label}
+      className={`flex items-center gap-1.5 text-sm ${
+        state === 'synced' ? 'text-muted-foreground' : state === 'syncing' ? 'text-primary' : 'text-destructive'
+      }`}
+    >
+      <Icon size={18} aria-hidden="true" className={state === 'syncing' ? 'animate-spin' : undefined} />
+      <span className="sr-only md:not-sr-only">{label}</span>
+    </div>
+  );
+}
@@ -47,7 +47,9 @@ export function TemplateLibrary({ onImport }: TemplateLibraryProps) {
       <div className="grid gap-6 md:grid-cols-2">
         {WORKOUT_TEMPLATES.map((template, index) => {
           const ProgramIcon = PROGRAM_TYPE_ICONS[template.programType];
-          const totalSets = template.exercises.reduce((acc, ex) => acc + ex.sets, 0);
+          const exercises = template.days.flatMap((day) => day.exercises);
+          const totalSets = exercises.reduce((acc, ex) => acc + ex.sets, 0);
+          const isProgram = template.days.length > 1;
           
           return (
             <motion.div
@@ -78,14 +80,29 @@ export function TemplateLibrary({ onImport }: TemplateLibraryProps) {
                   <Badge variant="secondary">
                     {PROGRAM_TYPE_LABELS[template.programType]}
                   </Badge>
+                  {isProgram ? (
+                    <Badge variant="secondary">
+                      {template.days.length}-day program
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">
+                      {exercises.length} exercises
+                    </Badge>
+                  )}
                   <Badge variant="secondary">
-                    {template.exercises.length} exercises
-                  </Badge>
-                  <Badge variant="secondary">
-                    {totalSets} sets
+                    {totalSets} sets{isProgram ? ' per rotation' : ''}
                   </Badge>
                 </div>
 
+                {isProgram && (
+                  <p className="text-sm mb-4">
+                    <span className="font-medium">Days: </span>
+                    <span className="text-muted-foreground">
+                      {template.days.map((day) => `${day.name} (${day.exercises.length})`).join(' · ')}
+                    </span>
+                  </p>
+                )}
+
                 <div className="bg-muted/50 rounded-md p-3 mb-4 flex-1">
                   <p className="text-sm font-medium mb-1">Program Goals:</p>
                   <p className="text-sm text-muted-foreground">{template.goals}</p>
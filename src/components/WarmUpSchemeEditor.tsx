@@ -0,0 +1,74 @@
+import { WarmUpStep } from '@/lib/types';
+import { DEFAULT_WARM_UP_SCHEME, describeWarmUpStep } from '@/lib/warm-up';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash } from '@phosphor-icons/react';
+
+interface WarmUpSchemeEditorProps {
+  scheme: WarmUpStep[];
+  onChange: (scheme: WarmUpStep[]) => void;
+}
+
+/**
+ * WarmUpSchemeEditor Component
+ * Edits the warm-up ramp as steps of reps at a percentage of the working
+ * weight; a step without a percentage uses the empty bar
+ */
+export function WarmUpSchemeEditor({ scheme, onChange }: WarmUpSchemeEditorProps) {
+  const handleUpdateStep = (index: number, updates: Partial<WarmUpStep>) => {
+    onChange(scheme.map((step, i) => (i === index ? { ...step, ...updates } : step)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-2">
+        {scheme.map((step, index) => (
+          <li key={index} className="flex items-center gap-2">
+            <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+            <Input
+              type="number"
+              min="1"
+              max="100"
+              placeholder="Bar"
+              value={step.percent ?? ''}
+              onChange={(e) => handleUpdateStep(index, { percent: parseFloat(e.target.value) || undefined })}
+              aria-label={`Warm-up ${index + 1} percent of working weight (empty for the bar)`}
+              className="w-24"
+            />
+            <span className="text-sm text-muted-foreground">% ×</span>
+            <Input
+              type="number"
+              min="1"
+              value={step.reps}
+              onChange={(e) => handleUpdateStep(index, { reps: parseInt(e.target.value) || 1 })}
+              aria-label={`Warm-up ${index + 1} reps`}
+              className="w-20"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(scheme.filter((_, i) => i !== index))}
+              aria-label={`Remove warm-up ${index + 1} (${describeWarmUpStep(step)})`}
+            >
+              <Trash size={18} aria-hidden="true" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...scheme, { percent: 90, reps: 1 }])}
+          className="gap-1"
+        >
+          <Plus size={16} aria-hidden="true" />
+          Add step
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_WARM_UP_SCHEME)}>
+          Reset to default
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,93 +1,236 @@
-import { useState } from 'react';
-import { usePersistentState } from '@/hooks/use-persistent-state';
-import { WorkoutPlan, WorkoutSession, CompletedSet } from '@/lib/types';
-import { EXERCISE_LIBRARY } from '@/lib/exercises';
+import { useEffect, useRef, useState } from 'react';
+import { usePlans } from '@/hooks/use-plans';
+import { useExercises } from '@/hooks/use-exercises';
+import { usePreferences } from '@/hooks/use-preferences';
+import { usePrograms } from '@/hooks/use-programs';
+import { useSessions } from '@/hooks/use-sessions';
+import {
+  WorkoutPlan,
+  WorkoutSession,
+  WorkoutExercise,
+  CompletedSet,
+  SetType,
+  TrackingMode,
+  UnitSystem,
+  WarmUpStep
+} from '@/lib/types';
+import { findExercise } from '@/lib/exercises';
+import { PERSONAL_RECORD_LABELS, detectPersonalRecords, formatPersonalRecord } from '@/lib/personal-records';
+import { suggestProgression } from '@/lib/progression';
+import { autoregulatedWeight } from '@/lib/one-rep-max';
+import { EFFORT_SCALES, EffortScale, formatEffort } from '@/lib/rpe';
+import {
+  SetValues,
+  formatSetValues,
+  fromSignedLoad,
+  setDuration,
+  signedLoad,
+  trackingModeFor
+} from '@/lib/tracking';
+import { SET_TYPES, dropSetWeight, isWarmUp, plannedSetTypes, withoutWarmUps } from '@/lib/set-types';
+import { EXERCISE_GROUP_TYPES, findGroup, nextInGroup, planBlocks } from '@/lib/exercise-groups';
+import { describeMesocycleWeek, mesocycleTargets, mesocyclePosition } from '@/lib/mesocycle';
+import { programPlanIds, todaysWorkout } from '@/lib/programs';
+import { warmUpSets } from '@/lib/warm-up';
+import { substituteExercise } from '@/lib/substitutions';
+import { planForSession } from '@/lib/session-history';
+import { LoadRounding, loadRoundingFor } from '@/lib/equipment';
+import { UNIT_SYSTEMS, displayDistance, displayWeight, formatWeight, fromDistanceUnit, fromWeightUnit } from '@/lib/units';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, Lightning, Timer, Trophy } from '@phosphor-icons/react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ExerciseAlternatives } from '@/components/ExerciseAlternatives';
+import { RestTimer } from '@/components/RestTimer';
+import { SetTimer } from '@/components/SetTimer';
+import { ArrowsLeftRight, CheckCircle, Lightning, Timer, Trophy } from '@phosphor-icons/react';
 import { toast } from 'sonner';
 import { motion, AnimatePresence } from 'framer-motion';
 
-export function WorkoutView() {
-  const [plans] = usePersistentState<WorkoutPlan[]>('workout-plans', []);
-  const [, setSessions] = usePersistentState<WorkoutSession[]>('workout-sessions', []);
-  const [activeSession, setActiveSession] = usePersistentState<WorkoutSession | null>('active-session', null);
+interface WorkoutViewProps {
+  /** Plan to start as soon as plans and sessions have loaded, e.g. one picked in the command palette */
+  startPlanId?: string | null;
+  /** Called once `startPlanId` has been started or turned down */
+  onStartPlanHandled?: () => void;
+}
+
+export function WorkoutView({ startPlanId = null, onStartPlanHandled }: WorkoutViewProps = {}) {
+  const { plans, savePlan, isLoading: isLoadingPlans } = usePlans();
+  const {
+    sessions: inProgressSessions,
+    isLoading: isLoadingSessions,
+    createSession,
+    addSet,
+    updateSession
+  } = useSessions({ status: 'in-progress' });
+  const { sessions: completedSessions } = useSessions({ status: 'completed' });
+  const { preferences } = usePreferences();
+  const { exercises: library } = useExercises();
+  const { programs, recordCompletedWorkout } = usePrograms();
+  const activeSession = inProgressSessions[0] ?? null;
   const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0);
   const [showFeedbackDialog, setShowFeedbackDialog] = useState(false);
   const [feedbackQuestion, setFeedbackQuestion] = useState('');
   const [feedbackResponse, setFeedbackResponse] = useState('');
   const [isLoadingFeedback, setIsLoadingFeedback] = useState(false);
+  const [isSwapOpen, setIsSwapOpen] = useState(false);
 
   const startWorkout = (plan: WorkoutPlan) => {
+    const planHistory = completedSessions.filter((session) => session.planId === plan.id);
+    // A running mesocycle sets this week's targets; otherwise follow any progression rule
+    const trainingWeek = mesocyclePosition(plan.mesocycle);
     const newSession: WorkoutSession = {
       id: `session-${Date.now()}`,
       planId: plan.id,
       planName: plan.name,
       startedAt: Date.now(),
       exercises: plan.exercises.map((ex) => {
-        const exerciseData = EXERCISE_LIBRARY.find((e) => e.id === ex.exerciseId);
+        const exerciseData = findExercise(ex.exerciseId, library);
+        const rounding = loadRoundingFor(ex, preferences.equipment, library);
+        const suggestion = trainingWeek ? null : suggestProgression(ex, planHistory);
+        const targets = trainingWeek
+          ? mesocycleTargets(ex, trainingWeek.week, rounding.increment)
+          : { sets: ex.sets, reps: suggestion?.reps ?? ex.reps, weight: suggestion?.weight ?? ex.weight };
         return {
           exerciseId: ex.exerciseId,
           exerciseName: exerciseData?.name || 'Unknown Exercise',
+          targetSets: targets.sets,
+          targetReps: targets.reps,
+          // Suggested weights snap to loads the equipment can make
+          targetWeight: targets.weight && targets.weight !== ex.weight ? rounding.round(targets.weight) : targets.weight,
           completedSets: []
         };
       }),
       status: 'in-progress'
     };
-    setActiveSession(newSession);
+    createSession(newSession);
     setCurrentExerciseIndex(0);
     toast.success('Workout started!');
   };
 
-  const completeSet = (exerciseIndex: number, reps: number, weight?: number) => {
-    if (!activeSession) return;
+  // The effect below starts requested plans with the latest session history
+  const startWorkoutRef = useRef(startWorkout);
+  useEffect(() => {
+    startWorkoutRef.current = startWorkout;
+  });
+
+  useEffect(() => {
+    if (!startPlanId || isLoadingPlans || isLoadingSessions) return;
+    const plan = plans.find((p) => p.id === startPlanId);
+    if (activeSession) {
+      toast.error('Finish the current workout before starting another');
+    } else if (plan) {
+      startWorkoutRef.current(plan);
+    }
+    onStartPlanHandled?.();
+  }, [startPlanId, isLoadingPlans, isLoadingSessions, plans, activeSession, onStartPlanHandled]);
 
-    setActiveSession((current) => {
-      if (!current) return null;
-      
-      const updated = { ...current };
-      const setNumber = updated.exercises[exerciseIndex].completedSets.length + 1;
-      
-      updated.exercises[exerciseIndex].completedSets.push({
-        setNumber,
-        reps,
-        weight,
-        completedAt: Date.now()
-      });
+  const completeSet = async (exerciseIndex: number, values: Omit<CompletedSet, 'setNumber' | 'completedAt'>) => {
+    if (!activeSession) return;
 
-      return updated;
-    });
+    const setNumber = activeSession.exercises[exerciseIndex].completedSets.length + 1;
+    const set: CompletedSet = { setNumber, ...values, completedAt: Date.now() };
+    const records = detectPersonalRecords(
+      completedSessions,
+      activeSession,
+      exerciseIndex,
+      set,
+      preferences.oneRepMaxFormula
+    );
 
     toast.success('Set completed!', {
       icon: <CheckCircle size={20} weight="fill" className="text-accent" />
     });
+    records.forEach((record) => {
+      toast.success(`New PR: ${PERSONAL_RECORD_LABELS[record.type]}`, {
+        description: `${activeSession.exercises[exerciseIndex].exerciseName} · ${formatPersonalRecord(record, UNIT_SYSTEMS[preferences.unitSystem].weight)}`,
+        icon: <Trophy size={20} weight="fill" className="text-accent" />
+      });
+    });
+    await addSet(activeSession.id, exerciseIndex, set);
+    if (isWarmUp(set)) return;
+
+    const plan = planForSession(activeSession, plans.find((p) => p.id === activeSession.planId));
+    const planExercises = plan.exercises;
+    const setsDone = activeSession.exercises.map(
+      (ex, i) => withoutWarmUps(ex.completedSets).length + (i === exerciseIndex ? 1 : 0)
+    );
+    const targetSets = activeSession.exercises.map((ex, i) => plannedSetsFor(planExercises[i], ex).length);
+    // Drop sets follow straight on from the set before
+    const nextPlanned = plannedSetsFor(planExercises[exerciseIndex], activeSession.exercises[exerciseIndex])[
+      setsDone[exerciseIndex]
+    ];
+    let restSeconds = nextPlanned === 'drop' ? 0 : planExercises[exerciseIndex]?.restSeconds ?? 0;
+
+    // Grouped exercises alternate set by set, resting only after each round
+    const group = findGroup(plan.groups, planExercises[exerciseIndex]);
+    if (group) {
+      const members = planBlocks(planExercises).find((block) => block.includes(exerciseIndex)) ?? [exerciseIndex];
+      const { nextIndex, roundComplete } = nextInGroup(members, setsDone, targetSets, exerciseIndex);
+      restSeconds = roundComplete ? group.restSeconds : 0;
+      if (nextIndex !== null) {
+        setCurrentExerciseIndex(nextIndex);
+      }
+    }
+
+    // Rest before the next set, unless that was the last set of the workout
+    const isLastSet = setsDone.every((done, i) => done >= targetSets[i]);
+    if (restSeconds > 0 && !isLastSet) {
+      updateSession(activeSession.id, { restEndsAt: Date.now() + restSeconds * 1000 });
+    }
   };
 
-  const finishWorkout = () => {
+  /** Planned set types after warm-ups, for this session's number of working sets */
+  const plannedSetsFor = (planExercise: WorkoutExercise | undefined, sessionExercise: WorkoutSession['exercises'][number]) =>
+    planExercise ? plannedSetTypes(planExercise, sessionExercise.targetSets ?? planExercise.sets) : [];
+
+  const adjustRest = (deltaSeconds: number) => {
+    if (!activeSession?.restEndsAt) return;
+
+    const restEndsAt = activeSession.restEndsAt + deltaSeconds * 1000;
+    updateSession(activeSession.id, { restEndsAt: restEndsAt > Date.now() ? restEndsAt : null });
+  };
+
+  const endRest = () => {
+    if (!activeSession?.restEndsAt) return;
+
+    updateSession(activeSession.id, { restEndsAt: null });
+  };
+
+  /** Do another exercise in place of one, e.g. when its equipment is taken; the plan stays as it is */
+  const swapExercise = (exerciseIndex: number, substituteId: string) => {
     if (!activeSession) return;
+    const swapped = substituteExercise(activeSession, exerciseIndex, substituteId, library, completedSessions);
+    updateSession(activeSession.id, { exercises: swapped.exercises });
+    setIsSwapOpen(false);
+    toast.success(`Swapped to ${swapped.exercises[exerciseIndex].exerciseName}`);
+  };
 
-    setActiveSession((current) => {
-      if (!current) return null;
-      return {
-        ...current,
-        completedAt: Date.now(),
-        status: 'completed' as const
-      };
+  /** Write this session's targets for an exercise back into its plan */
+  const saveTargetsToPlan = (plan: WorkoutPlan, exerciseIndex: number, reps: number, weight?: number) => {
+    savePlan({
+      ...plan,
+      exercises: plan.exercises.map((ex, i) => (i === exerciseIndex ? { ...ex, reps, weight } : ex))
     });
+    toast.success('Plan updated with the new targets');
+  };
+
+  const finishWorkout = () => {
+    if (!activeSession) return;
 
-    setSessions((currentSessions) => [...(currentSessions || []), { ...activeSession, completedAt: Date.now(), status: 'completed' as const }]);
-    setActiveSession(null);
+    updateSession(activeSession.id, { completedAt: Date.now(), status: 'completed', restEndsAt: null });
+    recordCompletedWorkout(activeSession.planId);
     toast.success('Workout completed! Great job!', {
       icon: <Trophy size={20} weight="fill" className="text-accent" />
     });
   };
 
   const getFeedback = async (exerciseId: string) => {
-    const exercise = EXERCISE_LIBRARY.find((e) => e.id === exerciseId);
+    const exercise = findExercise(exerciseId, library);
     if (!exercise || !feedbackQuestion.trim()) return;
 
     setIsLoadingFeedback(true);
@@ -112,6 +255,9 @@ Provide specific, actionable feedback to help them improve their form. Keep your
   };
 
   if (!activeSession) {
+    const dayPlanIds = programPlanIds(programs);
+    const standalonePlans = plans.filter((plan) => !dayPlanIds.has(plan.id));
+
     return (
       <div className="max-w-4xl mx-auto">
         <div className="mb-8">
@@ -119,7 +265,7 @@ Provide specific, actionable feedback to help them improve their form. Keep your
           <p className="text-muted-foreground mt-1">Choose a plan to begin your training session</p>
         </div>
 
-        {(plans || []).length === 0 ? (
+        {plans.length === 0 ? (
           <Card className="p-12 text-center">
             <Timer size={64} weight="thin" className="mx-auto text-muted-foreground mb-4" aria-hidden="true" />
             <h2 className="text-xl font-semibold mb-2">No workout plans available</h2>
@@ -128,67 +274,231 @@ Provide specific, actionable feedback to help them improve their form. Keep your
             </p>
           </Card>
         ) : (
-          <div className="grid gap-4 md:grid-cols-2">
-            {(plans || []).map((plan) => (
-              <Card key={plan.id} className="p-6">
-                <h2 className="text-xl font-semibold mb-2">{plan.name}</h2>
-                <p className="text-sm text-muted-foreground mb-4">{plan.description}</p>
-                <div className="flex items-center gap-3 text-sm text-muted-foreground mb-4">
-                  <span>{plan.exercises.length} exercises</span>
-                  <span>•</span>
-                  <span>{plan.exercises.reduce((acc, ex) => acc + ex.sets, 0)} sets</span>
-                </div>
-                <Button onClick={() => startWorkout(plan)} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground">
-                  Start Workout
-                </Button>
-              </Card>
-            ))}
-          </div>
+          <>
+            {programs.length > 0 && (
+              <div className="grid gap-4 md:grid-cols-2 mb-4">
+                {programs.map((program) => {
+                  const scheduled = todaysWorkout(program);
+                  const dayPlan = scheduled && plans.find((p) => p.id === scheduled.day.planId);
+                  if (!scheduled || !dayPlan) return null;
+                  return (
+                    <Card
+                      key={program.id}
+                      className={`p-6 ${scheduled.isTrainingDay ? 'border-accent ring-1 ring-accent' : ''}`}
+                    >
+                      <div className="flex items-start justify-between gap-2 mb-2">
+                        <h2 className="text-xl font-semibold">{program.name}</h2>
+                        <Badge variant={scheduled.isTrainingDay ? 'default' : 'secondary'}>
+                          {scheduled.isTrainingDay ? "Today's workout" : 'Rest day'}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground mb-4">
+                        {scheduled.isTrainingDay ? 'Today' : 'Next up'}: Day {scheduled.dayIndex + 1} of{' '}
+                        {program.days.length}, {scheduled.day.name} ({dayPlan.exercises.length} exercises)
+                      </p>
+                      <Button
+                        onClick={() => startWorkout(dayPlan)}
+                        variant={scheduled.isTrainingDay ? 'default' : 'outline'}
+                        className={`w-full ${scheduled.isTrainingDay ? 'bg-accent hover:bg-accent/90 text-accent-foreground' : ''}`}
+                      >
+                        Start {scheduled.day.name}
+                      </Button>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+            <div className="grid gap-4 md:grid-cols-2">
+              {standalonePlans.map((plan) => (
+                <Card key={plan.id} className="p-6">
+                  <h2 className="text-xl font-semibold mb-2">{plan.name}</h2>
+                  <p className="text-sm text-muted-foreground mb-4">{plan.description}</p>
+                  <div className="flex items-center gap-3 text-sm text-muted-foreground mb-4">
+                    <span>{plan.exercises.length} exercises</span>
+                    <span>•</span>
+                    <span>{plan.exercises.reduce((acc, ex) => acc + ex.sets, 0)} sets</span>
+                  </div>
+                  <Button onClick={() => startWorkout(plan)} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground">
+                    Start Workout
+                  </Button>
+                </Card>
+              ))}
+            </div>
+          </>
         )}
       </div>
     );
   }
 
-  const plan = (plans || []).find((p) => p.id === activeSession.planId);
-  if (!plan) return null;
+  const savedPlan = plans.find((p) => p.id === activeSession.planId);
+  if (!savedPlan && isLoadingPlans) return null;
+  // A workout whose plan was deleted or lost exercises carries on from its own exercises and targets
+  const plan = planForSession(activeSession, savedPlan);
 
   const currentPlanExercise = plan.exercises[currentExerciseIndex];
   const currentSessionExercise = activeSession.exercises[currentExerciseIndex];
-  const exerciseData = EXERCISE_LIBRARY.find((e) => e.id === currentPlanExercise.exerciseId);
+  // A substitute is done in place of the plan's exercise, with its own weight and equipment
+  const substitutedFor = currentSessionExercise.substitutedFor;
+  const exerciseData = findExercise(currentSessionExercise.exerciseId, library);
 
   if (!exerciseData) return null;
 
-  const completedSetsCount = currentSessionExercise.completedSets.length;
-  const totalSets = currentPlanExercise.sets;
-  const progressPercent = (currentExerciseIndex / plan.exercises.length) * 100;
+  const workingSets = currentSessionExercise.targetSets ?? currentPlanExercise.sets;
+  const plannedTypes = plannedSetsFor(currentPlanExercise, currentSessionExercise);
+  const targetReps = currentSessionExercise.targetReps ?? currentPlanExercise.reps;
+  const targetWeight = substitutedFor
+    ? currentSessionExercise.targetWeight
+    : currentSessionExercise.targetWeight ?? currentPlanExercise.weight;
+  const trackingMode = trackingModeFor(exerciseData.id, library);
+  const rounding = loadRoundingFor(
+    { exerciseId: exerciseData.id, barWeight: substitutedFor ? undefined : currentPlanExercise.barWeight },
+    preferences.equipment,
+    library
+  );
+  const target: SetValues = {
+    reps: targetReps,
+    weight: targetWeight,
+    assistance: currentPlanExercise.assistance,
+    durationSeconds: currentPlanExercise.durationSeconds,
+    distance: currentPlanExercise.distance
+  };
+  const trainingWeek = mesocyclePosition(plan.mesocycle, activeSession.startedAt);
+  const suggestion = trainingWeek || substitutedFor
+    ? null
+    : suggestProgression(
+        currentPlanExercise,
+        completedSessions.filter((session) => session.planId === plan.id)
+      );
+  const targetsDifferFromPlan = targetReps !== currentPlanExercise.reps || (targetWeight ?? 0) !== (currentPlanExercise.weight ?? 0);
+  const blocks = planBlocks(plan.exercises);
+  const blockIndex = blocks.findIndex((block) => block.includes(currentExerciseIndex));
+  const currentBlock = blocks[blockIndex] ?? [currentExerciseIndex];
+  const isLastBlock = blockIndex === blocks.length - 1;
+  const blockComplete = currentBlock.every(
+    (index) =>
+      withoutWarmUps(activeSession.exercises[index].completedSets).length >=
+      plannedSetsFor(plan.exercises[index], activeSession.exercises[index]).length
+  );
+  const group = findGroup(plan.groups, currentPlanExercise);
+  const round = Math.min(
+    group?.rounds ?? 0,
+    Math.min(...currentBlock.map((index) => withoutWarmUps(activeSession.exercises[index].completedSets).length)) + 1
+  );
+  const progressPercent = (blockIndex / blocks.length) * 100;
 
   return (
     <div className="max-w-3xl mx-auto">
       <div className="mb-6">
         <div className="flex items-center justify-between mb-2">
           <h1 className="text-2xl font-bold">{activeSession.planName}</h1>
-          <Badge variant="secondary" aria-label={`Exercise ${currentExerciseIndex + 1} of ${plan.exercises.length}`}>{currentExerciseIndex + 1} / {plan.exercises.length}</Badge>
+          <div className="flex items-center gap-2">
+            {trainingWeek && plan.mesocycle && (
+              <Badge variant={trainingWeek.week.deload ? 'outline' : 'default'}>
+                Week {trainingWeek.weekIndex + 1} of {plan.mesocycle.weeks.length}
+                {trainingWeek.week.deload ? ' · Deload' : ''}
+              </Badge>
+            )}
+            <Badge variant="secondary" aria-label={`Exercise ${currentExerciseIndex + 1} of ${plan.exercises.length}`}>{currentExerciseIndex + 1} / {plan.exercises.length}</Badge>
+          </div>
         </div>
+        {!savedPlan && (
+          <p className="text-sm text-muted-foreground mb-2">This workout's plan was deleted</p>
+        )}
         <Progress value={progressPercent} className="h-2" aria-label={`${Math.round(progressPercent)}% complete`} />
       </div>
 
       <Card className="p-8 mb-6">
+        {group && (
+          <div className="mb-4">
+            <p className="text-sm font-semibold mb-2">
+              {EXERCISE_GROUP_TYPES[group.type]} · Round {round} of {group.rounds}
+            </p>
+            <ol className="flex flex-wrap gap-2" aria-label={`${EXERCISE_GROUP_TYPES[group.type]} exercises`}>
+              {currentBlock.map((index, position) => (
+                <li key={index}>
+                  <Button
+                    variant={index === currentExerciseIndex ? 'default' : 'outline'}
+                    size="sm"
+                    aria-current={index === currentExerciseIndex ? 'step' : undefined}
+                    onClick={() => setCurrentExerciseIndex(index)}
+                  >
+                    {position + 1}. {activeSession.exercises[index].exerciseName}
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
         <div className="mb-6">
           <h2 className="text-3xl font-bold mb-2">{exerciseData.name}</h2>
           <div className="flex flex-wrap gap-2">
             <Badge className="capitalize">{exerciseData.muscleGroup}</Badge>
             <Badge variant="outline" className="capitalize">{exerciseData.difficulty}</Badge>
           </div>
+          {substitutedFor && (
+            <p className="text-sm text-muted-foreground mt-2">In place of {substitutedFor.exerciseName}</p>
+          )}
+          {currentSessionExercise.completedSets.length === 0 && (
+            <Dialog open={isSwapOpen} onOpenChange={setIsSwapOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2 mt-3">
+                  <ArrowsLeftRight size={16} aria-hidden="true" />
+                  Swap exercise
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Swap {exerciseData.name}</DialogTitle>
+                  <DialogDescription>
+                    Exercises with the same movement and muscles, using your equipment. Your plan stays as it is.
+                  </DialogDescription>
+                </DialogHeader>
+                <ExerciseAlternatives
+                  exerciseId={exerciseData.id}
+                  available={preferences.equipment.available}
+                  onPick={(exerciseId) => swapExercise(currentExerciseIndex, exerciseId)}
+                />
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
 
         <div className="mb-6">
           <h3 className="font-semibold mb-2">Target</h3>
           <div className="flex gap-6 text-lg">
-            <span>{currentPlanExercise.sets} sets</span>
+            <span>{workingSets} sets</span>
             <span>×</span>
-            <span>{currentPlanExercise.reps} reps</span>
-            {currentPlanExercise.weight ? <span>@ {currentPlanExercise.weight} lbs</span> : null}
+            <span>{formatSetValues(target, trackingMode, preferences.unitSystem)}</span>
           </div>
+          {(currentPlanExercise.lastSetType || !!currentPlanExercise.dropSets || !!currentPlanExercise.targetRpe) && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {currentPlanExercise.targetRpe ? <Badge variant="outline">@ RPE {currentPlanExercise.targetRpe}</Badge> : null}
+              {currentPlanExercise.lastSetType && (
+                <Badge variant="outline">Last set {SET_TYPES[currentPlanExercise.lastSetType]}</Badge>
+              )}
+              {currentPlanExercise.dropSets ? (
+                <Badge variant="outline">
+                  + {currentPlanExercise.dropSets} {currentPlanExercise.dropSets === 1 ? 'drop set' : 'drop sets'}
+                </Badge>
+              ) : null}
+            </div>
+          )}
+          {trainingWeek && <p className="text-sm text-muted-foreground mt-2">{describeMesocycleWeek(trainingWeek.week)}</p>}
+          {suggestion && suggestion.outcome !== 'start' && (
+            <div className="flex flex-wrap items-center gap-3 mt-2">
+              <p className="text-sm text-muted-foreground">{suggestion.reason}</p>
+              {savedPlan && targetsDifferFromPlan && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => saveTargetsToPlan(savedPlan, currentExerciseIndex, targetReps, targetWeight)}
+                >
+                  Save to plan
+                </Button>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="mb-6">
@@ -244,113 +554,340 @@ Provide specific, actionable feedback to help them improve their form. Keep your
           )}
         </AnimatePresence>
 
+        {activeSession.restEndsAt ? (
+          <RestTimer
+            key={activeSession.restEndsAt}
+            endsAt={activeSession.restEndsAt}
+            onAdjust={adjustRest}
+            onSkip={endRest}
+            onFinish={endRest}
+          />
+        ) : null}
+
         <SetTracker
-          sets={totalSets}
+          key={`${currentExerciseIndex}-${exerciseData.id}`}
+          mode={trackingMode}
+          plannedTypes={plannedTypes}
+          dropPercent={currentPlanExercise.dropPercent}
+          targetRpe={currentPlanExercise.targetRpe}
+          warmUpScheme={currentPlanExercise.warmUp ? preferences.warmUpScheme : undefined}
+          rounding={rounding}
+          unitSystem={preferences.unitSystem}
           completedSets={currentSessionExercise.completedSets}
-          targetReps={currentPlanExercise.reps}
-          targetWeight={currentPlanExercise.weight}
-          onCompleteSet={(reps, weight) => completeSet(currentExerciseIndex, reps, weight)}
+          target={target}
+          onCompleteSet={(values) => completeSet(currentExerciseIndex, values)}
         />
       </Card>
 
       <div className="flex gap-3">
         <Button
-          onClick={() => setCurrentExerciseIndex(Math.max(0, currentExerciseIndex - 1))}
-          disabled={currentExerciseIndex === 0}
+          onClick={() => setCurrentExerciseIndex(blocks[blockIndex - 1][0])}
+          disabled={blockIndex <= 0}
           variant="outline"
         >
           Previous
         </Button>
         <Button
           onClick={() => {
-            if (currentExerciseIndex < plan.exercises.length - 1) {
-              setCurrentExerciseIndex(currentExerciseIndex + 1);
+            if (!isLastBlock) {
+              setCurrentExerciseIndex(blocks[blockIndex + 1][0]);
             } else {
               finishWorkout();
             }
           }}
-          disabled={completedSetsCount < totalSets}
+          disabled={!blockComplete}
           className="flex-1"
         >
-          {currentExerciseIndex < plan.exercises.length - 1 ? 'Next Exercise' : 'Finish Workout'}
+          {!isLastBlock ? 'Next Exercise' : 'Finish Workout'}
         </Button>
       </div>
     </div>
   );
 }
 
+const PLANNED_SET_STYLES: Record<SetType, string> = {
+  'warm-up': 'bg-muted',
+  working: 'bg-muted',
+  amrap: 'bg-primary/30',
+  failure: 'bg-primary/30',
+  drop: 'bg-secondary/40'
+};
+
+const REPS_LABELS: Partial<Record<SetType, string>> = {
+  amrap: 'Reps (as many as possible)',
+  failure: 'Reps (to failure)'
+};
+
 function SetTracker({
-  sets,
+  mode,
+  plannedTypes,
+  dropPercent,
+  targetRpe,
+  warmUpScheme,
+  rounding,
+  unitSystem,
   completedSets,
-  targetReps,
-  targetWeight,
+  target,
   onCompleteSet
 }: {
-  sets: number;
+  mode: TrackingMode;
+  plannedTypes: SetType[];
+  dropPercent?: number;
+  targetRpe?: number;
+  /** Generate warm-ups from the first working set's weight */
+  warmUpScheme?: WarmUpStep[];
+  /** Suggested weights round to loads the exercise's equipment can make */
+  rounding: LoadRounding;
+  /** Weights and distances are entered in these units and stored as lbs and meters */
+  unitSystem: UnitSystem;
   completedSets: CompletedSet[];
-  targetReps: number;
-  targetWeight?: number;
-  onCompleteSet: (reps: number, weight?: number) => void;
+  target: SetValues;
+  onCompleteSet: (values: Omit<CompletedSet, 'setNumber' | 'completedAt'>) => void;
 }) {
-  const [reps, setReps] = useState(targetReps);
-  const [weight, setWeight] = useState(targetWeight || 0);
-  const currentSet = completedSets.length + 1;
-
-  const handleComplete = () => {
-    onCompleteSet(reps, weight > 0 ? weight : undefined);
-    setReps(targetReps);
-    setWeight(targetWeight || 0);
+  const units = UNIT_SYSTEMS[unitSystem];
+  const shown = (lbs: number) => displayWeight(lbs, units.weight);
+  const firstDrop = plannedTypes.indexOf('drop');
+  /** RPE targets follow the e1RM of the sets logged so far this session */
+  const autoregulated = (sets: CompletedSet[]) => {
+    const adjusted =
+      targetRpe && mode === 'weight-reps' ? autoregulatedWeight(sets, target.reps, targetRpe, rounding.increment) : null;
+    return adjusted && { ...adjusted, weight: rounding.round(adjusted.weight) };
+  };
+  /** Target weight for a planned set, lighter for each drop set */
+  const weightFor = (slot: number, sets: CompletedSet[]) => {
+    const working = autoregulated(sets)?.weight ?? target.weight ?? 0;
+    return plannedTypes[slot] === 'drop' && working
+      ? rounding.round(dropSetWeight(working, slot - firstDrop + 1, dropPercent, rounding.increment))
+      : working;
+  };
+
+  const warmUps =
+    warmUpScheme && mode === 'weight-reps' ? warmUpSets(weightFor(0, completedSets), warmUpScheme, rounding) : [];
+  const [skipWarmUps, setSkipWarmUps] = useState(false);
+  /** Reps and weight to fill in for the set after `sets`: the next warm-up, then the working targets */
+  const prefill = (sets: CompletedSet[], skip = skipWarmUps) => {
+    const slot = withoutWarmUps(sets).length;
+    const warmUp = slot === 0 && !skip ? warmUps[sets.filter(isWarmUp).length] : undefined;
+    return warmUp ?? { reps: target.reps, weight: weightFor(slot, sets) };
+  };
+
+  const slot = withoutWarmUps(completedSets).length;
+  const setNumber = completedSets.length + 1;
+  const plannedType = plannedTypes[slot] ?? 'working';
+  const warmUpsDone = completedSets.filter(isWarmUp).length;
+  const nextWarmUp = slot === 0 && !skipWarmUps && warmUpsDone < warmUps.length;
+  const adjustment = plannedType === 'drop' || nextWarmUp ? null : autoregulated(completedSets);
+  const countsReps = mode !== 'duration' && mode !== 'distance-duration';
+  const [reps, setReps] = useState(() => prefill(completedSets).reps);
+  const [weight, setWeight] = useState(() => shown(prefill(completedSets).weight));
+  const [load, setLoad] = useState(shown(signedLoad(target)));
+  const [effortScale, setEffortScale] = useState<EffortScale>(
+    completedSets.some((set) => set.rir !== undefined && set.rpe === undefined) ? 'rir' : 'rpe'
+  );
+  const [effort, setEffort] = useState<number | undefined>(undefined);
+  const [seconds, setSeconds] = useState(mode === 'duration' ? setDuration(target) : target.durationSeconds ?? 0);
+  const [distance, setDistance] = useState(target.distance ? displayDistance(target.distance, units.distance) : 0);
+
+  const handleComplete = (warmUp: boolean) => {
+    const values: Record<TrackingMode, SetValues> = {
+      'weight-reps': { reps, weight: weight > 0 ? fromWeightUnit(weight, units.weight) : undefined },
+      reps: { reps },
+      bodyweight: { reps, ...fromSignedLoad(fromWeightUnit(load, units.weight)) },
+      duration: { reps: 0, durationSeconds: seconds },
+      'distance-duration': {
+        reps: 0,
+        distance: distance > 0 ? fromDistanceUnit(distance, units.distance) : undefined,
+        durationSeconds: seconds > 0 ? seconds : undefined
+      }
+    };
+    const type = warmUp ? 'warm-up' : plannedType;
+    const enteredKg = units.weight === 'kg' && (mode === 'weight-reps' ? weight > 0 : mode === 'bodyweight' && load !== 0);
+    const set = {
+      ...values[mode],
+      ...(enteredKg ? { unit: units.weight } : {}),
+      ...(type === 'working' ? {} : { type }),
+      ...(effort === undefined || !countsReps ? {} : { [effortScale]: effort })
+    };
+    onCompleteSet(set);
+    const next = prefill([...completedSets, { ...set, setNumber, completedAt: Date.now() }]);
+    setReps(next.reps);
+    setWeight(shown(next.weight));
+    setLoad(shown(signedLoad(target)));
+    setEffort(undefined);
+  };
+
+  const handleSkipWarmUps = () => {
+    const next = prefill(completedSets, true);
+    setSkipWarmUps(true);
+    setReps(next.reps);
+    setWeight(shown(next.weight));
   };
 
+  const numberInput = (
+    id: string,
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+    props: { signed?: boolean; step?: string; description?: string } = {}
+  ) => (
+    <div>
+      <Label htmlFor={`${id}-input-${setNumber}`} className="text-sm text-muted-foreground mb-1 block">
+        {label}
+      </Label>
+      <Input
+        id={`${id}-input-${setNumber}`}
+        type="number"
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        min={props.signed ? undefined : '0'}
+        step={props.step}
+        aria-describedby={props.description ? `${id}-help-${setNumber}` : undefined}
+      />
+      {props.description && (
+        <p id={`${id}-help-${setNumber}`} className="text-xs text-muted-foreground mt-1">
+          {props.description}
+        </p>
+      )}
+    </div>
+  );
+
   return (
     <div className="space-y-4">
       <div className="flex gap-2">
-        {Array.from({ length: sets }).map((_, i) => {
-          const isCompleted = i < completedSets.length;
-          return (
-            <div
-              key={i}
-              className={`flex-1 h-2 rounded-full transition-colors ${
-                isCompleted ? 'bg-accent' : 'bg-muted'
-              }`}
-            />
-          );
-        })}
+        {plannedTypes.map((type, i) => (
+          <div
+            key={i}
+            className={`flex-1 h-2 rounded-full transition-colors ${i < slot ? 'bg-accent' : PLANNED_SET_STYLES[type]}`}
+          />
+        ))}
       </div>
 
-      {currentSet <= sets && (
+      {slot < plannedTypes.length && (
         <div className="space-y-3">
-          <h4 className="font-semibold">Set {currentSet}</h4>
+          {nextWarmUp ? (
+            <>
+              <h4 className="font-semibold flex items-center gap-2">
+                Warm-up {warmUpsDone + 1} of {warmUps.length}
+                <Badge variant="outline">{SET_TYPES['warm-up']}</Badge>
+              </h4>
+              <p className="text-sm text-muted-foreground">
+                Ramp-up to {formatWeight(weightFor(0, completedSets), units.weight)}:{' '}
+                {warmUps.map((warmUp) => `${shown(warmUp.weight)} × ${warmUp.reps}`).join(', ')}
+              </p>
+            </>
+          ) : (
+            <h4 className="font-semibold flex items-center gap-2">
+              Set {slot + 1}
+              {plannedType !== 'working' && <Badge variant="outline">{SET_TYPES[plannedType]}</Badge>}
+            </h4>
+          )}
+          {adjustment && targetRpe && (
+            <p className="text-sm text-muted-foreground">
+              {formatWeight(adjustment.weight, units.weight)} for {target.reps} reps @ RPE {targetRpe}, from this
+              session's estimated 1RM of {formatWeight(adjustment.oneRepMax, units.weight, 0)}
+            </p>
+          )}
+          {(mode === 'duration' || mode === 'distance-duration') && (
+            <SetTimer
+              targetSeconds={mode === 'duration' ? setDuration(target) : undefined}
+              onStop={setSeconds}
+            />
+          )}
           <div className="grid grid-cols-2 gap-3">
-            <div>
-              <Label htmlFor={`reps-input-${currentSet}`} className="text-sm text-muted-foreground mb-1 block">
-                Reps
-              </Label>
-              <Input
-                id={`reps-input-${currentSet}`}
-                type="number"
-                value={reps}
-                onChange={(e) => setReps(parseInt(e.target.value) || 0)}
-                min="0"
-              />
+            {countsReps &&
+              numberInput('reps', REPS_LABELS[plannedType] ?? 'Reps', reps, (value) => setReps(Math.round(value)))}
+            {mode === 'weight-reps' &&
+              numberInput('weight', `Weight (${units.weight})`, weight, setWeight, {
+                description: rounding.describe && weight > 0 ? rounding.describe(fromWeightUnit(weight, units.weight)) : undefined
+              })}
+            {mode === 'bodyweight' &&
+              numberInput('load', `Load (${units.weight})`, load, setLoad, {
+                signed: true,
+                description: 'Added weight, or negative for assistance'
+              })}
+            {mode === 'duration' &&
+              numberInput('duration', 'Duration (sec)', seconds, (value) => setSeconds(Math.round(value)))}
+            {mode === 'distance-duration' && (
+              <>
+                {numberInput('distance', `Distance (${units.distance})`, distance, setDistance, { step: '0.01' })}
+                {numberInput('time', 'Time (min)', Math.round((seconds / 60) * 100) / 100, (value) =>
+                  setSeconds(Math.round(value * 60)), { step: '0.5' }
+                )}
+              </>
+            )}
+          </div>
+          {countsReps && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span id={`effort-label-${setNumber}`} className="text-sm text-muted-foreground">
+                  Effort (optional)
+                </span>
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  variant="outline"
+                  value={effortScale}
+                  onValueChange={(value) => {
+                    if (!value) return;
+                    setEffortScale(value as EffortScale);
+                    setEffort(undefined);
+                  }}
+                  aria-label="Effort scale"
+                >
+                  {(Object.keys(EFFORT_SCALES) as EffortScale[]).map((scale) => (
+                    <ToggleGroupItem key={scale} value={scale} className="text-xs">
+                      {EFFORT_SCALES[scale].label}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={effort === undefined ? '' : String(effort)}
+                onValueChange={(value) => setEffort(value ? parseFloat(value) : undefined)}
+                aria-labelledby={`effort-label-${setNumber}`}
+                className="w-full"
+              >
+                {EFFORT_SCALES[effortScale].values.map((value) => (
+                  <ToggleGroupItem
+                    key={value}
+                    value={String(value)}
+                    aria-label={`${EFFORT_SCALES[effortScale].label} ${value}`}
+                    className="flex-1 text-xs"
+                  >
+                    {value}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
             </div>
-            <div>
-              <Label htmlFor={`weight-input-${currentSet}`} className="text-sm text-muted-foreground mb-1 block">
-                Weight (lbs)
-              </Label>
-              <Input
-                id={`weight-input-${currentSet}`}
-                type="number"
-                value={weight}
-                onChange={(e) => setWeight(parseInt(e.target.value) || 0)}
-                min="0"
-              />
+          )}
+          {nextWarmUp ? (
+            <div className="flex gap-2">
+              <Button onClick={() => handleComplete(true)} className="flex-1 gap-2">
+                <CheckCircle size={20} weight="fill" />
+                Log Warm-up
+              </Button>
+              <Button onClick={handleSkipWarmUps} variant="outline">
+                Skip warm-ups
+              </Button>
             </div>
-          </div>
-          <Button onClick={handleComplete} className="w-full gap-2 bg-accent hover:bg-accent/90 text-accent-foreground">
-            <CheckCircle size={20} weight="fill" />
-            Complete Set
-          </Button>
+          ) : (
+            <div className="flex gap-2">
+              <Button
+                onClick={() => handleComplete(false)}
+                className="flex-1 gap-2 bg-accent hover:bg-accent/90 text-accent-foreground"
+              >
+                <CheckCircle size={20} weight="fill" />
+                Complete Set
+              </Button>
+              {slot === 0 && (
+                <Button onClick={() => handleComplete(true)} variant="outline">
+                  Log Warm-up
+                </Button>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -359,9 +896,20 @@ function SetTracker({
           <h4 className="text-sm font-semibold mb-2">Completed Sets</h4>
           <div className="space-y-1">
             {completedSets.map((set) => (
-              <div key={set.setNumber} className="flex justify-between text-sm text-muted-foreground">
-                <span>Set {set.setNumber}</span>
-                <span>{set.reps} reps {set.weight ? `@ ${set.weight} lbs` : ''}</span>
+              <div
+                key={set.setNumber}
+                className={`flex justify-between text-sm ${isWarmUp(set) ? 'text-muted-foreground/70' : 'text-muted-foreground'}`}
+              >
+                <span className="flex items-center gap-2">
+                  {isWarmUp(set) ? 'Warm-up' : `Set ${withoutWarmUps(completedSets).indexOf(set) + 1}`}
+                  {set.type && !isWarmUp(set) && set.type !== 'working' && (
+                    <Badge variant="outline" className="text-xs">{SET_TYPES[set.type]}</Badge>
+                  )}
+                </span>
+                <span>
+                  {formatSetValues(set, mode, unitSystem)}
+                  {formatEffort(set) && ` · ${formatEffort(set)}`}
+                </span>
               </div>
             ))}
           </div>
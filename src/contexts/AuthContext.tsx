@@ -1,4 +1,5 @@
 import React, { createContext, useState, useCallback, useEffect } from 'react';
+import { ApiError } from '@/lib/api';
 import { UserPublic } from '@/lib/types';
 
 export interface AuthContextType {
@@ -31,13 +32,28 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
         if (savedToken) {
           setToken(savedToken);
-          // Try to verify token is still valid and get user data from backend
-          await verifyTokenFn(savedToken);
+          // Signed in from the saved user straight away, so the app and its pending writes work offline
+          const savedUser = localStorage.getItem(USER_KEY);
+          if (savedUser) {
+            setUser(JSON.parse(savedUser));
+            setIsLoading(false);
+          }
+
+          // Then check the token is still valid and refresh the user from the backend
+          const verifiedUser = await verifyTokenFn(savedToken);
+          setUser(verifiedUser);
+          localStorage.setItem(USER_KEY, JSON.stringify(verifiedUser));
         }
       } catch (error) {
-        console.error('Session restore failed:', error);
-        localStorage.removeItem(TOKEN_KEY);
-        localStorage.removeItem(USER_KEY);
+        if (error instanceof ApiError && error.status === 401) {
+          setUser(null);
+          setToken(null);
+          localStorage.removeItem(TOKEN_KEY);
+          localStorage.removeItem(USER_KEY);
+        } else {
+          // Offline or the server is down: stay signed in as the saved user
+          console.warn('Could not verify the saved session:', error);
+        }
       } finally {
         setIsLoading(false);
       }
@@ -56,7 +72,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     });
 
     if (!response.ok) {
-      throw new Error('Token verification failed');
+      throw new ApiError('Token verification failed', response.status);
     }
 
     const data = await response.json();
@@ -122,7 +138,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const verifiedUser = await verifyTokenFn(token);
       setUser(verifiedUser);
     } catch (error) {
-      logout();
+      if (error instanceof ApiError && error.status === 401) {
+        logout();
+      }
       throw error;
     }
   }, [token, verifyTokenFn, logout]);
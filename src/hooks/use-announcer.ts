@@ -1,4 +1,4 @@
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 
 /**
  * Hook for announcing messages to screen reader users
@@ -32,7 +32,7 @@ export function useAnnouncer() {
     };
   }, []);
 
-  const announce = (message: string, assertive = false) => {
+  const announce = useCallback((message: string, assertive = false) => {
     if (announcerRef.current) {
       announcerRef.current.setAttribute(
         'aria-live',
@@ -40,7 +40,7 @@ export function useAnnouncer() {
       );
       announcerRef.current.textContent = message;
     }
-  };
+  }, []);
 
   return { announce };
 }
@@ -0,0 +1,58 @@
+/**
+ * useCommandPalette Hook
+ *
+ * Shared state of the ⌘K command palette: whether it is open, and the plan
+ * being edited that exercises picked in it are added to. `App` provides
+ * the context; outside it (e.g. a component rendered on its own in a test)
+ * the palette is simply never open.
+ *
+ * Usage:
+ *   const { setOpen } = useCommandPalette();
+ *   usePlanTarget({ planName, addExercise });
+ */
+
+import { Dispatch, SetStateAction, createContext, useContext, useEffect, useRef } from 'react';
+
+/** A plan open for editing that the palette can add exercises to */
+export interface PlanTarget {
+  planName: string;
+  addExercise: (exerciseId: string) => void;
+}
+
+export interface CommandPaletteContextType {
+  isOpen: boolean;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  planTarget: PlanTarget | null;
+  setPlanTarget: Dispatch<SetStateAction<PlanTarget | null>>;
+}
+
+const noop = () => {};
+
+export const CommandPaletteContext = createContext<CommandPaletteContextType>({
+  isOpen: false,
+  setOpen: noop,
+  planTarget: null,
+  setPlanTarget: noop,
+});
+
+export function useCommandPalette(): CommandPaletteContextType {
+  return useContext(CommandPaletteContext);
+}
+
+/**
+ * Offer "add to plan" in the palette while the calling component is
+ * mounted. `addExercise` may change on every render; the latest one is used.
+ */
+export function usePlanTarget({ planName, addExercise }: PlanTarget) {
+  const { setPlanTarget } = useCommandPalette();
+  const addRef = useRef(addExercise);
+
+  useEffect(() => {
+    addRef.current = addExercise;
+  });
+
+  useEffect(() => {
+    setPlanTarget({ planName, addExercise: (exerciseId) => addRef.current(exerciseId) });
+    return () => setPlanTarget(null);
+  }, [planName, setPlanTarget]);
+}
@@ -0,0 +1,94 @@
+/**
+ * useExercises Hook
+ *
+ * The exercise catalog served by the backend merged with the user's own
+ * exercises, which are persisted under the `custom-exercises` key. Pass
+ * `exercises` to the lookups in `src/lib` (`findExercise`,
+ * `trackingModeFor`, ...) so custom exercises are found wherever library
+ * ones are.
+ *
+ * The catalog starts as the bundled library, then comes from the local
+ * cache and is revalidated against the server's catalog version. It
+ * includes deprecated exercises so past sessions still resolve; pickers
+ * should leave those out (see `offeredExercises`).
+ *
+ * Usage:
+ *   const { exercises, customExercises, saveExercise, deleteExercise } = useExercises();
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { usePersistentState } from '@/hooks/use-persistent-state';
+import { apiGetExerciseCatalog } from '@/lib/api';
+import { EXERCISE_LIBRARY } from '@/lib/exercises';
+import { readCachedValue, writeCachedValue } from '@/lib/offline-store';
+import { Exercise, ExerciseCatalog } from '@/lib/types';
+
+const NO_EXERCISES: Exercise[] = [];
+const CATALOG_CACHE_KEY = 'exercise-catalog';
+
+const isCatalog = (value: unknown): value is ExerciseCatalog =>
+  Array.isArray((value as ExerciseCatalog | null)?.exercises);
+
+/**
+ * Built-in exercises: the bundled library until the cached or server
+ * catalog has loaded
+ */
+function useCatalogExercises(): Exercise[] {
+  const [exercises, setExercises] = useState(EXERCISE_LIBRARY);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadCatalog = async () => {
+      const cached = await readCachedValue<ExerciseCatalog>(CATALOG_CACHE_KEY).catch(() => undefined);
+      if (isMounted && isCatalog(cached?.value)) {
+        setExercises(cached.value.exercises);
+      }
+
+      try {
+        const { data, revision } = await apiGetExerciseCatalog(cached?.revision ?? null);
+        // null means the cached catalog is still current
+        if (isCatalog(data)) {
+          await writeCachedValue(CATALOG_CACHE_KEY, { value: data, revision });
+          if (isMounted) {
+            setExercises(data.exercises);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to load the exercise catalog:', error);
+      }
+    };
+
+    loadCatalog();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  return exercises;
+}
+
+export function useExercises() {
+  const catalogExercises = useCatalogExercises();
+  const [customExercises, setCustomExercises] = usePersistentState<Exercise[]>('custom-exercises', NO_EXERCISES);
+  const exercises = useMemo(() => [...catalogExercises, ...customExercises], [catalogExercises, customExercises]);
+
+  /** Create or replace a custom exercise */
+  const saveExercise = useCallback(
+    (exercise: Exercise) =>
+      setCustomExercises((current) =>
+        current.some((e) => e.id === exercise.id)
+          ? current.map((e) => (e.id === exercise.id ? exercise : e))
+          : [...current, exercise]
+      ),
+    [setCustomExercises]
+  );
+
+  const deleteExercise = useCallback(
+    (exerciseId: string) => setCustomExercises((current) => current.filter((e) => e.id !== exerciseId)),
+    [setCustomExercises]
+  );
+
+  return { exercises, customExercises, saveExercise, deleteExercise };
+}
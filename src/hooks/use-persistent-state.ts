@@ -11,16 +11,50 @@
  * Note: Keys are automatically scoped to the current user when authenticated
  */
 
-import { useState, useCallback, useEffect } from 'react';
-import { apiGet, apiSet } from '@/lib/api';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { apiGetRevisioned } from '@/lib/api';
+import { CachedConflict, readCachedValue } from '@/lib/offline-store';
+import {
+  cacheServerValue,
+  hasPendingWrites,
+  queueWrite,
+  resolveConflict as resolveQueuedConflict,
+  subscribeConflicts,
+} from '@/lib/sync-queue';
 
 type UpdateFn<T> = (current: T) => T;
 type SetStateAction<T> = T | UpdateFn<T>;
 
+/**
+ * A save that lost to a newer revision written elsewhere (e.g. another device)
+ */
+export interface PersistentStateConflict<T> {
+  /** Value this client tried to save */
+  local: T;
+  /** Value currently stored on the server */
+  server: T | null;
+}
+
+export interface PersistentStateStatus<T> {
+  /** Unresolved conflict; later saves stay local until it is resolved */
+  conflict: PersistentStateConflict<T> | null;
+  /** Save `value` (server copy, local copy or a merge) over the server's current revision */
+  resolveConflict: (value: T) => void;
+}
+
 /**
  * Hook that persists state to a backend API
  * Maintains API compatibility with GitHub Spark's useKV
  * Automatically scopes keys with user ID when authenticated
+ *
+ * Works offline: the first render after load comes from the local cache,
+ * and saves are journaled locally and replayed by the sync queue when the
+ * API is reachable (see `src/lib/sync-queue.ts`).
+ *
+ * Saves are conditional on the revision last read from the server, so a
+ * stale client cannot clobber newer data. On conflict, `onConflict` may
+ * return a merged value to save instead; otherwise the conflict is
+ * exposed through the third tuple element for the caller to resolve.
  */
 export function usePersistentState<T>(
   key: string,
@@ -30,11 +64,46 @@ export function usePersistentState<T>(
     skipLoad?: boolean;
     /** Delay before persisting to backend (ms) */
     debounceMs?: number;
+    /** Merge a conflicting save; return undefined to leave it to the caller */
+    onConflict?: (conflict: PersistentStateConflict<T>) => T | undefined;
   }
-): [T, (value: SetStateAction<T>) => void] {
+): [T, (value: SetStateAction<T>) => void, PersistentStateStatus<T>] {
   const [state, setState] = useState<T>(defaultValue);
+  const [conflict, setConflict] = useState<PersistentStateConflict<T> | null>(null);
+  // Set once the user changes the value, so a late network load doesn't overwrite it
+  const dirtyRef = useRef(false);
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onConflictRef = useRef(options?.onConflict);
+
+  useEffect(() => {
+    onConflictRef.current = options?.onConflict;
+  }, [options?.onConflict]);
+
+  const resolveConflict = useCallback(
+    (value: T) => {
+      dirtyRef.current = true;
+      setConflict(null);
+      setState(value);
+      resolveQueuedConflict(key, value);
+    },
+    [key]
+  );
 
-  // Load initial data from API
+  const handleConflict = useCallback(
+    ({ local, server }: CachedConflict<T>) => {
+      const merged = onConflictRef.current?.({ local, server });
+      if (merged === undefined) {
+        setConflict({ local, server });
+      } else {
+        resolveConflict(merged);
+      }
+    },
+    [resolveConflict]
+  );
+
+  useEffect(() => subscribeConflicts<T>(key, handleConflict), [key, handleConflict]);
+
+  // Load from the local cache, then from the API unless local writes are pending
   useEffect(() => {
     if (options?.skipLoad) {
       return;
@@ -43,14 +112,30 @@ export function usePersistentState<T>(
     let isMounted = true;
 
     const loadData = async () => {
+      const cached = await readCachedValue<T>(key).catch(() => undefined);
+      if (!isMounted) {
+        return;
+      }
+      if (cached && !dirtyRef.current) {
+        setState(cached.value ?? defaultValue);
+      }
+      if (cached?.conflict) {
+        handleConflict(cached.conflict);
+        return;
+      }
+      if (cached && (await hasPendingWrites(key))) {
+        return;
+      }
+
       try {
-        const data = await apiGet<T>(key);
-        if (isMounted) {
+        const { data, revision } = await apiGetRevisioned<T>(key);
+        await cacheServerValue(key, data, revision);
+        if (isMounted && !dirtyRef.current) {
           setState(data ?? defaultValue);
         }
       } catch (error) {
         console.error(`Failed to load ${key}:`, error);
-        if (isMounted) {
+        if (isMounted && !cached && !dirtyRef.current) {
           // Fall back to default value on error
           setState(defaultValue);
         }
@@ -62,72 +147,32 @@ export function usePersistentState<T>(
     return () => {
       isMounted = false;
     };
-  }, [key, defaultValue, options?.skipLoad]);
+  }, [key, defaultValue, options?.skipLoad, handleConflict]);
 
-  // Persist state to API with optional debouncing
+  useEffect(() => () => {
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+  }, []);
+
+  // Persist state with optional debouncing
   const setPersistentState = useCallback(
     (value: SetStateAction<T>) => {
       const nextState = typeof value === 'function' ? (value as UpdateFn<T>)(state) : value;
-
-      // Save to API
-      const saveToApi = async () => {
-        try {
-          await apiSet(key, nextState);
-        } catch (error) {
-          console.error(`Failed to persist ${key}:`, error);
-          // State is still updated locally, but failed to sync with backend
-          // In a production system, could implement retry logic or user notification
-        }
-      };
+      dirtyRef.current = true;
+      setState(nextState);
 
       if (options?.debounceMs && options.debounceMs > 0) {
-        // Debounce API calls
-        const timeoutId = setTimeout(saveToApi, options.debounceMs);
-        return () => clearTimeout(timeoutId);
+        if (debounceRef.current) {
+          clearTimeout(debounceRef.current);
+        }
+        debounceRef.current = setTimeout(() => queueWrite(key, nextState), options.debounceMs);
       } else {
-        // Fire and forget API call
-        saveToApi();
+        queueWrite(key, nextState);
       }
-
-      setState(nextState);
     },
     [key, state, options?.debounceMs]
   );
 
-  return [state, setPersistentState];
-}
-
-/**
- * Fallback hook for when API is unavailable
- * Uses localStorage instead for resilience
- */
-export function usePersistentStateLocal<T>(
-  key: string,
-  defaultValue: T
-): [T, (value: SetStateAction<T>) => void] {
-  const [state, setState] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : defaultValue;
-    } catch {
-      return defaultValue;
-    }
-  });
-
-  const setPersistentState = useCallback(
-    (value: SetStateAction<T>) => {
-      setState((prev) => {
-        const nextState = typeof value === 'function' ? (value as UpdateFn<T>)(prev) : value;
-        try {
-          window.localStorage.setItem(key, JSON.stringify(nextState));
-        } catch (error) {
-          console.error(`Failed to save to localStorage: ${key}`, error);
-        }
-        return nextState;
-      });
-    },
-    [key]
-  );
-
-  return [state, setPersistentState];
+  return [state, setPersistentState, { conflict, resolveConflict }];
 }
@@ -0,0 +1,124 @@
+/**
+ * usePlans Hook
+ *
+ * Loads the current user's workout plans from the `/api/plans` resource,
+ * served from the offline cache until the server answers. Changes are
+ * applied locally first and journaled in the sync queue, which replays them
+ * to the backend until it accepts them, as edits of the revision last loaded;
+ * changes still queued are applied over every load. A plan changed elsewhere
+ * in the meantime shows the server copy instead. The list reloads once the
+ * queue has sent its changes, or if the backend rejects one.
+ *
+ * Usage:
+ *   const { plans, savePlan, deletePlan } = usePlans();
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { PLANS_PATH, apiListPlans, deletePlanRequest, savePlanRequest } from '@/lib/api';
+import { readCachedValue, writeCachedValue } from '@/lib/offline-store';
+import { applyPlanRequests } from '@/lib/pending-requests';
+import {
+  cacheServerRevisions,
+  pendingRequests,
+  queueRequest,
+  subscribeConflicts,
+  subscribeRejectedRequests,
+  subscribeRequestsSynced,
+} from '@/lib/sync-queue';
+import { WorkoutPlan } from '@/lib/types';
+
+export interface UsePlansResult {
+  plans: WorkoutPlan[];
+  isLoading: boolean;
+  /** Create or replace a plan */
+  savePlan: (plan: WorkoutPlan) => Promise<void>;
+  deletePlan: (planId: string) => Promise<void>;
+  reload: () => Promise<void>;
+}
+
+export function usePlans(): UsePlansResult {
+  const [plans, setPlans] = useState<WorkoutPlan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Set once the server has answered; the cache is only read before that
+  const hasLoadedRef = useRef(false);
+
+  const reload = useCallback(async () => {
+    if (!hasLoadedRef.current) {
+      const cached = await readCachedValue<WorkoutPlan[]>(PLANS_PATH).catch(() => undefined);
+      if (cached && !hasLoadedRef.current) {
+        setPlans(applyPlanRequests(cached.value, await pendingRequests()));
+        setIsLoading(false);
+      }
+    }
+
+    try {
+      const { items: loaded, revisions } = await apiListPlans();
+      hasLoadedRef.current = true;
+      await writeCachedValue(PLANS_PATH, { value: loaded, revision: null });
+      await cacheServerRevisions(revisions);
+      setPlans(applyPlanRequests(loaded, await pendingRequests()));
+    } catch (error) {
+      console.error('Failed to load plans:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  useEffect(
+    () =>
+      subscribeRejectedRequests((request) => {
+        if (request.path.startsWith('/plans/')) reload();
+      }),
+    [reload]
+  );
+
+  useEffect(() => subscribeRequestsSynced(reload), [reload]);
+
+  useEffect(
+    () =>
+      subscribeConflicts<WorkoutPlan>(PLANS_PATH, ({ server }) => {
+        if (server) setPlans((current) => current.map((plan) => (plan.id === server.id ? server : plan)));
+      }),
+    []
+  );
+
+  const savePlan = useCallback(
+    async (plan: WorkoutPlan) => {
+      setPlans((current) => {
+        const index = current.findIndex((p) => p.id === plan.id);
+        if (index < 0) {
+          return [...current, plan];
+        }
+        const updated = [...current];
+        updated[index] = plan;
+        return updated;
+      });
+      try {
+        await queueRequest(savePlanRequest(plan));
+      } catch (error) {
+        console.error(`Failed to save plan ${plan.id}:`, error);
+        await reload();
+      }
+    },
+    [reload]
+  );
+
+  const deletePlan = useCallback(
+    async (planId: string) => {
+      setPlans((current) => current.filter((p) => p.id !== planId));
+      try {
+        await queueRequest(deletePlanRequest(planId));
+      } catch (error) {
+        console.error(`Failed to delete plan ${planId}:`, error);
+        await reload();
+      }
+    },
+    [reload]
+  );
+
+  return { plans, isLoading, savePlan, deletePlan, reload };
+}
@@ -0,0 +1,38 @@
+/**
+ * usePreferences Hook
+ *
+ * Per-user settings persisted under the `user-preferences` key. Stored
+ * preferences are merged over the defaults, so settings added later get a
+ * value for existing users.
+ *
+ * Usage:
+ *   const { preferences, updatePreferences } = usePreferences();
+ *   updatePreferences({ oneRepMaxFormula: 'brzycki' });
+ */
+
+import { useCallback, useMemo } from 'react';
+import { usePersistentState } from '@/hooks/use-persistent-state';
+import { DEFAULT_EQUIPMENT_PROFILE } from '@/lib/equipment';
+import { DEFAULT_ONE_REP_MAX_FORMULA } from '@/lib/one-rep-max';
+import { DEFAULT_UNIT_SYSTEM } from '@/lib/units';
+import { DEFAULT_WARM_UP_SCHEME } from '@/lib/warm-up';
+import { UserPreferences } from '@/lib/types';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  oneRepMaxFormula: DEFAULT_ONE_REP_MAX_FORMULA,
+  unitSystem: DEFAULT_UNIT_SYSTEM,
+  warmUpScheme: DEFAULT_WARM_UP_SCHEME,
+  equipment: DEFAULT_EQUIPMENT_PROFILE,
+};
+
+export function usePreferences() {
+  const [stored, setStored] = usePersistentState<Partial<UserPreferences>>('user-preferences', DEFAULT_PREFERENCES);
+  const preferences = useMemo(() => ({ ...DEFAULT_PREFERENCES, ...stored }), [stored]);
+
+  const updatePreferences = useCallback(
+    (updates: Partial<UserPreferences>) => setStored((current) => ({ ...current, ...updates })),
+    [setStored]
+  );
+
+  return { preferences, updatePreferences };
+}
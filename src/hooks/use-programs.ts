@@ -0,0 +1,48 @@
+/**
+ * usePrograms Hook
+ *
+ * Multi-day programs, persisted under the `workout-programs` key. Each day
+ * points at a plan from `usePlans`, which holds its exercises.
+ *
+ * Usage:
+ *   const { programs, saveProgram, deleteProgram, recordCompletedWorkout } = usePrograms();
+ */
+
+import { useCallback } from 'react';
+import { usePersistentState } from '@/hooks/use-persistent-state';
+import { advanceProgram } from '@/lib/programs';
+import { Program } from '@/lib/types';
+
+const NO_PROGRAMS: Program[] = [];
+
+export function usePrograms() {
+  const [programs, setPrograms] = usePersistentState<Program[]>('workout-programs', NO_PROGRAMS);
+
+  /** Create or replace a program */
+  const saveProgram = useCallback(
+    (program: Program) =>
+      setPrograms((current) =>
+        current.some((p) => p.id === program.id)
+          ? current.map((p) => (p.id === program.id ? program : p))
+          : [...current, program]
+      ),
+    [setPrograms]
+  );
+
+  const deleteProgram = useCallback(
+    (programId: string) => setPrograms((current) => current.filter((p) => p.id !== programId)),
+    [setPrograms]
+  );
+
+  /** Advance any program containing the plan to its next day */
+  const recordCompletedWorkout = useCallback(
+    (planId: string) => {
+      if (programs.some((program) => program.days.some((day) => day.planId === planId))) {
+        setPrograms((current) => current.map((program) => advanceProgram(program, planId)));
+      }
+    },
+    [programs, setPrograms]
+  );
+
+  return { programs, saveProgram, deleteProgram, recordCompletedWorkout };
+}
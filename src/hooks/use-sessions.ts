@@ -0,0 +1,190 @@
+/**
+ * useSessions Hook
+ *
+ * Loads workout sessions from the `/api/sessions` resource, optionally
+ * filtered (e.g. `{ status: 'in-progress' }` for the active workout), oldest
+ * first; sessions logged or moved after the fact take their place by start time.
+ * The list is served from the offline cache until the server answers.
+ * Changes are applied locally first and journaled in the sync queue, which
+ * replays them to the backend until it accepts them, as edits of the
+ * revision last loaded; changes still queued are applied over every load. A
+ * session changed elsewhere in the meantime shows the server copy instead.
+ * The list reloads once the queue has sent its changes, or if the backend
+ * rejects one.
+ *
+ * Usage:
+ *   const { sessions, createSession, addSet, updateSession } = useSessions({ status: 'in-progress' });
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  addSetRequest,
+  apiListSessions,
+  createSessionRequest,
+  deleteSessionRequest,
+  sessionsPath,
+  updateSessionRequest,
+} from '@/lib/api';
+import { readCachedValue, writeCachedValue } from '@/lib/offline-store';
+import { applySessionRequests } from '@/lib/pending-requests';
+import {
+  cacheServerRevisions,
+  pendingRequests,
+  queueRequest,
+  subscribeConflicts,
+  subscribeRejectedRequests,
+  subscribeRequestsSynced,
+} from '@/lib/sync-queue';
+import { CompletedSet, SessionQuery, WorkoutSession } from '@/lib/types';
+
+export interface UseSessionsResult {
+  sessions: WorkoutSession[];
+  isLoading: boolean;
+  createSession: (session: WorkoutSession) => Promise<void>;
+  updateSession: (sessionId: string, updates: Partial<Omit<WorkoutSession, 'id'>>) => Promise<void>;
+  addSet: (sessionId: string, exerciseIndex: number, set: CompletedSet) => Promise<void>;
+  deleteSession: (sessionId: string) => Promise<void>;
+  reload: () => Promise<void>;
+}
+
+const byStartTime = (sessions: WorkoutSession[]) => [...sessions].sort((a, b) => a.startedAt - b.startedAt);
+
+function matchesQuery(session: WorkoutSession, query: SessionQuery): boolean {
+  return (!query.status || session.status === query.status) && (!query.planId || session.planId === query.planId);
+}
+
+export function useSessions(query: SessionQuery = {}): UseSessionsResult {
+  const { status, planId, limit } = query;
+  const [sessions, setSessions] = useState<WorkoutSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Set once the server has answered; the cache is only read before that
+  const hasLoadedRef = useRef(false);
+
+  const reload = useCallback(async () => {
+    const cacheKey = sessionsPath({ status, planId, limit });
+    /** `loaded` with the changes still queued, in this hook's order and filter */
+    const withPending = async (loaded: WorkoutSession[]) =>
+      byStartTime(
+        applySessionRequests(loaded, await pendingRequests()).filter((session) =>
+          matchesQuery(session, { status, planId })
+        )
+      );
+
+    if (!hasLoadedRef.current) {
+      const cached = await readCachedValue<WorkoutSession[]>(cacheKey).catch(() => undefined);
+      if (cached && !hasLoadedRef.current) {
+        setSessions(await withPending(cached.value));
+        setIsLoading(false);
+      }
+    }
+
+    try {
+      const { items: loaded, revisions } = await apiListSessions({ status, planId, limit });
+      hasLoadedRef.current = true;
+      await writeCachedValue(cacheKey, { value: loaded, revision: null });
+      await cacheServerRevisions(revisions);
+      setSessions(await withPending(loaded));
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, planId, limit]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  useEffect(
+    () =>
+      subscribeRejectedRequests((request) => {
+        if (request.path.startsWith('/sessions')) reload();
+      }),
+    [reload]
+  );
+
+  useEffect(() => subscribeRequestsSynced(reload), [reload]);
+
+  /** Apply a change to one session locally, dropping it if it no longer matches the filter */
+  const updateLocal = useCallback(
+    (sessionId: string, update: (session: WorkoutSession) => WorkoutSession) => {
+      setSessions((current) =>
+        byStartTime(
+          current
+            .map((session) => (session.id === sessionId ? update(session) : session))
+            .filter((session) => matchesQuery(session, { status, planId }))
+        )
+      );
+    },
+    [status, planId]
+  );
+
+  useEffect(
+    () =>
+      subscribeConflicts<WorkoutSession>(sessionsPath(), ({ server }) => {
+        if (server) updateLocal(server.id, () => server);
+      }),
+    [updateLocal]
+  );
+
+  const createSession = useCallback(
+    async (session: WorkoutSession) => {
+      if (matchesQuery(session, { status, planId })) {
+        setSessions((current) => byStartTime([...current, session]));
+      }
+      try {
+        await queueRequest(createSessionRequest(session));
+      } catch (error) {
+        console.error(`Failed to create session ${session.id}:`, error);
+        await reload();
+      }
+    },
+    [status, planId, reload]
+  );
+
+  const updateSession = useCallback(
+    async (sessionId: string, updates: Partial<Omit<WorkoutSession, 'id'>>) => {
+      updateLocal(sessionId, (session) => ({ ...session, ...updates }));
+      try {
+        await queueRequest(updateSessionRequest(sessionId, updates));
+      } catch (error) {
+        console.error(`Failed to update session ${sessionId}:`, error);
+        await reload();
+      }
+    },
+    [updateLocal, reload]
+  );
+
+  const addSet = useCallback(
+    async (sessionId: string, exerciseIndex: number, set: CompletedSet) => {
+      updateLocal(sessionId, (session) => ({
+        ...session,
+        exercises: session.exercises.map((exercise, i) =>
+          i === exerciseIndex ? { ...exercise, completedSets: [...exercise.completedSets, set] } : exercise
+        ),
+      }));
+      try {
+        await queueRequest(addSetRequest(sessionId, exerciseIndex, set));
+      } catch (error) {
+        console.error(`Failed to add set to session ${sessionId}:`, error);
+        await reload();
+      }
+    },
+    [updateLocal, reload]
+  );
+
+  const deleteSession = useCallback(
+    async (sessionId: string) => {
+      setSessions((current) => current.filter((s) => s.id !== sessionId));
+      try {
+        await queueRequest(deleteSessionRequest(sessionId));
+      } catch (error) {
+        console.error(`Failed to delete session ${sessionId}:`, error);
+        await reload();
+      }
+    },
+    [reload]
+  );
+
+  return { sessions, isLoading, createSession, updateSession, addSet, deleteSession, reload };
+}
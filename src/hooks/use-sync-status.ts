@@ -0,0 +1,14 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { SyncStatus, getSyncStatus, startSync, subscribeSyncStatus } from '@/lib/sync-queue';
+
+/**
+ * Current offline sync status
+ * Mounting it also starts replaying writes journaled while offline.
+ */
+export function useSyncStatus(): SyncStatus {
+  useEffect(() => {
+    startSync();
+  }, []);
+
+  return useSyncExternalStore(subscribeSyncStatus, getSyncStatus);
+}
@@ -3,6 +3,8 @@
  * Generic fetch-based client for backend communication
  */
 
+import { CompletedSet, ExerciseCatalog, SessionQuery, WorkoutPlan, WorkoutSession } from './types';
+
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 const TOKEN_KEY = 'fittrack_auth_token';
 
@@ -39,6 +41,118 @@ export async function apiGet<T>(key: string): Promise<T | null> {
   return result.data as T;
 }
 
+/**
+ * A stored value with the revision (ETag) the server reported for it
+ */
+export interface Revisioned<T> {
+  data: T | null;
+  /** Opaque ETag; null when the server did not send one */
+  revision: string | null;
+}
+
+/**
+ * A non-2xx response, with its HTTP status
+ */
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Thrown when a conditional write lost to a newer revision on the server
+ */
+export class ApiConflictError<T = unknown> extends ApiError {
+  /** Current server copy */
+  readonly current: T | null;
+  /** Revision of the current server copy */
+  readonly revision: string | null;
+
+  constructor(current: T | null, revision: string | null) {
+    super('API conflict: data was changed on the server', 409);
+    this.name = 'ApiConflictError';
+    this.current = current;
+    this.revision = revision;
+  }
+}
+
+function readRevision(response: Response): string | null {
+  return response.headers?.get('ETag') ?? null;
+}
+
+/**
+ * Retrieve data for a key along with its revision
+ */
+export async function apiGetRevisioned<T>(key: string): Promise<Revisioned<T>> {
+  const response = await fetch(`${API_BASE}/data/${key}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return { data: null, revision: readRevision(response) };
+    }
+    throw new ApiError(`API GET failed: ${response.statusText}`, response.status);
+  }
+
+  const result = await response.json();
+  return { data: result.data as T, revision: readRevision(response) };
+}
+
+/**
+ * Store data for a key only if the server still holds `ifMatch`
+ * Pass a null revision to write unconditionally.
+ * Throws ApiConflictError with the server copy on a 409.
+ */
+export async function apiSetRevisioned<T>(key: string, data: T, ifMatch: string | null): Promise<Revisioned<T>> {
+  const headers = getAuthHeaders() as Record<string, string>;
+  if (ifMatch) {
+    headers['If-Match'] = ifMatch;
+  }
+  const response = await fetch(`${API_BASE}/data/${key}`, {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({ data }),
+  });
+
+  if (response.status === 409) {
+    const result = await response.json();
+    throw new ApiConflictError<T>(result.data ?? null, readRevision(response));
+  }
+  if (!response.ok) {
+    throw new ApiError(`API SET failed: ${response.statusText}`, response.status);
+  }
+
+  const result = await response.json();
+  return { data: result.data as T, revision: readRevision(response) };
+}
+
+/**
+ * Fetch the exercise catalog unless it still matches `ifNoneMatch`;
+ * `data` is null when the server answers 304 Not Modified
+ */
+export async function apiGetExerciseCatalog(ifNoneMatch: string | null): Promise<Revisioned<ExerciseCatalog>> {
+  const headers = getAuthHeaders() as Record<string, string>;
+  if (ifNoneMatch) {
+    headers['If-None-Match'] = ifNoneMatch;
+  }
+  const response = await fetch(`${API_BASE}/exercises`, { headers });
+
+  if (response.status === 304) {
+    return { data: null, revision: ifNoneMatch };
+  }
+  if (!response.ok) {
+    throw new ApiError(`API GET exercises failed: ${response.statusText}`, response.status);
+  }
+
+  const result = await response.json();
+  return { data: result.data as ExerciseCatalog, revision: readRevision(response) };
+}
+
 /**
  * Store/update data for a key
  */
@@ -123,3 +237,209 @@ export async function apiImport(data: Record<string, unknown>): Promise<void> {
     throw new Error(`API IMPORT failed: ${response.statusText}`);
   }
 }
+
+/**
+ * A write to a resource endpoint, in a form the sync queue can journal and replay
+ */
+export interface ResourceRequest {
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** Path below the API base, e.g. `/plans/plan-1` */
+  path: string;
+  /** Path of the plan or session the request changes, whose revision it is conditional on */
+  resource: string;
+  body?: unknown;
+}
+
+/**
+ * Send a resource write, only if the resource is still at `ifMatch` when given
+ * Throws ApiConflictError with the server copy when a conditional write
+ * finds a newer revision, or ApiError with the status of another non-2xx response.
+ */
+export async function apiSend<T>(
+  { method, path, body }: ResourceRequest,
+  ifMatch: string | null = null
+): Promise<{ data: T; revision: string | null }> {
+  const headers = getAuthHeaders() as Record<string, string>;
+  if (ifMatch) {
+    headers['If-Match'] = ifMatch;
+  }
+  const response = await fetch(`${API_BASE}${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (response.status === 409 && ifMatch) {
+    const result = await response.json();
+    throw new ApiConflictError<T>(result.data ?? null, readRevision(response));
+  }
+  if (!response.ok) {
+    throw new ApiError(`API ${method} ${path} failed: ${response.statusText}`, response.status);
+  }
+
+  const result = await response.json();
+  return { data: result.data as T, revision: readRevision(response) };
+}
+
+/**
+ * Plans or sessions with the revision of each, keyed by its path
+ */
+export interface ResourceList<T> {
+  items: T[];
+  revisions: Record<string, string>;
+}
+
+/**
+ * Load a list endpoint, keying the `{ revisions }` it sends by id under `itemPath`
+ */
+async function apiList<T>(path: string, itemPath: (id: string) => string): Promise<ResourceList<T>> {
+  const response = await fetch(`${API_BASE}${path}`, { headers: getAuthHeaders() });
+
+  if (!response.ok) {
+    throw new ApiError(`API GET ${path} failed: ${response.statusText}`, response.status);
+  }
+
+  const result = await response.json();
+  const revisions = Object.entries<number>(result.revisions ?? {}).map(([id, revision]) => [
+    itemPath(id),
+    `"${revision}"`,
+  ]);
+  return { items: (result.data as T[] | null) ?? [], revisions: Object.fromEntries(revisions) };
+}
+
+/** Path of the current user's plans */
+export const PLANS_PATH = '/plans';
+
+/** Path of one plan */
+const planPath = (planId: string) => `${PLANS_PATH}/${encodeURIComponent(planId)}`;
+
+/**
+ * List the current user's plans
+ */
+export async function apiListPlans(): Promise<ResourceList<WorkoutPlan>> {
+  return apiList<WorkoutPlan>(PLANS_PATH, planPath);
+}
+
+/**
+ * Request that creates or replaces a plan
+ */
+export function savePlanRequest(plan: WorkoutPlan): ResourceRequest {
+  return { method: 'PUT', path: planPath(plan.id), resource: planPath(plan.id), body: plan };
+}
+
+/**
+ * Create or replace a plan
+ */
+export async function apiSavePlan(plan: WorkoutPlan): Promise<WorkoutPlan> {
+  return (await apiSend<WorkoutPlan>(savePlanRequest(plan))).data;
+}
+
+/**
+ * Request that deletes a plan
+ */
+export function deletePlanRequest(planId: string): ResourceRequest {
+  return { method: 'DELETE', path: planPath(planId), resource: planPath(planId) };
+}
+
+/**
+ * Delete a plan
+ */
+export async function apiDeletePlan(planId: string): Promise<void> {
+  await apiSend<void>(deletePlanRequest(planId));
+}
+
+/**
+ * Path of the current user's sessions matching `query`
+ */
+export function sessionsPath(query: SessionQuery = {}): string {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([name, value]) => {
+    if (value !== undefined) {
+      params.set(name, String(value));
+    }
+  });
+  const search = params.toString();
+  return `/sessions${search ? `?${search}` : ''}`;
+}
+
+/** Path of one session */
+const sessionPath = (sessionId: string) => `/sessions/${encodeURIComponent(sessionId)}`;
+
+/**
+ * List the current user's sessions, oldest first
+ */
+export async function apiListSessions(query: SessionQuery = {}): Promise<ResourceList<WorkoutSession>> {
+  return apiList<WorkoutSession>(sessionsPath(query), sessionPath);
+}
+
+/**
+ * Request that creates a new session
+ */
+export function createSessionRequest(session: WorkoutSession): ResourceRequest {
+  return { method: 'POST', path: '/sessions', resource: sessionPath(session.id), body: session };
+}
+
+/**
+ * Create a new session
+ */
+export async function apiCreateSession(session: WorkoutSession): Promise<WorkoutSession> {
+  return (await apiSend<WorkoutSession>(createSessionRequest(session))).data;
+}
+
+/**
+ * Request that updates some fields of a session
+ */
+export function updateSessionRequest(
+  sessionId: string,
+  updates: Partial<Omit<WorkoutSession, 'id'>>
+): ResourceRequest {
+  return { method: 'PATCH', path: sessionPath(sessionId), resource: sessionPath(sessionId), body: updates };
+}
+
+/**
+ * Update some fields of a session
+ */
+export async function apiUpdateSession(
+  sessionId: string,
+  updates: Partial<Omit<WorkoutSession, 'id'>>
+): Promise<WorkoutSession> {
+  return (await apiSend<WorkoutSession>(updateSessionRequest(sessionId, updates))).data;
+}
+
+/**
+ * Request that deletes a session
+ */
+export function deleteSessionRequest(sessionId: string): ResourceRequest {
+  return { method: 'DELETE', path: sessionPath(sessionId), resource: sessionPath(sessionId) };
+}
+
+/**
+ * Delete a session
+ */
+export async function apiDeleteSession(sessionId: string): Promise<void> {
+  await apiSend<void>(deleteSessionRequest(sessionId));
+}
+
+/**
+ * Request that appends a completed set to one exercise of a session. The
+ * server skips a set it already has, so replaying it never logs it twice.
+ */
+export function addSetRequest(sessionId: string, exerciseIndex: number, set: CompletedSet): ResourceRequest {
+  return {
+    method: 'POST',
+    path: `${sessionPath(sessionId)}/sets`,
+    resource: sessionPath(sessionId),
+    body: { exerciseIndex, set },
+  };
+}
+
+/**
+ * Append a completed set to one exercise of a session
+ */
+export async function apiAddSet(
+  sessionId: string,
+  exerciseIndex: number,
+  set: CompletedSet
+): Promise<WorkoutSession> {
+  return (await apiSend<WorkoutSession>(addSetRequest(sessionId, exerciseIndex, set))).data;
+}
@@ -0,0 +1,206 @@
+/**
+ * Equipment and loadable weights
+ * Rounds suggested weights to loads the user's gym can make: bar plus
+ * plate pairs for barbells, dumbbell steps, and weight stack steps for
+ * cables and machines. Profiles are in lbs or kg; rounding takes and
+ * returns stored weights (lbs).
+ */
+
+import { EXERCISE_LIBRARY, findExercise } from './exercises';
+import { Equipment, EquipmentProfile, Exercise, WeightUnit, WorkoutExercise } from './types';
+import { fromWeightUnit, toWeightUnit } from './units';
+
+export const DEFAULT_EQUIPMENT_PROFILE: EquipmentProfile = {
+  barWeights: [45],
+  plates: [45, 35, 25, 10, 5, 2.5],
+  dumbbellIncrement: 5,
+  machineIncrement: 10,
+};
+
+export const METRIC_EQUIPMENT_PROFILE: EquipmentProfile = {
+  unit: 'kg',
+  barWeights: [20],
+  plates: [25, 20, 15, 10, 5, 2.5, 1.25],
+  dumbbellIncrement: 2,
+  machineIncrement: 5,
+};
+
+export const defaultEquipmentProfile = (unit: WeightUnit) =>
+  unit === 'kg' ? METRIC_EQUIPMENT_PROFILE : DEFAULT_EQUIPMENT_PROFILE;
+
+/** Plate sizes offered in the equipment settings */
+export const COMMON_PLATES: Record<WeightUnit, number[]> = {
+  lbs: [55, 45, 35, 25, 15, 10, 5, 2.5, 1.25],
+  kg: [25, 20, 15, 10, 5, 2.5, 2, 1.25, 1, 0.5],
+};
+
+/** Bar weights offered in the equipment settings */
+export const COMMON_BARS: Record<WeightUnit, number[]> = {
+  lbs: [45, 35, 25, 15],
+  kg: [20, 15, 10, 7],
+};
+
+/**
+ * How loads are rounded for one exercise, in stored lbs: `increment` is the
+ * smallest step, `round` snaps a weight to the nearest buildable load, and
+ * barbell exercises also get the `bar` and a plate loading `describe`r
+ */
+export interface LoadRounding {
+  increment: number;
+  round: (weight: number) => number;
+  bar?: number;
+  describe?: (weight: number) => string;
+}
+
+// Plate maths runs in hundredths of a unit so 1.25 plates stay exact
+const toHundredths = (weight: number) => Math.round(weight * 100);
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/**
+ * Fewest plates making up each multiple of `unit` up to `limit` units,
+ * preferring larger plates; null where no combination adds up
+ */
+function plateCombinations(sizes: number[], unit: number, limit: number): (number[] | null)[] {
+  const combos: (number[] | null)[] = [[]];
+  for (let n = 1; n <= limit; n++) {
+    let best: number[] | null = null;
+    for (const size of sizes) {
+      const rest = combos[n - size / unit];
+      if (size / unit <= n && rest && (!best || rest.length + 1 < best.length)) {
+        best = [size, ...rest];
+      }
+    }
+    combos.push(best);
+  }
+  return combos;
+}
+
+/**
+ * Plates for each side of the bar, heaviest first; null when the weight
+ * can't be built exactly
+ */
+export function plateBreakdown(weight: number, bar: number, plates: number[]): number[] | null {
+  const sizes = [...new Set(plates.map(toHundredths))].filter((size) => size > 0).sort((a, b) => b - a);
+  const perSide = toHundredths(weight - bar) / 2;
+  if (perSide === 0) return [];
+  if (perSide < 0 || sizes.length === 0) return null;
+
+  const unit = sizes.reduce(gcd);
+  if (!Number.isInteger(perSide) || perSide % unit !== 0) return null;
+  const combo = plateCombinations(sizes, unit, perSide / unit)[perSide / unit];
+  return combo ? [...combo].sort((a, b) => b - a).map((size) => size / 100) : null;
+}
+
+/**
+ * Nearest weight the bar and plates can make, never less than the bar;
+ * halfway cases round up
+ */
+export function roundToPlates(weight: number, bar: number, plates: number[]): number {
+  const sizes = [...new Set(plates.map(toHundredths))].filter((size) => size > 0);
+  if (weight <= bar || sizes.length === 0) return bar;
+
+  const unit = sizes.reduce(gcd);
+  const exact = toHundredths(weight - bar) / 2 / unit;
+  const combos = plateCombinations(sizes, unit, Math.ceil(exact) + Math.max(...sizes) / unit);
+  let best = 0;
+  combos.forEach((combo, n) => {
+    if (combo && Math.abs(n - exact) <= Math.abs(best - exact)) {
+      best = n;
+    }
+  });
+  return bar + (best * unit * 2) / 100;
+}
+
+/**
+ * Load rounding for a barbell with the given plates, all in lbs
+ */
+export function barbellRounding(
+  bar = DEFAULT_EQUIPMENT_PROFILE.barWeights[0],
+  plates = DEFAULT_EQUIPMENT_PROFILE.plates
+): LoadRounding {
+  return {
+    increment: (plates.length > 0 ? Math.min(...plates) : 5) * 2,
+    round: (weight) => roundToPlates(weight, bar, plates),
+    bar,
+    describe: (weight) => describePlateLoading(weight, bar, plates),
+  };
+}
+
+/**
+ * Rounding worked out in kg, converted to take and return lbs
+ */
+function inUnit(rounding: LoadRounding, unit: WeightUnit): LoadRounding {
+  const { increment, round, bar, describe } = rounding;
+  return {
+    increment: fromWeightUnit(increment, unit),
+    round: (weight) => fromWeightUnit(round(toWeightUnit(weight, unit)), unit),
+    bar: bar === undefined ? undefined : fromWeightUnit(bar, unit),
+    describe: describe && ((weight) => describe(toWeightUnit(weight, unit))),
+  };
+}
+
+const roundTo = (weight: number, increment: number) =>
+  increment > 0 ? Math.round(weight / increment) * increment : weight;
+
+export function equipmentFor(exerciseId: string, library: Exercise[] = EXERCISE_LIBRARY): Equipment | undefined {
+  return findExercise(exerciseId, library)?.equipment;
+}
+
+/**
+ * Load rounding for a plan exercise with the user's equipment; exercises
+ * without equipment round to 5 lbs or 2.5 kg
+ */
+export function loadRoundingFor(
+  exercise: Pick<WorkoutExercise, 'exerciseId' | 'barWeight'>,
+  profile: EquipmentProfile = DEFAULT_EQUIPMENT_PROFILE,
+  library: Exercise[] = EXERCISE_LIBRARY
+): LoadRounding {
+  const unit = profile.unit ?? 'lbs';
+  const rounding = profileRounding(exercise, profile, library);
+  return unit === 'lbs' ? rounding : inUnit(rounding, unit);
+}
+
+/**
+ * Load rounding in the profile's own unit
+ */
+function profileRounding(
+  exercise: Pick<WorkoutExercise, 'exerciseId' | 'barWeight'>,
+  profile: EquipmentProfile,
+  library: Exercise[]
+): LoadRounding {
+  const unit = profile.unit ?? 'lbs';
+  const smallestPlate = profile.plates.length > 0 ? Math.min(...profile.plates) : 5;
+  const step = (increment: number): LoadRounding => ({ increment, round: (weight) => roundTo(weight, increment) });
+  switch (equipmentFor(exercise.exerciseId, library)) {
+    case 'barbell': {
+      const bar = exercise.barWeight ?? profile.barWeights[0] ?? defaultEquipmentProfile(unit).barWeights[0];
+      return {
+        ...barbellRounding(bar, profile.plates),
+        describe: (weight) => describePlateLoading(weight, bar, profile.plates, unit),
+      };
+    }
+    case 'dumbbell':
+      return step(profile.dumbbellIncrement);
+    case 'cable':
+    case 'machine':
+      return step(profile.machineIncrement);
+    case 'bodyweight':
+      // Added weight is a single plate or dumbbell on a belt
+      return step(smallestPlate);
+    default:
+      return step(unit === 'kg' ? 2.5 : 5);
+  }
+}
+
+/**
+ * Plate loading for a barbell weight, all in `unit`, e.g.
+ * "Each side: 45 + 25 (45 lb bar)"
+ */
+export function describePlateLoading(weight: number, bar: number, plates: number[], unit: WeightUnit = 'lbs'): string {
+  const perSide = plateBreakdown(weight, bar, plates);
+  const barName = `${bar} ${unit === 'kg' ? 'kg' : 'lb'} bar`;
+  if (!perSide) {
+    return `Can't be loaded with your plates; nearest is ${roundToPlates(weight, bar, plates)} ${unit}`;
+  }
+  return perSide.length === 0 ? `Empty ${barName}` : `Each side: ${perSide.join(' + ')} (${barName})`;
+}
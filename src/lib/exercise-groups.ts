@@ -0,0 +1,133 @@
+/**
+ * Exercise groups
+ * Supersets, giant sets and circuits: neighbouring plan exercises done back
+ * to back for a number of rounds, resting only after each round.
+ */
+
+import { ExerciseGroup, ExerciseGroupType, WorkoutExercise } from './types';
+
+export const EXERCISE_GROUP_TYPES: Record<ExerciseGroupType, string> = {
+  superset: 'Superset',
+  'giant-set': 'Giant set',
+  circuit: 'Circuit',
+};
+
+export interface GroupedExercises {
+  exercises: WorkoutExercise[];
+  groups: ExerciseGroup[];
+}
+
+export function findGroup(groups: ExerciseGroup[] | undefined, exercise: WorkoutExercise | undefined) {
+  return exercise?.groupId ? groups?.find((group) => group.id === exercise.groupId) : undefined;
+}
+
+/**
+ * Exercise indices in workout order, with each group's members together
+ * and every ungrouped exercise on its own
+ */
+export function planBlocks(exercises: WorkoutExercise[]): number[][] {
+  const blocks: number[][] = [];
+  exercises.forEach((exercise, index) => {
+    const previous = blocks[blocks.length - 1];
+    if (previous && exercise.groupId && exercises[previous[0]].groupId === exercise.groupId) {
+      previous.push(index);
+    } else {
+      blocks.push([index]);
+    }
+  });
+  return blocks;
+}
+
+/**
+ * Where to go after a set of a grouped exercise: the next member with sets
+ * left, cycling back to the start of the group for the next round
+ * `setsDone` includes the set just logged; `roundComplete` is true when
+ * that set finished a round, so the group's rest applies.
+ */
+export function nextInGroup(
+  members: number[],
+  setsDone: number[],
+  targetSets: number[],
+  exerciseIndex: number
+): { nextIndex: number | null; roundComplete: boolean } {
+  const position = members.indexOf(exerciseIndex);
+  const order = [...members.slice(position + 1), ...members.slice(0, position + 1)];
+  const nextIndex = order.find((index) => setsDone[index] < targetSets[index]) ?? null;
+  const roundComplete = nextIndex === null || members.indexOf(nextIndex) <= position;
+  return { nextIndex, roundComplete };
+}
+
+/**
+ * Drop groups with fewer than two members and group ids that point nowhere
+ */
+export function pruneGroups({ exercises, groups }: GroupedExercises): GroupedExercises {
+  const kept = groups.filter((group) => exercises.filter((ex) => ex.groupId === group.id).length >= 2);
+  return {
+    exercises: exercises.map((ex) =>
+      ex.groupId && !kept.some((group) => group.id === ex.groupId) ? { ...ex, groupId: undefined } : ex
+    ),
+    groups: kept,
+  };
+}
+
+/**
+ * Join the exercise at `index` and the one after it into a group, merging
+ * any groups they already belong to; members take the group's round count
+ */
+export function linkWithNext({ exercises, groups }: GroupedExercises, index: number, now = Date.now()): GroupedExercises {
+  const first = exercises[index];
+  const second = exercises[index + 1];
+  if (!first || !second) {
+    return { exercises, groups };
+  }
+
+  const group: ExerciseGroup = findGroup(groups, first) ??
+    findGroup(groups, second) ?? {
+      id: `group-${now}`,
+      type: 'superset',
+      rounds: first.sets,
+      restSeconds: first.restSeconds ?? 60,
+    };
+  const merging = [first.groupId, second.groupId].filter((id) => id && id !== group.id);
+  const joins = (ex: WorkoutExercise, i: number) =>
+    i === index || i === index + 1 || (ex.groupId !== undefined && merging.includes(ex.groupId));
+
+  return pruneGroups({
+    exercises: exercises.map((ex, i) => (joins(ex, i) ? { ...ex, groupId: group.id, sets: group.rounds } : ex)),
+    groups: [...groups.filter((g) => g.id !== group.id && !merging.includes(g.id)), group],
+  });
+}
+
+/**
+ * Split a group between the exercise at `index` and the one after it;
+ * the later members form a new group of the same kind
+ */
+export function unlinkFromNext({ exercises, groups }: GroupedExercises, index: number, now = Date.now()): GroupedExercises {
+  const group = findGroup(groups, exercises[index]);
+  if (!group || exercises[index + 1]?.groupId !== group.id) {
+    return { exercises, groups };
+  }
+
+  const split: ExerciseGroup = { ...group, id: `group-${now}` };
+  return pruneGroups({
+    exercises: exercises.map((ex, i) => (i > index && ex.groupId === group.id ? { ...ex, groupId: split.id } : ex)),
+    groups: [...groups, split],
+  });
+}
+
+/**
+ * Change a group's settings; a new round count becomes every member's sets
+ */
+export function updateGroup(
+  { exercises, groups }: GroupedExercises,
+  groupId: string,
+  updates: Partial<Omit<ExerciseGroup, 'id'>>
+): GroupedExercises {
+  return {
+    exercises:
+      updates.rounds === undefined
+        ? exercises
+        : exercises.map((ex) => (ex.groupId === groupId ? { ...ex, sets: updates.rounds as number } : ex)),
+    groups: groups.map((group) => (group.id === groupId ? { ...group, ...updates } : group)),
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Exercise search
+ * Ranked search across an exercise's name, other names, muscles, equipment
+ * and instructions that forgives a typo. Build the index once per library
+ * and search it as the user types.
+ */
+
+import { EQUIPMENT_LABELS, MOVEMENT_PATTERNS, muscleShares } from './exercises';
+import { Exercise } from './types';
+
+/** How much a match in each field counts towards an exercise's rank */
+export const SEARCH_FIELD_WEIGHTS = {
+  name: 10,
+  aliases: 8,
+  muscles: 5,
+  equipment: 4,
+  instructions: 1,
+} as const;
+
+type SearchField = keyof typeof SEARCH_FIELD_WEIGHTS;
+
+interface IndexedExercise {
+  exercise: Exercise;
+  name: string;
+  words: Record<SearchField, string[]>;
+}
+
+export interface ExerciseSearchIndex {
+  entries: IndexedExercise[];
+}
+
+/** Lower-cased words, split on anything but letters and digits */
+const toWords = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+/**
+ * Edits (insertions, deletions, substitutions or swaps of neighbouring
+ * letters) turning `a` into `b`
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/** One typo away from the word, or from the start of it while still typing */
+const isTypoOf = (query: string, word: string) =>
+  [query.length - 1, query.length, query.length + 1].some(
+    (length) => length > 0 && length <= word.length && editDistance(query, word.slice(0, length)) <= 1
+  );
+
+/**
+ * How well a typed word matches a word of the exercise, from 0 (not at all)
+ * to 1 (the same word). Typos are only forgiven in words of four letters or
+ * more, so short words like "row" stay exact.
+ */
+export function matchWord(query: string, word: string): number {
+  if (word === query) return 1;
+  if (word.startsWith(query)) return 0.8;
+  if (query.length >= 3 && word.includes(query)) return 0.6;
+  if (query.length >= 4 && isTypoOf(query, word)) return 0.4;
+  return 0;
+}
+
+/** Best match of a typed word among `words` */
+const bestMatch = (query: string, words: string[]) => Math.max(0, ...words.map((word) => matchWord(query, word)));
+
+/**
+ * Whether every word of `query` matches a word of `text`; an empty query
+ * matches anything
+ */
+export function matchesText(text: string, query: string): boolean {
+  const words = toWords(text);
+  return toWords(query).every((queryWord) => bestMatch(queryWord, words) > 0);
+}
+
+export function buildSearchIndex(exercises: Exercise[]): ExerciseSearchIndex {
+  return {
+    entries: exercises.map((exercise) => ({
+      exercise,
+      name: exercise.name.toLowerCase(),
+      words: {
+        name: toWords(exercise.name),
+        aliases: toWords((exercise.aliases ?? []).join(' ')),
+        muscles: toWords(muscleShares(exercise).map((share) => share.muscleGroup).join(' ')),
+        equipment: toWords(
+          [
+            exercise.equipment && EQUIPMENT_LABELS[exercise.equipment],
+            exercise.movementPattern && MOVEMENT_PATTERNS[exercise.movementPattern],
+          ]
+            .filter(Boolean)
+            .join(' ')
+        ),
+        instructions: toWords([...exercise.instructions, ...exercise.formCues].join(' ')),
+      },
+    })),
+  };
+}
+
+/**
+ * Rank of an exercise for a query; 0 when a word of the query matches
+ * nothing. Each query word counts its best match in any field, and names
+ * starting with the whole query come first.
+ */
+function scoreEntry(entry: IndexedExercise, query: string, queryWords: string[]): number {
+  let score = 0;
+  for (const queryWord of queryWords) {
+    const best = Math.max(
+      ...(Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[]).map(
+        (field) => SEARCH_FIELD_WEIGHTS[field] * bestMatch(queryWord, entry.words[field])
+      )
+    );
+    if (best === 0) return 0;
+    score += best;
+  }
+  return entry.name.startsWith(query) ? score + SEARCH_FIELD_WEIGHTS.name : score;
+}
+
+/**
+ * Exercises matching `query`, best first; all of them, in library order,
+ * for an empty query
+ */
+export function searchExercises(index: ExerciseSearchIndex, query: string): Exercise[] {
+  const normalized = query.trim().toLowerCase();
+  const queryWords = toWords(normalized);
+  if (queryWords.length === 0) {
+    return index.entries.map((entry) => entry.exercise);
+  }
+  return index.entries
+    .map((entry) => ({ exercise: entry.exercise, score: scoreEntry(entry, normalized, queryWords) }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.exercise.name.localeCompare(b.exercise.name))
+    .map((result) => result.exercise);
+}
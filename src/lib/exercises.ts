@@ -1,4 +1,4 @@
-import { Exercise } from './types';
+import { Difficulty, Equipment, Exercise, MovementPattern, MuscleGroup, MuscleShare } from './types';
 
 export const EXERCISE_LIBRARY: Exercise[] = [
   {
@@ -6,6 +6,12 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Barbell Squat',
     muscleGroup: 'legs',
     difficulty: 'intermediate',
+    equipment: 'barbell',
+    secondaryMuscles: [
+      { muscleGroup: 'core', weight: 0.25 }
+    ],
+    movementPattern: 'squat',
+    aliases: ['Back Squat'],
     instructions: [
       'Position barbell on upper back/traps',
       'Stand with feet shoulder-width apart, toes slightly out',
@@ -25,6 +31,13 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Barbell Bench Press',
     muscleGroup: 'chest',
     difficulty: 'intermediate',
+    equipment: 'barbell',
+    secondaryMuscles: [
+      { muscleGroup: 'triceps', weight: 0.5 },
+      { muscleGroup: 'shoulders', weight: 0.5 }
+    ],
+    movementPattern: 'push',
+    aliases: ['Bench', 'Flat Bench'],
     instructions: [
       'Lie on bench with eyes under the bar',
       'Grip bar slightly wider than shoulder width',
@@ -44,6 +57,13 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Conventional Deadlift',
     muscleGroup: 'back',
     difficulty: 'advanced',
+    equipment: 'barbell',
+    secondaryMuscles: [
+      { muscleGroup: 'legs', weight: 0.5 },
+      { muscleGroup: 'core', weight: 0.25 }
+    ],
+    movementPattern: 'hinge',
+    aliases: ['DL'],
     instructions: [
       'Stand with feet hip-width apart, bar over mid-foot',
       'Hinge at hips and grip bar just outside legs',
@@ -63,6 +83,13 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Pull-Up',
     muscleGroup: 'back',
     difficulty: 'intermediate',
+    equipment: 'bodyweight',
+    tracking: 'bodyweight',
+    secondaryMuscles: [
+      { muscleGroup: 'biceps', weight: 0.5 }
+    ],
+    movementPattern: 'pull',
+    aliases: ['Pullup'],
     instructions: [
       'Hang from bar with hands shoulder-width or slightly wider',
       'Start from dead hang with arms fully extended',
@@ -82,6 +109,13 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Overhead Press',
     muscleGroup: 'shoulders',
     difficulty: 'intermediate',
+    equipment: 'barbell',
+    secondaryMuscles: [
+      { muscleGroup: 'triceps', weight: 0.5 },
+      { muscleGroup: 'core', weight: 0.25 }
+    ],
+    movementPattern: 'push',
+    aliases: ['OHP', 'Military Press', 'Shoulder Press'],
     instructions: [
       'Start with bar at shoulder height, hands just outside shoulders',
       'Brace core and squeeze glutes',
@@ -101,6 +135,13 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Single-Arm Dumbbell Row',
     muscleGroup: 'back',
     difficulty: 'beginner',
+    equipment: 'dumbbell',
+    secondaryMuscles: [
+      { muscleGroup: 'biceps', weight: 0.5 }
+    ],
+    movementPattern: 'pull',
+    unilateral: true,
+    aliases: ['One-Arm Row', 'DB Row'],
     instructions: [
       'Place one hand and knee on bench for support',
       'Hold dumbbell in opposite hand, arm extended',
@@ -120,6 +161,12 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Plank',
     muscleGroup: 'core',
     difficulty: 'beginner',
+    equipment: 'bodyweight',
+    tracking: 'duration',
+    secondaryMuscles: [
+      { muscleGroup: 'shoulders', weight: 0.25 }
+    ],
+    aliases: ['Front Plank'],
     instructions: [
       'Start on forearms and toes',
       'Keep body in straight line from head to heels',
@@ -139,6 +186,8 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Barbell Bicep Curl',
     muscleGroup: 'biceps',
     difficulty: 'beginner',
+    equipment: 'barbell',
+    aliases: ['Barbell Curl', 'Biceps Curl'],
     instructions: [
       'Stand with feet hip-width, holding barbell with underhand grip',
       'Keep elbows tucked at sides',
@@ -158,6 +207,14 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Tricep Dips',
     muscleGroup: 'triceps',
     difficulty: 'intermediate',
+    equipment: 'bodyweight',
+    tracking: 'bodyweight',
+    secondaryMuscles: [
+      { muscleGroup: 'chest', weight: 0.5 },
+      { muscleGroup: 'shoulders', weight: 0.25 }
+    ],
+    movementPattern: 'push',
+    aliases: ['Dips', 'Parallel Bar Dip'],
     instructions: [
       'Support body on parallel bars with arms extended',
       'Lean forward slightly',
@@ -177,6 +234,12 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Romanian Deadlift',
     muscleGroup: 'legs',
     difficulty: 'intermediate',
+    equipment: 'barbell',
+    secondaryMuscles: [
+      { muscleGroup: 'back', weight: 0.25 }
+    ],
+    movementPattern: 'hinge',
+    aliases: ['RDL', 'Stiff-Leg Deadlift'],
     instructions: [
       'Start standing with barbell at hip level',
       'Soften knees slightly and hinge at hips',
@@ -196,6 +259,13 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Walking Lunges',
     muscleGroup: 'legs',
     difficulty: 'beginner',
+    equipment: 'bodyweight',
+    secondaryMuscles: [
+      { muscleGroup: 'core', weight: 0.25 }
+    ],
+    movementPattern: 'squat',
+    unilateral: true,
+    aliases: ['Walking Lunge', 'Forward Lunge'],
     instructions: [
       'Stand with feet hip-width apart',
       'Step forward with one leg',
@@ -215,6 +285,15 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Push-Up',
     muscleGroup: 'chest',
     difficulty: 'beginner',
+    equipment: 'bodyweight',
+    tracking: 'bodyweight',
+    secondaryMuscles: [
+      { muscleGroup: 'triceps', weight: 0.5 },
+      { muscleGroup: 'shoulders', weight: 0.25 },
+      { muscleGroup: 'core', weight: 0.25 }
+    ],
+    movementPattern: 'push',
+    aliases: ['Press-Up', 'Pushup'],
     instructions: [
       'Start in high plank position, hands shoulder-width',
       'Keep body in straight line',
@@ -234,6 +313,12 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Lat Pulldown',
     muscleGroup: 'back',
     difficulty: 'beginner',
+    equipment: 'cable',
+    secondaryMuscles: [
+      { muscleGroup: 'biceps', weight: 0.5 }
+    ],
+    movementPattern: 'pull',
+    aliases: ['Pulldown', 'Lat Pull'],
     instructions: [
       'Sit at lat pulldown machine, secure thighs under pad',
       'Grip bar slightly wider than shoulder width',
@@ -253,6 +338,12 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Cable Chest Fly',
     muscleGroup: 'chest',
     difficulty: 'beginner',
+    equipment: 'cable',
+    secondaryMuscles: [
+      { muscleGroup: 'shoulders', weight: 0.25 }
+    ],
+    movementPattern: 'push',
+    aliases: ['Cable Crossover', 'Pec Fly'],
     instructions: [
       'Set cables to shoulder height, grab handles',
       'Step forward into split stance for stability',
@@ -272,6 +363,9 @@ export const EXERCISE_LIBRARY: Exercise[] = [
     name: 'Leg Press',
     muscleGroup: 'legs',
     difficulty: 'beginner',
+    equipment: 'machine',
+    movementPattern: 'squat',
+    aliases: ['Sled Press'],
     instructions: [
       'Sit in leg press machine, feet shoulder-width on platform',
       'Release safety and lower platform by bending knees',
@@ -285,5 +379,153 @@ export const EXERCISE_LIBRARY: Exercise[] = [
       'Full range of motion without butt lifting off seat',
       'Controlled eccentric, explosive concentric'
     ]
+  },
+  {
+    id: 'burpee',
+    name: 'Burpee',
+    muscleGroup: 'full-body',
+    difficulty: 'beginner',
+    equipment: 'bodyweight',
+    tracking: 'reps',
+    secondaryMuscles: [
+      { muscleGroup: 'chest', weight: 0.25 },
+      { muscleGroup: 'cardio', weight: 0.5 }
+    ],
+    aliases: ['Squat Thrust'],
+    instructions: [
+      'Stand with feet shoulder-width apart',
+      'Squat down and place hands on the floor',
+      'Jump feet back into a push-up position and lower chest to the floor',
+      'Push up and jump feet back towards hands',
+      'Jump up explosively with arms overhead'
+    ],
+    formCues: [
+      'Keep core tight in the plank position',
+      'Land softly with bent knees',
+      'Hips stay in line with shoulders, no sagging',
+      'Move smoothly; pace yourself to keep form'
+    ]
+  },
+  {
+    id: 'running',
+    name: 'Running',
+    muscleGroup: 'cardio',
+    difficulty: 'beginner',
+    equipment: 'bodyweight',
+    tracking: 'distance-duration',
+    aliases: ['Run', 'Jog', 'Treadmill'],
+    instructions: [
+      'Start with a few minutes of easy jogging to warm up',
+      'Settle into a pace you can hold for the whole distance',
+      'Land under your hips with a slight forward lean',
+      'Swing arms forward and back, not across the body',
+      'Finish with a few minutes of easy jogging or walking'
+    ],
+    formCues: [
+      'Run tall with relaxed shoulders',
+      'Quick, light steps rather than long strides',
+      'Breathe rhythmically through nose and mouth',
+      'Avoid heel striking far in front of the body'
+    ]
+  },
+  {
+    id: 'rowing-machine',
+    name: 'Rowing Machine',
+    muscleGroup: 'cardio',
+    difficulty: 'beginner',
+    equipment: 'machine',
+    tracking: 'distance-duration',
+    secondaryMuscles: [
+      { muscleGroup: 'back', weight: 0.25 },
+      { muscleGroup: 'legs', weight: 0.25 }
+    ],
+    movementPattern: 'pull',
+    aliases: ['Rower', 'Erg'],
+    instructions: [
+      'Strap feet in with the strap across the widest part of the foot',
+      'Start at the catch: shins vertical, arms straight, leaning slightly forward',
+      'Drive with the legs, then lean back and pull the handle to the lower ribs',
+      'Return by extending arms, leaning forward, then bending the knees',
+      'Keep a steady stroke rate throughout'
+    ],
+    formCues: [
+      'Legs, then back, then arms on the drive',
+      'Arms, then back, then legs on the recovery',
+      'Keep the handle level and wrists flat',
+      'Power comes from the legs, not the arms'
+    ]
   }
 ];
+
+export const MUSCLE_GROUPS: MuscleGroup[] = ['chest', 'back', 'shoulders', 'biceps', 'triceps', 'legs', 'core', 'cardio', 'full-body'];
+
+export const DIFFICULTIES: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+export const EQUIPMENT_LABELS: Record<Equipment, string> = {
+  barbell: 'Barbell',
+  dumbbell: 'Dumbbell',
+  cable: 'Cable',
+  machine: 'Machine',
+  bodyweight: 'Bodyweight',
+};
+
+export const MOVEMENT_PATTERNS: Record<MovementPattern, string> = {
+  squat: 'Squat',
+  hinge: 'Hinge',
+  push: 'Push',
+  pull: 'Pull',
+  carry: 'Carry',
+};
+
+/** Share of volume given to a secondary muscle picked without a weight */
+export const DEFAULT_SECONDARY_WEIGHT = 0.5;
+
+/**
+ * Muscle groups credited with an exercise's volume: its own in full, then
+ * its secondary muscles' shares
+ */
+export function muscleShares(exercise: Exercise): MuscleShare[] {
+  return [{ muscleGroup: exercise.muscleGroup, weight: 1 }, ...(exercise.secondaryMuscles ?? [])];
+}
+
+/** Library filters; unset fields match everything */
+export interface ExerciseFilters {
+  /** Matches primary and secondary muscles */
+  muscleGroup?: MuscleGroup;
+  equipment?: Equipment;
+  movementPattern?: MovementPattern;
+  difficulty?: Difficulty;
+  /** Only exercises worked one side at a time */
+  unilateral?: boolean;
+}
+
+export function matchesFilters(exercise: Exercise, filters: ExerciseFilters): boolean {
+  return (
+    (!filters.muscleGroup || muscleShares(exercise).some((share) => share.muscleGroup === filters.muscleGroup)) &&
+    (!filters.equipment || exercise.equipment === filters.equipment) &&
+    (!filters.movementPattern || exercise.movementPattern === filters.movementPattern) &&
+    (!filters.difficulty || exercise.difficulty === filters.difficulty) &&
+    (!filters.unilateral || !!exercise.unilateral)
+  );
+}
+
+/** Ids of user-created exercises start with this, so they never clash with the library */
+export const CUSTOM_EXERCISE_PREFIX = 'custom-';
+
+export const isCustomExercise = (exerciseId: string) => exerciseId.startsWith(CUSTOM_EXERCISE_PREFIX);
+
+/**
+ * Look up an exercise in `library`, by default the built-in one; pass the
+ * merged library from `useExercises` to include the user's own exercises
+ */
+export function findExercise(exerciseId: string, library: Exercise[] = EXERCISE_LIBRARY): Exercise | undefined {
+  return library.find((exercise) => exercise.id === exerciseId);
+}
+
+/**
+ * Exercises to offer in pickers: deprecated ones are left out, except
+ * `currentId` so an exercise already chosen keeps showing
+ */
+export function offeredExercises(library: Exercise[], currentId?: string): Exercise[] {
+  return library.filter((exercise) => !exercise.deprecated || exercise.id === currentId);
+}
@@ -0,0 +1,97 @@
+/**
+ * Mesocycles
+ * Week-by-week intensity and volume modifiers on a plan's targets, for
+ * periodized training blocks with planned deload weeks.
+ */
+
+import { Mesocycle, MesocycleWeek, WorkoutExercise } from './types';
+
+export const MESOCYCLE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface MesocycleSettings {
+  /** Length of the block, including the deload week */
+  weeks: number;
+  /** Intensity added each week, e.g. 0.025 for +2.5% */
+  weeklyIncrease: number;
+  /** Volume of the final deload week, e.g. 0.6; null for no deload */
+  deloadVolume: number | null;
+}
+
+export const DEFAULT_MESOCYCLE_SETTINGS: MesocycleSettings = {
+  weeks: 5,
+  weeklyIncrease: 0.025,
+  deloadVolume: 0.6,
+};
+
+export interface MesocyclePosition {
+  /** Zero-based week of the block */
+  weekIndex: number;
+  week: MesocycleWeek;
+}
+
+export interface MesocycleTargets {
+  sets: number;
+  reps: number;
+  weight?: number;
+}
+
+/**
+ * Weeks that ramp intensity linearly, ending in a deload week at the
+ * starting intensity when `deloadVolume` is set
+ */
+export function buildMesocycle(settings: MesocycleSettings, startedAt = Date.now()): Mesocycle {
+  const weekCount = Math.max(1, Math.round(settings.weeks));
+  const weeks = Array.from({ length: weekCount }, (_, index): MesocycleWeek => {
+    const isDeload = settings.deloadVolume !== null && weekCount > 1 && index === weekCount - 1;
+    return isDeload
+      ? { intensity: 1, volume: settings.deloadVolume as number, deload: true }
+      : { intensity: Math.round((1 + settings.weeklyIncrease * index) * 1000) / 1000, volume: 1 };
+  });
+  return { startedAt, weeks };
+}
+
+/**
+ * Week of the block that `date` falls in, or null before it starts and
+ * after the last week
+ */
+export function mesocyclePosition(mesocycle: Mesocycle | undefined, date = Date.now()): MesocyclePosition | null {
+  if (!mesocycle || date < mesocycle.startedAt) {
+    return null;
+  }
+  const weekIndex = Math.floor((date - mesocycle.startedAt) / MESOCYCLE_WEEK_MS);
+  const week = mesocycle.weeks[weekIndex];
+  return week ? { weekIndex, week } : null;
+}
+
+/**
+ * Whether every week of the block has passed
+ */
+export function isMesocycleComplete(mesocycle: Mesocycle, date = Date.now()): boolean {
+  return date >= mesocycle.startedAt + mesocycle.weeks.length * MESOCYCLE_WEEK_MS;
+}
+
+/**
+ * A plan exercise's targets for one week of the block
+ * Weight is rounded to `increment`; sets never drop below one.
+ */
+export function mesocycleTargets(exercise: WorkoutExercise, week: MesocycleWeek, increment = 5): MesocycleTargets {
+  return {
+    sets: Math.max(1, Math.round(exercise.sets * week.volume)),
+    reps: exercise.reps,
+    weight: exercise.weight ? Math.round((exercise.weight * week.intensity) / increment) * increment : exercise.weight,
+  };
+}
+
+const formatPercent = (multiplier: number) => `${Math.round(multiplier * 1000) / 10}%`;
+
+/**
+ * Short summary of a week's modifiers, e.g. "Deload: 60% volume"
+ */
+export function describeMesocycleWeek(week: MesocycleWeek): string {
+  const parts = [
+    week.intensity !== 1 ? `${formatPercent(week.intensity)} intensity` : null,
+    week.volume !== 1 ? `${formatPercent(week.volume)} volume` : null,
+  ].filter(Boolean);
+  const summary = parts.length > 0 ? parts.join(', ') : 'Base targets';
+  return week.deload ? `Deload: ${summary}` : summary;
+}
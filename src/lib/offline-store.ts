@@ -0,0 +1,198 @@
+/**
+ * Offline store
+ * Local copy of persisted state plus a journal of writes that have not
+ * reached the server yet, both kept per signed-in user. Uses IndexedDB,
+ * falling back to localStorage where IndexedDB is unavailable (e.g. some
+ * private browsing modes).
+ */
+
+import type { ResourceRequest } from './api';
+
+const USER_KEY = 'fittrack_user';
+const DB_NAME = 'fittrack-offline';
+const CACHE_STORE = 'cache';
+const JOURNAL_STORE = 'journal';
+const CACHE_PREFIX = 'fittrack-offline-cache:';
+const JOURNAL_KEY = 'fittrack-offline-journal';
+
+/**
+ * A write that lost to a newer server revision and awaits resolution
+ */
+export interface CachedConflict<T = unknown> {
+  /** Latest local value */
+  local: T;
+  /** Server copy at the time of the conflict */
+  server: T | null;
+  /** Revision of the server copy */
+  revision: string | null;
+}
+
+export interface CachedValue<T = unknown> {
+  value: T;
+  /** Last revision seen from the server; null when unknown */
+  revision: string | null;
+  conflict?: CachedConflict<T>;
+}
+
+export interface JournalEntry {
+  /** Increasing sequence number; entries replay in this order */
+  seq: number;
+  userId: string;
+  /** Key the value is stored under, or the path of a resource request */
+  key: string;
+  value: unknown;
+  /** Set for plan and session writes, which replay as this request instead of storing `value` */
+  request?: ResourceRequest;
+  queuedAt: number;
+}
+
+interface OfflineBackend {
+  getCache(id: string): Promise<CachedValue | undefined>;
+  putCache(id: string, record: CachedValue): Promise<void>;
+  appendJournal(entry: Omit<JournalEntry, 'seq'>): Promise<void>;
+  readJournal(): Promise<JournalEntry[]>;
+  removeJournal(seqs: number[]): Promise<void>;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openIndexedDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(CACHE_STORE);
+      request.result.createObjectStore(JOURNAL_STORE, { keyPath: 'seq', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createIndexedDbBackend(db: IDBDatabase): OfflineBackend {
+  const store = (name: string, mode: IDBTransactionMode) => db.transaction(name, mode).objectStore(name);
+
+  return {
+    getCache: (id) => promisify(store(CACHE_STORE, 'readonly').get(id)),
+    async putCache(id, record) {
+      await promisify(store(CACHE_STORE, 'readwrite').put(record, id));
+    },
+    async appendJournal(entry) {
+      await promisify(store(JOURNAL_STORE, 'readwrite').add(entry));
+    },
+    // getAll() returns entries ordered by their `seq` key
+    readJournal: () => promisify(store(JOURNAL_STORE, 'readonly').getAll()),
+    async removeJournal(seqs) {
+      const journal = store(JOURNAL_STORE, 'readwrite');
+      await Promise.all(seqs.map((seq) => promisify(journal.delete(seq))));
+    },
+  };
+}
+
+function createLocalStorageBackend(): OfflineBackend {
+  const readJournal = (): JournalEntry[] => {
+    try {
+      return JSON.parse(window.localStorage.getItem(JOURNAL_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  };
+  const writeJournal = (entries: JournalEntry[]) => window.localStorage.setItem(JOURNAL_KEY, JSON.stringify(entries));
+
+  return {
+    async getCache(id) {
+      const item = window.localStorage.getItem(CACHE_PREFIX + id);
+      return item ? JSON.parse(item) : undefined;
+    },
+    async putCache(id, record) {
+      window.localStorage.setItem(CACHE_PREFIX + id, JSON.stringify(record));
+    },
+    async appendJournal(entry) {
+      const entries = readJournal();
+      const seq = (entries[entries.length - 1]?.seq ?? 0) + 1;
+      writeJournal([...entries, { ...entry, seq }]);
+    },
+    readJournal: async () => readJournal(),
+    async removeJournal(seqs) {
+      writeJournal(readJournal().filter((entry) => !seqs.includes(entry.seq)));
+    },
+  };
+}
+
+let backendPromise: Promise<OfflineBackend> | null = null;
+
+function getBackend(): Promise<OfflineBackend> {
+  if (!backendPromise) {
+    backendPromise =
+      typeof indexedDB === 'undefined'
+        ? Promise.resolve(createLocalStorageBackend())
+        : openIndexedDb()
+            .then(createIndexedDbBackend)
+            .catch((error) => {
+              console.warn('IndexedDB unavailable, caching in localStorage instead:', error);
+              return createLocalStorageBackend();
+            });
+  }
+  return backendPromise;
+}
+
+/**
+ * ID of the signed-in user, or `anonymous`
+ */
+export function currentUserId(): string {
+  try {
+    return JSON.parse(window.localStorage.getItem(USER_KEY) || 'null')?.id ?? 'anonymous';
+  } catch {
+    return 'anonymous';
+  }
+}
+
+const cacheId = (key: string) => `${currentUserId()}:${key}`;
+
+/**
+ * Read the local copy of a key
+ */
+export async function readCachedValue<T>(key: string): Promise<CachedValue<T> | undefined> {
+  return (await getBackend()).getCache(cacheId(key)) as Promise<CachedValue<T> | undefined>;
+}
+
+/**
+ * Replace the local copy of a key
+ */
+export async function writeCachedValue<T>(key: string, record: CachedValue<T>): Promise<void> {
+  await (await getBackend()).putCache(cacheId(key), record);
+}
+
+/**
+ * Append a write to the journal
+ */
+export async function appendJournal(key: string, value: unknown, request?: ResourceRequest): Promise<void> {
+  await (await getBackend()).appendJournal({
+    userId: currentUserId(),
+    key,
+    value,
+    ...(request ? { request } : {}),
+    queuedAt: Date.now(),
+  });
+}
+
+/**
+ * The signed-in user's journaled writes, oldest first
+ */
+export async function readJournal(): Promise<JournalEntry[]> {
+  const userId = currentUserId();
+  return (await (await getBackend()).readJournal()).filter((entry) => entry.userId === userId);
+}
+
+/**
+ * Remove replayed or abandoned writes from the journal
+ */
+export async function removeJournalEntries(seqs: number[]): Promise<void> {
+  if (seqs.length > 0) {
+    await (await getBackend()).removeJournal(seqs);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Estimated one-rep max (e1RM)
+ * Estimates the weight a lifter could move for a single rep from a logged
+ * set, using the formula picked in the user's preferences. All formulas
+ * lose accuracy past roughly 12 reps.
+ */
+
+import { CompletedSet, OneRepMaxFormula, WorkoutSession } from './types';
+import { setRpe } from './rpe';
+import { withoutWarmUps } from './set-types';
+
+export const DEFAULT_ONE_REP_MAX_FORMULA: OneRepMaxFormula = 'epley';
+
+export const ONE_REP_MAX_FORMULAS: Record<OneRepMaxFormula, { label: string; description: string }> = {
+  epley: { label: 'Epley', description: 'weight × (1 + reps / 30)' },
+  brzycki: { label: 'Brzycki', description: 'weight × 36 / (37 − reps)' },
+  lombardi: { label: 'Lombardi', description: 'weight × reps^0.1' },
+  rpe: { label: 'RPE table', description: 'Percentage of 1RM by reps and RPE (or RIR); sets without either count as RPE 10' },
+};
+
+/**
+ * Percentages of 1RM from the RPE chart, one step per half RPE or per rep:
+ * 1 rep @ RPE 10 is 100%, 1 rep @ RPE 9.5 or 2 reps @ RPE 10 is 97.8%, ...
+ */
+const RPE_PERCENTAGES = [
+  100, 97.8, 95.5, 93.9, 92.2, 90.7, 89.2, 87.8, 86.3, 85.0, 83.7, 82.4, 81.1, 79.9, 78.6, 77.4, 76.2, 75.1, 73.9,
+  72.3, 70.7, 69.4, 68.0, 66.7, 65.3, 64.0, 62.6, 61.3, 59.9, 58.6,
+];
+
+/**
+ * Percentage of 1RM that `reps` at `rpe` represents, or null outside the
+ * chart (more than 12 reps or below RPE 6.5)
+ */
+export function rpePercentage(reps: number, rpe = 10): number | null {
+  const step = (reps - 1) * 2 + Math.round((10 - rpe) * 2);
+  if (reps < 1 || reps > 12 || rpe > 10 || step >= RPE_PERCENTAGES.length) {
+    return null;
+  }
+  return RPE_PERCENTAGES[step];
+}
+
+const epley = (reps: number, weight: number) => (reps === 1 ? weight : weight * (1 + reps / 30));
+
+/**
+ * Estimated 1RM for a set; 0 for sets without reps or weight
+ * Brzycki is undefined from 37 reps and the RPE chart stops at 12 reps, so
+ * those sets fall back to Epley (counting reps in reserve for RPE).
+ */
+export function estimateOneRepMax(
+  set: Pick<CompletedSet, 'reps' | 'weight' | 'rpe' | 'rir'>,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): number {
+  const { reps } = set;
+  const weight = set.weight ?? 0;
+  if (reps <= 0 || weight <= 0) {
+    return 0;
+  }
+
+  switch (formula) {
+    case 'brzycki':
+      return reps < 37 ? (weight * 36) / (37 - reps) : epley(reps, weight);
+    case 'lombardi':
+      return weight * Math.pow(reps, 0.1);
+    case 'rpe': {
+      const rpe = setRpe(set) ?? 10;
+      const percentage = rpePercentage(reps, rpe);
+      return percentage ? weight / (percentage / 100) : epley(reps + Math.max(0, 10 - rpe), weight);
+    }
+    default:
+      return epley(reps, weight);
+  }
+}
+
+/**
+ * Best e1RM per session that logged the exercise, oldest first
+ */
+export function oneRepMaxTrend(
+  sessions: WorkoutSession[],
+  exerciseId: string,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): { sessionId: string; date: number; oneRepMax: number }[] {
+  return [...sessions]
+    .sort((a, b) => a.startedAt - b.startedAt)
+    .map((session) => ({
+      sessionId: session.id,
+      date: session.completedAt ?? session.startedAt,
+      oneRepMax: Math.max(
+        0,
+        ...session.exercises
+          .filter((exercise) => exercise.exerciseId === exerciseId)
+          .flatMap((exercise) => withoutWarmUps(exercise.completedSets).map((set) => estimateOneRepMax(set, formula)))
+      ),
+    }))
+    .filter((point) => point.oneRepMax > 0);
+}
+
+/**
+ * Current e1RM for an exercise: the best estimate across `sessions`, or null
+ * if no weighted set was logged
+ */
+export function currentOneRepMax(
+  sessions: WorkoutSession[],
+  exerciseId: string,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): number | null {
+  const trend = oneRepMaxTrend(sessions, exerciseId, formula);
+  return trend.length > 0 ? Math.max(...trend.map((point) => point.oneRepMax)) : null;
+}
+
+/**
+ * Load for a percentage of a 1RM, rounded to the nearest `increment`
+ */
+export function weightForPercentage(oneRepMax: number, percent: number, increment = 5): number {
+  return Math.round((oneRepMax * percent) / 100 / increment) * increment;
+}
+
+/**
+ * Load for `reps` at `rpe` from a 1RM, rounded to the nearest `increment`
+ * Past the RPE chart the Epley formula is inverted, counting reps in reserve.
+ */
+export function weightForRpe(oneRepMax: number, reps: number, rpe: number, increment = 5): number {
+  const percent = rpePercentage(reps, rpe) ?? 100 / (1 + (reps + Math.max(0, 10 - rpe)) / 30);
+  return weightForPercentage(oneRepMax, percent, increment);
+}
+
+/**
+ * Next set's weight for an RPE target, from the e1RM of the latest working
+ * set in `sets` that logged RPE or RIR; null until one has
+ */
+export function autoregulatedWeight(
+  sets: CompletedSet[],
+  reps: number,
+  targetRpe: number,
+  increment = 5
+): { weight: number; oneRepMax: number } | null {
+  const latest = withoutWarmUps(sets)
+    .filter((set) => set.type !== 'drop' && setRpe(set) !== undefined && estimateOneRepMax(set, 'rpe') > 0)
+    .pop();
+  if (!latest) {
+    return null;
+  }
+  const oneRepMax = estimateOneRepMax(latest, 'rpe');
+  return { weight: weightForRpe(oneRepMax, reps, targetRpe, increment), oneRepMax };
+}
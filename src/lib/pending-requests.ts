@@ -0,0 +1,75 @@
+/**
+ * Pending requests
+ * Plans and sessions as they will be once the resource requests still in
+ * the sync queue reach the server, so changes made offline show up in
+ * lists loaded before they are sent.
+ */
+
+import type { ResourceRequest } from './api';
+import { CompletedSet, WorkoutPlan, WorkoutSession } from './types';
+
+const PLAN_PATH = /^\/plans\/([^/]+)$/;
+const SESSION_PATH = /^\/sessions\/([^/]+)$/;
+const SESSION_SETS_PATH = /^\/sessions\/([^/]+)\/sets$/;
+
+/** Id from a resource path, or undefined when the path doesn't match */
+const idFrom = (path: string, pattern: RegExp) => {
+  const match = path.match(pattern);
+  return match ? decodeURIComponent(match[1]) : undefined;
+};
+
+/**
+ * `plans` with the queued plan requests applied in order
+ */
+export function applyPlanRequests(plans: WorkoutPlan[], requests: ResourceRequest[]): WorkoutPlan[] {
+  return requests.reduce((current, { method, path, body }) => {
+    const planId = idFrom(path, PLAN_PATH);
+    if (planId === undefined) return current;
+    if (method === 'DELETE') return current.filter((plan) => plan.id !== planId);
+
+    const plan = body as WorkoutPlan;
+    return current.some((p) => p.id === planId)
+      ? current.map((p) => (p.id === planId ? plan : p))
+      : [...current, plan];
+  }, plans);
+}
+
+/**
+ * `sessions` with the queued session requests applied in order; a set
+ * already in the list (e.g. sent just before it loaded) isn't added again
+ */
+export function applySessionRequests(sessions: WorkoutSession[], requests: ResourceRequest[]): WorkoutSession[] {
+  return requests.reduce((current, { method, path, body }) => {
+    if (path === '/sessions' && method === 'POST') {
+      const session = body as WorkoutSession;
+      return current.some((s) => s.id === session.id) ? current : [...current, session];
+    }
+
+    const setsOf = idFrom(path, SESSION_SETS_PATH);
+    if (setsOf !== undefined) {
+      const { exerciseIndex, set } = body as { exerciseIndex: number; set: CompletedSet };
+      return current.map((session) =>
+        session.id === setsOf
+          ? {
+              ...session,
+              exercises: session.exercises.map((exercise, i) =>
+                i === exerciseIndex &&
+                !exercise.completedSets.some(
+                  (logged) => logged.setNumber === set.setNumber && logged.completedAt === set.completedAt
+                )
+                  ? { ...exercise, completedSets: [...exercise.completedSets, set] }
+                  : exercise
+              ),
+            }
+          : session
+      );
+    }
+
+    const sessionId = idFrom(path, SESSION_PATH);
+    if (sessionId === undefined) return current;
+    if (method === 'DELETE') return current.filter((session) => session.id !== sessionId);
+    return current.map((session) =>
+      session.id === sessionId ? { ...session, ...(body as Partial<WorkoutSession>), id: sessionId } : session
+    );
+  }, sessions);
+}
@@ -0,0 +1,158 @@
+/**
+ * Personal records
+ * Derived from logged sessions by replaying each exercise's sets in order
+ * and tracking the running bests. Records only count once the exercise was
+ * logged in an earlier session, so a first workout doesn't flag every set.
+ */
+
+import { DEFAULT_ONE_REP_MAX_FORMULA, estimateOneRepMax } from './one-rep-max';
+import { withoutWarmUps } from './set-types';
+import { CompletedSet, OneRepMaxFormula, PersonalRecord, PersonalRecordType, WeightUnit, WorkoutSession } from './types';
+import { formatWeight } from './units';
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordType, string> = {
+  'heaviest-weight': 'Heaviest weight',
+  'most-reps': 'Most reps',
+  'best-e1rm': 'Best estimated 1RM',
+  'best-volume': 'Best session volume',
+};
+
+const roundTenth = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Every personal record for an exercise, oldest first
+ * A best-volume record covers its whole session and reports the final volume.
+ */
+export function personalRecordHistory(
+  sessions: WorkoutSession[],
+  exerciseId: string,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): PersonalRecord[] {
+  const records: PersonalRecord[] = [];
+  const repsAtWeight = new Map<number, number>();
+  let bestWeight = 0;
+  let bestE1rm = 0;
+  let bestVolume = 0;
+  let hasBaseline = false;
+
+  [...sessions]
+    .sort((a, b) => a.startedAt - b.startedAt)
+    .forEach((session) => {
+      const sets = session.exercises
+        .filter((exercise) => exercise.exerciseId === exerciseId)
+        .flatMap((exercise) => withoutWarmUps(exercise.completedSets));
+      if (sets.length === 0) {
+        return;
+      }
+
+      let sessionVolume = 0;
+      let volumeRecord: PersonalRecord | null = null;
+
+      sets.forEach((set) => {
+        const weight = set.weight ?? 0;
+        // Logged weights stay unrounded so weights entered in kg convert back exactly
+        const round = (type: PersonalRecordType, value: number) => (type === 'heaviest-weight' ? value : roundTenth(value));
+        const record = (type: PersonalRecordType, value: number, previous: number): PersonalRecord => ({
+          exerciseId,
+          type,
+          value: round(type, value),
+          previous: round(type, previous),
+          weight: set.weight,
+          reps: set.reps,
+          sessionId: session.id,
+          setNumber: set.setNumber,
+          achievedAt: set.completedAt,
+        });
+
+        if (weight > bestWeight) {
+          if (hasBaseline) records.push(record('heaviest-weight', weight, bestWeight));
+          bestWeight = weight;
+        }
+
+        const previousReps = repsAtWeight.get(weight);
+        if (previousReps === undefined || set.reps > previousReps) {
+          if (hasBaseline && previousReps !== undefined) records.push(record('most-reps', set.reps, previousReps));
+          repsAtWeight.set(weight, set.reps);
+        }
+
+        const e1rm = estimateOneRepMax(set, formula);
+        if (e1rm > bestE1rm) {
+          if (hasBaseline) records.push(record('best-e1rm', e1rm, bestE1rm));
+          bestE1rm = e1rm;
+        }
+
+        sessionVolume += set.reps * weight;
+        if (hasBaseline && sessionVolume > bestVolume) {
+          if (volumeRecord) {
+            volumeRecord.value = roundTenth(sessionVolume);
+          } else {
+            volumeRecord = record('best-volume', sessionVolume, bestVolume);
+            records.push(volumeRecord);
+          }
+        }
+      });
+
+      bestVolume = Math.max(bestVolume, sessionVolume);
+      hasBaseline = true;
+    });
+
+  return records;
+}
+
+/**
+ * Personal record history for every exercise that has one
+ */
+export function personalRecordsByExercise(
+  sessions: WorkoutSession[],
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): Map<string, PersonalRecord[]> {
+  const exerciseIds = new Set(sessions.flatMap((session) => session.exercises.map((exercise) => exercise.exerciseId)));
+  const byExercise = new Map<string, PersonalRecord[]>();
+  exerciseIds.forEach((exerciseId) => {
+    const records = personalRecordHistory(sessions, exerciseId, formula);
+    if (records.length > 0) {
+      byExercise.set(exerciseId, records);
+    }
+  });
+  return byExercise;
+}
+
+/**
+ * Records that logging `set` to an exercise of the in-progress `session` would set
+ * `history` holds the other sessions to compare against.
+ */
+export function detectPersonalRecords(
+  history: WorkoutSession[],
+  session: WorkoutSession,
+  exerciseIndex: number,
+  set: CompletedSet,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): PersonalRecord[] {
+  const withSet: WorkoutSession = {
+    ...session,
+    exercises: session.exercises.map((exercise, i) =>
+      i === exerciseIndex ? { ...exercise, completedSets: [...exercise.completedSets, set] } : exercise
+    ),
+  };
+  const sessions = [...history.filter((s) => s.id !== session.id), withSet];
+
+  return personalRecordHistory(sessions, session.exercises[exerciseIndex].exerciseId, formula).filter(
+    (record) => record.sessionId === session.id && record.setNumber === set.setNumber && record.achievedAt === set.completedAt
+  );
+}
+
+/**
+ * Short description of a record's value, e.g. "12 reps @ 135 lbs"
+ */
+export function formatPersonalRecord(record: PersonalRecord, unit: WeightUnit = 'lbs'): string {
+  switch (record.type) {
+    case 'most-reps':
+      return record.weight ? `${record.value} reps @ ${formatWeight(record.weight, unit)}` : `${record.value} reps`;
+    case 'best-e1rm':
+      return `${formatWeight(record.value, unit, 1)} (${record.reps} × ${formatWeight(record.weight ?? 0, unit)})`;
+    case 'best-volume':
+      return formatWeight(record.value, unit, 1);
+    default:
+      return formatWeight(record.value, unit);
+  }
+}
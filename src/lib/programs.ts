@@ -0,0 +1,94 @@
+/**
+ * Programs
+ * Multi-day splits built from plans: importing templates, finding the day
+ * to train today and rotating to the next day after a workout.
+ */
+
+import { Program, ProgramDay, UnitSystem, WorkoutExercise, WorkoutPlan, WorkoutTemplate } from './types';
+import { DEFAULT_UNIT_SYSTEM, roundInUnit } from './units';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Mon/Wed/Fri, for templates without a suggested schedule */
+export const DEFAULT_PROGRAM_SCHEDULE = [1, 3, 5];
+
+export interface ScheduledWorkout {
+  dayIndex: number;
+  day: ProgramDay;
+  /** Whether `date` is one of the program's training weekdays */
+  isTrainingDay: boolean;
+}
+
+/** Metric plans snap template weights, written in lbs, to 2.5 kg steps */
+const METRIC_TEMPLATE_STEP = 2.5;
+
+function inUnitSystem(exercise: WorkoutExercise, unitSystem: UnitSystem): WorkoutExercise {
+  if (unitSystem === 'imperial') return exercise;
+  const snap = (lbs: number) => roundInUnit(lbs, 'kg', METRIC_TEMPLATE_STEP);
+  return {
+    ...exercise,
+    ...(exercise.weight ? { weight: snap(exercise.weight) } : {}),
+    ...(exercise.progression ? { progression: { ...exercise.progression, increment: snap(exercise.progression.increment) } } : {}),
+  };
+}
+
+/**
+ * Plans for each day of a template, plus a program tying them together
+ * when the template has more than one day
+ */
+export function importTemplate(
+  template: WorkoutTemplate,
+  now = Date.now(),
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+): { plans: WorkoutPlan[]; program: Program | null } {
+  const isProgram = template.days.length > 1;
+  const plans = template.days.map((day, index) => ({
+    id: isProgram ? `plan-${now}-${index + 1}` : `plan-${now}`,
+    name: isProgram ? `${template.name}: ${day.name}` : template.name,
+    description: template.description,
+    exercises: day.exercises.map((exercise) => inUnitSystem(exercise, unitSystem)),
+    groups: day.groups,
+    createdAt: now,
+  }));
+
+  const program: Program | null = isProgram
+    ? {
+        id: `program-${now}`,
+        name: template.name,
+        description: template.description,
+        days: template.days.map((day, index) => ({ name: day.name, planId: plans[index].id })),
+        schedule: template.schedule ?? DEFAULT_PROGRAM_SCHEDULE,
+        nextDayIndex: 0,
+        createdAt: now,
+      }
+    : null;
+
+  return { plans, program };
+}
+
+/**
+ * The program day to train next, and whether `date` is a training day
+ */
+export function todaysWorkout(program: Program, date = new Date()): ScheduledWorkout | null {
+  if (program.days.length === 0) {
+    return null;
+  }
+  const dayIndex = program.nextDayIndex % program.days.length;
+  return { dayIndex, day: program.days[dayIndex], isTrainingDay: program.schedule.includes(date.getDay()) };
+}
+
+/**
+ * Move the rotation past the day that was just completed
+ * Completing a day out of order continues from that day.
+ */
+export function advanceProgram(program: Program, completedPlanId: string): Program {
+  const index = program.days.findIndex((day) => day.planId === completedPlanId);
+  return index === -1 ? program : { ...program, nextDayIndex: (index + 1) % program.days.length };
+}
+
+/**
+ * IDs of every plan that is a program day
+ */
+export function programPlanIds(programs: Program[]): Set<string> {
+  return new Set(programs.flatMap((program) => program.days.map((day) => day.planId)));
+}
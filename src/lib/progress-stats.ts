@@ -0,0 +1,130 @@
+/**
+ * Progress statistics
+ * Per-exercise and per-muscle-group series for the progress charts,
+ * derived from completed sessions.
+ */
+
+import { startOfWeek, subDays } from 'date-fns';
+import { EXERCISE_LIBRARY, muscleShares } from './exercises';
+import { DEFAULT_ONE_REP_MAX_FORMULA, estimateOneRepMax } from './one-rep-max';
+import { withoutWarmUps } from './set-types';
+import { setDuration, signedLoad, trackingModeFor } from './tracking';
+import { CompletedSet, Exercise, MuscleGroup, OneRepMaxFormula, WorkoutSession } from './types';
+
+export type ProgressRange = '4w' | '12w' | '6m' | '1y' | 'all';
+
+export const PROGRESS_RANGES: Record<ProgressRange, { label: string; days: number | null }> = {
+  '4w': { label: '4 weeks', days: 28 },
+  '12w': { label: '12 weeks', days: 84 },
+  '6m': { label: '6 months', days: 182 },
+  '1y': { label: '1 year', days: 365 },
+  all: { label: 'All time', days: null },
+};
+
+export interface ExerciseProgressPoint {
+  sessionId: string;
+  date: number;
+  /** Heaviest weight lifted in the session; for bodyweight sets, added weight minus assistance */
+  topSetWeight: number;
+  /** Most reps in one set */
+  topSetReps: number;
+  /** Best estimated 1RM of the session */
+  oneRepMax: number;
+  /** Sum of reps × weight */
+  volume: number;
+  /** Total reps */
+  reps: number;
+  /** Total seconds worked, for timed exercises */
+  duration: number;
+  /** Longest single set (seconds) */
+  longestDuration: number;
+  /** Total meters covered */
+  distance: number;
+}
+
+/** One week of volume (reps × weight) per muscle group */
+export type WeeklyVolume = { weekStart: number } & Partial<Record<MuscleGroup, number>>;
+
+const sessionDate = (session: WorkoutSession) => session.completedAt ?? session.startedAt;
+
+/**
+ * Sessions completed within `range` of `now`
+ */
+export function sessionsInRange(sessions: WorkoutSession[], range: ProgressRange, now = Date.now()): WorkoutSession[] {
+  const { days } = PROGRESS_RANGES[range];
+  if (days === null) {
+    return sessions;
+  }
+  const since = subDays(now, days).getTime();
+  return sessions.filter((session) => sessionDate(session) >= since);
+}
+
+/**
+ * One point per session that logged the exercise, oldest first
+ */
+export function exerciseProgress(
+  sessions: WorkoutSession[],
+  exerciseId: string,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA,
+  library: Exercise[] = EXERCISE_LIBRARY
+): ExerciseProgressPoint[] {
+  const secondsOf =
+    trackingModeFor(exerciseId, library) === 'duration'
+      ? setDuration
+      : (set: CompletedSet) => set.durationSeconds ?? 0;
+  return [...sessions]
+    .sort((a, b) => sessionDate(a) - sessionDate(b))
+    .flatMap((session) => {
+      const sets = session.exercises
+        .filter((exercise) => exercise.exerciseId === exerciseId)
+        .flatMap((exercise) => withoutWarmUps(exercise.completedSets));
+      if (sets.length === 0) {
+        return [];
+      }
+      return [
+        {
+          sessionId: session.id,
+          date: sessionDate(session),
+          topSetWeight: Math.max(...sets.map(signedLoad)),
+          topSetReps: Math.max(...sets.map((set) => set.reps)),
+          oneRepMax: Math.round(Math.max(...sets.map((set) => estimateOneRepMax(set, formula))) * 10) / 10,
+          volume: sets.reduce((total, set) => total + set.reps * (set.weight ?? 0), 0),
+          reps: sets.reduce((total, set) => total + set.reps, 0),
+          duration: sets.reduce((total, set) => total + secondsOf(set), 0),
+          longestDuration: Math.max(...sets.map(secondsOf)),
+          distance: sets.reduce((total, set) => total + (set.distance ?? 0), 0),
+        },
+      ];
+    });
+}
+
+/**
+ * Volume per muscle group for each week (starting Monday) with logged sets,
+ * oldest first. Secondary muscles get their share of an exercise's volume.
+ * Exercises missing from `library` are skipped.
+ */
+export function weeklyMuscleGroupVolume(
+  sessions: WorkoutSession[],
+  library: Exercise[] = EXERCISE_LIBRARY
+): WeeklyVolume[] {
+  const shares = new Map(library.map((exercise) => [exercise.id, muscleShares(exercise)]));
+  const weeks = new Map<number, WeeklyVolume>();
+
+  sessions.forEach((session) => {
+    const weekStart = startOfWeek(sessionDate(session), { weekStartsOn: 1 }).getTime();
+    session.exercises.forEach((exercise) => {
+      const muscles = shares.get(exercise.exerciseId);
+      const volume = withoutWarmUps(exercise.completedSets).reduce((total, set) => total + set.reps * (set.weight ?? 0), 0);
+      if (!muscles || volume === 0) {
+        return;
+      }
+      const week = weeks.get(weekStart) ?? { weekStart };
+      muscles.forEach(({ muscleGroup, weight }) => {
+        week[muscleGroup] = (week[muscleGroup] ?? 0) + volume * weight;
+      });
+      weeks.set(weekStart, week);
+    });
+  });
+
+  return [...weeks.values()].sort((a, b) => a.weekStart - b.weekStart);
+}
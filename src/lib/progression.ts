@@ -0,0 +1,129 @@
+/**
+ * Progressive overload
+ * Suggests the next session's weight and reps for a plan exercise from its
+ * progression rule and the plan's previous sessions.
+ */
+
+import { isWarmUp } from './set-types';
+import { CompletedSet, ProgressionRule, WorkoutExercise, WorkoutSession } from './types';
+
+export const DEFAULT_DELOAD_PERCENT = 0.1;
+
+export type ProgressionOutcome = 'start' | 'increase' | 'add-reps' | 'hold' | 'deload';
+
+export interface ProgressionSuggestion {
+  weight: number;
+  reps: number;
+  outcome: ProgressionOutcome;
+  /** Short explanation for the lifter */
+  reason: string;
+}
+
+export const PROGRESSION_TYPES: Record<ProgressionRule['type'], string> = {
+  linear: 'Linear',
+  double: 'Double progression',
+};
+
+const roundToIncrement = (weight: number, increment: number) =>
+  increment > 0 ? Math.round(weight / increment) * increment : Math.round(weight);
+
+/** Working sets, AMRAP and failure sets; warm-ups and drop sets don't decide success */
+const workSets = (sets: CompletedSet[]) => sets.filter((set) => !isWarmUp(set) && set.type !== 'drop');
+
+function exerciseEntry(session: WorkoutSession, exerciseId: string) {
+  const entry = session.exercises.find(
+    (exercise) => exercise.exerciseId === exerciseId && workSets(exercise.completedSets).length > 0
+  );
+  return (
+    entry && { targetSets: entry.targetSets, targetReps: entry.targetReps, completedSets: workSets(entry.completedSets) }
+  );
+}
+
+/** Reps every set had to reach for the session to count as a success */
+function requiredReps(planExercise: WorkoutExercise, rule: ProgressionRule, targetReps?: number): number {
+  return targetReps ?? (rule.type === 'double' ? rule.repRangeMin ?? planExercise.reps : planExercise.reps);
+}
+
+/** Whether the session's target number of sets (the plan's, if it had none) all reached `reps` */
+function allSetsReach(sets: CompletedSet[], targetSets: number, reps: number): boolean {
+  return sets.length >= targetSets && sets.every((set) => set.reps >= reps);
+}
+
+/**
+ * Suggested weight and reps for the next session, or null when the plan
+ * exercise has no progression rule
+ * `sessions` are the plan's completed sessions, in any order.
+ */
+export function suggestProgression(
+  planExercise: WorkoutExercise,
+  sessions: WorkoutSession[]
+): ProgressionSuggestion | null {
+  const rule = planExercise.progression;
+  if (!rule) {
+    return null;
+  }
+
+  const minReps = rule.type === 'double' ? rule.repRangeMin ?? planExercise.reps : planExercise.reps;
+  const maxReps = rule.type === 'double' ? Math.max(rule.repRangeMax ?? minReps, minReps) : planExercise.reps;
+  const history = [...sessions]
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .flatMap((session) => {
+      const entry = exerciseEntry(session, planExercise.exerciseId);
+      return entry ? [entry] : [];
+    });
+
+  if (history.length === 0) {
+    return { weight: planExercise.weight ?? 0, reps: minReps, outcome: 'start', reason: 'Starting from the plan' };
+  }
+
+  const [last] = history;
+  const lastWeight = Math.max(0, ...last.completedSets.map((set) => set.weight ?? 0)) || (planExercise.weight ?? 0);
+  const firstSuccess = history.findIndex((entry) =>
+    allSetsReach(entry.completedSets, entry.targetSets ?? planExercise.sets, requiredReps(planExercise, rule, entry.targetReps))
+  );
+  const failedInARow = firstSuccess === -1 ? history.length : firstSuccess;
+
+  if (rule.deloadAfterFailures && failedInARow >= rule.deloadAfterFailures) {
+    return {
+      weight: roundToIncrement(lastWeight * (1 - (rule.deloadPercent ?? DEFAULT_DELOAD_PERCENT)), rule.increment),
+      reps: minReps,
+      outcome: 'deload',
+      reason: `Deload after ${failedInARow} missed sessions in a row`,
+    };
+  }
+
+  if (rule.type === 'double' && allSetsReach(last.completedSets, last.targetSets ?? planExercise.sets, maxReps)) {
+    return {
+      weight: lastWeight + rule.increment,
+      reps: minReps,
+      outcome: 'increase',
+      reason: `Hit ${maxReps} reps on every set last time`,
+    };
+  }
+
+  if (failedInARow > 0) {
+    return {
+      weight: lastWeight,
+      reps: requiredReps(planExercise, rule, last.targetReps),
+      outcome: 'hold',
+      reason: 'Missed reps last time, repeat the weight',
+    };
+  }
+
+  if (rule.type === 'linear') {
+    return {
+      weight: lastWeight + rule.increment,
+      reps: planExercise.reps,
+      outcome: 'increase',
+      reason: 'Hit every set last time',
+    };
+  }
+
+  const fewestReps = Math.min(...last.completedSets.map((set) => set.reps));
+  return {
+    weight: lastWeight,
+    reps: Math.min(maxReps, Math.max(minReps, fewestReps + 1)),
+    outcome: 'add-reps',
+    reason: `Add a rep, working up to ${maxReps}`,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Service worker registration
+ * The worker (generated by VitePWA, see vite.config.ts) precaches the app
+ * shell so FitTrack opens without a network. New deployments wait for the
+ * user to accept a reload instead of swapping code mid-workout.
+ */
+
+import { registerSW } from 'virtual:pwa-register';
+import { toast } from 'sonner';
+
+/**
+ * Register the service worker and show an update prompt when a new version is ready
+ */
+export function registerServiceWorker(): void {
+  if (!('serviceWorker' in navigator)) {
+    return;
+  }
+
+  const updateServiceWorker = registerSW({
+    onNeedRefresh() {
+      toast('A new version of FitTrack is available', {
+        duration: Infinity,
+        action: { label: 'Reload', onClick: () => updateServiceWorker(true) },
+      });
+    },
+    onOfflineReady() {
+      toast.success('FitTrack is ready to use offline');
+    },
+    onRegisterError(error) {
+      console.error('Service worker registration failed:', error);
+    },
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * Rest timer helpers
+ * The rest period is stored as a deadline on the active session, so the
+ * countdown is always derived from the clock rather than counted in memory.
+ */
+
+/** Step for the +/- buttons, in seconds */
+export const REST_ADJUST_SECONDS = 15;
+
+/**
+ * Whole seconds left until `endsAt` (rounded up, never negative)
+ */
+export function restSecondsLeft(endsAt: number, now: number = Date.now()): number {
+  return Math.max(0, Math.ceil((endsAt - now) / 1000));
+}
+
+/**
+ * Format seconds as m:ss
+ */
+export function formatRestTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Spoken form of a remaining time, e.g. "1 minute 30 seconds"
+ */
+export function describeRestTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  const parts = [
+    minutes > 0 ? `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}` : '',
+    rest > 0 || minutes === 0 ? `${rest} ${rest === 1 ? 'second' : 'seconds'}` : '',
+  ];
+  return parts.filter(Boolean).join(' ');
+}
+
+/**
+ * Whether a screen reader should hear the remaining time at this second:
+ * every 30 seconds and at the final 10
+ */
+export function isRestMilestone(seconds: number): boolean {
+  return seconds > 0 && (seconds % 30 === 0 || seconds === 10);
+}
+
+/**
+ * Beep and vibrate to signal the end of a rest period
+ * Both are best effort: browsers without Web Audio or vibration stay silent.
+ */
+export function playRestCue(): void {
+  navigator.vibrate?.([200, 100, 200]);
+
+  const AudioContextClass =
+    window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) {
+    return;
+  }
+  try {
+    const context = new AudioContextClass();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.2, context.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.6);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.onended = () => void context.close();
+    oscillator.start();
+    oscillator.stop(context.currentTime + 0.6);
+  } catch (error) {
+    console.warn('Could not play rest cue:', error);
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * RPE and reps in reserve (RIR)
+ * Sets can log effort on either scale; RIR 2 is the same effort as RPE 8.
+ */
+
+import { CompletedSet } from './types';
+
+export type EffortScale = 'rpe' | 'rir';
+
+/** Picker values, easiest first */
+export const EFFORT_SCALES: Record<EffortScale, { label: string; values: number[] }> = {
+  rpe: { label: 'RPE', values: [6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10] },
+  rir: { label: 'RIR', values: [5, 4, 3, 2, 1, 0] },
+};
+
+/**
+ * RPE of a set, converting from RIR when that is what was logged
+ */
+export function setRpe(set: Pick<CompletedSet, 'rpe' | 'rir'>): number | undefined {
+  if (set.rpe !== undefined) return set.rpe;
+  return set.rir !== undefined ? 10 - set.rir : undefined;
+}
+
+/**
+ * Effort as it was logged, e.g. "RPE 8" or "2 RIR"; null when not logged
+ */
+export function formatEffort(set: Pick<CompletedSet, 'rpe' | 'rir'>): string | null {
+  if (set.rpe !== undefined) return `RPE ${set.rpe}`;
+  return set.rir !== undefined ? `${set.rir} RIR` : null;
+}
@@ -0,0 +1,168 @@
+/**
+ * Zod schemas for the workout domain types
+ * Used by the backend to validate request bodies for the plan, session
+ * and exercise catalog resources. Unknown fields are passed through so
+ * older clients and newer fields can coexist.
+ */
+
+import { z } from 'zod';
+
+export const SessionStatusSchema = z.enum(['in-progress', 'completed', 'abandoned']);
+
+export const SetTypeSchema = z.enum(['warm-up', 'working', 'drop', 'amrap', 'failure']);
+
+export const CompletedSetSchema = z
+  .object({
+    setNumber: z.number().int().positive(),
+    type: SetTypeSchema.optional(),
+    reps: z.number().int().nonnegative(),
+    weight: z.number().nonnegative().optional(),
+    assistance: z.number().nonnegative().optional(),
+    durationSeconds: z.number().int().nonnegative().optional(),
+    distance: z.number().nonnegative().optional(),
+    unit: z.enum(['lbs', 'kg']).optional(),
+    rpe: z.number().min(1).max(10).optional(),
+    rir: z.number().int().nonnegative().max(10).optional(),
+    completedAt: z.number().int(),
+  })
+  .passthrough();
+
+export const ProgressionRuleSchema = z
+  .object({
+    type: z.enum(['linear', 'double']),
+    increment: z.number().nonnegative(),
+    repRangeMin: z.number().int().positive().optional(),
+    repRangeMax: z.number().int().positive().optional(),
+    deloadAfterFailures: z.number().int().nonnegative().optional(),
+    deloadPercent: z.number().min(0).max(1).optional(),
+  })
+  .passthrough();
+
+export const WorkoutExerciseSchema = z
+  .object({
+    exerciseId: z.string().min(1),
+    sets: z.number().int().positive(),
+    reps: z.number().int().nonnegative(),
+    weight: z.number().nonnegative().optional(),
+    assistance: z.number().nonnegative().optional(),
+    durationSeconds: z.number().int().nonnegative().optional(),
+    distance: z.number().nonnegative().optional(),
+    restSeconds: z.number().int().nonnegative().optional(),
+    percentOfOneRepMax: z.number().positive().max(150).optional(),
+    progression: ProgressionRuleSchema.optional(),
+    targetRpe: z.number().min(1).max(10).optional(),
+    barWeight: z.number().nonnegative().optional(),
+    warmUp: z.boolean().optional(),
+    lastSetType: z.enum(['amrap', 'failure']).optional(),
+    dropSets: z.number().int().nonnegative().optional(),
+    dropPercent: z.number().min(0).max(1).optional(),
+    groupId: z.string().min(1).optional(),
+  })
+  .passthrough();
+
+export const ExerciseGroupSchema = z
+  .object({
+    id: z.string().min(1),
+    type: z.enum(['superset', 'giant-set', 'circuit']),
+    rounds: z.number().int().positive(),
+    restSeconds: z.number().int().nonnegative(),
+  })
+  .passthrough();
+
+export const MesocycleSchema = z
+  .object({
+    startedAt: z.number().int(),
+    weeks: z
+      .array(
+        z
+          .object({
+            intensity: z.number().positive(),
+            volume: z.number().positive(),
+            deload: z.boolean().optional(),
+          })
+          .passthrough()
+      )
+      .min(1),
+  })
+  .passthrough();
+
+export const WorkoutPlanSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1),
+    description: z.string().default(''),
+    exercises: z.array(WorkoutExerciseSchema),
+    groups: z.array(ExerciseGroupSchema).optional(),
+    mesocycle: MesocycleSchema.optional(),
+    createdAt: z.number().int(),
+  })
+  .passthrough();
+
+export const SessionExerciseSchema = z
+  .object({
+    exerciseId: z.string().min(1),
+    exerciseName: z.string(),
+    targetSets: z.number().int().positive().optional(),
+    targetReps: z.number().int().nonnegative().optional(),
+    targetWeight: z.number().nonnegative().optional(),
+    substitutedFor: z.object({ exerciseId: z.string().min(1), exerciseName: z.string() }).optional(),
+    completedSets: z.array(CompletedSetSchema).default([]),
+  })
+  .passthrough();
+
+export const WorkoutSessionSchema = z
+  .object({
+    id: z.string().min(1),
+    planId: z.string(),
+    planName: z.string(),
+    startedAt: z.number().int(),
+    completedAt: z.number().int().optional(),
+    exercises: z.array(SessionExerciseSchema),
+    status: SessionStatusSchema,
+    restEndsAt: z.number().int().nullable().optional(),
+  })
+  .passthrough();
+
+const MuscleGroupSchema = z.enum(['chest', 'back', 'shoulders', 'biceps', 'triceps', 'legs', 'core', 'cardio', 'full-body']);
+
+export const ExerciseSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1),
+    muscleGroup: MuscleGroupSchema,
+    difficulty: z.enum(['beginner', 'intermediate', 'advanced']),
+    equipment: z.enum(['barbell', 'dumbbell', 'cable', 'machine', 'bodyweight']).optional(),
+    tracking: z.enum(['weight-reps', 'reps', 'duration', 'distance-duration', 'bodyweight']).optional(),
+    secondaryMuscles: z
+      .array(
+        z.object({
+          muscleGroup: MuscleGroupSchema,
+          weight: z.number().min(0).max(1),
+        })
+      )
+      .optional(),
+    movementPattern: z.enum(['squat', 'hinge', 'push', 'pull', 'carry']).optional(),
+    unilateral: z.boolean().optional(),
+    aliases: z.array(z.string()).optional(),
+    instructions: z.array(z.string()).default([]),
+    formCues: z.array(z.string()).default([]),
+    deprecated: z.boolean().optional(),
+  })
+  .passthrough();
+
+/**
+ * Body of POST /api/sessions/:id/sets
+ */
+export const NewSetSchema = z.object({
+  exerciseIndex: z.number().int().nonnegative(),
+  set: CompletedSetSchema,
+});
+
+/**
+ * Format a zod error as a single human-readable message
+ */
+export function formatSchemaError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
@@ -0,0 +1,142 @@
+/**
+ * Session history
+ * Editing finished workouts and logging ones done without the app.
+ * Personal records and statistics are worked out from the sessions, so
+ * they follow any change.
+ */
+
+import { EXERCISE_LIBRARY, findExercise } from './exercises';
+import { withoutWarmUps } from './set-types';
+import { CompletedSet, Exercise, WorkoutPlan, WorkoutSession } from './types';
+
+/** Length given to a newly logged past workout */
+export const DEFAULT_PAST_WORKOUT_MINUTES = 60;
+
+const MINUTE_MS = 60 * 1000;
+
+type SessionExercise = WorkoutSession['exercises'][number];
+
+/**
+ * An empty, completed session for a workout done at `startedAt`
+ */
+export function pastSession(startedAt: number, id = `session-${Date.now()}`): WorkoutSession {
+  return {
+    id,
+    planId: '',
+    planName: 'Past workout',
+    startedAt,
+    completedAt: startedAt + DEFAULT_PAST_WORKOUT_MINUTES * MINUTE_MS,
+    exercises: [],
+    status: 'completed',
+  };
+}
+
+/**
+ * Minutes from start to finish, rounded
+ */
+export function sessionMinutes(session: Pick<WorkoutSession, 'startedAt' | 'completedAt'>): number {
+  return session.completedAt ? Math.round((session.completedAt - session.startedAt) / MINUTE_MS) : 0;
+}
+
+/**
+ * Move a session to start at `startedAt` and last `minutes`; set times move
+ * with it and stay within the session
+ */
+export function retimeSession(session: WorkoutSession, startedAt: number, minutes: number): WorkoutSession {
+  const shift = startedAt - session.startedAt;
+  const completedAt = startedAt + Math.max(0, Math.round(minutes)) * MINUTE_MS;
+  return {
+    ...session,
+    startedAt,
+    completedAt,
+    exercises: session.exercises.map((exercise) => ({
+      ...exercise,
+      completedSets: exercise.completedSets.map((set) => ({
+        ...set,
+        completedAt: Math.min(Math.max(set.completedAt + shift, startedAt), completedAt),
+      })),
+    })),
+  };
+}
+
+/**
+ * Sets numbered from 1 in order
+ */
+export function renumberSets(sets: CompletedSet[]): CompletedSet[] {
+  return sets.map((set, index) => ({ ...set, setNumber: index + 1 }));
+}
+
+/**
+ * Replace one exercise's sets, renumbering them
+ */
+export function updateSessionSets(
+  session: WorkoutSession,
+  exerciseIndex: number,
+  update: (sets: CompletedSet[]) => CompletedSet[]
+): WorkoutSession {
+  return {
+    ...session,
+    exercises: session.exercises.map((exercise, index) =>
+      index === exerciseIndex ? { ...exercise, completedSets: renumberSets(update(exercise.completedSets)) } : exercise
+    ),
+  };
+}
+
+/**
+ * A set added after the fact: a copy of the exercise's last set, or an
+ * empty one, timed at the end of the session
+ */
+export function appendSet(session: WorkoutSession, exerciseIndex: number): WorkoutSession {
+  return updateSessionSets(session, exerciseIndex, (sets) => {
+    const last = sets[sets.length - 1];
+    const { rpe: _rpe, rir: _rir, ...values } = last ?? { setNumber: 0, reps: 0, completedAt: 0 };
+    return [...sets, { ...values, setNumber: 0, completedAt: session.completedAt ?? session.startedAt }];
+  });
+}
+
+/**
+ * An exercise from `library` with no sets yet, or the same sets under another
+ * exercise when `sets` are given
+ */
+export function sessionExercise(
+  exerciseId: string,
+  sets: CompletedSet[] = [],
+  library: Exercise[] = EXERCISE_LIBRARY
+): SessionExercise {
+  const name = findExercise(exerciseId, library)?.name ?? exerciseId;
+  return { exerciseId, exerciseName: name, completedSets: sets };
+}
+
+/**
+ * A plan for carrying on a session whose plan was deleted, from the
+ * session's own exercises and targets. It has no rest periods, groups or
+ * progression rules.
+ */
+export function planFromSession(session: WorkoutSession): WorkoutPlan {
+  return {
+    id: session.planId,
+    name: session.planName,
+    description: '',
+    exercises: session.exercises.map((exercise) => ({
+      exerciseId: exercise.substitutedFor?.exerciseId ?? exercise.exerciseId,
+      sets: exercise.targetSets ?? Math.max(withoutWarmUps(exercise.completedSets).length, 1),
+      reps: exercise.targetReps ?? 0,
+      weight: exercise.targetWeight,
+    })),
+    createdAt: session.startedAt,
+  };
+}
+
+/**
+ * The plan a session runs against, with one exercise per session exercise.
+ * The plan may have been edited since the session started, so exercises it
+ * no longer has at an index come from the session (see `planFromSession`).
+ */
+export function planForSession(session: WorkoutSession, savedPlan: WorkoutPlan | undefined): WorkoutPlan {
+  const fromSession = planFromSession(session);
+  if (!savedPlan) return fromSession;
+  return {
+    ...savedPlan,
+    exercises: fromSession.exercises.map((exercise, index) => savedPlan.exercises[index] ?? exercise),
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Set types
+ * Warm-up, working, drop, AMRAP and to-failure sets. Warm-ups are left out
+ * of volume, records and progress statistics.
+ */
+
+import { CompletedSet, SetType, WorkoutExercise } from './types';
+
+export const SET_TYPES: Record<SetType, string> = {
+  'warm-up': 'Warm-up',
+  working: 'Working',
+  drop: 'Drop set',
+  amrap: 'AMRAP',
+  failure: 'To failure',
+};
+
+/** Weight taken off for each drop set, as a share of the previous set */
+export const DEFAULT_DROP_PERCENT = 0.2;
+
+export const setTypeOf = (set: Pick<CompletedSet, 'type'>): SetType => set.type ?? 'working';
+
+export const isWarmUp = (set: Pick<CompletedSet, 'type'>) => set.type === 'warm-up';
+
+/**
+ * Sets that count towards statistics, i.e. everything but warm-ups
+ */
+export function withoutWarmUps<T extends Pick<CompletedSet, 'type'>>(sets: T[]): T[] {
+  return sets.filter((set) => !isWarmUp(set));
+}
+
+/**
+ * Planned type of each set after the warm-ups: `workingSets` sets, the last
+ * of which may be AMRAP or to failure, followed by any drop sets
+ */
+export function plannedSetTypes(exercise: WorkoutExercise, workingSets = exercise.sets): SetType[] {
+  return [
+    ...Array.from({ length: workingSets }, (_, i): SetType =>
+      i === workingSets - 1 && exercise.lastSetType ? exercise.lastSetType : 'working'
+    ),
+    ...Array.from({ length: exercise.dropSets ?? 0 }, (): SetType => 'drop'),
+  ];
+}
+
+/**
+ * Target weight for the `drop`th drop set (1-based), rounded to `increment`
+ */
+export function dropSetWeight(weight: number, drop: number, percent = DEFAULT_DROP_PERCENT, increment = 5): number {
+  return Math.round((weight * (1 - percent) ** drop) / increment) * increment;
+}
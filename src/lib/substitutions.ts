@@ -0,0 +1,114 @@
+/**
+ * Exercise substitutions
+ * Alternatives to an exercise that train the same muscles with the same
+ * movement, using equipment the gym has, and swapping one into a workout.
+ * A swapped-in exercise is logged under its own id and remembers the plan's
+ * exercise, so personal records and progression stay with the exercise
+ * actually done.
+ */
+
+import { EXERCISE_LIBRARY, findExercise, muscleShares, offeredExercises } from './exercises';
+import { withoutWarmUps } from './set-types';
+import { Equipment, Exercise, WorkoutSession } from './types';
+
+/** Alternatives offered for one exercise */
+export const MAX_ALTERNATIVES = 5;
+
+/** Muscle overlap an alternative with a different main muscle needs */
+const MIN_SHARED_MUSCLE = 0.5;
+
+/**
+ * How much of their volume two exercises credit to the same muscles:
+ * the smaller share of each muscle both work, summed
+ */
+export function sharedMuscle(a: Exercise, b: Exercise): number {
+  const sharesB = muscleShares(b);
+  return muscleShares(a).reduce((total, share) => {
+    const other = sharesB.find((candidate) => candidate.muscleGroup === share.muscleGroup);
+    return total + (other ? Math.min(share.weight, other.weight) : 0);
+  }, 0);
+}
+
+/**
+ * Whether the gym has the equipment an exercise needs. Bodyweight
+ * exercises and ones without equipment listed can always be done.
+ */
+export function isAvailable(exercise: Exercise, available?: Equipment[]): boolean {
+  return !available || !exercise.equipment || exercise.equipment === 'bodyweight' || available.includes(exercise.equipment);
+}
+
+/**
+ * Exercises that could stand in for `exerciseId`, best first: the same
+ * movement pattern (or main muscle, for exercises without one), working
+ * the same muscles, with equipment from `available`
+ */
+export function suggestAlternatives(
+  exerciseId: string,
+  library: Exercise[] = EXERCISE_LIBRARY,
+  available?: Equipment[],
+  limit = MAX_ALTERNATIVES
+): Exercise[] {
+  const exercise = findExercise(exerciseId, library);
+  if (!exercise) return [];
+
+  return offeredExercises(library)
+    .filter((candidate) => candidate.id !== exercise.id && isAvailable(candidate, available))
+    .filter((candidate) =>
+      exercise.movementPattern
+        ? candidate.movementPattern === exercise.movementPattern
+        : candidate.muscleGroup === exercise.muscleGroup
+    )
+    .map((candidate) => ({ candidate, shared: sharedMuscle(exercise, candidate) }))
+    .filter(({ candidate, shared }) => candidate.muscleGroup === exercise.muscleGroup || shared >= MIN_SHARED_MUSCLE)
+    .sort(
+      (a, b) =>
+        b.shared - a.shared ||
+        Number(b.candidate.equipment === exercise.equipment) - Number(a.candidate.equipment === exercise.equipment) ||
+        a.candidate.name.localeCompare(b.candidate.name)
+    )
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Weight of the heaviest working set the last time `exerciseId` was done,
+ * or undefined if it never was
+ */
+export function lastWorkingWeight(exerciseId: string, sessions: WorkoutSession[]): number | undefined {
+  const latest = [...sessions]
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .flatMap((session) => session.exercises)
+    .find((exercise) => exercise.exerciseId === exerciseId && withoutWarmUps(exercise.completedSets).length > 0);
+  return latest ? Math.max(...withoutWarmUps(latest.completedSets).map((set) => set.weight ?? 0)) || undefined : undefined;
+}
+
+/**
+ * Do `substituteId` in place of a session exercise that has no sets yet.
+ * Sets and reps stay; the weight comes from the substitute's own history.
+ * Swapping back to the plan's exercise clears the substitution and its
+ * weight, so the plan's weight applies again.
+ */
+export function substituteExercise(
+  session: WorkoutSession,
+  exerciseIndex: number,
+  substituteId: string,
+  library: Exercise[] = EXERCISE_LIBRARY,
+  history: WorkoutSession[] = []
+): WorkoutSession {
+  return {
+    ...session,
+    exercises: session.exercises.map((exercise, index) => {
+      if (index !== exerciseIndex) return exercise;
+      const planned = exercise.substitutedFor ?? { exerciseId: exercise.exerciseId, exerciseName: exercise.exerciseName };
+      const { substitutedFor: _previous, targetWeight: _weight, ...rest } = exercise;
+      const swapped = {
+        ...rest,
+        exerciseId: substituteId,
+        exerciseName: findExercise(substituteId, library)?.name ?? substituteId,
+      };
+      return substituteId === planned.exerciseId
+        ? swapped
+        : { ...swapped, targetWeight: lastWorkingWeight(substituteId, history), substitutedFor: planned };
+    }),
+  };
+}
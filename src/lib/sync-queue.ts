@@ -0,0 +1,293 @@
+/**
+ * Offline sync queue
+ * Writes from usePersistentState are saved to the offline store first and
+ * journaled, then replayed to the API in order. Plan and session writes
+ * (usePlans, useSessions) are journaled as the resource requests
+ * themselves, conditional on the revision of the plan or session last
+ * loaded. Replay stops at the first failed request and resumes when
+ * the browser comes back online, on the next write, or after a backoff
+ * delay.
+ */
+
+import { ApiConflictError, ApiError, ResourceRequest, apiSend, apiSetRevisioned } from './api';
+import {
+  CachedConflict,
+  appendJournal,
+  readCachedValue,
+  readJournal,
+  removeJournalEntries,
+  writeCachedValue,
+} from './offline-store';
+
+export type SyncState = 'synced' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  /** Journaled writes not yet on the server */
+  pending: number;
+}
+
+const RETRY_MIN_MS = 5_000;
+const RETRY_MAX_MS = 60_000;
+// Errors that will not go away by retrying the same request
+const isPermanentFailure = (status: number) => status >= 400 && status < 500 && ![401, 403, 408, 429].includes(status);
+
+let status: SyncStatus = { state: 'synced', pending: 0 };
+const statusListeners = new Set<() => void>();
+const conflictListeners = new Map<string, Set<(conflict: CachedConflict) => void>>();
+const rejectionListeners = new Set<(request: ResourceRequest) => void>();
+const requestsSyncedListeners = new Set<() => void>();
+let flushing: Promise<void> | null = null;
+// Replay to run after the current one, for writes queued while it runs
+let nextFlush: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = RETRY_MIN_MS;
+let started = false;
+
+function setStatus(next: SyncStatus): void {
+  if (next.state !== status.state || next.pending !== status.pending) {
+    status = next;
+    statusListeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Current sync status (stable between changes, for useSyncExternalStore)
+ */
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+export function subscribeSyncStatus(listener: () => void): () => void {
+  statusListeners.add(listener);
+  return () => statusListeners.delete(listener);
+}
+
+/**
+ * Be told when a queued write to `key` loses to a newer server revision
+ * For resource requests `key` is the collection, e.g. `/plans`, and the
+ * conflict's `local` is the request body.
+ */
+export function subscribeConflicts<T>(key: string, listener: (conflict: CachedConflict<T>) => void): () => void {
+  const listeners = conflictListeners.get(key) ?? new Set();
+  listeners.add(listener as (conflict: CachedConflict) => void);
+  conflictListeners.set(key, listeners);
+  return () => listeners.delete(listener as (conflict: CachedConflict) => void);
+}
+
+/**
+ * Be told when the server rejects a queued resource request, so the
+ * optimistic change it carried can be undone
+ */
+export function subscribeRejectedRequests(listener: (request: ResourceRequest) => void): () => void {
+  rejectionListeners.add(listener);
+  return () => rejectionListeners.delete(listener);
+}
+
+/**
+ * Be told when a replay has sent every queued resource request, so lists
+ * built from them can be reloaded from the server
+ */
+export function subscribeRequestsSynced(listener: () => void): () => void {
+  requestsSyncedListeners.add(listener);
+  return () => requestsSyncedListeners.delete(listener);
+}
+
+/**
+ * Resource requests waiting to be replayed, oldest first
+ */
+export async function pendingRequests(): Promise<ResourceRequest[]> {
+  return (await readJournal()).flatMap((entry) => (entry.request ? [entry.request] : []));
+}
+
+/**
+ * Whether `key` has writes waiting to be replayed
+ */
+export async function hasPendingWrites(key: string): Promise<boolean> {
+  return (await readJournal()).some((entry) => entry.key === key);
+}
+
+/**
+ * Cache a value loaded from the server
+ * A local value that is newer (queued or in conflict) is kept; only a
+ * missing revision is filled in so its replay can be conditional.
+ */
+export async function cacheServerValue<T>(key: string, value: T, revision: string | null): Promise<void> {
+  const cached = await readCachedValue<T>(key);
+  if (cached && (cached.conflict || (await hasPendingWrites(key)))) {
+    if (cached.revision === null) {
+      await writeCachedValue(key, { ...cached, revision });
+    }
+    return;
+  }
+  await writeCachedValue(key, { value, revision });
+}
+
+/**
+ * Cache the revisions of plans or sessions loaded from the server, keyed by path
+ * One with queued requests keeps the revision they were made on.
+ */
+export async function cacheServerRevisions(revisions: Record<string, string>): Promise<void> {
+  const pending = new Set((await pendingRequests()).map((request) => request.resource));
+  for (const [path, revision] of Object.entries(revisions)) {
+    if (pending.has(path) && (await readCachedValue(path))?.revision) continue;
+    await writeCachedValue(path, { value: null, revision });
+  }
+}
+
+/** Collection a plan or session path belongs to, e.g. `/plans` for `/plans/plan-1` */
+const collectionOf = (resource: string) => resource.slice(0, resource.indexOf('/', 1));
+
+async function enqueue(key: string, value: unknown, request?: ResourceRequest): Promise<void> {
+  await appendJournal(key, value, request);
+  setStatus({ state: status.state === 'synced' ? 'syncing' : status.state, pending: status.pending + 1 });
+  void flushQueue();
+}
+
+/**
+ * Save a value locally and queue it for the server
+ * While the key has an unresolved conflict the value is only kept locally.
+ */
+export async function queueWrite<T>(key: string, value: T): Promise<void> {
+  const cached = await readCachedValue<T>(key);
+  if (cached?.conflict) {
+    await writeCachedValue(key, { ...cached, value, conflict: { ...cached.conflict, local: value } });
+    return;
+  }
+  await writeCachedValue(key, { value, revision: cached?.revision ?? null });
+  await enqueue(key, value);
+}
+
+/**
+ * Queue a write to a resource endpoint, e.g. saving a plan
+ * It is retried until the server accepts or rejects it.
+ */
+export async function queueRequest(request: ResourceRequest): Promise<void> {
+  await enqueue(request.path, null, request);
+}
+
+/**
+ * Resolve a conflict by writing `value` over the server copy it was based on
+ */
+export async function resolveConflict<T>(key: string, value: T): Promise<void> {
+  const cached = await readCachedValue<T>(key);
+  await writeCachedValue(key, { value, revision: cached?.conflict?.revision ?? cached?.revision ?? null });
+  await enqueue(key, value);
+}
+
+function scheduleRetry(): void {
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void flushQueue();
+  }, retryDelay);
+  retryDelay = Math.min(retryDelay * 2, RETRY_MAX_MS);
+}
+
+async function replay(): Promise<void> {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  let entries = await readJournal();
+  let sentRequests = false;
+  while (entries.length > 0) {
+    const [entry] = entries;
+    sentRequests ||= !!entry.request;
+    setStatus({ state: 'syncing', pending: entries.length });
+    try {
+      if (entry.request) {
+        const { request } = entry;
+        // A creation or new set can't overwrite anything, so only edits are conditional
+        const sent = request.method === 'POST' ? undefined : await readCachedValue(request.resource);
+        const { revision } = await apiSend(request, sent?.revision ?? null);
+        await writeCachedValue(request.resource, { value: null, revision });
+      } else {
+        const sent = await readCachedValue(entry.key);
+        const { revision } = await apiSetRevisioned(entry.key, entry.value, sent?.revision ?? null);
+        // Re-read: a value saved during the request is newer and still queued, so only the revision moves on
+        const cached = await readCachedValue(entry.key);
+        await writeCachedValue(entry.key, cached ? { ...cached, revision } : { value: entry.value, revision });
+      }
+      await removeJournalEntries([entry.seq]);
+    } catch (error) {
+      if (error instanceof ApiConflictError && entry.request) {
+        const { request } = entry;
+        await writeCachedValue(request.resource, { value: null, revision: error.revision });
+        // Later edits to the same plan or session were based on the same stale revision; new sets still apply
+        await removeJournalEntries(
+          entries
+            .filter((e) => e.request?.resource === request.resource && e.request.method !== 'POST')
+            .map((e) => e.seq)
+        );
+        const conflict: CachedConflict = {
+          local: request.body ?? null,
+          server: error.current,
+          revision: error.revision,
+        };
+        conflictListeners.get(collectionOf(request.resource))?.forEach((listener) => listener(conflict));
+      } else if (error instanceof ApiConflictError) {
+        const cached = await readCachedValue(entry.key);
+        // Later writes to the same key were based on the same stale revision
+        const conflict: CachedConflict = {
+          local: cached?.value ?? entry.value,
+          server: error.current,
+          revision: error.revision,
+        };
+        await writeCachedValue(entry.key, { value: conflict.local, revision: cached?.revision ?? null, conflict });
+        await removeJournalEntries(entries.filter((e) => e.key === entry.key).map((e) => e.seq));
+        conflictListeners.get(entry.key)?.forEach((listener) => listener(conflict));
+      } else if (error instanceof ApiError && isPermanentFailure(error.status)) {
+        console.error(`Dropping rejected write to ${entry.key}:`, error);
+        await removeJournalEntries([entry.seq]);
+        if (entry.request) {
+          const { request } = entry;
+          rejectionListeners.forEach((listener) => listener(request));
+        }
+      } else {
+        console.warn(`Failed to persist ${entry.key}, will retry:`, error);
+        setStatus({ state: navigator.onLine ? 'error' : 'offline', pending: entries.length });
+        scheduleRetry();
+        return;
+      }
+    }
+    entries = await readJournal();
+  }
+
+  retryDelay = RETRY_MIN_MS;
+  setStatus({ state: 'synced', pending: 0 });
+  if (sentRequests) {
+    requestsSyncedListeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Replay journaled writes
+ * Calls made during a replay share a single follow-up replay.
+ */
+export function flushQueue(): Promise<void> {
+  if (flushing) {
+    nextFlush ??= flushing.then(() => {
+      nextFlush = null;
+      return flushQueue();
+    });
+    return nextFlush;
+  }
+  flushing = replay()
+    .catch((error) => console.error('Sync failed:', error))
+    .finally(() => {
+      flushing = null;
+    });
+  return flushing;
+}
+
+/**
+ * Replay writes left from earlier visits and whenever the browser reconnects
+ */
+export function startSync(): void {
+  if (!started) {
+    started = true;
+    window.addEventListener('online', () => void flushQueue());
+  }
+  void flushQueue();
+}
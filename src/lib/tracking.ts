@@ -0,0 +1,83 @@
+/**
+ * Tracking modes
+ * What each exercise records per set, and how those values are shown in
+ * the user's units. Bodyweight loads are signed, positive for added weight
+ * and negative for assistance.
+ */
+
+import { EXERCISE_LIBRARY, findExercise } from './exercises';
+import { formatRestTime } from './rest-timer';
+import { CompletedSet, Exercise, TrackingMode, UnitSystem, WeightUnit } from './types';
+import { DEFAULT_UNIT_SYSTEM, UNIT_SYSTEMS, displayDistance, formatWeight } from './units';
+
+export const DEFAULT_TRACKING_MODE: TrackingMode = 'weight-reps';
+
+export const TRACKING_MODES: Record<TrackingMode, string> = {
+  'weight-reps': 'Reps × weight',
+  reps: 'Reps only',
+  duration: 'Duration',
+  'distance-duration': 'Distance and time',
+  bodyweight: 'Bodyweight (added or assisted)',
+};
+
+/** Values a set, or a plan's per-set target, records */
+export type SetValues = Pick<CompletedSet, 'reps' | 'weight' | 'assistance' | 'durationSeconds' | 'distance'>;
+
+export function trackingModeFor(exerciseId: string, library: Exercise[] = EXERCISE_LIBRARY): TrackingMode {
+  return findExercise(exerciseId, library)?.tracking ?? DEFAULT_TRACKING_MODE;
+}
+
+/**
+ * Seconds held or worked; older timed sets stored the seconds in `reps`
+ */
+export function setDuration(values: Pick<SetValues, 'durationSeconds' | 'reps'>): number {
+  return values.durationSeconds ?? values.reps;
+}
+
+/**
+ * Added weight minus assistance
+ */
+export function signedLoad(values: Pick<SetValues, 'weight' | 'assistance'>): number {
+  return (values.weight ?? 0) - (values.assistance ?? 0);
+}
+
+/**
+ * Split a signed load back into added weight or assistance
+ */
+export function fromSignedLoad(load: number): Pick<SetValues, 'weight' | 'assistance'> {
+  return {
+    weight: load > 0 ? load : undefined,
+    assistance: load < 0 ? -load : undefined,
+  };
+}
+
+export function formatLoad(load: number, unit: WeightUnit = 'lbs'): string {
+  if (load > 0) return `+${formatWeight(load, unit)}`;
+  if (load < 0) return `${formatWeight(-load, unit)} assisted`;
+  return 'bodyweight';
+}
+
+/**
+ * One set, or a per-set target, in the exercise's terms, e.g.
+ * "10 reps @ 135 lbs", "0:45" or "1.5 mi in 12:30"
+ */
+export function formatSetValues(values: SetValues, mode: TrackingMode, system: UnitSystem = DEFAULT_UNIT_SYSTEM): string {
+  const units = UNIT_SYSTEMS[system];
+  switch (mode) {
+    case 'reps':
+      return `${values.reps} reps`;
+    case 'duration':
+      return formatRestTime(setDuration(values));
+    case 'distance-duration': {
+      const distance = values.distance ? `${displayDistance(values.distance, units.distance)} ${units.distance}` : null;
+      const time = values.durationSeconds ? formatRestTime(values.durationSeconds) : null;
+      return distance && time ? `${distance} in ${time}` : distance ?? time ?? '—';
+    }
+    case 'bodyweight': {
+      const load = signedLoad(values);
+      return load === 0 ? `${values.reps} reps` : `${values.reps} reps, ${formatLoad(load, units.weight)}`;
+    }
+    default:
+      return values.weight ? `${values.reps} reps @ ${formatWeight(values.weight, units.weight)}` : `${values.reps} reps`;
+  }
+}
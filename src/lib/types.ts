@@ -11,21 +11,145 @@ export type MuscleGroup =
 
 export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
 
+/**
+ * What a set of an exercise records
+ * - weight-reps: reps at a weight
+ * - reps: reps only
+ * - duration: time held or worked
+ * - distance-duration: distance covered and time taken
+ * - bodyweight: reps with added weight or assistance
+ */
+export type TrackingMode = 'weight-reps' | 'reps' | 'duration' | 'distance-duration' | 'bodyweight';
+
+export type Equipment = 'barbell' | 'dumbbell' | 'cable' | 'machine' | 'bodyweight';
+
+/** Basic movement an exercise trains */
+export type MovementPattern = 'squat' | 'hinge' | 'push' | 'pull' | 'carry';
+
+/**
+ * A muscle group worked by an exercise and the share of the exercise's
+ * volume credited to it, from 0 to 1
+ */
+export interface MuscleShare {
+  muscleGroup: MuscleGroup;
+  weight: number;
+}
+
 export interface Exercise {
   id: string;
   name: string;
   muscleGroup: MuscleGroup;
   difficulty: Difficulty;
+  /** What the exercise is loaded with; decides how suggested weights are rounded */
+  equipment?: Equipment;
+  /** Defaults to weight-reps */
+  tracking?: TrackingMode;
+  /** Muscles also worked; `muscleGroup` itself gets full credit */
+  secondaryMuscles?: MuscleShare[];
+  movementPattern?: MovementPattern;
+  /** Worked one side at a time */
+  unilateral?: boolean;
+  /** Other names to find the exercise by, e.g. "OHP" */
+  aliases?: string[];
   instructions: string[];
   formCues: string[];
+  /** Retired from the catalog: still found for past sessions and plans, but no longer offered */
+  deprecated?: boolean;
+}
+
+/**
+ * The built-in exercises as served by the backend; `version` goes up with
+ * every change and doubles as the ETag
+ */
+export interface ExerciseCatalog {
+  version: number;
+  exercises: Exercise[];
+}
+
+/**
+ * How a plan exercise's load goes up between sessions
+ * - linear: add `increment` after a session where every set hit the target reps
+ * - double: add reps up to `repRangeMax`, then add `increment` and drop back to `repRangeMin`
+ */
+export interface ProgressionRule {
+  type: 'linear' | 'double';
+  /** Weight added after a successful session (lbs) */
+  increment: number;
+  repRangeMin?: number;
+  repRangeMax?: number;
+  /** Deload after this many failed sessions in a row; absent or 0 never deloads */
+  deloadAfterFailures?: number;
+  /** Share of the weight dropped on a deload, e.g. 0.1 for 10% */
+  deloadPercent?: number;
 }
 
+/**
+ * Kind of set; warm-ups are left out of volume, records and statistics
+ */
+export type SetType = 'warm-up' | 'working' | 'drop' | 'amrap' | 'failure';
+
 export interface WorkoutExercise {
   exerciseId: string;
   sets: number;
   reps: number;
   weight?: number;
+  /** Bodyweight exercises: weight taken off by a band or machine (lbs) */
+  assistance?: number;
+  durationSeconds?: number;
+  /** Meters */
+  distance?: number;
   restSeconds?: number;
+  /** Target as a percentage of the estimated 1RM; `weight` holds the resolved load */
+  percentOfOneRepMax?: number;
+  progression?: ProgressionRule;
+  /** Target RPE for each working set; the weight adjusts to the RPE logged during the session */
+  targetRpe?: number;
+  /** Barbell exercises: bar used, in the equipment profile's unit, when not its first bar */
+  barWeight?: number;
+  /** Generate warm-up sets from the working weight using the warm-up scheme */
+  warmUp?: boolean;
+  /** Make the last working set AMRAP or to failure */
+  lastSetType?: 'amrap' | 'failure';
+  /** Drop sets after the working sets */
+  dropSets?: number;
+  /** Weight taken off for each drop set, e.g. 0.2 for 20% */
+  dropPercent?: number;
+  /** Group this exercise belongs to; members are neighbours in the plan */
+  groupId?: string;
+}
+
+export type ExerciseGroupType = 'superset' | 'giant-set' | 'circuit';
+
+/**
+ * Exercises done back to back, one set each per round, resting only after
+ * each round; members' `sets` equal `rounds`
+ */
+export interface ExerciseGroup {
+  id: string;
+  type: ExerciseGroupType;
+  rounds: number;
+  /** Rest after each round (seconds) */
+  restSeconds: number;
+}
+
+/**
+ * One week of a mesocycle, as multipliers on a plan's targets
+ */
+export interface MesocycleWeek {
+  /** Multiplier on target weight, e.g. 1.05 for +5% */
+  intensity: number;
+  /** Multiplier on target sets, e.g. 0.6 for 60% volume */
+  volume: number;
+  deload?: boolean;
+}
+
+/**
+ * A training block attached to a plan; week 1 starts at `startedAt` and
+ * the plan's own targets apply again once the last week is over
+ */
+export interface Mesocycle {
+  startedAt: number;
+  weeks: MesocycleWeek[];
 }
 
 export interface WorkoutPlan {
@@ -33,13 +157,28 @@ export interface WorkoutPlan {
   name: string;
   description: string;
   exercises: WorkoutExercise[];
+  groups?: ExerciseGroup[];
+  mesocycle?: Mesocycle;
   createdAt: number;
 }
 
 export interface CompletedSet {
   setNumber: number;
+  /** Absent for working sets */
+  type?: SetType;
   reps: number;
   weight?: number;
+  /** Bodyweight exercises: weight taken off by a band or machine (lbs) */
+  assistance?: number;
+  durationSeconds?: number;
+  /** Meters */
+  distance?: number;
+  /** Unit the weight was entered in; absent for lbs. `weight` and `assistance` are always lbs */
+  unit?: WeightUnit;
+  /** Rate of perceived exertion (1-10), when logged */
+  rpe?: number;
+  /** Reps in reserve, when logged instead of RPE */
+  rir?: number;
   completedAt: number;
 }
 
@@ -52,9 +191,102 @@ export interface WorkoutSession {
   exercises: {
     exerciseId: string;
     exerciseName: string;
+    /** Targets for this session, e.g. from a progression suggestion or mesocycle week */
+    targetSets?: number;
+    targetReps?: number;
+    targetWeight?: number;
+    /** The plan's exercise, when this one was done in its place */
+    substitutedFor?: { exerciseId: string; exerciseName: string };
     completedSets: CompletedSet[];
   }[];
   status: 'in-progress' | 'completed' | 'abandoned';
+  /** When the current rest period ends (epoch ms); null or absent when not resting */
+  restEndsAt?: number | null;
+}
+
+export type UnitSystem = 'imperial' | 'metric';
+
+export type WeightUnit = 'lbs' | 'kg';
+
+export type DistanceUnit = 'mi' | 'km';
+
+/**
+ * Formula used to estimate a one-rep max from a set
+ */
+export type OneRepMaxFormula = 'epley' | 'brzycki' | 'lombardi' | 'rpe';
+
+/**
+ * Per-user settings, stored under the `user-preferences` key
+ */
+export interface UserPreferences {
+  oneRepMaxFormula: OneRepMaxFormula;
+  /** Units shown and entered; storage is always lbs and meters */
+  unitSystem: UnitSystem;
+  /** Ramp-up before the first working set of exercises with warm-ups turned on */
+  warmUpScheme: WarmUpStep[];
+  equipment: EquipmentProfile;
+}
+
+/**
+ * The gym's equipment, in `unit`; suggested weights round to loads it can make
+ */
+export interface EquipmentProfile {
+  /** Absent for lbs */
+  unit?: WeightUnit;
+  /** The first bar is the default for barbell exercises */
+  barWeights: number[];
+  /** Plate sizes available, loaded in pairs */
+  plates: number[];
+  dumbbellIncrement: number;
+  /** Weight stack steps on cable and plate-free machines */
+  machineIncrement: number;
+  /** Kinds of equipment the gym has, for suggesting alternatives; absent means all */
+  available?: Equipment[];
+}
+
+/**
+ * One generated warm-up set: `reps` at `percent` of the working weight, or
+ * with the empty bar when `percent` is absent
+ */
+export interface WarmUpStep {
+  percent?: number;
+  reps: number;
+}
+
+export type PersonalRecordType = 'heaviest-weight' | 'most-reps' | 'best-e1rm' | 'best-volume';
+
+/**
+ * A set (or, for volume, a session) that beat an exercise's previous best
+ */
+export interface PersonalRecord {
+  exerciseId: string;
+  type: PersonalRecordType;
+  /** New best: weight, reps at `weight`, estimated 1RM or session volume */
+  value: number;
+  /** Best it beat */
+  previous: number;
+  /** Weight of the set; for most-reps, the weight the reps were done at */
+  weight?: number;
+  reps?: number;
+  sessionId: string;
+  setNumber: number;
+  achievedAt: number;
+}
+
+/**
+ * Filters for listing sessions from the API
+ */
+export interface SessionQuery {
+  status?: WorkoutSession['status'];
+  planId?: string;
+  /** Only the N most recently started sessions */
+  limit?: number;
+}
+
+export interface TemplateDay {
+  name: string;
+  exercises: WorkoutExercise[];
+  groups?: ExerciseGroup[];
 }
 
 export interface WorkoutTemplate {
@@ -64,7 +296,36 @@ export interface WorkoutTemplate {
   goals: string;
   difficulty: Difficulty;
   programType: 'strength' | 'hypertrophy' | 'powerlifting' | 'general-fitness';
-  exercises: WorkoutExercise[];
+  /** One day imports as a plan; several import as a program */
+  days: TemplateDay[];
+  /** Suggested training weekdays for programs (0 = Sunday) */
+  schedule?: number[];
+}
+
+/**
+ * One training day of a program; its exercises live in its own plan, so
+ * sessions, progression and records work per day
+ */
+export interface ProgramDay {
+  name: string;
+  planId: string;
+}
+
+/**
+ * A multi-day split, stored under the `workout-programs` key
+ * Days rotate in order on the scheduled weekdays: a missed training day is
+ * picked up on the next one.
+ */
+export interface Program {
+  id: string;
+  name: string;
+  description: string;
+  days: ProgramDay[];
+  /** Training weekdays (0 = Sunday) */
+  schedule: number[];
+  /** Index into `days` of the next workout */
+  nextDayIndex: number;
+  createdAt: number;
 }
 // Authentication Types
 export interface User {
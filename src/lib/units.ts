@@ -0,0 +1,61 @@
+/**
+ * Units
+ * Weights are stored in lbs and distances in meters, and converted to the
+ * user's unit system at the edges. Weights entered in kg are stored
+ * unrounded, so they convert back to exactly what was entered.
+ */
+
+import { DistanceUnit, UnitSystem, WeightUnit } from './types';
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'imperial';
+
+export const UNIT_SYSTEMS: Record<UnitSystem, { label: string; weight: WeightUnit; distance: DistanceUnit }> = {
+  imperial: { label: 'Imperial (lbs, mi)', weight: 'lbs', distance: 'mi' },
+  metric: { label: 'Metric (kg, km)', weight: 'kg', distance: 'km' },
+};
+
+export const LBS_PER_KG = 2.20462262185;
+
+export const METERS_PER_MILE = 1609.344;
+
+const roundTo = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * A stored weight (lbs) in `unit`, unrounded
+ */
+export const toWeightUnit = (lbs: number, unit: WeightUnit) => (unit === 'kg' ? lbs / LBS_PER_KG : lbs);
+
+/**
+ * A weight entered in `unit` as stored lbs
+ */
+export const fromWeightUnit = (value: number, unit: WeightUnit) => (unit === 'kg' ? value * LBS_PER_KG : value);
+
+/**
+ * A stored weight for display or editing in `unit`, to `digits` decimals
+ */
+export const displayWeight = (lbs: number, unit: WeightUnit, digits = 2) => roundTo(toWeightUnit(lbs, unit), digits);
+
+export const formatWeight = (lbs: number, unit: WeightUnit, digits = 2) => `${displayWeight(lbs, unit, digits)} ${unit}`;
+
+/**
+ * Snap a stored weight to a multiple of `step` in `unit`, e.g. template
+ * weights to 2.5 kg steps for metric users
+ */
+export const roundInUnit = (lbs: number, unit: WeightUnit, step: number) =>
+  fromWeightUnit(Math.round(toWeightUnit(lbs, unit) / step) * step, unit);
+
+export const metersToMiles = (meters: number) => Math.round((meters / METERS_PER_MILE) * 100) / 100;
+
+export const milesToMeters = (miles: number) => Math.round(miles * METERS_PER_MILE);
+
+/**
+ * A stored distance (meters) in `unit`, to two decimals
+ */
+export const displayDistance = (meters: number, unit: DistanceUnit) =>
+  unit === 'km' ? roundTo(meters / 1000, 2) : metersToMiles(meters);
+
+/**
+ * A distance entered in `unit` as stored meters
+ */
+export const fromDistanceUnit = (value: number, unit: DistanceUnit) =>
+  unit === 'km' ? Math.round(value * 1000) : milesToMeters(value);
@@ -0,0 +1,39 @@
+/**
+ * Warm-up sets
+ * Builds the ramp-up before the first working set from a scheme of
+ * percentages of the working weight, rounded to loads the equipment can make.
+ */
+
+import { LoadRounding, barbellRounding } from './equipment';
+import { WarmUpStep } from './types';
+
+/** Bar ×10, 40% ×5, 60% ×3, 80% ×1 */
+export const DEFAULT_WARM_UP_SCHEME: WarmUpStep[] = [
+  { reps: 10 },
+  { percent: 40, reps: 5 },
+  { percent: 60, reps: 3 },
+  { percent: 80, reps: 1 },
+];
+
+/**
+ * Warm-up sets for a working weight; steps that round to the working
+ * weight or to the load of the step before are left out, as are empty bar
+ * steps for exercises without a bar
+ */
+export function warmUpSets(
+  workingWeight: number,
+  scheme: WarmUpStep[] = DEFAULT_WARM_UP_SCHEME,
+  rounding: LoadRounding = barbellRounding()
+): { reps: number; weight: number }[] {
+  const sets: { reps: number; weight: number }[] = [];
+  scheme.forEach((step) => {
+    const weight = step.percent === undefined ? rounding.bar : rounding.round((workingWeight * step.percent) / 100);
+    if (weight && weight < workingWeight && weight !== sets[sets.length - 1]?.weight) {
+      sets.push({ reps: step.reps, weight });
+    }
+  });
+  return sets;
+}
+
+export const describeWarmUpStep = (step: WarmUpStep) =>
+  `${step.percent === undefined ? 'Bar' : `${step.percent}%`} × ${step.reps}`;
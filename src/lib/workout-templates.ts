@@ -8,11 +8,35 @@ export const WORKOUT_TEMPLATES: WorkoutTemplate[] = [
     goals: 'Build muscle mass and strength with optimal recovery. Perfect for intermediate lifters looking to train 3-6 days per week.',
     difficulty: 'intermediate',
     programType: 'hypertrophy',
-    exercises: [
-      { exerciseId: 'bench-press', sets: 4, reps: 8, weight: 135, restSeconds: 120 },
-      { exerciseId: 'overhead-press', sets: 3, reps: 10, weight: 65, restSeconds: 90 },
-      { exerciseId: 'cable-fly', sets: 3, reps: 12, weight: 30, restSeconds: 60 },
-      { exerciseId: 'tricep-dip', sets: 3, reps: 10, restSeconds: 90 }
+    schedule: [1, 2, 3, 4, 5, 6],
+    days: [
+      {
+        name: 'Push',
+        exercises: [
+          { exerciseId: 'bench-press', sets: 4, reps: 8, weight: 135, restSeconds: 120 },
+          { exerciseId: 'overhead-press', sets: 3, reps: 10, weight: 65, restSeconds: 90 },
+          { exerciseId: 'cable-fly', sets: 3, reps: 12, weight: 30, restSeconds: 60 },
+          { exerciseId: 'tricep-dip', sets: 3, reps: 10, restSeconds: 90 }
+        ]
+      },
+      {
+        name: 'Pull',
+        exercises: [
+          { exerciseId: 'pull-up', sets: 4, reps: 8, restSeconds: 120 },
+          { exerciseId: 'dumbbell-row', sets: 3, reps: 10, weight: 55, restSeconds: 90 },
+          { exerciseId: 'lat-pulldown', sets: 3, reps: 12, weight: 100, restSeconds: 60 },
+          { exerciseId: 'bicep-curl', sets: 3, reps: 12, weight: 25, restSeconds: 60 }
+        ]
+      },
+      {
+        name: 'Legs',
+        exercises: [
+          { exerciseId: 'barbell-squat', sets: 4, reps: 8, weight: 155, warmUp: true, restSeconds: 150 },
+          { exerciseId: 'romanian-deadlift', sets: 3, reps: 10, weight: 135, restSeconds: 120 },
+          { exerciseId: 'leg-press', sets: 3, reps: 12, weight: 230, restSeconds: 90 },
+          { exerciseId: 'lunges', sets: 3, reps: 12, weight: 30, restSeconds: 60 }
+        ]
+      }
     ]
   },
   {
@@ -22,10 +46,15 @@ export const WORKOUT_TEMPLATES: WorkoutTemplate[] = [
     goals: 'Build raw strength and muscle foundation. Ideal for beginners and those returning to lifting after a break.',
     difficulty: 'beginner',
     programType: 'strength',
-    exercises: [
-      { exerciseId: 'barbell-squat', sets: 5, reps: 5, weight: 135, restSeconds: 180 },
-      { exerciseId: 'bench-press', sets: 5, reps: 5, weight: 115, restSeconds: 180 },
-      { exerciseId: 'dumbbell-row', sets: 5, reps: 5, weight: 50, restSeconds: 120 }
+    days: [
+      {
+        name: 'Workout',
+        exercises: [
+          { exerciseId: 'barbell-squat', sets: 5, reps: 5, weight: 135, warmUp: true, restSeconds: 180 },
+          { exerciseId: 'bench-press', sets: 5, reps: 5, weight: 115, restSeconds: 180 },
+          { exerciseId: 'dumbbell-row', sets: 5, reps: 5, weight: 50, restSeconds: 120 }
+        ]
+      }
     ]
   },
   {
@@ -35,11 +64,26 @@ export const WORKOUT_TEMPLATES: WorkoutTemplate[] = [
     goals: 'Maximize muscle growth and strength with balanced frequency. Great for intermediate to advanced lifters training 4 days per week.',
     difficulty: 'intermediate',
     programType: 'hypertrophy',
-    exercises: [
-      { exerciseId: 'bench-press', sets: 4, reps: 6, weight: 155, restSeconds: 120 },
-      { exerciseId: 'pull-up', sets: 4, reps: 8, restSeconds: 120 },
-      { exerciseId: 'overhead-press', sets: 3, reps: 10, weight: 75, restSeconds: 90 },
-      { exerciseId: 'dumbbell-row', sets: 3, reps: 10, weight: 60, restSeconds: 90 }
+    schedule: [1, 2, 4, 5],
+    days: [
+      {
+        name: 'Upper',
+        exercises: [
+          { exerciseId: 'bench-press', sets: 4, reps: 6, weight: 155, restSeconds: 120 },
+          { exerciseId: 'pull-up', sets: 4, reps: 8, restSeconds: 120 },
+          { exerciseId: 'overhead-press', sets: 3, reps: 10, weight: 75, restSeconds: 90 },
+          { exerciseId: 'dumbbell-row', sets: 3, reps: 10, weight: 60, restSeconds: 90 }
+        ]
+      },
+      {
+        name: 'Lower',
+        exercises: [
+          { exerciseId: 'barbell-squat', sets: 4, reps: 6, weight: 185, warmUp: true, restSeconds: 150 },
+          { exerciseId: 'romanian-deadlift', sets: 3, reps: 8, weight: 155, restSeconds: 120 },
+          { exerciseId: 'leg-press', sets: 3, reps: 10, weight: 270, restSeconds: 90 },
+          { exerciseId: 'lunges', sets: 3, reps: 10, weight: 40, restSeconds: 60 }
+        ]
+      }
     ]
   },
   {
@@ -49,12 +93,17 @@ export const WORKOUT_TEMPLATES: WorkoutTemplate[] = [
     goals: 'Build overall fitness, learn proper form, and establish workout routine. Perfect for complete beginners starting their fitness journey.',
     difficulty: 'beginner',
     programType: 'general-fitness',
-    exercises: [
-      { exerciseId: 'barbell-squat', sets: 3, reps: 10, weight: 95, restSeconds: 90 },
-      { exerciseId: 'push-up', sets: 3, reps: 12, restSeconds: 60 },
-      { exerciseId: 'dumbbell-row', sets: 3, reps: 10, weight: 35, restSeconds: 90 },
-      { exerciseId: 'overhead-press', sets: 3, reps: 10, weight: 45, restSeconds: 90 },
-      { exerciseId: 'plank', sets: 3, reps: 30, restSeconds: 60 }
+    days: [
+      {
+        name: 'Workout',
+        exercises: [
+          { exerciseId: 'barbell-squat', sets: 3, reps: 10, weight: 95, restSeconds: 90 },
+          { exerciseId: 'push-up', sets: 3, reps: 12, restSeconds: 60 },
+          { exerciseId: 'dumbbell-row', sets: 3, reps: 10, weight: 35, restSeconds: 90 },
+          { exerciseId: 'overhead-press', sets: 3, reps: 10, weight: 45, restSeconds: 90 },
+          { exerciseId: 'plank', sets: 3, reps: 0, durationSeconds: 30, restSeconds: 60 }
+        ]
+      }
     ]
   },
   {
@@ -64,10 +113,15 @@ export const WORKOUT_TEMPLATES: WorkoutTemplate[] = [
     goals: 'Maximize strength in the three main powerlifting movements. Designed for advanced lifters preparing for competition or strength goals.',
     difficulty: 'advanced',
     programType: 'powerlifting',
-    exercises: [
-      { exerciseId: 'barbell-squat', sets: 5, reps: 3, weight: 225, restSeconds: 240 },
-      { exerciseId: 'bench-press', sets: 5, reps: 3, weight: 185, restSeconds: 240 },
-      { exerciseId: 'deadlift', sets: 5, reps: 3, weight: 275, restSeconds: 300 }
+    days: [
+      {
+        name: 'Workout',
+        exercises: [
+          { exerciseId: 'barbell-squat', sets: 5, reps: 3, weight: 225, warmUp: true, restSeconds: 240 },
+          { exerciseId: 'bench-press', sets: 5, reps: 3, weight: 185, restSeconds: 240 },
+          { exerciseId: 'deadlift', sets: 5, reps: 3, weight: 275, warmUp: true, restSeconds: 300 }
+        ]
+      }
     ]
   },
   {
@@ -77,12 +131,17 @@ export const WORKOUT_TEMPLATES: WorkoutTemplate[] = [
     goals: 'Build muscle mass in upper body pulling and pushing muscles. Great for intermediate lifters in a hypertrophy phase.',
     difficulty: 'intermediate',
     programType: 'hypertrophy',
-    exercises: [
-      { exerciseId: 'bench-press', sets: 4, reps: 10, weight: 135, restSeconds: 90 },
-      { exerciseId: 'dumbbell-row', sets: 4, reps: 10, weight: 55, restSeconds: 90 },
-      { exerciseId: 'cable-fly', sets: 3, reps: 15, weight: 25, restSeconds: 60 },
-      { exerciseId: 'lat-pulldown', sets: 3, reps: 12, weight: 100, restSeconds: 60 },
-      { exerciseId: 'push-up', sets: 3, reps: 15, restSeconds: 45 }
+    days: [
+      {
+        name: 'Workout',
+        exercises: [
+          { exerciseId: 'bench-press', sets: 4, reps: 10, weight: 135, restSeconds: 90 },
+          { exerciseId: 'dumbbell-row', sets: 4, reps: 10, weight: 55, restSeconds: 90 },
+          { exerciseId: 'cable-fly', sets: 3, reps: 15, weight: 25, restSeconds: 60 },
+          { exerciseId: 'lat-pulldown', sets: 3, reps: 12, weight: 100, restSeconds: 60 },
+          { exerciseId: 'push-up', sets: 3, reps: 15, restSeconds: 45 }
+        ]
+      }
     ]
   },
   {
@@ -92,11 +151,16 @@ export const WORKOUT_TEMPLATES: WorkoutTemplate[] = [
     goals: 'Build lower body strength and muscle. Ideal for lifters who want to focus on leg development and strength gains.',
     difficulty: 'intermediate',
     programType: 'strength',
-    exercises: [
-      { exerciseId: 'barbell-squat', sets: 5, reps: 5, weight: 185, restSeconds: 180 },
-      { exerciseId: 'romanian-deadlift', sets: 4, reps: 8, weight: 155, restSeconds: 120 },
-      { exerciseId: 'leg-press', sets: 4, reps: 12, weight: 270, restSeconds: 90 },
-      { exerciseId: 'lunges', sets: 3, reps: 12, weight: 40, restSeconds: 90 }
+    days: [
+      {
+        name: 'Workout',
+        exercises: [
+          { exerciseId: 'barbell-squat', sets: 5, reps: 5, weight: 185, warmUp: true, restSeconds: 180 },
+          { exerciseId: 'romanian-deadlift', sets: 4, reps: 8, weight: 155, restSeconds: 120 },
+          { exerciseId: 'leg-press', sets: 4, reps: 12, weight: 270, restSeconds: 90 },
+          { exerciseId: 'lunges', sets: 3, reps: 12, weight: 40, restSeconds: 90 }
+        ]
+      }
     ]
   },
   {
@@ -106,11 +170,16 @@ export const WORKOUT_TEMPLATES: WorkoutTemplate[] = [
     goals: 'Develop functional strength and fitness anywhere. Perfect for beginners, home workouts, or travel.',
     difficulty: 'beginner',
     programType: 'general-fitness',
-    exercises: [
-      { exerciseId: 'push-up', sets: 4, reps: 12, restSeconds: 60 },
-      { exerciseId: 'pull-up', sets: 3, reps: 6, restSeconds: 90 },
-      { exerciseId: 'lunges', sets: 3, reps: 15, restSeconds: 60 },
-      { exerciseId: 'plank', sets: 3, reps: 45, restSeconds: 60 }
+    days: [
+      {
+        name: 'Workout',
+        exercises: [
+          { exerciseId: 'push-up', sets: 4, reps: 12, restSeconds: 60 },
+          { exerciseId: 'pull-up', sets: 3, reps: 6, restSeconds: 90 },
+          { exerciseId: 'lunges', sets: 3, reps: 15, restSeconds: 60 },
+          { exerciseId: 'plank', sets: 3, reps: 0, durationSeconds: 45, restSeconds: 60 }
+        ]
+      }
     ]
   },
   {
@@ -120,12 +189,17 @@ export const WORKOUT_TEMPLATES: WorkoutTemplate[] = [
     goals: 'Push strength limits while maintaining muscle mass. For experienced lifters ready for advanced programming.',
     difficulty: 'advanced',
     programType: 'strength',
-    exercises: [
-      { exerciseId: 'deadlift', sets: 5, reps: 3, weight: 315, restSeconds: 240 },
-      { exerciseId: 'bench-press', sets: 5, reps: 5, weight: 205, restSeconds: 180 },
-      { exerciseId: 'barbell-squat', sets: 4, reps: 6, weight: 245, restSeconds: 180 },
-      { exerciseId: 'overhead-press', sets: 4, reps: 6, weight: 115, restSeconds: 120 },
-      { exerciseId: 'pull-up', sets: 4, reps: 8, restSeconds: 90 }
+    days: [
+      {
+        name: 'Workout',
+        exercises: [
+          { exerciseId: 'deadlift', sets: 5, reps: 3, weight: 315, warmUp: true, restSeconds: 240 },
+          { exerciseId: 'bench-press', sets: 5, reps: 5, weight: 205, restSeconds: 180 },
+          { exerciseId: 'barbell-squat', sets: 4, reps: 6, weight: 245, warmUp: true, restSeconds: 180 },
+          { exerciseId: 'overhead-press', sets: 4, reps: 6, weight: 115, restSeconds: 120 },
+          { exerciseId: 'pull-up', sets: 4, reps: 8, restSeconds: 90 }
+        ]
+      }
     ]
   },
   {
@@ -135,12 +209,18 @@ export const WORKOUT_TEMPLATES: WorkoutTemplate[] = [
     goals: 'Improve cardiovascular endurance, burn calories, and maintain muscle. Great for general fitness and conditioning.',
     difficulty: 'beginner',
     programType: 'general-fitness',
-    exercises: [
-      { exerciseId: 'barbell-squat', sets: 3, reps: 15, weight: 75, restSeconds: 30 },
-      { exerciseId: 'push-up', sets: 3, reps: 15, restSeconds: 30 },
-      { exerciseId: 'dumbbell-row', sets: 3, reps: 15, weight: 30, restSeconds: 30 },
-      { exerciseId: 'lunges', sets: 3, reps: 20, restSeconds: 30 },
-      { exerciseId: 'plank', sets: 3, reps: 30, restSeconds: 30 }
+    days: [
+      {
+        name: 'Workout',
+        exercises: [
+          { exerciseId: 'barbell-squat', sets: 3, reps: 15, weight: 75, groupId: 'circuit' },
+          { exerciseId: 'push-up', sets: 3, reps: 15, groupId: 'circuit' },
+          { exerciseId: 'dumbbell-row', sets: 3, reps: 15, weight: 30, groupId: 'circuit' },
+          { exerciseId: 'lunges', sets: 3, reps: 20, groupId: 'circuit' },
+          { exerciseId: 'plank', sets: 3, reps: 0, durationSeconds: 30, groupId: 'circuit' }
+        ],
+        groups: [{ id: 'circuit', type: 'circuit', rounds: 3, restSeconds: 90 }]
+      }
     ]
   }
 ];
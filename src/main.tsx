@@ -5,6 +5,7 @@ import "@github/spark/spark"
 import App from './App.tsx'
 import { ErrorFallback } from './ErrorFallback.tsx'
 import { AuthProvider } from './contexts/AuthContext'
+import { registerServiceWorker } from './lib/pwa'
 
 import "./main.css"
 import "./styles/theme.css"
@@ -17,3 +18,5 @@ createRoot(document.getElementById('root')!).render(
     </AuthProvider>
    </ErrorBoundary>
 )
+
+registerServiceWorker()
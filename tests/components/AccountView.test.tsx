@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { screen, fireEvent } from '@testing-library/react';
+import { screen, fireEvent, within } from '@testing-library/react';
 import { render } from '../test-utils';
 import { AccountView } from '../../src/components/AccountView';
 
@@ -82,4 +82,41 @@ describe('AccountView', () => {
     expect(screen.getByText(/data privacy/i)).toBeInTheDocument();
     expect(screen.getByText(/your workout data is stored securely/i)).toBeInTheDocument();
   });
+
+  it('edits the warm-up scheme', () => {
+    render(<AccountView />);
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(4);
+    expect(screen.getByLabelText('Warm-up 2 percent of working weight (empty for the bar)')).toHaveValue(40);
+
+    fireEvent.click(screen.getByRole('button', { name: /add step/i }));
+    expect(screen.getByLabelText('Warm-up 5 percent of working weight (empty for the bar)')).toHaveValue(90);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove warm-up 1 (Bar × 10)' }));
+    expect(screen.getAllByRole('listitem')).toHaveLength(4);
+  });
+
+  it('edits the equipment profile', () => {
+    render(<AccountView />);
+
+    const bars = screen.getByRole('group', { name: 'Bars (lbs)' });
+    const womensBar = within(bars).getByRole('button', { name: '35' });
+    expect(within(bars).getByRole('button', { name: '45' })).toHaveAttribute('aria-pressed', 'true');
+    expect(womensBar).toHaveAttribute('aria-pressed', 'false');
+
+    fireEvent.click(womensBar);
+    expect(womensBar).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByLabelText('Dumbbell steps (lbs)')).toHaveValue(5);
+  });
+
+  it('shows the unit system and switches equipment to kg', () => {
+    render(<AccountView />);
+
+    expect(screen.getByRole('combobox', { name: 'Units' })).toHaveTextContent('Imperial (lbs, mi)');
+
+    fireEvent.click(screen.getByRole('radio', { name: 'kg' }));
+    const bars = screen.getByRole('group', { name: 'Bars (kg)' });
+    expect(within(bars).getByRole('button', { name: '20' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByLabelText('Dumbbell steps (kg)')).toHaveValue(2);
+  });
 });
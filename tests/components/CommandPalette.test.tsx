@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import { useMemo, useState } from 'react';
+import { render, screen } from '../test-utils';
+import userEvent from '@testing-library/user-event';
+import { CommandPalette } from '@/components/CommandPalette';
+import { CommandPaletteContext, PlanTarget } from '@/hooks/use-command-palette';
+
+/** The palette with the context App gives it */
+function PaletteHarness({
+  planTarget = null,
+  onOpenExercise = vi.fn(),
+  onStartPlan = vi.fn(),
+}: {
+  planTarget?: PlanTarget | null;
+  onOpenExercise?: (exerciseId: string) => void;
+  onStartPlan?: (planId: string) => void;
+}) {
+  const [isOpen, setOpen] = useState(false);
+  const [target, setPlanTarget] = useState(planTarget);
+  const value = useMemo(
+    () => ({ isOpen, setOpen, planTarget: target, setPlanTarget }),
+    [isOpen, target]
+  );
+  return (
+    <CommandPaletteContext.Provider value={value}>
+      <CommandPalette onOpenExercise={onOpenExercise} onStartPlan={onStartPlan} />
+    </CommandPaletteContext.Provider>
+  );
+}
+
+describe('CommandPalette', () => {
+  it('should open with Ctrl+K and show a picked exercise', async () => {
+    const user = userEvent.setup();
+    const onOpenExercise = vi.fn();
+    render(<PaletteHarness onOpenExercise={onOpenExercise} />);
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    await user.keyboard('{Control>}k{/Control}');
+
+    await user.type(await screen.findByRole('combobox'), 'ohp');
+    await user.click(screen.getByRole('option', { name: /overhead press/i }));
+
+    expect(onOpenExercise).toHaveBeenCalledWith('overhead-press');
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('should rank exercises despite a typo', async () => {
+    const user = userEvent.setup();
+    render(<PaletteHarness />);
+
+    await user.keyboard('{Control>}k{/Control}');
+    await user.type(await screen.findByRole('combobox'), 'dedlift');
+
+    const options = screen.getAllByRole('option').map((option) => option.textContent);
+    expect(options[0]).toMatch(/deadlift/i);
+  });
+
+  it('should add exercises to the plan being edited', async () => {
+    const user = userEvent.setup();
+    const addExercise = vi.fn();
+    render(<PaletteHarness planTarget={{ planName: 'Leg Day', addExercise }} />);
+
+    await user.keyboard('{Control>}k{/Control}');
+    await user.type(await screen.findByRole('combobox'), 'lunge');
+
+    expect(screen.getByRole('group', { name: 'Add to Leg Day' })).toBeInTheDocument();
+    await user.click(screen.getByRole('option', { name: /add walking lunges/i }));
+
+    expect(addExercise).toHaveBeenCalledWith('lunges');
+  });
+
+  it('should start a matching plan', async () => {
+    localStorage.setItem(
+      'workout-plans',
+      JSON.stringify([{ id: 'plan-1', name: 'Upper Body', description: '', exercises: [], createdAt: 1 }])
+    );
+    const user = userEvent.setup();
+    const onStartPlan = vi.fn();
+    render(<PaletteHarness onStartPlan={onStartPlan} />);
+
+    await user.keyboard('{Control>}k{/Control}');
+    await user.type(await screen.findByRole('combobox'), 'uper');
+    await user.click(await screen.findByRole('option', { name: /start upper body/i }));
+
+    expect(onStartPlan).toHaveBeenCalledWith('plan-1');
+  });
+
+  it('should list plans created after the app loaded', async () => {
+    const user = userEvent.setup();
+    render(<PaletteHarness />);
+    await user.keyboard('{Control>}k{/Control}');
+    await user.keyboard('{Escape}');
+
+    localStorage.setItem(
+      'workout-plans',
+      JSON.stringify([{ id: 'plan-2', name: 'Lower Body', description: '', exercises: [], createdAt: 2 }])
+    );
+    await user.keyboard('{Control>}k{/Control}');
+    await user.type(await screen.findByRole('combobox'), 'lower');
+
+    expect(await screen.findByRole('option', { name: /start lower body/i })).toBeInTheDocument();
+  });
+});
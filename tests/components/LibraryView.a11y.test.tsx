@@ -4,11 +4,12 @@ import { axe } from 'jest-axe';
 import { LibraryView } from '@/components/LibraryView';
 
 describe('LibraryView - Accessibility', () => {
+  // Scanning every exercise in the library takes longer than the default timeout
   it('should not have any accessibility violations', async () => {
     const { container } = render(<LibraryView />);
     const results = await axe(container);
     expect(results).toHaveNoViolations();
-  });
+  }, 15000);
 
   it('should have proper heading hierarchy', () => {
     const { getByRole } = render(<LibraryView />);
@@ -1,8 +1,11 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { render, screen, waitFor } from '../test-utils';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor, within } from '../test-utils';
 import { LibraryView } from '@/components/LibraryView';
 import userEvent from '@testing-library/user-event';
 
+// Flows that query and re-render the whole library several times outlast the default timeout
+const FULL_LIBRARY_FLOW_TIMEOUT = 15_000;
+
 describe('LibraryView - Behavior', () => {
   beforeEach(() => {
     localStorage.clear();
@@ -191,4 +194,128 @@ describe('LibraryView - Behavior', () => {
     const finalStatus = screen.getByRole('status');
     expect(finalStatus.textContent).toBe(initialCount);
   });
+
+  it('should show personal record history for an exercise', async () => {
+    const user = userEvent.setup();
+    const session = (id: string, startedAt: number, weight: number) => ({
+      id,
+      planId: 'plan-1',
+      planName: 'Push Day',
+      startedAt,
+      exercises: [
+        {
+          exerciseId: 'bench-press',
+          exerciseName: 'Barbell Bench Press',
+          completedSets: [{ setNumber: 1, reps: 5, weight, completedAt: startedAt + 1000 }],
+        },
+      ],
+      status: 'completed',
+    });
+    localStorage.setItem(
+      'workout-sessions',
+      JSON.stringify([session('session-1', Date.now() - 86_400_000, 135), session('session-2', Date.now(), 155)])
+    );
+    render(<LibraryView />);
+
+    await user.click(screen.getByRole('button', { name: /barbell bench press/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Heaviest weight')).toBeInTheDocument();
+    });
+    expect(screen.getByText('155 lbs')).toBeInTheDocument();
+  });
+
+  it('should create a custom exercise', async () => {
+    const user = userEvent.setup();
+    render(<LibraryView />);
+
+    await user.click(screen.getByRole('button', { name: /new exercise/i }));
+    const dialog = screen.getByRole('dialog', { name: 'Create Exercise' });
+    await user.type(within(dialog).getByLabelText('Exercise name'), 'Hack Squat');
+    await user.type(within(dialog).getByLabelText(/instructions/i), 'Set the pads{enter}Squat down');
+    await user.click(within(dialog).getByRole('button', { name: 'Create Exercise' }));
+
+    await user.click(await screen.findByText('Hack Squat'));
+    expect(screen.getByText('Custom')).toBeInTheDocument();
+    expect(screen.getByText('Set the pads')).toBeInTheDocument();
+    expect(screen.getByText('Squat down')).toBeInTheDocument();
+  }, FULL_LIBRARY_FLOW_TIMEOUT);
+
+  it('should not delete a custom exercise that a plan uses', async () => {
+    const user = userEvent.setup();
+    localStorage.setItem(
+      'custom-exercises',
+      JSON.stringify([
+        { id: 'custom-1', name: 'Hack Squat', muscleGroup: 'legs', difficulty: 'beginner', instructions: [], formCues: [] },
+      ])
+    );
+    localStorage.setItem(
+      'workout-plans',
+      JSON.stringify([
+        { id: 'plan-1', name: 'Leg Day', description: '', exercises: [{ exerciseId: 'custom-1', sets: 3, reps: 10 }], createdAt: 0 },
+      ])
+    );
+    render(<LibraryView />);
+
+    // Wait for the custom exercise by its text: a role query over the whole
+    // library is too slow to retry within findBy's timeout
+    await user.click(await screen.findByText('Hack Squat'));
+    await user.click(screen.getByRole('button', { name: 'Delete Hack Squat' }));
+
+    // Plans load separately from custom exercises
+    const alert = screen.getByRole('alertdialog');
+    expect(await within(alert).findByText(/remove it from leg day/i)).toBeInTheDocument();
+    expect(within(alert).queryByRole('button', { name: 'Delete exercise' })).not.toBeInTheDocument();
+  }, FULL_LIBRARY_FLOW_TIMEOUT);
+
+  it('should find exercises by alias', async () => {
+    const user = userEvent.setup();
+    render(<LibraryView />);
+
+    await user.type(screen.getByLabelText('Search exercises'), 'ohp');
+
+    expect(screen.getByRole('status')).toHaveTextContent('1 exercise');
+    expect(screen.getByText('Overhead Press')).toBeInTheDocument();
+  });
+
+  it('should filter by secondary muscles and unilateral exercises', async () => {
+    const user = userEvent.setup();
+    render(<LibraryView />);
+
+    await user.click(screen.getByRole('tab', { name: /triceps/i }));
+    expect(screen.getByText('Barbell Bench Press')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('tab', { name: /^all$/i }));
+    await user.click(screen.getByRole('switch', { name: 'One side at a time' }));
+    expect(screen.getByRole('status')).toHaveTextContent('2 exercises');
+    expect(screen.getByText('Single-Arm Dumbbell Row')).toBeInTheDocument();
+  });
+
+  it('should show muscles worked with their share of the volume', async () => {
+    const user = userEvent.setup();
+    render(<LibraryView />);
+
+    await user.click(screen.getByRole('button', { name: /barbell bench press/i }));
+
+    expect(screen.getByText('chest, triceps 50%, shoulders 50%')).toBeInTheDocument();
+    expect(screen.getByText('Bench, Flat Bench')).toBeInTheDocument();
+  });
+
+  it('should rank the best matches first', async () => {
+    const user = userEvent.setup();
+    render(<LibraryView />);
+
+    await user.type(screen.getByLabelText('Search exercises'), 'dedlift');
+
+    expect(screen.getAllByRole('button', { name: /deadlift/i })).toHaveLength(2);
+    expect(screen.getAllByRole('button')[0]).toHaveTextContent(/deadlift/i);
+  });
+
+  it('should expand an exercise picked elsewhere', async () => {
+    const onExerciseOpened = vi.fn();
+    render(<LibraryView openExerciseId="plank" onExerciseOpened={onExerciseOpened} />);
+
+    expect(onExerciseOpened).toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: /plank/i })).toHaveAttribute('aria-expanded', 'true');
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { render, screen } from '../test-utils';
+import { render, screen, fireEvent, waitFor, within } from '../test-utils';
 import { axe } from 'jest-axe';
 import { ProgressView } from '@/components/ProgressView';
 import type { WorkoutSession } from '@/lib/types';
@@ -65,6 +65,17 @@ describe('ProgressView - Accessibility', () => {
     expect(h2).toBeInTheDocument();
   });
 
+  it('should give progress charts accessible names and labelled pickers', async () => {
+    localStorage.setItem('workout-sessions', JSON.stringify([mockSession]));
+
+    render(<ProgressView />);
+
+    expect(await screen.findByRole('img', { name: /estimated 1rm for bench press/i })).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: /weekly volume by muscle group/i })).toBeInTheDocument();
+    expect(screen.getByLabelText('Exercise')).toBeInTheDocument();
+    expect(screen.getByLabelText('Time range')).toBeInTheDocument();
+  });
+
   it('should have proper heading hierarchy in session cards', async () => {
     localStorage.setItem('workout-sessions', JSON.stringify([mockSession]));
     
@@ -166,4 +177,58 @@ describe('ProgressView - Accessibility', () => {
     const badges = screen.getAllByText(/chest|back|shoulders|arms|legs|core/i);
     expect(badges.length).toBeGreaterThan(0);
   });
+
+  it('should edit a past session and recompute its records', async () => {
+    localStorage.setItem('workout-sessions', JSON.stringify([mockSession]));
+
+    const { baseElement } = render(<ProgressView />);
+    fireEvent.click(await screen.findByRole('button', { name: /edit push day on/i }));
+
+    const dialog = screen.getByRole('dialog', { name: 'Edit Workout' });
+    fireEvent.change(within(dialog).getByLabelText('Bench Press set 1 weight (lbs)'), { target: { value: '185' } });
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Remove Bench Press set 3' }));
+    expect(within(dialog).queryByLabelText('Bench Press set 3 reps')).not.toBeInTheDocument();
+
+    const results = await axe(baseElement);
+    expect(results).toHaveNoViolations();
+
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Save Workout' }));
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+    // Epley: 185 × (1 + 10 / 30)
+    const trends = screen.getByRole('heading', { level: 2, name: 'Estimated 1RM' }).parentElement!;
+    expect(within(trends).getByText('247 lbs')).toBeInTheDocument();
+    expect(screen.getByText('Total Sets').previousSibling).toHaveTextContent('4');
+  });
+
+  it('should log a past workout', async () => {
+    localStorage.setItem('workout-sessions', JSON.stringify([mockSession]));
+
+    render(<ProgressView />);
+    await screen.findByText(mockSession.planName);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Log past workout' }));
+    const dialog = screen.getByRole('dialog', { name: 'Log Past Workout' });
+    expect(within(dialog).queryByRole('button', { name: 'Delete' })).not.toBeInTheDocument();
+
+    fireEvent.change(within(dialog).getByLabelText('Workout name'), { target: { value: 'Leg Day' } });
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Add Exercise' }));
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Add set' }));
+    fireEvent.change(within(dialog).getByLabelText('Barbell Squat set 1 reps'), { target: { value: '5' } });
+    fireEvent.change(within(dialog).getByLabelText('Barbell Squat set 1 weight (lbs)'), { target: { value: '225' } });
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Save Workout' }));
+
+    expect(await screen.findByText('Leg Day')).toBeInTheDocument();
+    expect(screen.getByText('Total Workouts').previousSibling).toHaveTextContent('2');
+  });
+
+  it('should delete a session after confirmation', async () => {
+    localStorage.setItem('workout-sessions', JSON.stringify([mockSession]));
+
+    render(<ProgressView />);
+    fireEvent.click(await screen.findByRole('button', { name: /edit push day on/i }));
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Delete workout' }));
+
+    expect(await screen.findByRole('heading', { name: /no completed workouts yet/i })).toBeInTheDocument();
+  });
 });
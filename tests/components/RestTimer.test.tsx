@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { RestTimer } from '@/components/RestTimer';
+import { describeRestTime, formatRestTime, restSecondsLeft } from '@/lib/rest-timer';
+
+describe('rest timer helpers', () => {
+  it('rounds remaining time up to whole seconds', () => {
+    expect(restSecondsLeft(10_500, 10_000)).toBe(1);
+    expect(restSecondsLeft(10_000, 12_000)).toBe(0);
+  });
+
+  it('formats times for display and for screen readers', () => {
+    expect(formatRestTime(95)).toBe('1:35');
+    expect(formatRestTime(5)).toBe('0:05');
+    expect(describeRestTime(90)).toBe('1 minute 30 seconds');
+    expect(describeRestTime(120)).toBe('2 minutes');
+    expect(describeRestTime(1)).toBe('1 second');
+  });
+});
+
+describe('RestTimer', () => {
+  const handlers = () => ({ onAdjust: vi.fn(), onSkip: vi.fn(), onFinish: vi.fn() });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts down from the persisted deadline and finishes at zero', () => {
+    const props = handlers();
+    const vibrate = vi.fn();
+    Object.defineProperty(navigator, 'vibrate', { value: vibrate, configurable: true });
+
+    render(<RestTimer endsAt={Date.now() + 45_000} {...props} />);
+    expect(screen.getByText('0:45')).toBeInTheDocument();
+    expect(document.getElementById('sr-announcer')).toHaveTextContent('Rest started, 45 seconds remaining');
+
+    act(() => {
+      vi.advanceTimersByTime(15_000);
+    });
+    expect(screen.getByText('0:30')).toBeInTheDocument();
+    expect(document.getElementById('sr-announcer')).toHaveTextContent('30 seconds rest remaining');
+    expect(props.onFinish).not.toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(30_000);
+    });
+    expect(props.onFinish).toHaveBeenCalledTimes(1);
+    expect(vibrate).toHaveBeenCalled();
+    expect(document.getElementById('sr-announcer')).toHaveTextContent('Rest over');
+    Reflect.deleteProperty(navigator, 'vibrate');
+  });
+
+  it('announces a new rest when keyed on its deadline', () => {
+    const props = handlers();
+    const first = Date.now() + 60_000;
+    const { rerender } = render(<RestTimer key={first} endsAt={first} {...props} />);
+
+    act(() => {
+      vi.advanceTimersByTime(20_000);
+    });
+    const second = Date.now() + 90_000;
+    rerender(<RestTimer key={second} endsAt={second} {...props} />);
+
+    expect(screen.getByText('1:30')).toBeInTheDocument();
+    expect(document.getElementById('sr-announcer')).toHaveTextContent('Rest started, 1 minute 30 seconds remaining');
+  });
+
+  it('adjusts and skips through the callbacks', () => {
+    const props = handlers();
+    render(<RestTimer endsAt={Date.now() + 60_000} {...props} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add 15 seconds' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Subtract 15 seconds' }));
+    fireEvent.click(screen.getByRole('button', { name: /skip/i }));
+
+    expect(props.onAdjust.mock.calls).toEqual([[15], [-15]]);
+    expect(props.onSkip).toHaveBeenCalledTimes(1);
+  });
+
+  it('finishes silently when the deadline passed before it mounted', () => {
+    const props = handlers();
+    render(<RestTimer endsAt={Date.now() - 5_000} {...props} />);
+
+    expect(props.onFinish).toHaveBeenCalledTimes(1);
+    expect(document.getElementById('sr-announcer')).not.toHaveTextContent('Rest over');
+  });
+});
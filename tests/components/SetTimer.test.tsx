@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { SetTimer } from '@/components/SetTimer';
+
+describe('SetTimer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts down from the target and reports it at zero', () => {
+    const onStop = vi.fn();
+    render(<SetTimer targetSeconds={30} onStop={onStop} />);
+    expect(screen.getByText('0:30')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /start timer/i }));
+    expect(document.getElementById('sr-announcer')).toHaveTextContent('Timer started, 30 seconds');
+
+    act(() => {
+      vi.advanceTimersByTime(10_000);
+    });
+    expect(screen.getByText('0:20')).toBeInTheDocument();
+    expect(onStop).not.toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(20_000);
+    });
+    expect(onStop).toHaveBeenCalledWith(30);
+    expect(document.getElementById('sr-announcer')).toHaveTextContent('Time, set done');
+    expect(screen.getByRole('button', { name: /start timer/i })).toBeInTheDocument();
+  });
+
+  it('runs as a stopwatch without a target', () => {
+    const onStop = vi.fn();
+    render(<SetTimer onStop={onStop} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /start timer/i }));
+    act(() => {
+      vi.advanceTimersByTime(95_000);
+    });
+    expect(screen.getByText('1:35')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /stop timer/i }));
+    expect(onStop).toHaveBeenCalledWith(95);
+  });
+});
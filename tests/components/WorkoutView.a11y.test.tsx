@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { render, screen, waitFor } from '../test-utils';
+import { render, screen, waitFor, fireEvent, within } from '../test-utils';
 import { axe } from 'jest-axe';
 import { WorkoutView } from '@/components/WorkoutView';
+import { DEFAULT_EQUIPMENT_PROFILE, METRIC_EQUIPMENT_PROFILE } from '@/lib/equipment';
+import { fromWeightUnit } from '@/lib/units';
 import type { WorkoutPlan, WorkoutSession, WorkoutExercise } from '@/lib/types';
 
 // Mock the window.spark.llm function
@@ -72,7 +74,7 @@ describe('WorkoutView - Accessibility', () => {
     };
 
     localStorage.setItem('workout-plans', JSON.stringify([mockPlan]));
-    localStorage.setItem('active-session', JSON.stringify(activeSession));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
     
     const { container } = render(<WorkoutView />);
     
@@ -110,7 +112,7 @@ describe('WorkoutView - Accessibility', () => {
     };
 
     localStorage.setItem('workout-plans', JSON.stringify([mockPlan]));
-    localStorage.setItem('active-session', JSON.stringify(activeSession));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
     
     render(<WorkoutView />);
     
@@ -137,7 +139,7 @@ describe('WorkoutView - Accessibility', () => {
     };
 
     localStorage.setItem('workout-plans', JSON.stringify([mockPlan]));
-    localStorage.setItem('active-session', JSON.stringify(activeSession));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
     
     render(<WorkoutView />);
     
@@ -187,7 +189,7 @@ describe('WorkoutView - Accessibility', () => {
     };
 
     localStorage.setItem('workout-plans', JSON.stringify([mockPlan]));
-    localStorage.setItem('active-session', JSON.stringify(activeSession));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
     
     render(<WorkoutView />);
     
@@ -215,7 +217,7 @@ describe('WorkoutView - Accessibility', () => {
     };
 
     localStorage.setItem('workout-plans', JSON.stringify([mockPlan]));
-    localStorage.setItem('active-session', JSON.stringify(activeSession));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
     
     render(<WorkoutView />);
     
@@ -240,7 +242,7 @@ describe('WorkoutView - Accessibility', () => {
     };
 
     localStorage.setItem('workout-plans', JSON.stringify([mockPlan]));
-    localStorage.setItem('active-session', JSON.stringify(activeSession));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
     
     render(<WorkoutView />);
     
@@ -265,7 +267,7 @@ describe('WorkoutView - Accessibility', () => {
     };
 
     localStorage.setItem('workout-plans', JSON.stringify([mockPlan]));
-    localStorage.setItem('active-session', JSON.stringify(activeSession));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
     
     render(<WorkoutView />);
     
@@ -298,7 +300,7 @@ describe('WorkoutView - Accessibility', () => {
     };
 
     localStorage.setItem('workout-plans', JSON.stringify([mockPlan]));
-    localStorage.setItem('active-session', JSON.stringify(activeSession));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
     
     render(<WorkoutView />);
     
@@ -310,4 +312,230 @@ describe('WorkoutView - Accessibility', () => {
     expect(badge).toBeInTheDocument();
     expect(badge).toHaveAttribute('aria-label');
   });
+
+  it('should list superset exercises with the current one marked', async () => {
+    const supersetPlan: WorkoutPlan = {
+      ...mockPlan,
+      exercises: mockPlan.exercises.map((ex) => ({ ...ex, groupId: 'group-1' })),
+      groups: [{ id: 'group-1', type: 'superset', rounds: 3, restSeconds: 90 }],
+    };
+    const activeSession: WorkoutSession = {
+      id: 'session-1',
+      planId: supersetPlan.id,
+      planName: supersetPlan.name,
+      startedAt: Date.now(),
+      exercises: [
+        _createMockExerciseSession('bench-press', 'Bench Press', 1),
+        _createMockExerciseSession('shoulder-press', 'Shoulder Press'),
+      ],
+      status: 'in-progress',
+    };
+
+    localStorage.setItem('workout-plans', JSON.stringify([supersetPlan]));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
+
+    const { container } = render(<WorkoutView />);
+
+    expect(await screen.findByText('Superset · Round 1 of 3')).toBeInTheDocument();
+    const list = screen.getByRole('list', { name: 'Superset exercises' });
+    expect(list).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: '1. Bench Press' })).toHaveAttribute('aria-current', 'step');
+    expect(screen.getByRole('button', { name: /finish workout/i })).toBeDisabled();
+
+    const results = await axe(container);
+    expect(results).toHaveNoViolations();
+  });
+
+  it('should adjust the weight for an RPE target from the RPE just logged', async () => {
+    const rpePlan: WorkoutPlan = {
+      ...mockPlan,
+      exercises: [{ exerciseId: 'bench-press', sets: 3, reps: 5, weight: 200, targetRpe: 8 }],
+    };
+    const activeSession: WorkoutSession = {
+      id: 'session-1',
+      planId: rpePlan.id,
+      planName: rpePlan.name,
+      startedAt: Date.now(),
+      exercises: [
+        {
+          exerciseId: 'bench-press',
+          exerciseName: 'Bench Press',
+          completedSets: [{ setNumber: 1, reps: 5, weight: 200, rpe: 9, completedAt: Date.now() }],
+        },
+      ],
+      status: 'in-progress',
+    };
+
+    localStorage.setItem('workout-plans', JSON.stringify([rpePlan]));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
+
+    const { container } = render(<WorkoutView />);
+
+    expect(await screen.findByLabelText('Weight (lbs)')).toHaveValue(195);
+    expect(screen.getByText(/from this session's estimated 1RM of 239 lbs/)).toBeInTheDocument();
+    expect(screen.getByRole('radio', { name: 'RPE 8' })).toBeInTheDocument();
+    expect(screen.getByText(/RPE 9$/)).toBeInTheDocument();
+
+    const results = await axe(container);
+    expect(results).toHaveNoViolations();
+  });
+
+  it('should generate warm-up sets before the first working set', async () => {
+    const warmUpPlan: WorkoutPlan = {
+      ...mockPlan,
+      exercises: [{ exerciseId: 'barbell-squat', sets: 3, reps: 5, weight: 225, warmUp: true }],
+    };
+    const activeSession: WorkoutSession = {
+      id: 'session-1',
+      planId: warmUpPlan.id,
+      planName: warmUpPlan.name,
+      startedAt: Date.now(),
+      exercises: [
+        {
+          exerciseId: 'barbell-squat',
+          exerciseName: 'Barbell Squat',
+          completedSets: [{ setNumber: 1, type: 'warm-up', reps: 10, weight: 45, completedAt: Date.now() }],
+        },
+      ],
+      status: 'in-progress',
+    };
+
+    localStorage.setItem('workout-plans', JSON.stringify([warmUpPlan]));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
+
+    const { container } = render(<WorkoutView />);
+
+    expect(await screen.findByText(/Warm-up 2 of 4/)).toBeInTheDocument();
+    expect(screen.getByText('Ramp-up to 225 lbs: 45 × 10, 90 × 5, 135 × 3, 180 × 1')).toBeInTheDocument();
+    expect(screen.getByLabelText('Reps')).toHaveValue(5);
+    expect(screen.getByLabelText('Weight (lbs)')).toHaveValue(90);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Skip warm-ups' }));
+    expect(screen.getByText('Set 1')).toBeInTheDocument();
+    expect(screen.getByLabelText('Weight (lbs)')).toHaveValue(225);
+    expect(screen.getByLabelText('Weight (lbs)')).toHaveAccessibleDescription('Each side: 45 + 45 (45 lb bar)');
+
+    const results = await axe(container);
+    expect(results).toHaveNoViolations();
+  });
+
+  it('should enter and show weights in kg for metric users', async () => {
+    const metricPlan: WorkoutPlan = {
+      ...mockPlan,
+      exercises: [{ exerciseId: 'barbell-squat', sets: 3, reps: 5, weight: fromWeightUnit(100, 'kg') }],
+    };
+    const activeSession: WorkoutSession = {
+      id: 'session-1',
+      planId: metricPlan.id,
+      planName: metricPlan.name,
+      startedAt: Date.now(),
+      exercises: [{ exerciseId: 'barbell-squat', exerciseName: 'Barbell Squat', completedSets: [] }],
+      status: 'in-progress',
+    };
+
+    localStorage.setItem('workout-plans', JSON.stringify([metricPlan]));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
+    localStorage.setItem(
+      'user-preferences',
+      JSON.stringify({ unitSystem: 'metric', equipment: METRIC_EQUIPMENT_PROFILE })
+    );
+
+    render(<WorkoutView />);
+
+    const weight = await screen.findByLabelText('Weight (kg)');
+    expect(weight).toHaveValue(100);
+    expect(weight).toHaveAccessibleDescription('Each side: 25 + 15 (20 kg bar)');
+    expect(screen.getByText('5 reps @ 100 kg')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /complete set/i }));
+    await waitFor(() => expect(screen.getAllByText('5 reps @ 100 kg')).toHaveLength(2));
+  });
+
+  it('should swap an exercise for an alternative the gym has', async () => {
+    const squatPlan: WorkoutPlan = {
+      ...mockPlan,
+      exercises: [{ exerciseId: 'barbell-squat', sets: 3, reps: 5, weight: 225 }],
+    };
+    const activeSession: WorkoutSession = {
+      id: 'session-1',
+      planId: squatPlan.id,
+      planName: squatPlan.name,
+      startedAt: Date.now(),
+      exercises: [{ exerciseId: 'barbell-squat', exerciseName: 'Barbell Squat', completedSets: [] }],
+      status: 'in-progress',
+    };
+
+    localStorage.setItem('workout-plans', JSON.stringify([squatPlan]));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
+    localStorage.setItem(
+      'user-preferences',
+      JSON.stringify({ equipment: { ...DEFAULT_EQUIPMENT_PROFILE, available: ['barbell'] } })
+    );
+
+    render(<WorkoutView />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Swap exercise' }));
+    const dialog = await screen.findByRole('dialog', { name: 'Swap Barbell Squat' });
+    expect(within(dialog).queryByRole('button', { name: 'Use Leg Press instead' })).not.toBeInTheDocument();
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Use Walking Lunges instead' }));
+
+    expect(await screen.findByRole('heading', { name: 'Walking Lunges' })).toBeInTheDocument();
+    expect(screen.getByText('In place of Barbell Squat')).toBeInTheDocument();
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('should carry on and finish a workout whose plan was deleted', async () => {
+    const activeSession: WorkoutSession = {
+      id: 'session-1',
+      planId: 'deleted-plan',
+      planName: 'Old Plan',
+      startedAt: Date.now(),
+      exercises: [
+        { exerciseId: 'barbell-squat', exerciseName: 'Barbell Squat', targetSets: 1, targetReps: 5, targetWeight: 225, completedSets: [] },
+      ],
+      status: 'in-progress',
+    };
+
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
+
+    render(<WorkoutView />);
+
+    expect(await screen.findByRole('heading', { level: 1, name: 'Old Plan' })).toBeInTheDocument();
+    expect(screen.getByText("This workout's plan was deleted")).toBeInTheDocument();
+    expect(screen.getByText('5 reps @ 225 lbs')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /complete set/i }));
+    fireEvent.click(await screen.findByRole('button', { name: /finish workout/i }));
+
+    expect(await screen.findByRole('heading', { level: 1, name: 'Start a Workout' })).toBeInTheDocument();
+  });
+
+  it('should carry on with exercises removed from the plan during the workout', async () => {
+    const activeSession: WorkoutSession = {
+      id: 'session-1',
+      planId: mockPlan.id,
+      planName: mockPlan.name,
+      startedAt: Date.now(),
+      exercises: [
+        {
+          exerciseId: 'bench-press',
+          exerciseName: 'Barbell Bench Press',
+          targetSets: 1,
+          completedSets: [{ setNumber: 1, reps: 10, weight: 135, completedAt: Date.now() }],
+        },
+        { exerciseId: 'push-up', exerciseName: 'Push-Up', targetSets: 2, targetReps: 15, completedSets: [] },
+      ],
+      status: 'in-progress',
+    };
+
+    localStorage.setItem('workout-plans', JSON.stringify([{ ...mockPlan, exercises: mockPlan.exercises.slice(0, 1) }]));
+    localStorage.setItem('workout-sessions', JSON.stringify([activeSession]));
+
+    render(<WorkoutView />);
+
+    fireEvent.click(await screen.findByRole('button', { name: /next exercise/i }));
+
+    expect(await screen.findByRole('heading', { name: 'Push-Up' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Exercise 2 of 2')).toBeInTheDocument();
+  });
 });
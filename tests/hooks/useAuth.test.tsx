@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { AuthProvider, useAuth } from '../../src/contexts/AuthContext';
+
+const savedUser = { id: 'user-1', email: 'lifter@example.com', name: 'Lifter', createdAt: 1 };
+
+describe('useAuth', () => {
+  beforeEach(() => {
+    localStorage.setItem('fittrack_auth_token', 'token-1');
+    localStorage.setItem('fittrack_user', JSON.stringify(savedUser));
+  });
+
+  it('stays signed in as the saved user when the session cannot be verified offline', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    global.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch')) as any;
+
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider });
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.isAuthenticated).toBe(true);
+    expect(result.current.user).toEqual(savedUser);
+    expect(localStorage.getItem('fittrack_auth_token')).toBe('token-1');
+  });
+
+  it('refreshes the user once the session is verified', async () => {
+    const renamed = { ...savedUser, name: 'Renamed' };
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({ user: renamed }) }) as any;
+
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider });
+
+    await waitFor(() => expect(result.current.user).toEqual(renamed));
+    expect(JSON.parse(localStorage.getItem('fittrack_user')!)).toEqual(renamed);
+  });
+
+  it('signs out when the server rejects the saved token', async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 401, json: async () => ({}) }) as any;
+
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider });
+
+    await waitFor(() => expect(localStorage.getItem('fittrack_auth_token')).toBeNull());
+    expect(result.current.isAuthenticated).toBe(false);
+    expect(result.current.user).toBeNull();
+  });
+});
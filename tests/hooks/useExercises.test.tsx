@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useExercises } from '../../src/hooks/use-exercises';
+import { EXERCISE_LIBRARY } from '../../src/lib/exercises';
+import type { Exercise } from '../../src/lib/types';
+
+const sledPush: Exercise = {
+  id: 'custom-1',
+  name: 'Sled Push',
+  muscleGroup: 'legs',
+  difficulty: 'beginner',
+  tracking: 'distance-duration',
+  instructions: ['Push the sled'],
+  formCues: [],
+};
+
+describe('useExercises Hook', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.clearAllMocks();
+    global.fetch = vi.fn(() =>
+      Promise.resolve({
+        ok: true,
+        json: async () => ({ data: [sledPush] }),
+      } as Response)
+    ) as any;
+  });
+
+  it('merges saved custom exercises after the built-in library', async () => {
+    const { result } = renderHook(() => useExercises());
+
+    await waitFor(() => {
+      expect(result.current.customExercises).toEqual([sledPush]);
+    });
+    expect(result.current.exercises).toEqual([...EXERCISE_LIBRARY, sledPush]);
+    expect(global.fetch).toHaveBeenCalledWith(expect.stringContaining('custom-exercises'), expect.any(Object));
+  });
+
+  it('creates, replaces and deletes custom exercises', async () => {
+    const { result } = renderHook(() => useExercises());
+    await waitFor(() => expect(result.current.customExercises).toHaveLength(1));
+
+    act(() => result.current.saveExercise({ ...sledPush, name: 'Prowler Push' }));
+    expect(result.current.customExercises).toEqual([{ ...sledPush, name: 'Prowler Push' }]);
+
+    act(() => result.current.saveExercise({ ...sledPush, id: 'custom-2' }));
+    expect(result.current.customExercises.map((e) => e.id)).toEqual(['custom-1', 'custom-2']);
+
+    act(() => result.current.deleteExercise('custom-1'));
+    expect(result.current.customExercises.map((e) => e.id)).toEqual(['custom-2']);
+  });
+
+  it('uses the server catalog and revalidates it against the cached version', async () => {
+    const catalog = { version: 2, exercises: [{ ...EXERCISE_LIBRARY[0], name: 'Back Squat' }] };
+    global.fetch = vi.fn((url: string) =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        headers: new Headers({ ETag: '"2"' }),
+        json: async () => ({ data: url.endsWith('/exercises') ? catalog : null }),
+      } as Response)
+    ) as any;
+
+    const first = renderHook(() => useExercises());
+    await waitFor(() => expect(first.result.current.exercises).toEqual(catalog.exercises));
+    first.unmount();
+
+    (global.fetch as any).mockClear();
+    const second = renderHook(() => useExercises());
+    await waitFor(() =>
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringMatching(/\/exercises$/),
+        expect.objectContaining({ headers: expect.objectContaining({ 'If-None-Match': '"2"' }) })
+      )
+    );
+    expect(second.result.current.exercises).toEqual(catalog.exercises);
+  });
+});
+
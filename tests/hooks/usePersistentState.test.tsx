@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { usePersistentState } from '../../src/hooks/use-persistent-state';
+import { writeCachedValue } from '../../src/lib/offline-store';
 
 describe('usePersistentState Hook', () => {
   beforeEach(() => {
@@ -160,4 +161,110 @@ describe('usePersistentState Hook', () => {
       expect(result.current[0].user.id).toBe('1');
     });
   });
+
+  it('sends the loaded revision and surfaces conflicts instead of overwriting', async () => {
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      headers: new Headers({ ETag: '"1"' }),
+      json: async () => ({ data: ['mine'] }),
+    });
+
+    const initial: string[] = [];
+    const { result } = renderHook(() => usePersistentState('test-array', initial));
+
+    await waitFor(() => {
+      expect(result.current[0]).toEqual(['mine']);
+    });
+
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: false,
+      status: 409,
+      headers: new Headers({ ETag: '"2"' }),
+      json: async () => ({ success: false, error: 'Revision conflict', data: ['theirs'] }),
+    });
+
+    act(() => {
+      result.current[1](['mine', 'more']);
+    });
+
+    await waitFor(() => {
+      expect(result.current[2].conflict).toEqual({ local: ['mine', 'more'], server: ['theirs'] });
+    });
+    expect(global.fetch).toHaveBeenLastCalledWith(
+      expect.stringContaining('test-array'),
+      expect.objectContaining({ headers: expect.objectContaining({ 'If-Match': '"1"' }) })
+    );
+
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      headers: new Headers({ ETag: '"3"' }),
+      json: async () => ({ data: ['theirs', 'mine', 'more'] }),
+    });
+
+    act(() => {
+      result.current[2].resolveConflict(['theirs', 'mine', 'more']);
+    });
+
+    await waitFor(() => {
+      expect(result.current[2].conflict).toBeNull();
+    });
+    expect(result.current[0]).toEqual(['theirs', 'mine', 'more']);
+    expect(global.fetch).toHaveBeenLastCalledWith(
+      expect.stringContaining('test-array'),
+      expect.objectContaining({ headers: expect.objectContaining({ 'If-Match': '"2"' }) })
+    );
+  });
+
+  it('retries with the value returned by onConflict', async () => {
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      headers: new Headers({ ETag: '"1"' }),
+      json: async () => ({ data: { count: 1 } }),
+    });
+
+    const initial = { count: 0 };
+    const onConflict = vi.fn(({ local, server }) => ({ count: Math.max(local.count, server?.count ?? 0) }));
+    const { result } = renderHook(() => usePersistentState('test-key', initial, { onConflict }));
+
+    await waitFor(() => {
+      expect(result.current[0]).toEqual({ count: 1 });
+    });
+
+    (global.fetch as any)
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 409,
+        headers: new Headers({ ETag: '"2"' }),
+        json: async () => ({ success: false, data: { count: 5 } }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ ETag: '"3"' }),
+        json: async () => ({ data: { count: 5 } }),
+      });
+
+    act(() => {
+      result.current[1]({ count: 2 });
+    });
+
+    await waitFor(() => {
+      expect(result.current[0]).toEqual({ count: 5 });
+    });
+    await waitFor(() => {
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+    expect(onConflict).toHaveBeenCalledWith({ local: { count: 2 }, server: { count: 5 } });
+    expect(result.current[2].conflict).toBeNull();
+  });
+
+  it('renders the cached value before the network answers', async () => {
+    await writeCachedValue('test-key', { value: 'cached', revision: '"1"' });
+    global.fetch = vi.fn(() => new Promise<Response>(() => {})) as any;
+
+    const { result } = renderHook(() => usePersistentState('test-key', 'default'));
+
+    await waitFor(() => {
+      expect(result.current[0]).toBe('cached');
+    });
+  });
 });
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useSessions } from '../../src/hooks/use-sessions';
+import { addSetRequest } from '../../src/lib/api';
+import { readJournal, writeCachedValue } from '../../src/lib/offline-store';
+import { flushQueue, queueRequest } from '../../src/lib/sync-queue';
+import type { WorkoutSession } from '../../src/lib/types';
+
+const session: WorkoutSession = {
+  id: 'session-1',
+  planId: 'plan-1',
+  planName: 'Push Day',
+  startedAt: 1000,
+  exercises: [{ exerciseId: 'bench-press', exerciseName: 'Barbell Bench Press', completedSets: [] }],
+  status: 'in-progress',
+};
+
+describe('useSessions Hook', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.setItem('workout-sessions', JSON.stringify([session]));
+  });
+
+  it('loads sessions with the query as filters', async () => {
+    const { result } = renderHook(() => useSessions({ status: 'in-progress' }));
+
+    await waitFor(() => {
+      expect(result.current.sessions).toEqual([session]);
+    });
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/sessions?status=in-progress'),
+      expect.any(Object)
+    );
+  });
+
+  it('adds sets locally and posts them to the session', async () => {
+    const { result } = renderHook(() => useSessions({ status: 'in-progress' }));
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    const set = { setNumber: 1, reps: 8, weight: 135, completedAt: 2000 };
+    await act(async () => {
+      await result.current.addSet('session-1', 0, set);
+      await flushQueue();
+    });
+
+    expect(result.current.sessions[0].exercises[0].completedSets).toEqual([set]);
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/sessions/session-1/sets'),
+      expect.objectContaining({ method: 'POST' })
+    );
+  });
+
+  it('drops sessions that no longer match the status filter', async () => {
+    const { result } = renderHook(() => useSessions({ status: 'in-progress' }));
+    await waitFor(() => expect(result.current.sessions).toHaveLength(1));
+
+    await act(async () => {
+      await result.current.updateSession('session-1', { status: 'completed', completedAt: 3000 });
+      await flushQueue();
+    });
+
+    expect(result.current.sessions).toEqual([]);
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/sessions/session-1'),
+      expect.objectContaining({ method: 'PATCH' })
+    );
+  });
+
+  it('keeps sessions in start order when one is logged after the fact', async () => {
+    const { result } = renderHook(() => useSessions());
+    await waitFor(() => expect(result.current.sessions).toHaveLength(1));
+
+    const earlier: WorkoutSession = { ...session, id: 'session-0', startedAt: 500, status: 'completed' };
+    await act(async () => {
+      await result.current.createSession(earlier);
+    });
+
+    expect(result.current.sessions.map((s) => s.id)).toEqual(['session-0', 'session-1']);
+  });
+
+  it('reloads from the server when a change is rejected', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { result } = renderHook(() => useSessions());
+    await waitFor(() => expect(result.current.sessions).toHaveLength(1));
+
+    (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+    await act(async () => {
+      await result.current.deleteSession('session-1');
+    });
+
+    await waitFor(() => expect(result.current.sessions).toEqual([session]));
+  });
+
+  it('keeps a change that could not be sent and retries it', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { result } = renderHook(() => useSessions());
+    await waitFor(() => expect(result.current.sessions).toHaveLength(1));
+
+    const online = (global.fetch as any).getMockImplementation();
+    (global.fetch as any).mockRejectedValue(new TypeError('Failed to fetch'));
+    await act(async () => {
+      await result.current.deleteSession('session-1');
+      await flushQueue();
+    });
+    expect(result.current.sessions).toEqual([]);
+    expect(await readJournal()).toHaveLength(1);
+
+    (global.fetch as any).mockImplementation(online);
+    await act(async () => {
+      await flushQueue();
+    });
+    expect(await readJournal()).toEqual([]);
+    expect(JSON.parse(localStorage.getItem('workout-sessions')!)).toEqual([]);
+    expect(result.current.sessions).toEqual([]);
+  });
+
+  it('serves the cached list with queued changes while offline', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const online = (global.fetch as any).getMockImplementation();
+    (global.fetch as any).mockRejectedValue(new TypeError('Failed to fetch'));
+    const set = { setNumber: 1, reps: 8, weight: 135, completedAt: 2000 };
+    await writeCachedValue('/sessions?status=in-progress', { value: [session], revision: null });
+    await queueRequest(addSetRequest('session-1', 0, set));
+    await flushQueue();
+
+    const { result } = renderHook(() => useSessions({ status: 'in-progress' }));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.sessions).toHaveLength(1);
+    expect(result.current.sessions[0].exercises[0].completedSets).toEqual([set]);
+    (global.fetch as any).mockImplementation(online);
+    await act(async () => {
+      await flushQueue();
+    });
+  });
+
+  it('reloads once queued changes have reached the server', async () => {
+    const { result } = renderHook(() => useSessions());
+    await waitFor(() => expect(result.current.sessions).toHaveLength(1));
+
+    // Logged on another device in the meantime
+    const other: WorkoutSession = { ...session, id: 'session-2', startedAt: 3000, status: 'completed' };
+    localStorage.setItem('workout-sessions', JSON.stringify([session, other]));
+    await act(async () => {
+      await result.current.updateSession('session-1', { restEndsAt: 5000 });
+      await flushQueue();
+    });
+
+    await waitFor(() => expect(result.current.sessions.map((s) => s.id)).toEqual(['session-1', 'session-2']));
+    expect(result.current.sessions[0].restEndsAt).toBe(5000);
+  });
+});
@@ -1,5 +1,20 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { apiGet, apiSet, apiDelete } from '../../src/lib/api';
+import {
+  apiGet,
+  apiSet,
+  apiDelete,
+  apiListPlans,
+  apiSavePlan,
+  apiListSessions,
+  apiUpdateSession,
+  apiAddSet,
+  apiGetRevisioned,
+  apiSetRevisioned,
+  apiGetExerciseCatalog,
+  apiSend,
+  updateSessionRequest,
+  ApiConflictError,
+} from '../../src/lib/api';
 
 describe('API Functions', () => {
   beforeEach(() => {
@@ -175,4 +190,181 @@ describe('API Functions', () => {
       expect(global.fetch).toHaveBeenCalled();
     });
   });
+
+  describe('revisioned values', () => {
+    it('returns the ETag along with the data', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ ETag: '"4"' }),
+        json: async () => ({ data: 'test' }),
+      });
+
+      await expect(apiGetRevisioned('test-key')).resolves.toEqual({ data: 'test', revision: '"4"' });
+    });
+
+    it('sends If-Match with the known revision', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ ETag: '"5"' }),
+        json: async () => ({ data: 'new' }),
+      });
+
+      const result = await apiSetRevisioned('test-key', 'new', '"4"');
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('test-key'),
+        expect.objectContaining({
+          method: 'PUT',
+          headers: expect.objectContaining({ 'If-Match': '"4"' }),
+        })
+      );
+      expect(result.revision).toBe('"5"');
+    });
+
+    it('throws a conflict error carrying the server copy on 409', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 409,
+        statusText: 'Conflict',
+        headers: new Headers({ ETag: '"6"' }),
+        json: async () => ({ success: false, error: 'Revision conflict', data: 'theirs' }),
+      });
+
+      const error = await apiSetRevisioned('test-key', 'mine', '"4"').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ApiConflictError);
+      expect(error.current).toBe('theirs');
+      expect(error.revision).toBe('"6"');
+    });
+  });
+
+  describe('exercise catalog', () => {
+    it('returns the catalog with its version as ETag', async () => {
+      const catalog = { version: 3, exercises: [] };
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ ETag: '"3"' }),
+        json: async () => ({ success: true, data: catalog }),
+      });
+
+      await expect(apiGetExerciseCatalog(null)).resolves.toEqual({ data: catalog, revision: '"3"' });
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringMatching(/\/exercises$/),
+        expect.objectContaining({ headers: expect.not.objectContaining({ 'If-None-Match': expect.anything() }) })
+      );
+    });
+
+    it('revalidates with If-None-Match and returns no data when unchanged', async () => {
+      (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 304, statusText: 'Not Modified' });
+
+      await expect(apiGetExerciseCatalog('"3"')).resolves.toEqual({ data: null, revision: '"3"' });
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ headers: expect.objectContaining({ 'If-None-Match': '"3"' }) })
+      );
+    });
+  });
+
+  describe('plan and session resources', () => {
+    it('lists plans from /plans', async () => {
+      const plans = [{ id: 'plan-1', name: 'Push', description: '', exercises: [], createdAt: 1 }];
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: plans, revisions: { 'plan-1': 3 } }),
+      });
+
+      const result = await apiListPlans();
+
+      expect(global.fetch).toHaveBeenCalledWith(expect.stringMatching(/\/plans$/), expect.any(Object));
+      expect(result).toEqual({ items: plans, revisions: { '/plans/plan-1': '"3"' } });
+    });
+
+    it('saves a plan with PUT /plans/:id', async () => {
+      const plan = { id: 'plan-1', name: 'Push', description: '', exercises: [], createdAt: 1 };
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: plan }),
+      });
+
+      await apiSavePlan(plan);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringMatching(/\/plans\/plan-1$/),
+        expect.objectContaining({ method: 'PUT', body: JSON.stringify(plan) })
+      );
+    });
+
+    it('passes session filters as query parameters', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: [] }),
+      });
+
+      await apiListSessions({ status: 'completed', limit: 5 });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringMatching(/\/sessions\?status=completed&limit=5$/),
+        expect.any(Object)
+      );
+    });
+
+    it('patches a session', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: {} }),
+      });
+
+      await apiUpdateSession('session-1', { status: 'completed' });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringMatching(/\/sessions\/session-1$/),
+        expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ status: 'completed' }) })
+      );
+    });
+
+    it('appends a set with POST /sessions/:id/sets', async () => {
+      const set = { setNumber: 1, reps: 5, weight: 225, completedAt: 1 };
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: {} }),
+      });
+
+      await apiAddSet('session-1', 2, set);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringMatching(/\/sessions\/session-1\/sets$/),
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ exerciseIndex: 2, set }) })
+      );
+    });
+
+    it('sends If-Match with a conditional write and throws the server copy on conflict', async () => {
+      const current = { id: 'session-1', status: 'completed' };
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 409,
+        statusText: 'Conflict',
+        headers: new Headers({ ETag: '"6"' }),
+        json: async () => ({ success: false, error: 'Revision conflict', data: current }),
+      });
+
+      const error = await apiSend(updateSessionRequest('session-1', { restEndsAt: 1 }), '"5"').catch((e) => e);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringMatching(/\/sessions\/session-1$/),
+        expect.objectContaining({ headers: expect.objectContaining({ 'If-Match': '"5"' }) })
+      );
+      expect(error).toBeInstanceOf(ApiConflictError);
+      expect(error).toMatchObject({ current, revision: '"6"' });
+    });
+
+    it('throws when a resource request fails', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        statusText: 'Bad Request',
+      });
+
+      await expect(apiUpdateSession('session-1', {})).rejects.toThrow('Bad Request');
+    });
+  });
 });
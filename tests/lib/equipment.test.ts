@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { METRIC_EQUIPMENT_PROFILE, loadRoundingFor, plateBreakdown, roundToPlates } from '../../src/lib/equipment';
+import { displayWeight, fromWeightUnit } from '../../src/lib/units';
+
+const plates = [45, 35, 25, 10, 5, 2.5];
+
+describe('equipment', () => {
+  it('breaks a load down into plates per side, heaviest first', () => {
+    expect(plateBreakdown(225, 45, plates)).toEqual([45, 45]);
+    expect(plateBreakdown(185, 45, plates)).toEqual([45, 25]);
+    expect(plateBreakdown(140, 45, plates)).toEqual([45, 2.5]);
+    expect(plateBreakdown(45, 45, plates)).toEqual([]);
+  });
+
+  it('reports loads the plates cannot make', () => {
+    expect(plateBreakdown(227, 45, plates)).toBeNull();
+    expect(plateBreakdown(30, 45, plates)).toBeNull();
+    expect(plateBreakdown(75, 45, [25, 10])).toBeNull();
+  });
+
+  it('rounds to the nearest load the bar and plates can make', () => {
+    expect(roundToPlates(126, 45, plates)).toBe(125);
+    expect(roundToPlates(128, 45, plates)).toBe(130);
+    expect(roundToPlates(30, 45, plates)).toBe(45);
+    expect(roundToPlates(47, 45, [1.25])).toBe(47.5);
+    expect(roundToPlates(76, 45, [25, 10])).toBe(85);
+  });
+
+  it('rounds by the equipment each exercise uses', () => {
+    const profile = { barWeights: [35, 45], plates, dumbbellIncrement: 2.5, machineIncrement: 15 };
+    expect(loadRoundingFor({ exerciseId: 'bench-press' }, profile).round(40)).toBe(40);
+    expect(loadRoundingFor({ exerciseId: 'bench-press' }, profile).bar).toBe(35);
+    expect(loadRoundingFor({ exerciseId: 'bench-press', barWeight: 45 }, profile).round(40)).toBe(45);
+    expect(loadRoundingFor({ exerciseId: 'dumbbell-row' }, profile).round(41)).toBe(40);
+    expect(loadRoundingFor({ exerciseId: 'lat-pulldown' }, profile).round(100)).toBe(105);
+    expect(loadRoundingFor({ exerciseId: 'unknown' }, profile).increment).toBe(5);
+  });
+
+  it('rounds and describes loads with kg equipment', () => {
+    const rounding = loadRoundingFor({ exerciseId: 'barbell-squat' }, METRIC_EQUIPMENT_PROFILE);
+    expect(displayWeight(rounding.bar!, 'kg')).toBe(20);
+    expect(displayWeight(rounding.round(fromWeightUnit(101, 'kg')), 'kg')).toBe(100);
+    expect(rounding.describe!(fromWeightUnit(100, 'kg'))).toBe('Each side: 25 + 15 (20 kg bar)');
+    expect(displayWeight(loadRoundingFor({ exerciseId: 'unknown' }, METRIC_EQUIPMENT_PROFILE).increment, 'kg')).toBe(2.5);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  linkWithNext,
+  nextInGroup,
+  planBlocks,
+  pruneGroups,
+  unlinkFromNext,
+  updateGroup,
+} from '../../src/lib/exercise-groups';
+import type { ExerciseGroup, WorkoutExercise } from '../../src/lib/types';
+
+const exercise = (exerciseId: string, groupId?: string): WorkoutExercise => ({
+  exerciseId,
+  sets: 3,
+  reps: 10,
+  restSeconds: 60,
+  groupId,
+});
+
+const superset: ExerciseGroup = { id: 'g1', type: 'superset', rounds: 4, restSeconds: 120 };
+
+describe('planBlocks', () => {
+  it('keeps group members together and ungrouped exercises on their own', () => {
+    const exercises = [exercise('a'), exercise('b', 'g1'), exercise('c', 'g1'), exercise('d'), exercise('e', 'g2')];
+    expect(planBlocks(exercises)).toEqual([[0], [1, 2], [3], [4]]);
+  });
+});
+
+describe('nextInGroup', () => {
+  const members = [0, 1, 2];
+  const targets = [3, 3, 3];
+
+  it('moves to the next member within a round', () => {
+    expect(nextInGroup(members, [1, 0, 0], targets, 0)).toEqual({ nextIndex: 1, roundComplete: false });
+  });
+
+  it('goes back to the first member after the last one finishes a round', () => {
+    expect(nextInGroup(members, [1, 1, 1], targets, 2)).toEqual({ nextIndex: 0, roundComplete: true });
+  });
+
+  it('skips members that are already done', () => {
+    expect(nextInGroup(members, [2, 3, 1], [3, 3, 3], 0)).toEqual({ nextIndex: 2, roundComplete: false });
+  });
+
+  it('returns no next member once every round is done', () => {
+    expect(nextInGroup(members, [3, 3, 3], targets, 2)).toEqual({ nextIndex: null, roundComplete: true });
+  });
+});
+
+describe('linkWithNext', () => {
+  it('creates a superset from two exercises, taking rounds and rest from the first', () => {
+    const { exercises, groups } = linkWithNext({ exercises: [exercise('a'), { ...exercise('b'), sets: 5 }], groups: [] }, 0, 7);
+    expect(groups).toEqual([{ id: 'group-7', type: 'superset', rounds: 3, restSeconds: 60 }]);
+    expect(exercises.map((ex) => [ex.groupId, ex.sets])).toEqual([
+      ['group-7', 3],
+      ['group-7', 3],
+    ]);
+  });
+
+  it('adds an exercise to an existing group', () => {
+    const result = linkWithNext({ exercises: [exercise('a', 'g1'), exercise('b', 'g1'), exercise('c')], groups: [superset] }, 1);
+    expect(result.groups).toEqual([superset]);
+    expect(result.exercises.map((ex) => ex.groupId)).toEqual(['g1', 'g1', 'g1']);
+    expect(result.exercises[2].sets).toBe(4);
+  });
+
+  it('merges two neighbouring groups', () => {
+    const other: ExerciseGroup = { ...superset, id: 'g2' };
+    const result = linkWithNext(
+      {
+        exercises: [exercise('a', 'g1'), exercise('b', 'g1'), exercise('c', 'g2'), exercise('d', 'g2')],
+        groups: [superset, other],
+      },
+      1
+    );
+    expect(result.groups).toEqual([superset]);
+    expect(result.exercises.every((ex) => ex.groupId === 'g1')).toBe(true);
+  });
+});
+
+describe('unlinkFromNext', () => {
+  it('splits a group into two of the same kind', () => {
+    const result = unlinkFromNext(
+      {
+        exercises: [exercise('a', 'g1'), exercise('b', 'g1'), exercise('c', 'g1'), exercise('d', 'g1')],
+        groups: [superset],
+      },
+      1,
+      9
+    );
+    expect(result.groups).toEqual([superset, { ...superset, id: 'group-9' }]);
+    expect(result.exercises.map((ex) => ex.groupId)).toEqual(['g1', 'g1', 'group-9', 'group-9']);
+  });
+
+  it('dissolves groups left with a single exercise', () => {
+    const result = unlinkFromNext({ exercises: [exercise('a', 'g1'), exercise('b', 'g1')], groups: [superset] }, 0);
+    expect(result.groups).toEqual([]);
+    expect(result.exercises.map((ex) => ex.groupId)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('pruneGroups', () => {
+  it('drops groups with one member and ids with no group', () => {
+    const result = pruneGroups({ exercises: [exercise('a', 'g1'), exercise('b', 'missing')], groups: [superset] });
+    expect(result.groups).toEqual([]);
+    expect(result.exercises.map((ex) => ex.groupId)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('updateGroup', () => {
+  it('applies the round count to every member', () => {
+    const result = updateGroup({ exercises: [exercise('a', 'g1'), exercise('b', 'g1'), exercise('c')], groups: [superset] }, 'g1', {
+      rounds: 5,
+    });
+    expect(result.groups[0].rounds).toBe(5);
+    expect(result.exercises.map((ex) => ex.sets)).toEqual([5, 5, 3]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { EXERCISE_LIBRARY } from '../../src/lib/exercises';
+import {
+  buildSearchIndex,
+  editDistance,
+  matchWord,
+  matchesText,
+  searchExercises,
+} from '../../src/lib/exercise-search';
+
+const index = buildSearchIndex(EXERCISE_LIBRARY);
+const search = (query: string) => searchExercises(index, query).map((exercise) => exercise.id);
+
+describe('editDistance', () => {
+  it('counts insertions, deletions, substitutions and swapped letters', () => {
+    expect(editDistance('squat', 'squat')).toBe(0);
+    expect(editDistance('squat', 'squats')).toBe(1);
+    expect(editDistance('bench', 'bunch')).toBe(1);
+    expect(editDistance('bench', 'bnech')).toBe(1);
+    expect(editDistance('row', 'pull')).toBe(4);
+  });
+});
+
+describe('matchWord', () => {
+  it('ranks exact words over prefixes, inner matches and typos', () => {
+    expect(matchWord('press', 'press')).toBe(1);
+    expect(matchWord('pre', 'press')).toBe(0.8);
+    expect(matchWord('lift', 'deadlift')).toBe(0.6);
+    expect(matchWord('dedlift', 'deadlift')).toBe(0.4);
+  });
+
+  it('does not forgive typos in short words', () => {
+    expect(matchWord('rwo', 'row')).toBe(0);
+  });
+});
+
+describe('searchExercises', () => {
+  it('returns the whole library in order for an empty query', () => {
+    expect(search('  ')).toEqual(EXERCISE_LIBRARY.map((exercise) => exercise.id));
+  });
+
+  it('puts name matches first', () => {
+    expect(search('bench')[0]).toBe('bench-press');
+    expect(search('bench press')[0]).toBe('bench-press');
+  });
+
+  it('finds exercises despite a typo', () => {
+    expect(search('deadlfit').slice(0, 2).sort()).toEqual(['deadlift', 'romanian-deadlift']);
+  });
+
+  it('matches other names', () => {
+    expect(search('ohp')).toEqual(['overhead-press']);
+  });
+
+  it('matches secondary muscles, equipment and movement', () => {
+    expect(search('triceps')).toContain('bench-press');
+    expect(search('hinge').slice(0, 2).sort()).toEqual(['deadlift', 'romanian-deadlift']);
+  });
+
+  it('ranks a match in the instructions below a match in the name', () => {
+    const results = search('row');
+    expect(results.slice(0, 2).sort()).toEqual(['dumbbell-row', 'rowing-machine']);
+  });
+
+  it('needs every word of the query to match', () => {
+    expect(search('squat zzzz')).toEqual([]);
+  });
+});
+
+describe('matchesText', () => {
+  it('matches every query word against the text', () => {
+    expect(matchesText('Push Day', 'push')).toBe(true);
+    expect(matchesText('Push Day', 'psh')).toBe(false);
+    expect(matchesText('Upper Body Strength', 'uper strenght')).toBe(true);
+    expect(matchesText('Push Day', '')).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { EXERCISE_LIBRARY, findExercise, matchesFilters, muscleShares, offeredExercises } from '../../src/lib/exercises';
+
+describe('offeredExercises', () => {
+  const library = EXERCISE_LIBRARY.map((exercise) =>
+    exercise.id === 'plank' ? { ...exercise, deprecated: true } : exercise
+  );
+
+  it('leaves deprecated exercises out of pickers', () => {
+    expect(offeredExercises(library).map((e) => e.id)).not.toContain('plank');
+    expect(offeredExercises(library)).toHaveLength(EXERCISE_LIBRARY.length - 1);
+  });
+
+  it('keeps a deprecated exercise that is already chosen', () => {
+    expect(offeredExercises(library, 'plank').map((e) => e.id)).toContain('plank');
+  });
+
+  it('still finds deprecated exercises by id', () => {
+    expect(findExercise('plank', library)?.name).toBe('Plank');
+  });
+});
+
+describe('exercise metadata', () => {
+  const ids = (filters: Parameters<typeof matchesFilters>[1]) =>
+    EXERCISE_LIBRARY.filter((exercise) => matchesFilters(exercise, filters)).map((exercise) => exercise.id);
+
+  it('credits the primary muscle in full and secondary muscles with their share', () => {
+    expect(muscleShares(findExercise('bench-press')!)).toEqual([
+      { muscleGroup: 'chest', weight: 1 },
+      { muscleGroup: 'triceps', weight: 0.5 },
+      { muscleGroup: 'shoulders', weight: 0.5 },
+    ]);
+  });
+
+  it('matches muscle groups on primary and secondary muscles', () => {
+    expect(ids({ muscleGroup: 'triceps' })).toEqual(['bench-press', 'overhead-press', 'tricep-dip', 'push-up']);
+  });
+
+  it('combines equipment, movement pattern, difficulty and unilateral filters', () => {
+    expect(ids({ movementPattern: 'hinge' })).toEqual(['deadlift', 'romanian-deadlift']);
+    expect(ids({ movementPattern: 'pull', equipment: 'cable' })).toEqual(['lat-pulldown']);
+    expect(ids({ unilateral: true })).toEqual(['dumbbell-row', 'lunges']);
+    expect(ids({ unilateral: true, difficulty: 'advanced' })).toEqual([]);
+    expect(ids({})).toHaveLength(EXERCISE_LIBRARY.length);
+  });
+});
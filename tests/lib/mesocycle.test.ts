@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MESOCYCLE_WEEK_MS,
+  buildMesocycle,
+  describeMesocycleWeek,
+  isMesocycleComplete,
+  mesocyclePosition,
+  mesocycleTargets,
+} from '../../src/lib/mesocycle';
+import type { WorkoutExercise } from '../../src/lib/types';
+
+const squat: WorkoutExercise = { exerciseId: 'barbell-squat', sets: 5, reps: 5, weight: 200 };
+const block = buildMesocycle({ weeks: 5, weeklyIncrease: 0.025, deloadVolume: 0.6 }, 1000);
+
+describe('buildMesocycle', () => {
+  it('ramps intensity each week and ends with a deload week', () => {
+    expect(block.startedAt).toBe(1000);
+    expect(block.weeks).toEqual([
+      { intensity: 1, volume: 1 },
+      { intensity: 1.025, volume: 1 },
+      { intensity: 1.05, volume: 1 },
+      { intensity: 1.075, volume: 1 },
+      { intensity: 1, volume: 0.6, deload: true },
+    ]);
+  });
+
+  it('skips the deload week when no deload volume is set', () => {
+    const weeks = buildMesocycle({ weeks: 3, weeklyIncrease: 0.05, deloadVolume: null }).weeks;
+    expect(weeks.map((week) => week.intensity)).toEqual([1, 1.05, 1.1]);
+    expect(weeks.some((week) => week.deload)).toBe(false);
+  });
+});
+
+describe('mesocyclePosition', () => {
+  it('finds the week a date falls in', () => {
+    expect(mesocyclePosition(block, 1000)).toEqual({ weekIndex: 0, week: block.weeks[0] });
+    expect(mesocyclePosition(block, 1000 + 4 * MESOCYCLE_WEEK_MS + 1)).toEqual({ weekIndex: 4, week: block.weeks[4] });
+  });
+
+  it('returns null before the block, after it and without one', () => {
+    expect(mesocyclePosition(block, 0)).toBeNull();
+    expect(mesocyclePosition(block, 1000 + 5 * MESOCYCLE_WEEK_MS)).toBeNull();
+    expect(mesocyclePosition(undefined, 1000)).toBeNull();
+  });
+});
+
+describe('isMesocycleComplete', () => {
+  it('is true once every week has passed', () => {
+    expect(isMesocycleComplete(block, 1000 + 5 * MESOCYCLE_WEEK_MS - 1)).toBe(false);
+    expect(isMesocycleComplete(block, 1000 + 5 * MESOCYCLE_WEEK_MS)).toBe(true);
+  });
+});
+
+describe('mesocycleTargets', () => {
+  it('scales weight by intensity, rounded to the increment', () => {
+    expect(mesocycleTargets(squat, block.weeks[3])).toEqual({ sets: 5, reps: 5, weight: 215 });
+  });
+
+  it('scales sets by volume, keeping at least one', () => {
+    expect(mesocycleTargets(squat, block.weeks[4])).toEqual({ sets: 3, reps: 5, weight: 200 });
+    expect(mesocycleTargets({ ...squat, sets: 1 }, { intensity: 1, volume: 0.3 }).sets).toBe(1);
+  });
+
+  it('leaves bodyweight exercises without a weight', () => {
+    expect(mesocycleTargets({ exerciseId: 'pull-up', sets: 4, reps: 8 }, block.weeks[2]).weight).toBeUndefined();
+  });
+});
+
+describe('describeMesocycleWeek', () => {
+  it('summarizes the modifiers', () => {
+    expect(describeMesocycleWeek(block.weeks[0])).toBe('Base targets');
+    expect(describeMesocycleWeek(block.weeks[1])).toBe('102.5% intensity');
+    expect(describeMesocycleWeek(block.weeks[4])).toBe('Deload: 60% volume');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  currentOneRepMax,
+  estimateOneRepMax,
+  oneRepMaxTrend,
+  autoregulatedWeight,
+  rpePercentage,
+  weightForPercentage,
+  weightForRpe,
+} from '../../src/lib/one-rep-max';
+import type { WorkoutSession } from '../../src/lib/types';
+
+const session = (id: string, startedAt: number, sets: Array<[number, number]>): WorkoutSession => ({
+  id,
+  planId: 'plan-1',
+  planName: 'Leg Day',
+  startedAt,
+  completedAt: startedAt + 3_600_000,
+  exercises: [
+    {
+      exerciseId: 'squat',
+      exerciseName: 'Barbell Squat',
+      completedSets: sets.map(([reps, weight], i) => ({ setNumber: i + 1, reps, weight, completedAt: startedAt + i })),
+    },
+  ],
+  status: 'completed',
+});
+
+describe('one-rep max', () => {
+  it('estimates with each formula', () => {
+    const set = { reps: 5, weight: 200 };
+    expect(estimateOneRepMax(set, 'epley')).toBeCloseTo(233.33, 2);
+    expect(estimateOneRepMax(set, 'brzycki')).toBeCloseTo(225, 2);
+    expect(estimateOneRepMax(set, 'lombardi')).toBeCloseTo(234.92, 2);
+    expect(estimateOneRepMax({ ...set, rpe: 8 }, 'rpe')).toBeCloseTo(200 / 0.811, 2);
+    expect(estimateOneRepMax({ ...set, rir: 2 }, 'rpe')).toBeCloseTo(200 / 0.811, 2);
+  });
+
+  it('treats singles as the 1RM and ignores unweighted sets', () => {
+    expect(estimateOneRepMax({ reps: 1, weight: 300 }, 'epley')).toBe(300);
+    expect(estimateOneRepMax({ reps: 1, weight: 300 }, 'brzycki')).toBe(300);
+    expect(estimateOneRepMax({ reps: 12 }, 'epley')).toBe(0);
+  });
+
+  it('reads the RPE chart and falls back outside it', () => {
+    expect(rpePercentage(1, 10)).toBe(100);
+    expect(rpePercentage(3, 9)).toBe(89.2);
+    expect(rpePercentage(12, 6.5)).toBe(58.6);
+    expect(rpePercentage(15, 10)).toBeNull();
+    expect(estimateOneRepMax({ reps: 15, weight: 100, rpe: 8 }, 'rpe')).toBeCloseTo(100 * (1 + 17 / 30), 2);
+  });
+
+  it('tracks the best estimate per session', () => {
+    const sessions = [session('s2', 2000, [[5, 225]]), session('s1', 1000, [[5, 200], [3, 215]])];
+
+    expect(oneRepMaxTrend(sessions, 'squat', 'brzycki').map((p) => [p.sessionId, Math.round(p.oneRepMax)])).toEqual([
+      ['s1', 228],
+      ['s2', 253],
+    ]);
+    expect(currentOneRepMax(sessions, 'squat', 'brzycki')).toBeCloseTo(253.13, 2);
+    expect(currentOneRepMax(sessions, 'bench-press')).toBeNull();
+  });
+
+  it('resolves percentage targets to a rounded load', () => {
+    expect(weightForPercentage(253, 80)).toBe(200);
+    expect(weightForPercentage(253, 80, 2.5)).toBe(202.5);
+  });
+
+  it('resolves RPE targets to a rounded load', () => {
+    expect(weightForRpe(246.6, 5, 8)).toBe(200);
+    expect(weightForRpe(300, 15, 8)).toBe(190);
+  });
+
+  it('adjusts the next set from the latest set with RPE or RIR', () => {
+    const sets = [
+      { setNumber: 1, type: 'warm-up' as const, reps: 5, weight: 135, rpe: 5, completedAt: 1 },
+      { setNumber: 2, reps: 5, weight: 200, completedAt: 2 },
+    ];
+    expect(autoregulatedWeight(sets, 5, 8)).toBeNull();
+
+    const logged = [...sets, { setNumber: 3, reps: 5, weight: 200, rir: 1, completedAt: 3 }];
+    const next = autoregulatedWeight(logged, 5, 8);
+    expect(next?.weight).toBe(195);
+    expect(next?.oneRepMax).toBeCloseTo(200 / 0.837, 2);
+  });
+});
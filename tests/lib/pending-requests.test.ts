@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addSetRequest,
+  createSessionRequest,
+  deletePlanRequest,
+  deleteSessionRequest,
+  savePlanRequest,
+  updateSessionRequest,
+} from '../../src/lib/api';
+import { applyPlanRequests, applySessionRequests } from '../../src/lib/pending-requests';
+import type { WorkoutPlan, WorkoutSession } from '../../src/lib/types';
+
+const plan = (id: string, name: string): WorkoutPlan => ({ id, name, description: '', exercises: [], createdAt: 1 });
+
+const session: WorkoutSession = {
+  id: 'session-1',
+  planId: 'plan-1',
+  planName: 'Push Day',
+  startedAt: 1000,
+  exercises: [{ exerciseId: 'bench-press', exerciseName: 'Barbell Bench Press', completedSets: [] }],
+  status: 'in-progress',
+};
+
+describe('applyPlanRequests', () => {
+  it('saves and deletes plans in order', () => {
+    const plans = [plan('plan-1', 'Push'), plan('plan-2', 'Pull')];
+
+    expect(
+      applyPlanRequests(plans, [
+        savePlanRequest(plan('plan-1', 'Push A')),
+        deletePlanRequest('plan-2'),
+        savePlanRequest(plan('plan 3', 'Legs')),
+      ])
+    ).toEqual([plan('plan-1', 'Push A'), plan('plan 3', 'Legs')]);
+  });
+});
+
+describe('applySessionRequests', () => {
+  it('creates, updates and deletes sessions', () => {
+    const later = { ...session, id: 'session-2', startedAt: 2000 };
+
+    expect(
+      applySessionRequests(
+        [session],
+        [
+          createSessionRequest(later),
+          updateSessionRequest('session-2', { status: 'completed' }),
+          deleteSessionRequest('session-1'),
+        ]
+      )
+    ).toEqual([{ ...later, status: 'completed' }]);
+  });
+
+  it('adds queued sets once, even when the loaded list already has them', () => {
+    const set = { setNumber: 1, reps: 8, weight: 135, completedAt: 2000 };
+    const withSet = applySessionRequests([session], [addSetRequest('session-1', 0, set)]);
+
+    expect(withSet[0].exercises[0].completedSets).toEqual([set]);
+    expect(applySessionRequests(withSet, [addSetRequest('session-1', 0, set)])).toEqual(withSet);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectPersonalRecords,
+  formatPersonalRecord,
+  personalRecordHistory,
+  personalRecordsByExercise,
+} from '../../src/lib/personal-records';
+import type { CompletedSet, WorkoutSession } from '../../src/lib/types';
+
+const session = (id: string, startedAt: number, sets: Array<[number, number?]>): WorkoutSession => ({
+  id,
+  planId: 'plan-1',
+  planName: 'Push Day',
+  startedAt,
+  exercises: [
+    {
+      exerciseId: 'bench-press',
+      exerciseName: 'Barbell Bench Press',
+      completedSets: sets.map(([reps, weight], i) => ({
+        setNumber: i + 1,
+        reps,
+        weight,
+        completedAt: startedAt + (i + 1) * 1000,
+      })),
+    },
+  ],
+  status: 'completed',
+});
+
+describe('personal records', () => {
+  it('does not flag records during the first session of an exercise', () => {
+    expect(personalRecordHistory([session('s1', 1000, [[5, 135], [5, 155]])], 'bench-press')).toEqual([]);
+  });
+
+  it('records weight, reps-at-weight, e1RM and session volume bests', () => {
+    const history = personalRecordHistory(
+      [session('s1', 1000, [[5, 135], [5, 135]]), session('s2', 100_000, [[8, 135], [3, 155], [3, 155]])],
+      'bench-press'
+    );
+
+    expect(history.map((r) => [r.type, r.value, r.previous, r.setNumber])).toEqual([
+      ['most-reps', 8, 5, 1],
+      ['best-e1rm', 171, 157.5, 1],
+      ['heaviest-weight', 155, 135, 2],
+      ['best-volume', 2010, 1350, 2],
+    ]);
+  });
+
+  it('detects the records a new set would set in the active workout', () => {
+    const active = { ...session('s2', 100_000, []), status: 'in-progress' as const };
+    const set: CompletedSet = { setNumber: 1, reps: 5, weight: 185, completedAt: 101_000 };
+
+    const records = detectPersonalRecords([session('s1', 1000, [[5, 135]])], active, 0, set);
+
+    expect(records.map((r) => r.type)).toEqual(['heaviest-weight', 'best-e1rm', 'best-volume']);
+    expect(formatPersonalRecord(records[0])).toBe('185 lbs');
+  });
+
+  it('ignores warm-up sets', () => {
+    const warmUp = session('s2', 2000, [[20, 135]]);
+    warmUp.exercises[0].completedSets[0].type = 'warm-up';
+    expect(personalRecordHistory([session('s1', 1000, [[5, 135]]), warmUp], 'bench-press')).toEqual([]);
+  });
+
+  it('groups history by exercise and skips exercises without records', () => {
+    const byExercise = personalRecordsByExercise([session('s1', 1000, [[5, 135]]), session('s2', 2000, [[5, 125]])]);
+    expect(byExercise.size).toBe(0);
+  });
+});
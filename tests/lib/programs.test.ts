@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { advanceProgram, importTemplate, programPlanIds, todaysWorkout } from '../../src/lib/programs';
+import { WORKOUT_TEMPLATES } from '../../src/lib/workout-templates';
+import { LBS_PER_KG } from '../../src/lib/units';
+import type { Program } from '../../src/lib/types';
+
+const ppl = WORKOUT_TEMPLATES.find((t) => t.id === 'push-pull-legs')!;
+const stronglifts = WORKOUT_TEMPLATES.find((t) => t.id === '5x5-stronglifts')!;
+
+const program: Program = {
+  id: 'program-1',
+  name: 'PPL',
+  description: '',
+  days: [
+    { name: 'Push', planId: 'plan-push' },
+    { name: 'Pull', planId: 'plan-pull' },
+    { name: 'Legs', planId: 'plan-legs' },
+  ],
+  schedule: [1, 3, 5],
+  nextDayIndex: 0,
+  createdAt: 0,
+};
+
+// 2026-01-05 is a Monday, 2026-01-06 a Tuesday
+const monday = new Date(2026, 0, 5);
+const tuesday = new Date(2026, 0, 6);
+
+describe('importTemplate', () => {
+  it('imports a single-day template as one plan without a program', () => {
+    const { plans, program } = importTemplate(stronglifts, 100);
+    expect(program).toBeNull();
+    expect(plans).toHaveLength(1);
+    expect(plans[0]).toMatchObject({ id: 'plan-100', name: '5x5 Stronglifts' });
+    expect(plans[0].exercises).toEqual(stronglifts.days[0].exercises);
+  });
+
+  it('imports a multi-day template as a plan per day tied together by a program', () => {
+    const { plans, program } = importTemplate(ppl, 100);
+    expect(plans.map((p) => p.name)).toEqual([
+      'Push/Pull/Legs (PPL): Push',
+      'Push/Pull/Legs (PPL): Pull',
+      'Push/Pull/Legs (PPL): Legs',
+    ]);
+    expect(program).toMatchObject({
+      name: 'Push/Pull/Legs (PPL)',
+      schedule: [1, 2, 3, 4, 5, 6],
+      nextDayIndex: 0,
+      days: plans.map((p, i) => ({ name: ppl.days[i].name, planId: p.id })),
+    });
+  });
+
+  it('snaps template weights to 2.5 kg steps for metric users', () => {
+    const { plans } = importTemplate(stronglifts, 100, 'metric');
+    plans[0].exercises.forEach((exercise) => {
+      const steps = exercise.weight! / LBS_PER_KG / 2.5;
+      expect(steps).toBeCloseTo(Math.round(steps));
+    });
+  });
+});
+
+describe('todaysWorkout', () => {
+  it('returns the next day and whether the date is scheduled', () => {
+    expect(todaysWorkout(program, monday)).toEqual({ dayIndex: 0, day: program.days[0], isTrainingDay: true });
+    expect(todaysWorkout({ ...program, nextDayIndex: 2 }, tuesday)).toEqual({
+      dayIndex: 2,
+      day: program.days[2],
+      isTrainingDay: false,
+    });
+  });
+
+  it('returns null for a program without days', () => {
+    expect(todaysWorkout({ ...program, days: [] }, monday)).toBeNull();
+  });
+});
+
+describe('advanceProgram', () => {
+  it('rotates to the following day and wraps after the last', () => {
+    expect(advanceProgram(program, 'plan-push').nextDayIndex).toBe(1);
+    expect(advanceProgram({ ...program, nextDayIndex: 2 }, 'plan-legs').nextDayIndex).toBe(0);
+  });
+
+  it('continues from a day completed out of order', () => {
+    expect(advanceProgram(program, 'plan-pull').nextDayIndex).toBe(2);
+  });
+
+  it('leaves the program alone for other plans', () => {
+    expect(advanceProgram(program, 'plan-other')).toBe(program);
+  });
+});
+
+describe('programPlanIds', () => {
+  it('collects every day plan across programs', () => {
+    expect(programPlanIds([program])).toEqual(new Set(['plan-push', 'plan-pull', 'plan-legs']));
+  });
+});
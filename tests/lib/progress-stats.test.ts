@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { exerciseProgress, sessionsInRange, weeklyMuscleGroupVolume } from '../../src/lib/progress-stats';
+import type { Exercise, WorkoutSession } from '../../src/lib/types';
+
+const DAY = 86_400_000;
+// Monday
+const WEEK_START = new Date(2026, 0, 5).getTime();
+
+const session = (id: string, completedAt: number, exercises: Array<[string, Array<[number, number?]>]>): WorkoutSession => ({
+  id,
+  planId: 'plan-1',
+  planName: 'Full Body',
+  startedAt: completedAt - 3_600_000,
+  completedAt,
+  exercises: exercises.map(([exerciseId, sets]) => ({
+    exerciseId,
+    exerciseName: exerciseId,
+    completedSets: sets.map(([reps, weight], i) => ({ setNumber: i + 1, reps, weight, completedAt })),
+  })),
+  status: 'completed',
+});
+
+describe('progress stats', () => {
+  it('builds one point per session for an exercise', () => {
+    const sessions = [
+      session('s2', WEEK_START + 3 * DAY, [['barbell-squat', [[5, 225], [5, 235]]]]),
+      session('s1', WEEK_START + DAY, [['barbell-squat', [[5, 215]]], ['bench-press', [[8, 135]]]]),
+    ];
+
+    expect(exerciseProgress(sessions, 'barbell-squat', 'epley')).toEqual([
+      {
+        sessionId: 's1',
+        date: WEEK_START + DAY,
+        topSetWeight: 215,
+        topSetReps: 5,
+        oneRepMax: 250.8,
+        volume: 1075,
+        reps: 5,
+        duration: 0,
+        longestDuration: 0,
+        distance: 0,
+      },
+      {
+        sessionId: 's2',
+        date: WEEK_START + 3 * DAY,
+        topSetWeight: 235,
+        topSetReps: 5,
+        oneRepMax: 274.2,
+        volume: 2300,
+        reps: 10,
+        duration: 0,
+        longestDuration: 0,
+        distance: 0,
+      },
+    ]);
+  });
+
+  it('tracks time and distance for timed exercises', () => {
+    const run = session('run', WEEK_START + DAY, [['running', []]]);
+    run.exercises[0].completedSets = [
+      { setNumber: 1, reps: 0, distance: 1609, durationSeconds: 480, completedAt: 1 },
+      { setNumber: 2, reps: 0, distance: 3218, durationSeconds: 1020, completedAt: 2 },
+    ];
+    // Older plank sets stored seconds in reps
+    const plank = session('plank', WEEK_START + 2 * DAY, [['plank', [[30], [45]]]]);
+
+    expect(exerciseProgress([run], 'running')[0]).toMatchObject({ distance: 4827, duration: 1500, longestDuration: 1020 });
+    expect(exerciseProgress([plank], 'plank')[0]).toMatchObject({ duration: 75, longestDuration: 45 });
+  });
+
+  it('filters sessions to the selected range', () => {
+    const now = WEEK_START + 100 * DAY;
+    const sessions = [session('old', WEEK_START, []), session('recent', now - 10 * DAY, [])];
+
+    expect(sessionsInRange(sessions, '4w', now).map((s) => s.id)).toEqual(['recent']);
+    expect(sessionsInRange(sessions, 'all', now)).toHaveLength(2);
+  });
+
+  it('sums weekly volume per muscle group, crediting secondary muscles with their share', () => {
+    const sessions = [
+      session('s1', WEEK_START + DAY, [['barbell-squat', [[5, 200]]], ['bench-press', [[10, 100]]]]),
+      session('s2', WEEK_START + 2 * DAY, [['bench-press', [[10, 100]]], ['unknown', [[10, 100]]]]),
+      session('s3', WEEK_START + 8 * DAY, [['barbell-squat', [[5, 100]]], ['plank', [[1]]]]),
+    ];
+
+    expect(weeklyMuscleGroupVolume(sessions)).toEqual([
+      { weekStart: WEEK_START, legs: 1000, core: 250, chest: 2000, triceps: 1000, shoulders: 1000 },
+      { weekStart: WEEK_START + 7 * DAY, legs: 500, core: 125 },
+    ]);
+  });
+
+  it('uses the muscle shares of the library it is given', () => {
+    const library: Exercise[] = [
+      {
+        id: 'custom-1',
+        name: 'Sled Push',
+        muscleGroup: 'legs',
+        difficulty: 'beginner',
+        secondaryMuscles: [{ muscleGroup: 'cardio', weight: 0.3 }],
+        instructions: [],
+        formCues: [],
+      },
+    ];
+    const sessions = [session('s1', WEEK_START + DAY, [['custom-1', [[10, 100]]], ['bench-press', [[10, 100]]]])];
+
+    expect(weeklyMuscleGroupVolume(sessions, library)).toEqual([{ weekStart: WEEK_START, legs: 1000, cardio: 300 }]);
+  });
+});
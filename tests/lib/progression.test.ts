@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { suggestProgression } from '../../src/lib/progression';
+import type { WorkoutExercise, WorkoutSession } from '../../src/lib/types';
+
+const session = (
+  startedAt: number,
+  sets: Array<[number, number]>,
+  targetReps?: number,
+  targetSets?: number
+): WorkoutSession => ({
+  id: `session-${startedAt}`,
+  planId: 'plan-1',
+  planName: 'Strength',
+  startedAt,
+  exercises: [
+    {
+      exerciseId: 'barbell-squat',
+      exerciseName: 'Barbell Squat',
+      targetReps,
+      targetSets,
+      completedSets: sets.map(([reps, weight], i) => ({ setNumber: i + 1, reps, weight, completedAt: startedAt + i })),
+    },
+  ],
+  status: 'completed',
+});
+
+const linear: WorkoutExercise = {
+  exerciseId: 'barbell-squat',
+  sets: 3,
+  reps: 5,
+  weight: 185,
+  progression: { type: 'linear', increment: 5, deloadAfterFailures: 3 },
+};
+
+const double: WorkoutExercise = {
+  exerciseId: 'barbell-squat',
+  sets: 3,
+  reps: 8,
+  weight: 135,
+  progression: { type: 'double', increment: 10, repRangeMin: 8, repRangeMax: 12 },
+};
+
+describe('progression', () => {
+  it('returns null without a rule and starts from the plan without history', () => {
+    expect(suggestProgression({ ...linear, progression: undefined }, [])).toBeNull();
+    expect(suggestProgression(linear, [])).toMatchObject({ weight: 185, reps: 5, outcome: 'start' });
+  });
+
+  it('adds the increment after a successful linear session', () => {
+    const suggestion = suggestProgression(linear, [session(1, [[5, 185], [5, 185], [5, 185]])]);
+    expect(suggestion).toMatchObject({ weight: 190, reps: 5, outcome: 'increase' });
+  });
+
+  it('holds the weight after a miss and deloads after repeated misses', () => {
+    const missed = (t: number) => session(t, [[5, 200], [5, 200], [3, 200]]);
+
+    expect(suggestProgression(linear, [session(1, [[5, 200], [5, 200], [5, 200]]), missed(2)])).toMatchObject({
+      weight: 200,
+      outcome: 'hold',
+    });
+    expect(suggestProgression(linear, [missed(1), missed(2), missed(3)])).toMatchObject({
+      weight: 180,
+      reps: 5,
+      outcome: 'deload',
+    });
+  });
+
+  it('climbs the rep range before adding weight with double progression', () => {
+    expect(suggestProgression(double, [session(1, [[9, 135], [8, 135], [8, 135]])])).toMatchObject({
+      weight: 135,
+      reps: 9,
+      outcome: 'add-reps',
+    });
+    expect(suggestProgression(double, [session(1, [[12, 135], [12, 135], [12, 135]], 12)])).toMatchObject({
+      weight: 145,
+      reps: 8,
+      outcome: 'increase',
+    });
+  });
+
+  it('judges a session against the targets it was started with', () => {
+    const suggestion = suggestProgression(double, [session(1, [[10, 135], [10, 135], [9, 135]], 10)]);
+    expect(suggestion).toMatchObject({ weight: 135, reps: 10, outcome: 'hold' });
+  });
+
+  it('counts a session with fewer target sets, like a deload week, as a success', () => {
+    const deload = session(2, [[5, 185], [5, 185]], 5, 2);
+    expect(suggestProgression(linear, [session(1, [[5, 185], [5, 185], [5, 185]]), deload])).toMatchObject({
+      weight: 190,
+      outcome: 'increase',
+    });
+  });
+});
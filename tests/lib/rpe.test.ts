@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { formatEffort, setRpe } from '../../src/lib/rpe';
+
+describe('RPE and RIR', () => {
+  it('converts reps in reserve to RPE', () => {
+    expect(setRpe({ rpe: 8.5 })).toBe(8.5);
+    expect(setRpe({ rir: 2 })).toBe(8);
+    expect(setRpe({})).toBeUndefined();
+  });
+
+  it('formats effort on the scale it was logged', () => {
+    expect(formatEffort({ rpe: 9 })).toBe('RPE 9');
+    expect(formatEffort({ rir: 0 })).toBe('0 RIR');
+    expect(formatEffort({})).toBeNull();
+  });
+});
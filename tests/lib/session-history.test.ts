@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendSet,
+  pastSession,
+  planForSession,
+  planFromSession,
+  retimeSession,
+  sessionExercise,
+  sessionMinutes,
+  updateSessionSets,
+} from '../../src/lib/session-history';
+import type { WorkoutSession } from '../../src/lib/types';
+
+const MINUTE = 60 * 1000;
+
+const session: WorkoutSession = {
+  id: 'session-1',
+  planId: 'plan-1',
+  planName: 'Push Day',
+  startedAt: 100 * MINUTE,
+  completedAt: 160 * MINUTE,
+  exercises: [
+    {
+      exerciseId: 'bench-press',
+      exerciseName: 'Barbell Bench Press',
+      completedSets: [
+        { setNumber: 1, reps: 10, weight: 135, rpe: 7, completedAt: 110 * MINUTE },
+        { setNumber: 2, reps: 8, weight: 135, rpe: 8, completedAt: 115 * MINUTE },
+      ],
+    },
+  ],
+  status: 'completed',
+};
+
+describe('session history', () => {
+  it('starts a past workout as an empty completed session of an hour', () => {
+    const past = pastSession(1000, 'session-past');
+    expect(past).toMatchObject({ id: 'session-past', status: 'completed', startedAt: 1000, exercises: [] });
+    expect(sessionMinutes(past)).toBe(60);
+  });
+
+  it('moves set times along with the session and keeps them within it', () => {
+    const moved = retimeSession(session, 1000 * MINUTE, 12);
+    expect(moved.completedAt).toBe(1012 * MINUTE);
+    expect(moved.exercises[0].completedSets.map((set) => set.completedAt)).toEqual([1010 * MINUTE, 1012 * MINUTE]);
+  });
+
+  it('renumbers sets after one is removed', () => {
+    const edited = updateSessionSets(session, 0, (sets) => sets.slice(1));
+    expect(edited.exercises[0].completedSets).toEqual([
+      { setNumber: 1, reps: 8, weight: 135, rpe: 8, completedAt: 115 * MINUTE },
+    ]);
+  });
+
+  it('adds a copy of the last set without its effort, timed at the end', () => {
+    const added = appendSet(session, 0).exercises[0].completedSets[2];
+    expect(added).toEqual({ setNumber: 3, reps: 8, weight: 135, completedAt: 160 * MINUTE });
+    expect(appendSet({ ...session, exercises: [sessionExercise('plank')] }, 0).exercises[0].completedSets).toEqual([
+      { setNumber: 1, reps: 0, completedAt: 160 * MINUTE },
+    ]);
+  });
+
+  it('names exercises from the library', () => {
+    expect(sessionExercise('plank')).toEqual({ exerciseId: 'plank', exerciseName: 'Plank', completedSets: [] });
+  });
+
+  it('rebuilds a plan from a session whose plan was deleted', () => {
+    const active: WorkoutSession = {
+      ...session,
+      completedAt: undefined,
+      status: 'in-progress',
+      exercises: [
+        { ...session.exercises[0], targetSets: 3, targetReps: 8, targetWeight: 145 },
+        {
+          exerciseId: 'dumbbell-bench-press',
+          exerciseName: 'Dumbbell Bench Press',
+          substitutedFor: { exerciseId: 'incline-bench-press', exerciseName: 'Incline Bench Press' },
+          completedSets: [],
+        },
+      ],
+    };
+
+    expect(planFromSession(active)).toEqual({
+      id: 'plan-1',
+      name: 'Push Day',
+      description: '',
+      exercises: [
+        { exerciseId: 'bench-press', sets: 3, reps: 8, weight: 145 },
+        { exerciseId: 'incline-bench-press', sets: 1, reps: 0, weight: undefined },
+      ],
+      createdAt: 100 * MINUTE,
+    });
+  });
+
+  it('fills exercises an edited plan no longer has from the session', () => {
+    const edited = {
+      id: 'plan-1',
+      name: 'Push Day',
+      description: '',
+      exercises: [{ exerciseId: 'bench-press', sets: 4, reps: 6, weight: 155 }],
+      createdAt: 0,
+    };
+    const active: WorkoutSession = {
+      ...session,
+      exercises: [...session.exercises, { exerciseId: 'push-up', exerciseName: 'Push-Up', targetSets: 2, targetReps: 15, completedSets: [] }],
+    };
+
+    expect(planForSession(active, edited).exercises).toEqual([
+      { exerciseId: 'bench-press', sets: 4, reps: 6, weight: 155 },
+      { exerciseId: 'push-up', sets: 2, reps: 15, weight: undefined },
+    ]);
+    expect(planForSession(active, undefined)).toEqual(planFromSession(active));
+  });
+});
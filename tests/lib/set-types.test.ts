@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { dropSetWeight, plannedSetTypes, setTypeOf, withoutWarmUps } from '../../src/lib/set-types';
+import { WorkoutExercise } from '../../src/lib/types';
+
+const exercise: WorkoutExercise = {
+  exerciseId: 'bench-press',
+  exerciseName: 'Bench Press',
+  sets: 3,
+  reps: 8,
+  weight: 135,
+};
+
+describe('set types', () => {
+  it('treats sets without a type as working sets', () => {
+    expect(setTypeOf({})).toBe('working');
+    expect(setTypeOf({ type: 'drop' })).toBe('drop');
+  });
+
+  it('leaves warm-ups out of counted sets', () => {
+    const sets = [{ type: 'warm-up' as const }, {}, { type: 'amrap' as const }];
+    expect(withoutWarmUps(sets)).toEqual([{}, { type: 'amrap' }]);
+  });
+
+  it('plans an AMRAP last set followed by drop sets', () => {
+    expect(plannedSetTypes(exercise)).toEqual(['working', 'working', 'working']);
+    expect(plannedSetTypes({ ...exercise, lastSetType: 'amrap', dropSets: 2 })).toEqual([
+      'working',
+      'working',
+      'amrap',
+      'drop',
+      'drop',
+    ]);
+    expect(plannedSetTypes({ ...exercise, lastSetType: 'failure' }, 2)).toEqual(['working', 'failure']);
+  });
+
+  it('takes the drop percentage off each drop set in turn', () => {
+    expect(dropSetWeight(200, 1)).toBe(160);
+    expect(dropSetWeight(200, 2)).toBe(130);
+    expect(dropSetWeight(200, 1, 0.25, 2.5)).toBe(150);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { EXERCISE_LIBRARY, findExercise } from '../../src/lib/exercises';
+import { suggestProgression } from '../../src/lib/progression';
+import {
+  isAvailable,
+  lastWorkingWeight,
+  sharedMuscle,
+  substituteExercise,
+  suggestAlternatives,
+} from '../../src/lib/substitutions';
+import type { Exercise, WorkoutSession } from '../../src/lib/types';
+
+const ids = (exercises: Exercise[]) => exercises.map((exercise) => exercise.id);
+
+const activeSession: WorkoutSession = {
+  id: 'session-2',
+  planId: 'plan-1',
+  planName: 'Leg Day',
+  startedAt: 2000,
+  exercises: [
+    { exerciseId: 'barbell-squat', exerciseName: 'Barbell Squat', targetSets: 3, targetReps: 5, targetWeight: 225, completedSets: [] },
+  ],
+  status: 'in-progress',
+};
+
+const history: WorkoutSession[] = [
+  {
+    id: 'session-1',
+    planId: 'plan-2',
+    planName: 'Machines',
+    startedAt: 1000,
+    completedAt: 1500,
+    exercises: [
+      {
+        exerciseId: 'leg-press',
+        exerciseName: 'Leg Press',
+        completedSets: [
+          { setNumber: 1, reps: 10, weight: 135, type: 'warm-up', completedAt: 1100 },
+          { setNumber: 2, reps: 10, weight: 315, completedAt: 1200 },
+          { setNumber: 3, reps: 8, weight: 360, completedAt: 1300 },
+        ],
+      },
+    ],
+    status: 'completed',
+  },
+];
+
+describe('sharedMuscle', () => {
+  it('sums the smaller share of each muscle both exercises work', () => {
+    expect(sharedMuscle(findExercise('bench-press')!, findExercise('push-up')!)).toBe(1.75);
+    expect(sharedMuscle(findExercise('bench-press')!, findExercise('barbell-squat')!)).toBe(0);
+  });
+});
+
+describe('isAvailable', () => {
+  it('checks the equipment against what the gym has', () => {
+    expect(isAvailable(findExercise('leg-press')!, ['barbell', 'dumbbell'])).toBe(false);
+    expect(isAvailable(findExercise('leg-press')!, undefined)).toBe(true);
+  });
+
+  it('always allows bodyweight exercises', () => {
+    expect(isAvailable(findExercise('lunges')!, [])).toBe(true);
+  });
+});
+
+describe('suggestAlternatives', () => {
+  it('suggests exercises with the same movement working the same muscles', () => {
+    expect(ids(suggestAlternatives('barbell-squat'))).toEqual(['lunges', 'leg-press']);
+  });
+
+  it('ranks alternatives by the muscles they share', () => {
+    expect(ids(suggestAlternatives('bench-press'))[0]).toBe('push-up');
+    expect(ids(suggestAlternatives('bench-press'))).not.toContain('pull-up');
+  });
+
+  it('leaves out equipment the gym does not have', () => {
+    expect(ids(suggestAlternatives('barbell-squat', EXERCISE_LIBRARY, ['barbell']))).toEqual(['lunges']);
+  });
+
+  it('matches the main muscle for exercises without a movement pattern', () => {
+    expect(ids(suggestAlternatives('running'))).toEqual(['rowing-machine']);
+  });
+
+  it('skips deprecated exercises and unknown ids', () => {
+    const library = EXERCISE_LIBRARY.map((e) => (e.id === 'lunges' ? { ...e, deprecated: true } : e));
+    expect(ids(suggestAlternatives('barbell-squat', library))).toEqual(['leg-press']);
+    expect(suggestAlternatives('missing')).toEqual([]);
+  });
+});
+
+describe('lastWorkingWeight', () => {
+  it('takes the heaviest working set of the latest session with the exercise', () => {
+    expect(lastWorkingWeight('leg-press', history)).toBe(360);
+    expect(lastWorkingWeight('lunges', history)).toBeUndefined();
+  });
+});
+
+describe('substituteExercise', () => {
+  it('records the plan exercise and targets the substitute from its history', () => {
+    const swapped = substituteExercise(activeSession, 0, 'leg-press', EXERCISE_LIBRARY, history);
+
+    expect(swapped.exercises[0]).toEqual({
+      exerciseId: 'leg-press',
+      exerciseName: 'Leg Press',
+      targetSets: 3,
+      targetReps: 5,
+      targetWeight: 360,
+      substitutedFor: { exerciseId: 'barbell-squat', exerciseName: 'Barbell Squat' },
+      completedSets: [],
+    });
+  });
+
+  it('keeps the original exercise when swapping twice, and clears it when swapping back', () => {
+    const twice = substituteExercise(substituteExercise(activeSession, 0, 'leg-press'), 0, 'lunges');
+    expect(twice.exercises[0].substitutedFor?.exerciseId).toBe('barbell-squat');
+
+    const back = substituteExercise(twice, 0, 'barbell-squat');
+    expect(back.exercises[0].exerciseId).toBe('barbell-squat');
+    expect(back.exercises[0]).not.toHaveProperty('substitutedFor');
+    expect(back.exercises[0].targetWeight).toBeUndefined();
+  });
+
+  it('keeps progression for the plan exercise apart from the substitute', () => {
+    const done = {
+      ...substituteExercise(activeSession, 0, 'leg-press'),
+      completedAt: 3000,
+      status: 'completed' as const,
+    };
+    done.exercises[0].completedSets = [{ setNumber: 1, reps: 5, weight: 400, completedAt: 2500 }];
+    const planExercise = {
+      exerciseId: 'barbell-squat',
+      sets: 3,
+      reps: 5,
+      weight: 225,
+      restSeconds: 180,
+      progression: { type: 'linear' as const, increment: 5 },
+    };
+
+    expect(suggestProgression(planExercise, [done])?.outcome).toBe('start');
+    expect(lastWorkingWeight('leg-press', [done])).toBe(400);
+  });
+});
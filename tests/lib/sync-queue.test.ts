@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { savePlanRequest } from '../../src/lib/api';
+import {
+  cacheServerRevisions,
+  flushQueue,
+  getSyncStatus,
+  queueRequest,
+  queueWrite,
+  startSync,
+  subscribeConflicts,
+  subscribeRejectedRequests,
+} from '../../src/lib/sync-queue';
+import { readCachedValue, readJournal, writeCachedValue } from '../../src/lib/offline-store';
+
+const saved = (revision: string, data: unknown) => ({
+  ok: true,
+  status: 200,
+  headers: new Headers({ ETag: revision }),
+  json: async () => ({ success: true, data }),
+});
+
+describe('sync queue', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem('fittrack_user', JSON.stringify({ id: 'user-1' }));
+    global.fetch = vi.fn();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    (global.fetch as any).mockResolvedValue(saved('"0"', null));
+    await flushQueue();
+  });
+
+  it('journals writes while offline and replays them in order once back online', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    (global.fetch as any).mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await queueWrite('prefs', { unit: 'kg' });
+    await flushQueue();
+    await queueWrite('prefs', { unit: 'lb' });
+    await flushQueue();
+
+    expect(getSyncStatus()).toEqual({ state: 'offline', pending: 2 });
+    expect((await readCachedValue('prefs'))?.value).toEqual({ unit: 'lb' });
+
+    (global.fetch as any).mockReset();
+    (global.fetch as any)
+      .mockResolvedValueOnce(saved('"1"', { unit: 'kg' }))
+      .mockResolvedValueOnce(saved('"2"', { unit: 'lb' }));
+    startSync();
+    await flushQueue();
+
+    const bodies = (global.fetch as any).mock.calls.map(([, init]: [string, RequestInit]) => JSON.parse(init.body as string));
+    expect(bodies).toEqual([{ data: { unit: 'kg' } }, { data: { unit: 'lb' } }]);
+    expect((global.fetch as any).mock.calls[1][1].headers['If-Match']).toBe('"1"');
+    expect(await readCachedValue('prefs')).toEqual({ value: { unit: 'lb' }, revision: '"2"' });
+    expect(getSyncStatus()).toEqual({ state: 'synced', pending: 0 });
+  });
+
+  it('keeps a value saved while an earlier write is being replayed', async () => {
+    (global.fetch as any)
+      .mockImplementationOnce(async () => {
+        await queueWrite('prefs', { unit: 'lb' });
+        return saved('"1"', { unit: 'kg' });
+      })
+      .mockResolvedValueOnce(saved('"2"', { unit: 'lb' }));
+
+    await queueWrite('prefs', { unit: 'kg' });
+    await flushQueue();
+
+    expect((global.fetch as any).mock.calls[1][1].headers['If-Match']).toBe('"1"');
+    expect(await readCachedValue('prefs')).toEqual({ value: { unit: 'lb' }, revision: '"2"' });
+    expect(getSyncStatus()).toEqual({ state: 'synced', pending: 0 });
+  });
+
+  it('reports conflicts and keeps later writes local until resolved', async () => {
+    await writeCachedValue('prefs', { value: { unit: 'kg' }, revision: '"1"' });
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: false,
+      status: 409,
+      headers: new Headers({ ETag: '"3"' }),
+      json: async () => ({ success: false, data: { unit: 'lb' } }),
+    });
+    const listener = vi.fn();
+    const unsubscribe = subscribeConflicts('prefs', listener);
+
+    await queueWrite('prefs', { unit: 'st' });
+    await flushQueue();
+    await queueWrite('prefs', { unit: 'g' });
+
+    expect(listener).toHaveBeenCalledWith({ local: { unit: 'st' }, server: { unit: 'lb' }, revision: '"3"' });
+    expect((await readCachedValue('prefs'))?.conflict?.local).toEqual({ unit: 'g' });
+    expect(await readJournal()).toEqual([]);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it('drops writes the server rejects as invalid', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 400, statusText: 'Bad Request' });
+
+    await queueWrite('workout-plans', 'not-a-list');
+    await flushQueue();
+
+    expect(await readJournal()).toEqual([]);
+    expect(getSyncStatus().state).toBe('synced');
+  });
+
+  it('replays resource requests in order with other writes after a failure', async () => {
+    (global.fetch as any).mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await queueRequest({
+      method: 'POST',
+      path: '/sessions/session-1/sets',
+      resource: '/sessions/session-1',
+      body: { exerciseIndex: 0 },
+    });
+    await flushQueue();
+    await queueWrite('prefs', { unit: 'kg' });
+    await flushQueue();
+    expect(await readJournal()).toHaveLength(2);
+
+    (global.fetch as any).mockReset();
+    (global.fetch as any)
+      .mockResolvedValueOnce(saved('"0"', null))
+      .mockResolvedValueOnce(saved('"1"', { unit: 'kg' }));
+    await flushQueue();
+
+    const calls = (global.fetch as any).mock.calls.map(([url, init]: [string, RequestInit]) => [url, init.method]);
+    expect(calls).toEqual([
+      [expect.stringContaining('/sessions/session-1/sets'), 'POST'],
+      [expect.stringContaining('/data/prefs'), 'PUT'],
+    ]);
+    expect((global.fetch as any).mock.calls[0][1].body).toBe(JSON.stringify({ exerciseIndex: 0 }));
+    expect(getSyncStatus()).toEqual({ state: 'synced', pending: 0 });
+  });
+
+  it('drops resource requests the server rejects and reports them', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+    const listener = vi.fn();
+    const unsubscribe = subscribeRejectedRequests(listener);
+
+    await queueRequest({ method: 'DELETE', path: '/plans/plan-1', resource: '/plans/plan-1' });
+    await flushQueue();
+
+    expect(listener).toHaveBeenCalledWith({ method: 'DELETE', path: '/plans/plan-1', resource: '/plans/plan-1' });
+    expect(await readJournal()).toEqual([]);
+    unsubscribe();
+  });
+
+  it('sends plan edits conditional on the revision last loaded', async () => {
+    const plan = { id: 'plan-1', name: 'Push', description: '', exercises: [], createdAt: 1 };
+    (global.fetch as any).mockResolvedValueOnce(saved('"4"', plan));
+
+    await cacheServerRevisions({ '/plans/plan-1': '"3"' });
+    await queueRequest(savePlanRequest(plan));
+    await flushQueue();
+
+    expect((global.fetch as any).mock.calls[0][1].headers).toEqual(expect.objectContaining({ 'If-Match': '"3"' }));
+    expect((await readCachedValue('/plans/plan-1'))?.revision).toBe('"4"');
+  });
+
+  it('reports the server copy when a plan was changed elsewhere, dropping later edits to it', async () => {
+    const plan = { id: 'plan-1', name: 'Push', description: '', exercises: [], createdAt: 1 };
+    const server = { ...plan, name: 'Push (gym)' };
+    (global.fetch as any).mockRejectedValue(new TypeError('Failed to fetch'));
+    await cacheServerRevisions({ '/plans/plan-1': '"3"' });
+    await queueRequest(savePlanRequest(plan));
+    await queueRequest(savePlanRequest({ ...plan, name: 'Push day' }));
+    await flushQueue();
+
+    (global.fetch as any).mockReset();
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: false,
+      status: 409,
+      statusText: 'Conflict',
+      headers: new Headers({ ETag: '"5"' }),
+      json: async () => ({ success: false, error: 'Revision conflict', data: server }),
+    });
+    const listener = vi.fn();
+    const unsubscribe = subscribeConflicts('/plans', listener);
+    await flushQueue();
+
+    expect(listener).toHaveBeenCalledWith({ local: plan, server, revision: '"5"' });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(await readJournal()).toEqual([]);
+    expect((await readCachedValue('/plans/plan-1'))?.revision).toBe('"5"');
+    unsubscribe();
+  });
+
+  it('keeps the revision queued edits were made on when the list reloads', async () => {
+    (global.fetch as any).mockRejectedValue(new TypeError('Failed to fetch'));
+    const plan = { id: 'plan-1', name: 'Push', description: '', exercises: [], createdAt: 1 };
+
+    await cacheServerRevisions({ '/plans/plan-1': '"3"' });
+    await queueRequest(savePlanRequest(plan));
+    await flushQueue();
+    await cacheServerRevisions({ '/plans/plan-1': '"4"' });
+
+    expect((await readCachedValue('/plans/plan-1'))?.revision).toBe('"3"');
+  });
+});
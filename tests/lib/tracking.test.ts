@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatSetValues,
+  fromSignedLoad,
+  setDuration,
+  signedLoad,
+  trackingModeFor,
+} from '../../src/lib/tracking';
+import type { Exercise } from '../../src/lib/types';
+
+describe('tracking modes', () => {
+  it('reads the mode from the exercise library, defaulting to reps × weight', () => {
+    expect(trackingModeFor('plank')).toBe('duration');
+    expect(trackingModeFor('running')).toBe('distance-duration');
+    expect(trackingModeFor('pull-up')).toBe('bodyweight');
+    expect(trackingModeFor('bench-press')).toBe('weight-reps');
+    expect(trackingModeFor('unknown')).toBe('weight-reps');
+  });
+
+  it('finds custom exercises in the library it is given', () => {
+    const library: Exercise[] = [
+      {
+        id: 'custom-1',
+        name: 'Sled Push',
+        muscleGroup: 'legs',
+        difficulty: 'beginner',
+        tracking: 'distance-duration',
+        instructions: [],
+        formCues: [],
+      },
+    ];
+    expect(trackingModeFor('custom-1', library)).toBe('distance-duration');
+    expect(trackingModeFor('custom-1')).toBe('weight-reps');
+  });
+
+  it('reads durations from older sets that stored seconds in reps', () => {
+    expect(setDuration({ reps: 30 })).toBe(30);
+    expect(setDuration({ reps: 0, durationSeconds: 45 })).toBe(45);
+  });
+
+  it('splits a signed bodyweight load into added weight or assistance', () => {
+    expect(fromSignedLoad(25)).toEqual({ weight: 25, assistance: undefined });
+    expect(fromSignedLoad(-40)).toEqual({ weight: undefined, assistance: 40 });
+    expect(signedLoad({ assistance: 40 })).toBe(-40);
+  });
+});
+
+describe('formatSetValues', () => {
+  it('formats each mode in its own units', () => {
+    expect(formatSetValues({ reps: 10, weight: 135 }, 'weight-reps')).toBe('10 reps @ 135 lbs');
+    expect(formatSetValues({ reps: 15 }, 'reps')).toBe('15 reps');
+    expect(formatSetValues({ reps: 0, durationSeconds: 75 }, 'duration')).toBe('1:15');
+    expect(formatSetValues({ reps: 0, distance: 2414, durationSeconds: 750 }, 'distance-duration')).toBe('1.5 mi in 12:30');
+    expect(formatSetValues({ reps: 8, weight: 25 }, 'bodyweight')).toBe('8 reps, +25 lbs');
+    expect(formatSetValues({ reps: 6, assistance: 40 }, 'bodyweight')).toBe('6 reps, 40 lbs assisted');
+    expect(formatSetValues({ reps: 12 }, 'bodyweight')).toBe('12 reps');
+  });
+
+  it('formats weights and distances in metric units', () => {
+    expect(formatSetValues({ reps: 5, weight: 220.462262185 }, 'weight-reps', 'metric')).toBe('5 reps @ 100 kg');
+    expect(formatSetValues({ reps: 0, distance: 5000, durationSeconds: 1500 }, 'distance-duration', 'metric')).toBe(
+      '5 km in 25:00'
+    );
+    expect(formatSetValues({ reps: 6, assistance: 44.092452437 }, 'bodyweight', 'metric')).toBe('6 reps, 20 kg assisted');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  displayDistance,
+  displayWeight,
+  formatWeight,
+  fromDistanceUnit,
+  fromWeightUnit,
+  metersToMiles,
+  milesToMeters,
+  roundInUnit,
+  toWeightUnit,
+} from '../../src/lib/units';
+
+describe('units', () => {
+  it('converts between miles and meters', () => {
+    expect(milesToMeters(1)).toBe(1609);
+    expect(metersToMiles(4828)).toBe(3);
+  });
+
+  it('shows distances in miles or kilometers', () => {
+    expect(displayDistance(5000, 'km')).toBe(5);
+    expect(displayDistance(4828, 'mi')).toBe(3);
+    expect(fromDistanceUnit(2.5, 'km')).toBe(2500);
+    expect(fromDistanceUnit(1, 'mi')).toBe(1609);
+  });
+
+  it('round-trips weights entered in kg exactly', () => {
+    [20, 62.5, 102.5, 142.5].forEach((kg) => {
+      expect(toWeightUnit(fromWeightUnit(kg, 'kg'), 'kg')).toBeCloseTo(kg, 10);
+      expect(displayWeight(fromWeightUnit(kg, 'kg'), 'kg')).toBe(kg);
+    });
+    expect(fromWeightUnit(135, 'lbs')).toBe(135);
+  });
+
+  it('formats stored weights in the chosen unit', () => {
+    expect(formatWeight(135, 'lbs')).toBe('135 lbs');
+    expect(formatWeight(135, 'kg')).toBe('61.23 kg');
+    expect(formatWeight(135, 'kg', 0)).toBe('61 kg');
+  });
+
+  it('snaps weights to steps in the chosen unit', () => {
+    expect(displayWeight(roundInUnit(135, 'kg', 2.5), 'kg')).toBe(60);
+    expect(roundInUnit(137, 'lbs', 5)).toBe(135);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { barbellRounding, loadRoundingFor } from '../../src/lib/equipment';
+import { describeWarmUpStep, warmUpSets } from '../../src/lib/warm-up';
+
+describe('warm-up sets', () => {
+  it('ramps from the bar to 80% of the working weight', () => {
+    expect(warmUpSets(315)).toEqual([
+      { reps: 10, weight: 45 },
+      { reps: 5, weight: 125 },
+      { reps: 3, weight: 190 },
+      { reps: 1, weight: 250 },
+    ]);
+  });
+
+  it('leaves out steps that repeat a load or reach the working weight', () => {
+    expect(warmUpSets(95)).toEqual([
+      { reps: 10, weight: 45 },
+      { reps: 3, weight: 55 },
+      { reps: 1, weight: 75 },
+    ]);
+    expect(warmUpSets(45)).toEqual([]);
+  });
+
+  it('rounds to the equipment and skips the bar step without a bar', () => {
+    expect(warmUpSets(100, undefined, barbellRounding(35, [25, 10, 5]))).toEqual([
+      { reps: 10, weight: 35 },
+      { reps: 5, weight: 45 },
+      { reps: 3, weight: 65 },
+      { reps: 1, weight: 85 },
+    ]);
+    expect(warmUpSets(60, undefined, loadRoundingFor({ exerciseId: 'dumbbell-row' }))).toEqual([
+      { reps: 5, weight: 25 },
+      { reps: 3, weight: 35 },
+      { reps: 1, weight: 50 },
+    ]);
+  });
+
+  it('follows a custom scheme', () => {
+    expect(warmUpSets(200, [{ percent: 50, reps: 8 }, { percent: 75, reps: 2 }])).toEqual([
+      { reps: 8, weight: 100 },
+      { reps: 2, weight: 150 },
+    ]);
+    expect(describeWarmUpStep({ reps: 10 })).toBe('Bar × 10');
+    expect(describeWarmUpStep({ percent: 60, reps: 3 })).toBe('60% × 3');
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CATALOG_SCOPE,
+  createFileStorage,
+  createSqliteStorage,
+  RevisionConflictError,
+  Storage,
+} from '../../server/storage';
+import {
+  CATALOG_KEY,
+  deprecateCatalogExercise,
+  readCatalog,
+  saveCatalogExercise,
+} from '../../server/exercise-catalog';
+import { EXERCISE_LIBRARY } from '@/lib/exercises';
+import type { Exercise } from '@/lib/types';
+
+const HACK_SQUAT: Exercise = {
+  id: 'hack-squat',
+  name: 'Hack Squat',
+  muscleGroup: 'legs',
+  difficulty: 'beginner',
+  equipment: 'machine',
+  instructions: [],
+  formCues: [],
+};
+
+describe.each([
+  ['file', (dir: string) => createFileStorage(dir)],
+  ['sqlite', (dir: string) => createSqliteStorage(join(dir, 'test.db'))],
+])('exercise catalog in %s storage', (_driver, create) => {
+  let dir: string;
+  let storage: Storage;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'fittrack-catalog-'));
+    storage = create(dir);
+  });
+
+  afterEach(() => {
+    storage.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('seeds the catalog from the bundled library as version 1', () => {
+    expect(readCatalog(storage)).toEqual({ version: 1, exercises: EXERCISE_LIBRARY });
+    expect(readCatalog(storage).version).toBe(1);
+  });
+
+  it('adds and replaces exercises, bumping the version', () => {
+    expect(saveCatalogExercise(storage, HACK_SQUAT, 1).version).toBe(2);
+    const renamed = saveCatalogExercise(storage, { ...HACK_SQUAT, name: 'Machine Hack Squat' });
+
+    expect(renamed.version).toBe(3);
+    expect(renamed.exercises).toHaveLength(EXERCISE_LIBRARY.length + 1);
+    expect(readCatalog(storage).exercises.at(-1)?.name).toBe('Machine Hack Squat');
+  });
+
+  it('rejects changes against a stale version', () => {
+    saveCatalogExercise(storage, HACK_SQUAT);
+
+    expect(() => saveCatalogExercise(storage, { ...HACK_SQUAT, name: 'Stale' }, 1)).toThrow(RevisionConflictError);
+    expect(() => deprecateCatalogExercise(storage, 'plank', 1)).toThrow(RevisionConflictError);
+    expect(readCatalog(storage).version).toBe(2);
+  });
+
+  it('keeps deprecated exercises in the catalog', () => {
+    const catalog = deprecateCatalogExercise(storage, 'plank');
+
+    expect(catalog?.exercises.find((e) => e.id === 'plank')).toMatchObject({ name: 'Plank', deprecated: true });
+    expect(catalog?.exercises).toHaveLength(EXERCISE_LIBRARY.length);
+    expect(deprecateCatalogExercise(storage, 'unknown')).toBeUndefined();
+  });
+
+  it('merges what the bundled library gained into a catalog stored before, keeping edits', () => {
+    // Stored before exercises had equipment, secondary muscles, movement patterns or aliases
+    const stale = EXERCISE_LIBRARY.slice(1).map(({ id, name, muscleGroup, difficulty, instructions, formCues }) => ({
+      id,
+      name: id === 'plank' ? 'Front Plank' : name,
+      muscleGroup,
+      difficulty,
+      instructions,
+      formCues,
+    }));
+    storage.setValue(CATALOG_SCOPE, CATALOG_KEY, [...stale, HACK_SQUAT]);
+
+    const catalog = readCatalog(storage);
+
+    expect(catalog.version).toBe(2);
+    expect(catalog.exercises).toHaveLength(EXERCISE_LIBRARY.length + 1);
+    expect(catalog.exercises.find((e) => e.id === 'plank')).toEqual({
+      ...EXERCISE_LIBRARY.find((e) => e.id === 'plank'),
+      name: 'Front Plank',
+    });
+    expect(catalog.exercises).toContainEqual(EXERCISE_LIBRARY[0]);
+    expect(catalog.exercises).toContainEqual(HACK_SQUAT);
+    expect(readCatalog(storage).version).toBe(2);
+  });
+
+  it('stays out of every user scope', () => {
+    readCatalog(storage);
+
+    expect(storage.listKeys('0b5a8c1e-6a77-4e0b-9d3c-2f1e5b7a9c01')).toEqual([]);
+  });
+
+  it('reads the catalog another request seeded at the same time', () => {
+    saveCatalogExercise(storage, HACK_SQUAT);
+    // As this request saw it, before the other one stored the catalog
+    vi.spyOn(storage, 'getValue').mockReturnValueOnce(undefined);
+    vi.spyOn(storage, 'getRevision').mockReturnValueOnce(0);
+
+    expect(readCatalog(storage)).toEqual({ version: 2, exercises: [...EXERCISE_LIBRARY, HACK_SQUAT] });
+  });
+
+  it('keeps catalog changes through export and import', () => {
+    saveCatalogExercise(storage, HACK_SQUAT);
+    const exported = storage.exportAll();
+
+    const sqliteTarget = createSqliteStorage(':memory:');
+    const fileTarget = createFileStorage(join(dir, 'imported'));
+    sqliteTarget.importAll(exported);
+    fileTarget.importAll(exported);
+
+    expect(readCatalog(sqliteTarget).exercises.at(-1)).toEqual(HACK_SQUAT);
+    expect(readCatalog(fileTarget).exercises.at(-1)).toEqual(HACK_SQUAT);
+    sqliteTarget.close();
+    fileTarget.close();
+  });
+});
@@ -0,0 +1,312 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createFileStorage,
+  createSqliteStorage,
+  InvalidDataError,
+  RevisionConflictError,
+  Storage,
+  StoredUser,
+  planRevisionKey,
+  sessionRevisionKey,
+} from '../../server/storage';
+import type { WorkoutSession } from '@/lib/types';
+
+const USER: StoredUser = {
+  id: '0b5a8c1e-6a77-4e0b-9d3c-2f1e5b7a9c01',
+  email: 'lifter@example.com',
+  name: 'Lifter',
+  passwordHash: 'hash',
+  createdAt: 1700000000000,
+};
+
+const SESSIONS: WorkoutSession[] = [
+  {
+    id: 'session-1',
+    planId: 'plan-1',
+    planName: 'Push Day',
+    startedAt: 1000,
+    completedAt: 2000,
+    status: 'completed',
+    exercises: [
+      {
+        exerciseId: 'bench-press',
+        exerciseName: 'Barbell Bench Press',
+        completedSets: [
+          { setNumber: 1, reps: 8, weight: 135, completedAt: 1100 },
+          { setNumber: 2, reps: 8, weight: 135, completedAt: 1200 },
+        ],
+      },
+      { exerciseId: 'push-up', exerciseName: 'Push-Up', completedSets: [] },
+    ],
+  },
+];
+
+const PLANS = [{ id: 'plan-1', name: 'Push Day', description: '', exercises: [], createdAt: 500 }];
+
+describe.each([
+  ['file', (dir: string) => createFileStorage(dir)],
+  ['sqlite', (dir: string) => createSqliteStorage(join(dir, 'test.db'))],
+])('%s storage', (_driver, create) => {
+  let dir: string;
+  let storage: Storage;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'fittrack-storage-'));
+    storage = create(dir);
+  });
+
+  afterEach(() => {
+    storage.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates and finds users by id and case-insensitive email', () => {
+    storage.createUser(USER);
+
+    expect(storage.findUserById(USER.id)).toEqual(USER);
+    expect(storage.findUserByEmail('LIFTER@example.com')).toEqual(USER);
+    expect(storage.findUserByEmail('nobody@example.com')).toBeUndefined();
+  });
+
+  it('returns undefined for keys that were never stored', () => {
+    expect(storage.getValue(USER.id, 'workout-plans')).toBeUndefined();
+    expect(storage.getValue(USER.id, 'active-session')).toBeUndefined();
+  });
+
+  it('round-trips plans, sessions and opaque values', () => {
+    storage.setValue(USER.id, 'workout-plans', PLANS);
+    storage.setValue(USER.id, 'workout-sessions', SESSIONS);
+    storage.setValue(USER.id, 'active-session', { id: 'session-2' });
+
+    expect(storage.getValue(USER.id, 'workout-plans')).toEqual(PLANS);
+    expect(storage.getValue(USER.id, 'workout-sessions')).toEqual(SESSIONS);
+    expect(storage.getValue(USER.id, 'active-session')).toEqual({ id: 'session-2' });
+    expect(storage.listKeys(USER.id).sort()).toEqual(['active-session', 'workout-plans', 'workout-sessions']);
+  });
+
+  it('scopes values per user', () => {
+    storage.setValue(USER.id, 'active-session', { id: 'mine' });
+
+    expect(storage.getValue('another-user', 'active-session')).toBeUndefined();
+    expect(storage.listKeys('another-user')).toEqual([]);
+  });
+
+  it('deletes values', () => {
+    storage.setValue(USER.id, 'workout-sessions', SESSIONS);
+    storage.deleteValue(USER.id, 'workout-sessions');
+
+    expect(storage.getValue(USER.id, 'workout-sessions')).toBeUndefined();
+  });
+
+  it('upserts, reads and deletes single plans', () => {
+    storage.savePlan(USER.id, PLANS[0]);
+    storage.savePlan(USER.id, { ...PLANS[0], id: 'plan-2' });
+    storage.savePlan(USER.id, { ...PLANS[0], name: 'Renamed' });
+
+    expect(storage.listPlans(USER.id).map((p) => [p.id, p.name])).toEqual([
+      ['plan-1', 'Renamed'],
+      ['plan-2', 'Push Day'],
+    ]);
+    expect(storage.getPlan(USER.id, 'plan-2')?.id).toBe('plan-2');
+    expect(storage.deletePlan(USER.id, 'plan-2')).toBe(true);
+    expect(storage.deletePlan(USER.id, 'plan-2')).toBe(false);
+    expect(storage.getPlan(USER.id, 'plan-2')).toBeUndefined();
+  });
+
+  it('filters sessions by status, plan and limit', () => {
+    const sessions = [1, 2, 3].map((n) => ({
+      ...SESSIONS[0],
+      id: `session-${n}`,
+      planId: n === 3 ? 'plan-2' : 'plan-1',
+      startedAt: n * 1000,
+      status: n === 1 ? ('in-progress' as const) : ('completed' as const),
+    }));
+    sessions.forEach((session) => storage.saveSession(USER.id, session));
+
+    const ids = (query: Parameters<Storage['listSessions']>[1]) =>
+      storage.listSessions(USER.id, query).map((s) => s.id);
+    expect(ids({})).toEqual(['session-1', 'session-2', 'session-3']);
+    expect(ids({ status: 'completed' })).toEqual(['session-2', 'session-3']);
+    expect(ids({ planId: 'plan-1' })).toEqual(['session-1', 'session-2']);
+    expect(ids({ limit: 2 })).toEqual(['session-2', 'session-3']);
+  });
+
+  it('appends sets to a session exercise', () => {
+    storage.saveSession(USER.id, SESSIONS[0]);
+    const set = { setNumber: 1, reps: 15, completedAt: 1300 };
+
+    const updated = storage.addSet(USER.id, 'session-1', 1, set);
+
+    expect(updated?.exercises[1].completedSets).toEqual([set]);
+    expect(storage.getSession(USER.id, 'session-1')).toEqual(updated);
+    expect(storage.getValue(USER.id, 'workout-sessions')).toEqual([updated]);
+    expect(storage.addSet(USER.id, 'missing', 0, set)).toBeUndefined();
+    expect(() => storage.addSet(USER.id, 'session-1', 5, set)).toThrow(InvalidDataError);
+  });
+
+  it('does not log a set twice when the request is retried', () => {
+    storage.saveSession(USER.id, SESSIONS[0]);
+    const set = { setNumber: 1, reps: 15, completedAt: 1300 };
+    storage.addSet(USER.id, 'session-1', 1, set);
+    const revision = storage.getRevision(USER.id, sessionRevisionKey('session-1'));
+
+    const retried = storage.addSet(USER.id, 'session-1', 1, set);
+
+    expect(retried?.exercises[1].completedSets).toEqual([set]);
+    expect(storage.getRevision(USER.id, sessionRevisionKey('session-1'))).toBe(revision);
+    expect(storage.addSet(USER.id, 'session-1', 1, { ...set, completedAt: 1400 })?.exercises[1].completedSets).toHaveLength(2);
+  });
+
+  it('deletes single sessions', () => {
+    storage.saveSession(USER.id, SESSIONS[0]);
+
+    expect(storage.deleteSession(USER.id, 'session-1')).toBe(true);
+    expect(storage.getSession(USER.id, 'session-1')).toBeUndefined();
+    expect(storage.deleteSession(USER.id, 'session-1')).toBe(false);
+  });
+
+  it('bumps revisions on write and rejects writes against a stale revision', () => {
+    expect(storage.getRevision(USER.id, 'active-session')).toBe(0);
+
+    expect(storage.setValue(USER.id, 'active-session', { id: 'a' }, 0)).toBe(1);
+    expect(storage.setValue(USER.id, 'active-session', { id: 'b' }, 1)).toBe(2);
+    expect(() => storage.setValue(USER.id, 'active-session', { id: 'c' }, 1)).toThrow(RevisionConflictError);
+    expect(() => storage.deleteValue(USER.id, 'active-session', 1)).toThrow(RevisionConflictError);
+    expect(storage.getValue(USER.id, 'active-session')).toEqual({ id: 'b' });
+
+    storage.deleteValue(USER.id, 'active-session', 2);
+    expect(storage.getRevision(USER.id, 'active-session')).toBe(3);
+  });
+
+  it('keeps revisions increasing when a deleted value is recreated', () => {
+    storage.setValue(USER.id, 'active-session', { id: 'a' });
+    storage.deleteValue(USER.id, 'active-session');
+
+    expect(() => storage.setValue(USER.id, 'active-session', { id: 'b' }, 1)).toThrow(RevisionConflictError);
+    expect(storage.setValue(USER.id, 'active-session', { id: 'b' }, 2)).toBe(3);
+
+    const planRevision = storage.savePlan(USER.id, PLANS[0]);
+    storage.deletePlan(USER.id, 'plan-1');
+    expect(() => storage.savePlan(USER.id, PLANS[0], planRevision)).toThrow(RevisionConflictError);
+    expect(storage.savePlan(USER.id, PLANS[0], planRevision + 1)).toBe(planRevision + 2);
+
+    const sessionRevision = storage.saveSession(USER.id, SESSIONS[0]);
+    storage.deleteValue(USER.id, 'workout-sessions');
+    expect(storage.getRevision(USER.id, sessionRevisionKey('session-1'))).toBe(sessionRevision + 1);
+    expect(() => storage.saveSession(USER.id, SESSIONS[0], sessionRevision)).toThrow(RevisionConflictError);
+  });
+
+  it('tracks plan and session revisions alongside their collections', () => {
+    const planRevision = storage.savePlan(USER.id, PLANS[0]);
+    const plansRevision = storage.getRevision(USER.id, 'workout-plans');
+
+    expect(() => storage.savePlan(USER.id, PLANS[0], planRevision + 1)).toThrow(RevisionConflictError);
+    expect(storage.savePlan(USER.id, { ...PLANS[0], name: 'Renamed' }, planRevision)).toBe(planRevision + 1);
+    expect(storage.getRevision(USER.id, 'workout-plans')).toBeGreaterThan(plansRevision);
+    expect(() => storage.deletePlan(USER.id, 'plan-1', planRevision)).toThrow(RevisionConflictError);
+
+    const sessionRevision = storage.saveSession(USER.id, SESSIONS[0]);
+    storage.addSet(USER.id, 'session-1', 1, { setNumber: 1, reps: 10, completedAt: 1300 });
+    expect(storage.getRevision(USER.id, sessionRevisionKey('session-1'))).toBe(sessionRevision + 1);
+    expect(() => storage.saveSession(USER.id, SESSIONS[0], sessionRevision)).toThrow(RevisionConflictError);
+  });
+
+  it('keeps the revision of a plan or session saved unchanged', () => {
+    const planRevision = storage.savePlan(USER.id, PLANS[0]);
+    const plansRevision = storage.getRevision(USER.id, 'workout-plans');
+    expect(storage.savePlan(USER.id, PLANS[0], planRevision)).toBe(planRevision);
+    expect(storage.getRevision(USER.id, 'workout-plans')).toBe(plansRevision + 1);
+    expect(storage.savePlan(USER.id, { ...PLANS[0], name: 'Renamed' }, planRevision)).toBe(planRevision + 1);
+
+    const sessionRevision = storage.saveSession(USER.id, SESSIONS[0]);
+    expect(storage.saveSession(USER.id, SESSIONS[0], sessionRevision)).toBe(sessionRevision);
+    expect(storage.getSession(USER.id, 'session-1')).toEqual(SESSIONS[0]);
+  });
+
+  it('bumps only the items that changed when a collection is replaced', () => {
+    const second = { ...PLANS[0], id: 'plan-2' };
+    storage.setValue(USER.id, 'workout-plans', [PLANS[0], second]);
+    storage.setValue(USER.id, 'workout-plans', [PLANS[0], { ...second, name: 'Pull Day' }]);
+
+    expect(storage.getRevision(USER.id, planRevisionKey('plan-1'))).toBe(1);
+    expect(storage.getRevision(USER.id, planRevisionKey('plan-2'))).toBe(2);
+
+    storage.setValue(USER.id, 'workout-plans', [PLANS[0]]);
+    expect(storage.getRevision(USER.id, planRevisionKey('plan-2'))).toBe(3);
+  });
+
+  it('exports and re-imports everything in the .data/ layout', () => {
+    storage.createUser(USER);
+    storage.setValue(USER.id, 'workout-sessions', SESSIONS);
+
+    const exported = storage.exportAll();
+    expect(exported.users).toEqual({ [USER.id]: USER });
+    expect(exported[`user-${USER.id}-workout-sessions`]).toEqual(SESSIONS);
+
+    const target = createSqliteStorage(':memory:');
+    target.importAll(exported);
+    expect(target.findUserByEmail(USER.email)).toEqual(USER);
+    expect(target.getValue(USER.id, 'workout-sessions')).toEqual(SESSIONS);
+    target.close();
+  });
+});
+
+describe('sqlite storage', () => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    storage = createSqliteStorage(':memory:');
+  });
+
+  afterEach(() => {
+    storage.close();
+  });
+
+  it('rejects malformed plans and sessions', () => {
+    expect(() => storage.setValue(USER.id, 'workout-plans', { id: 'x' })).toThrow(InvalidDataError);
+    expect(() => storage.setValue(USER.id, 'workout-sessions', [{ id: 1 }])).toThrow(InvalidDataError);
+  });
+
+  it('keeps session order and drops sessions missing from the new list', () => {
+    const second = { ...SESSIONS[0], id: 'session-2', exercises: [] };
+    storage.setValue(USER.id, 'workout-sessions', [...SESSIONS, second]);
+    storage.setValue(USER.id, 'workout-sessions', [second]);
+
+    expect(storage.getValue(USER.id, 'workout-sessions')).toEqual([second]);
+  });
+
+  it('stores new sets appended to an existing session', () => {
+    storage.setValue(USER.id, 'workout-sessions', SESSIONS);
+    const updated = structuredClone(SESSIONS);
+    updated[0].exercises[1].completedSets.push({ setNumber: 1, reps: 20, weight: 0, completedAt: 1300 });
+    storage.setValue(USER.id, 'workout-sessions', updated);
+
+    expect(storage.getValue(USER.id, 'workout-sessions')).toEqual(updated);
+  });
+});
+
+describe('file storage migration', () => {
+  it('ingests an existing .data/ directory into sqlite', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'fittrack-migrate-'));
+    const source = createFileStorage(dir);
+    source.createUser(USER);
+    source.setValue(USER.id, 'workout-plans', PLANS);
+    source.setValue(USER.id, 'active-session', null);
+
+    const dbPath = join(dir, 'fittrack.db');
+    const target = createSqliteStorage(dbPath);
+    expect(target.importAll(source.exportAll())).toBe(3);
+
+    expect(existsSync(dbPath)).toBe(true);
+    expect(target.findUserById(USER.id)).toEqual(USER);
+    expect(target.getValue(USER.id, 'workout-plans')).toEqual(PLANS);
+    expect(target.getValue(USER.id, 'active-session')).toBeNull();
+
+    source.close();
+    target.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
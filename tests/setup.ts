@@ -3,6 +3,8 @@ import { expect, afterEach, vi } from 'vitest';
 import { cleanup } from '@testing-library/react';
 import '@testing-library/jest-dom/vitest';
 import { toHaveNoViolations } from 'jest-axe';
+import type { ResourceRequest } from '@/lib/api';
+import { applyPlanRequests, applySessionRequests } from '@/lib/pending-requests';
 
 // Cleanup after each test
 afterEach(() => {
@@ -10,6 +12,17 @@ afterEach(() => {
   localStorage.clear();
 });
 
+// jsdom has no ResizeObserver; recharts' ResponsiveContainer needs one
+class ResizeObserverMock {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+vi.stubGlobal('ResizeObserver', ResizeObserverMock);
+
+// jsdom doesn't scroll; cmdk and the library scroll items into view
+Element.prototype.scrollIntoView = vi.fn();
+
 // Mock localStorage
 const localStorageMock = (() => {
   let store: Record<string, string> = {};
@@ -32,18 +45,47 @@ Object.defineProperty(window, 'localStorage', {
   value: localStorageMock,
 });
 
+// Resource endpoints are backed by the same localStorage keys as /api/data/:key
+const RESOURCE_KEYS: Record<string, string> = {
+  plans: 'workout-plans',
+  sessions: 'workout-sessions',
+};
+
 // Mock fetch for API calls with proper response structure
-global.fetch = vi.fn((url: string) => {
-  // Extract key from URL pattern /api/data/:key
-  const match = url.match(/\/api\/data\/([^/?]+)/);
-  const key = match ? match[1] : null;
-  
-  // Get value from localStorage for the key
-  const value = key ? localStorage.getItem(key) : null;
-  
-  // API expects { data: <value> } structure
-  const responseData = value ? { data: JSON.parse(value) } : { data: null };
-  
+global.fetch = vi.fn((url: string, init?: RequestInit) => {
+  let responseData: { data: unknown };
+
+  const resource = url.match(/\/api\/(plans|sessions)(?:\?(.*))?$/);
+  const write = url.match(/\/api(\/(plans|sessions)(?:\/.*)?)$/);
+  if (write && init?.method && init.method !== 'GET') {
+    // Resource writes, e.g. POST /api/sessions/:id/sets, change the stored list
+    const request = { method: init.method, path: write[1], body: init.body && JSON.parse(init.body as string) };
+    const key = RESOURCE_KEYS[write[2]];
+    const value = localStorage.getItem(key);
+    const items = value ? JSON.parse(value) : [];
+    const apply = write[2] === 'plans' ? applyPlanRequests : applySessionRequests;
+    localStorage.setItem(key, JSON.stringify(apply(items, [request as ResourceRequest])));
+    responseData = { data: null };
+  } else if (resource && (!init?.method || init.method === 'GET')) {
+    // List endpoints, e.g. GET /api/sessions?status=completed
+    const value = localStorage.getItem(RESOURCE_KEYS[resource[1]]);
+    const filters = new URLSearchParams(resource[2] || '');
+    const items: Record<string, unknown>[] = value ? JSON.parse(value) : [];
+    responseData = {
+      data: items.filter((item) => [...filters].every(([field, expected]) => field === 'limit' || item[field] === expected)),
+    };
+  } else {
+    // Extract key from URL pattern /api/data/:key
+    const match = url.match(/\/api\/data\/([^/?]+)/);
+    const key = match ? match[1] : null;
+
+    // Get value from localStorage for the key
+    const value = key ? localStorage.getItem(key) : null;
+
+    // API expects { data: <value> } structure
+    responseData = value ? { data: JSON.parse(value) } : { data: null };
+  }
+
   return Promise.resolve({
     ok: true,
     status: 200,
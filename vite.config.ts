@@ -1,6 +1,7 @@
 import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react-swc";
 import { defineConfig, PluginOption } from "vite";
+import { VitePWA } from "vite-plugin-pwa";
 
 import sparkPlugin from "@github/spark/spark-vite-plugin";
 import createIconImportProxy from "@github/spark/vitePhosphorIconProxyPlugin";
@@ -16,6 +17,32 @@ export default defineConfig({
     // DO NOT REMOVE
     createIconImportProxy() as PluginOption,
     sparkPlugin() as PluginOption,
+    // Installable app shell. EXERCISE_LIBRARY and WORKOUT_TEMPLATES are bundled
+    // into the JS chunks, so precaching the build output makes them available offline.
+    VitePWA({
+      registerType: 'prompt',
+      injectRegister: false,
+      manifest: {
+        name: 'FitTrack - Smart Workout Tracker',
+        short_name: 'FitTrack',
+        description: 'Plan workouts, log sets mid-session and track your progress',
+        theme_color: '#b56300',
+        background_color: '#fdf4e7',
+        display: 'standalone',
+        start_url: '/',
+        icons: [
+          { src: 'pwa-192x192.png', sizes: '192x192', type: 'image/png' },
+          { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png' },
+          { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+        ],
+      },
+      workbox: {
+        globPatterns: ['**/*.{js,css,html,svg,png,woff2}'],
+        navigateFallback: '/index.html',
+        // API requests always go to the network; offline writes are queued by the sync queue
+        navigateFallbackDenylist: [/^\/api\//],
+      },
+    }),
   ],
   resolve: {
     alias: {